@@ -1,30 +1,45 @@
-import { GoogleGenAI, type GenerateContentResponse } from "@google/genai";
 import * as THREE from "three";
-import type { EditOperation, SDFShapeConfig, VoxelCell } from "./types";
+import {
+  classifyProviderError,
+  isTransientProviderError,
+  LLMProviderError,
+} from "./providers/errors";
+import { resolveProviderChain, setPreferredProvider } from "./providers/registry";
+import type { LLMImage, LLMProvider } from "./providers/types";
+import type {
+  AssetEntry,
+  ConversationTurn,
+  EditOperation,
+  SDFShapeConfig,
+  SelectedPoint,
+  VoxelCell,
+} from "./types";
 
-const GEMINI_MODEL = "gemini-3-flash-preview";
-const OPENAI_RESPONSES_URL = "https://api.openai.com/v1/responses";
-const OPENAI_FALLBACK_MODEL =
-  String(import.meta.env.VITE_OPENAI_MODEL ?? "gpt-5.2").trim() || "gpt-5.2";
 const MAX_RETRIES = 1;
 const MAX_TOKENS = 4096;
 const MARKDOWN_JSON_REGEX = /```json?\s*([\s\S]*?)```/i;
+const MAX_CATALOG_ASSETS = 40;
 let pendingSecondaryScreenshotBase64: string | null = null;
-let providerPreference: "gemini" | "openai" = "gemini";
+let lastResolvedProvider: string | null = null;
+let lastRefinementTarget: string | null = null;
 
-const ACTIONS = new Set<EditOperation["action"]>([
+export const ACTIONS = new Set<EditOperation["action"]>([
   "delete",
   "recolor",
   "light",
   "darken",
   "atmosphere",
+  "place",
+  "move",
+  "duplicate",
+  "copy",
 ]);
 const BLEND_MODES = new Set<EditOperation["blendMode"]>([
   "MULTIPLY",
   "SET_RGB",
   "ADD_RGBA",
 ]);
-const SHAPE_TYPES = new Set<SDFShapeConfig["type"]>([
+export const SHAPE_TYPES = new Set<SDFShapeConfig["type"]>([
   "SPHERE",
   "BOX",
   "ELLIPSOID",
@@ -103,6 +118,30 @@ extractAsset rule:
 - For every delete action, always set extractAsset: true.
 - Also include a descriptive assetLabel.
 
+place action:
+- Puts a copy of a library asset into the scene. Only assets listed under "Asset library" in the user message exist.
+- Fields: asset (id or label from that list), position, optional yaw, optional scale. No shapes or blendMode.
+- position is the world point the asset's base rests on (e.g. the top of a table or mantel), not its center.
+- yaw is degrees around world +Y. scale multiplies the asset's listed size (default 1.0).
+
+move / duplicate actions:
+- Pick up the object inside the shapes and put it back at an offset. move hides the original; duplicate keeps it.
+- Shapes select the object exactly like a delete of it would (blendMode MULTIPLY).
+- translate is the world-space offset [dx, dy, dz]; rotate is degrees around world +Y about the object's center.
+- Include at least one non-zero translate or rotate, and a short assetLabel naming the object.
+
+copy action:
+- Copies the object inside the shapes to the clipboard so the user can paste it into this or another scene. Nothing in the scene changes.
+- Shapes select the object exactly like a delete of it would (blendMode MULTIPLY). Include a short assetLabel.
+- Use it for "copy this", "grab this for the other scene"; use duplicate when the copy should appear in this scene at an offset.
+
+Selected regions:
+- The user message may contain a "Selected region" the user drew on screen. It replaces the click point.
+- Edit that region: use its listed shapes (add opacity/color as the action needs) instead of estimating new ones.
+- You may drop listed shapes that clearly miss the object the command names, but do not move the edit elsewhere.
+- The user message may instead list several "Selected points", each with its own cluster hints. The command applies
+  to every point ("remove these three lamps"): return one operation per point, each sized from that point's hints.
+
 Geometry selection heuristics:
 - Use bounding box dimensions and color data to size and choose shapes.
 - If bounding box is taller than wide, prefer CYLINDER or ELLIPSOID over SPHERE.
@@ -116,6 +155,13 @@ Response format requirements:
 - No prose, no markdown, no explanations, no code fences.
 - Compound targets should use multiple shapes in one operation when needed.
 
+Refinements:
+- The user message may list recent edits with ids, commands, and operations.
+- If the command adjusts an active recent edit ("a bit bigger", "shift it left", "missed the top branches"),
+  return a JSON object instead: { "refines": "<edit id>", "operations": [ ...complete replacement operations... ] }.
+- The replacement operations fully replace that edit, so keep what was right and change only what was asked.
+- Otherwise ignore the recent edits list and return a JSON array as usual.
+
 Examples (command -> JSON):
 
 Example A: "Remove this tree" with click [3.2,1.0,-2.1], bbox approx width 2.2, height 3.0, depth 2.0
@@ -267,6 +313,39 @@ Example J: "Clear the road" with road center [0,0.2,5], road size approx length
       { "type": "BOX", "position": [0, 0.2, 5], "scale": [10.0, 0.25, 1.5], "opacity": 0.0 }
     ]
   }
+]
+
+Example K: "Put the butterfly on the fireplace mantel" with mantel top near [0.4,1.35,-3.1], library lists id=asset-7 label="butterfly"
+[
+  { "action": "place", "asset": "asset-7", "position": [0.4, 1.35, -3.1], "yaw": 30, "scale": 1.0 }
+]
+
+Example L: "Move this chair a meter to the left" with click [2.0,0.5,-1.0], camera looking down -Z, bbox approx 0.8x1.0x0.8
+[
+  {
+    "action": "move",
+    "blendMode": "MULTIPLY",
+    "softEdge": 0.08,
+    "assetLabel": "chair",
+    "translate": [-1.0, 0, 0],
+    "rotate": 0,
+    "shapes": [
+      { "type": "BOX", "position": [2.0, 0.5, -1.0], "scale": [0.4, 0.5, 0.4], "opacity": 0.0 }
+    ]
+  }
+]
+
+Example M: "Copy this lamp" with click [-1.2,0.9,0.4], bbox approx 0.4x1.2x0.4
+[
+  {
+    "action": "copy",
+    "blendMode": "MULTIPLY",
+    "softEdge": 0.06,
+    "assetLabel": "floor lamp",
+    "shapes": [
+      { "type": "CYLINDER", "position": [-1.2, 0.9, 0.4], "scale": [0.2, 0.6, 0.2], "opacity": 0.0 }
+    ]
+  }
 ]`;
 
 export function buildClickContext(
@@ -328,174 +407,201 @@ export function buildClickContext(
   return lines.join("\n");
 }
 
+// One line per library asset so the agent can reference it in a `place` action.
+export function buildAssetCatalog(assets: readonly AssetEntry[]): string {
+  const size = new THREE.Vector3();
+  const lines = assets.slice(0, MAX_CATALOG_ASSETS).map((asset) => {
+    asset.bounds.getSize(size);
+    return `- id=${asset.id} label="${asset.label}" size=${formatVec3(size)} splats=${asset.splatCount}`;
+  });
+  if (assets.length > MAX_CATALOG_ASSETS) {
+    lines.push(`- ...and ${assets.length - MAX_CATALOG_ASSETS} more not listed`);
+  }
+  return lines.join("\n");
+}
+
+// Explicit selections that replace the single click point.
+export interface CommandSelection {
+  /** `formatRegionSelection()` text for a drawn lasso or rectangle. */
+  region?: string | null;
+  /** Every member of a multi-click selection set, in click order. */
+  points?: readonly SelectedPoint[];
+}
+
 export async function processCommand(
   command: string,
   clickPosition: THREE.Vector3 | null,
   voxelContext: string | null,
   manifestSummary: string | null,
   screenshotBase64: string | null,
-  apiKey: string
+  apiKey: string,
+  conversation: readonly ConversationTurn[] = [],
+  assets: readonly AssetEntry[] = [],
+  selection: CommandSelection = {}
 ): Promise<EditOperation[]> {
   const trimmedCommand = command.trim();
   if (!trimmedCommand) {
     throw new Error("[agent] ERROR: command is empty");
   }
-  const geminiApiKey = apiKey.trim();
-  const openAIApiKey = readOpenAIApiKey();
-  if (!geminiApiKey && !openAIApiKey) {
-    throw new Error("[agent] ERROR: missing Gemini/OpenAI API key");
+  const providers = resolveProviderChain({
+    apiKeys: { gemini: apiKey.trim() || undefined },
+  });
+  if (providers.length === 0) {
+    throw new Error("[agent] ERROR: no LLM provider configured (missing API keys)");
   }
 
   const secondaryScreenshotBase64 = pendingSecondaryScreenshotBase64;
   pendingSecondaryScreenshotBase64 = null;
+  lastResolvedProvider = null;
+  lastRefinementTarget = null;
   console.log(
-    `[agent] processCommand start command="${trimmedCommand}" click=${clickPosition ? formatVec3(clickPosition) : "null"} voxelChars=${voxelContext?.length ?? 0} manifestChars=${manifestSummary?.length ?? 0} screenshotBytes=${screenshotBase64?.length ?? 0} secondaryScreenshotBytes=${secondaryScreenshotBase64?.length ?? 0} geminiKey=${Boolean(geminiApiKey)} openaiKey=${Boolean(openAIApiKey)}`
+    `[agent] processCommand start command="${trimmedCommand}" click=${clickPosition ? formatVec3(clickPosition) : "null"} voxelChars=${voxelContext?.length ?? 0} manifestChars=${manifestSummary?.length ?? 0} screenshotBytes=${screenshotBase64?.length ?? 0} secondaryScreenshotBytes=${secondaryScreenshotBase64?.length ?? 0} turns=${conversation.length} assets=${assets.length} selectionChars=${selection.region?.length ?? 0} selectedPoints=${selection.points?.length ?? 0} providers=${providers.map((provider) => provider.name).join(",")}`
   );
 
-  let lastError: Error | null = null;
-
-  const preferOpenAI = providerPreference === "openai";
-  if (geminiApiKey && !preferOpenAI) {
-    const ai = new GoogleGenAI({ apiKey: geminiApiKey });
-    for (let attempt = 0; attempt <= MAX_RETRIES; attempt += 1) {
-      const retrying = attempt > 0;
-      try {
-        const userText = buildUserText(
-          trimmedCommand,
-          clickPosition,
-          voxelContext,
-          manifestSummary,
-          retrying,
-          Boolean(secondaryScreenshotBase64)
-        );
-        const contents = buildContents(
-          userText,
-          screenshotBase64,
-          secondaryScreenshotBase64
-        );
-        const imageParts =
-          contents[0]?.parts.filter((part) => "inlineData" in part).length ?? 0;
-        console.log(
-          `[agent] Gemini request attempt=${attempt + 1}/${MAX_RETRIES + 1} model=${GEMINI_MODEL} imageParts=${imageParts} promptChars=${userText.length}`
+  let lastError: LLMProviderError | null = null;
+  for (const [index, provider] of providers.entries()) {
+    if (index > 0) {
+      if (!lastError || !isTransientProviderError(lastError)) {
+        console.warn(
+          `[agent] Fallback to ${provider.name} skipped: non-transient ${lastError?.provider ?? "provider"} failure (${lastError?.kind ?? "unknown"})`
         );
+        break;
+      }
+      console.warn(
+        `[agent] Falling back to ${provider.name} model=${provider.model} after ${lastError.provider} failure (${lastError.kind}${lastError.status !== null ? ` ${lastError.status}` : ""})`
+      );
+    }
 
-        const response = await ai.models.generateContent({
-          model: GEMINI_MODEL,
-          contents,
-          config: {
-            temperature: 0,
-            maxOutputTokens: MAX_TOKENS,
-            systemInstruction: SYSTEM_PROMPT,
-          },
-        });
-        console.log(
-          `[agent] Gemini response received candidates=${response.candidates?.length ?? 0} textChars=${response.text?.length ?? 0}`
-        );
+    try {
+      const result = await requestOperations(provider, {
+        command: trimmedCommand,
+        clickPosition,
+        voxelContext,
+        manifestSummary,
+        screenshotBase64,
+        secondaryScreenshotBase64,
+        conversation,
+        assets,
+        selection,
+      });
+      lastResolvedProvider = provider.name;
+      lastRefinementTarget = result.refines;
+      return result.operations;
+    } catch (error) {
+      lastError = classifyProviderError(provider.name, error);
+      console.error(
+        `[agent] ${provider.label} failed after retries kind=${lastError.kind}: ${lastError.message}`
+      );
+    }
+  }
 
-        const text = extractTextFromGeminiResponse(response);
-        console.log(`[agent] Extracted response text chars=${text.length}`);
-        const operations = parseAndValidateOperations(text, trimmedCommand);
+  throw lastError ?? new Error("[agent] ERROR: unknown processing failure");
+}
 
-        console.log(`[agent] Command: "${trimmedCommand}" → ${operations.length} operations`);
-        return operations;
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        lastError = new Error(message);
+type CommandPromptInput = {
+  command: string;
+  clickPosition: THREE.Vector3 | null;
+  voxelContext: string | null;
+  manifestSummary: string | null;
+  screenshotBase64: string | null;
+  secondaryScreenshotBase64: string | null;
+  conversation: readonly ConversationTurn[];
+  assets: readonly AssetEntry[];
+  selection: CommandSelection;
+};
 
-        if (attempt < MAX_RETRIES) {
-          console.warn(
-            `[agent] Retry ${attempt + 1}/${MAX_RETRIES} for command "${trimmedCommand}" due to: ${message}`
-          );
-          continue;
-        }
+type ParsedCommandResponse = {
+  operations: EditOperation[];
+  refines: string | null;
+};
 
-        console.error(`[agent] Gemini error after retries: ${message}`);
-      }
-    }
-  } else {
-    console.warn("[agent] Gemini key missing; skipping Gemini and using OpenAI fallback");
-  }
+async function requestOperations(
+  provider: LLMProvider,
+  input: CommandPromptInput
+): Promise<ParsedCommandResponse> {
+  const images = collectImages(
+    provider,
+    input.screenshotBase64,
+    input.secondaryScreenshotBase64
+  );
 
-  const shouldFallback = shouldUseOpenAIFallback(geminiApiKey, lastError);
-  if (openAIApiKey && (preferOpenAI || shouldFallback)) {
-    console.warn(
-      preferOpenAI
-        ? `[agent] Using OpenAI by preference model=${OPENAI_FALLBACK_MODEL}`
-        : `[agent] Falling back to OpenAI model=${OPENAI_FALLBACK_MODEL} after Gemini failure`
-    );
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt += 1) {
+    const retrying = attempt > 0;
     try {
       const userText = buildUserText(
-        trimmedCommand,
-        clickPosition,
-        voxelContext,
-        manifestSummary,
-        false,
-        Boolean(secondaryScreenshotBase64)
+        input.command,
+        input.clickPosition,
+        input.voxelContext,
+        input.manifestSummary,
+        retrying,
+        images.length > 1,
+        input.conversation,
+        input.assets,
+        input.selection
       );
-      const text = await requestOpenAIText(
-        openAIApiKey,
-        userText,
-        screenshotBase64,
-        secondaryScreenshotBase64
+      console.log(
+        `[agent] ${provider.label} attempt=${attempt + 1}/${MAX_RETRIES + 1} model=${provider.model}`
       );
-      const operations = parseAndValidateOperations(text, trimmedCommand);
+      const response = await provider.generate({
+        systemPrompt: SYSTEM_PROMPT,
+        userText,
+        images,
+        temperature: 0,
+        maxOutputTokens: MAX_TOKENS,
+      });
+      console.log(`[agent] Extracted response text chars=${response.text.length}`);
+
+      let parsed: ParsedCommandResponse;
+      try {
+        parsed = parseAndValidateOperations(response.text, input.command, input.assets);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new LLMProviderError(provider.name, "invalid_response", message);
+      }
+      const refines = resolveRefinementTarget(parsed.refines, input.conversation);
 
       console.log(
-        `[agent] Command: "${trimmedCommand}" → ${operations.length} operations (OpenAI fallback)`
+        `[agent] Command: "${input.command}" → ${parsed.operations.length} operations (${provider.name})${refines ? ` refining ${refines}` : ""}`
       );
-      return operations;
+      return { operations: parsed.operations, refines };
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      lastError = new Error(message);
-      console.error(`[agent] OpenAI fallback failed: ${message}`);
+      const classified = classifyProviderError(provider.name, error);
+      const retryable = classified.kind !== "auth" && classified.kind !== "bad_request";
+      if (retryable && attempt < MAX_RETRIES) {
+        console.warn(
+          `[agent] Retry ${attempt + 1}/${MAX_RETRIES} for command "${input.command}" due to ${classified.kind}: ${classified.message}`
+        );
+        continue;
+      }
+      throw classified;
     }
-  } else if (openAIApiKey && geminiApiKey && lastError && !preferOpenAI) {
-    console.warn(
-      `[agent] OpenAI fallback skipped: non-transient Gemini failure (${lastError.message})`
-    );
   }
 
-  throw lastError ?? new Error("[agent] ERROR: unknown processing failure");
+  throw new LLMProviderError(provider.name, "unknown", "[agent] ERROR: retries exhausted");
 }
 
-function buildContents(
-  userText: string,
+function collectImages(
+  provider: LLMProvider,
   screenshotBase64: string | null,
   secondaryScreenshotBase64: string | null
-): Array<{
-  role: "user";
-  parts: Array<
-    | { text: string }
-    | { inlineData: { mimeType: "image/png"; data: string } }
-  >;
-}> {
-  const parts: Array<
-    | { text: string }
-    | { inlineData: { mimeType: "image/png"; data: string } }
-  > = [];
-  const normalizedImage = normalizeScreenshotBase64(screenshotBase64);
-  if (normalizedImage) {
-    parts.push({
-      inlineData: {
-        mimeType: "image/png",
-        data: normalizedImage,
-      },
-    });
-  }
-  const normalizedSecondaryImage = normalizeScreenshotBase64(secondaryScreenshotBase64);
-  if (normalizedSecondaryImage) {
-    parts.push({
-      inlineData: {
-        mimeType: "image/png",
-        data: normalizedSecondaryImage,
-      },
-    });
+): LLMImage[] {
+  if (!provider.capabilities.vision) {
+    console.log(`[agent] ${provider.label} has no vision capability; sending text only`);
+    return [];
+  }
+
+  const images: LLMImage[] = [];
+  for (const candidate of [screenshotBase64, secondaryScreenshotBase64]) {
+    const normalized = normalizeScreenshotBase64(candidate);
+    if (normalized) {
+      images.push({ mimeType: "image/png", base64: normalized });
+    }
   }
+  const limited = images.slice(0, provider.capabilities.maxImages);
   console.log(
-    `[agent] buildContents primaryImageIncluded=${Boolean(normalizedImage)} primaryImageBytes=${normalizedImage?.length ?? 0} secondaryImageIncluded=${Boolean(normalizedSecondaryImage)} secondaryImageBytes=${normalizedSecondaryImage?.length ?? 0}`
+    `[agent] collectImages provider=${provider.name} included=${limited.length}/${images.length} bytes=${limited.map((image) => image.base64.length).join(",") || 0}`
   );
-  parts.push({ text: userText });
-  return [{ role: "user", parts }];
+  return limited;
 }
 
 function buildUserText(
@@ -504,7 +610,10 @@ function buildUserText(
   voxelContext: string | null,
   manifestSummary: string | null,
   simplifyForRetry: boolean,
-  hasSecondaryImage: boolean
+  hasSecondaryImage: boolean,
+  conversation: readonly ConversationTurn[] = [],
+  assets: readonly AssetEntry[] = [],
+  selection: CommandSelection = {}
 ): string {
   const lines: string[] = [];
 
@@ -514,6 +623,23 @@ function buildUserText(
     lines.push("");
   }
 
+  if (selection.region?.trim()) {
+    lines.push(selection.region.trim());
+    lines.push("");
+  }
+
+  const points = selection.points ?? [];
+  if (points.length > 0) {
+    lines.push(
+      `Selected points (${points.length}; the command applies to every one of them, one operation per point):`
+    );
+    for (const [index, point] of points.entries()) {
+      lines.push(`Point ${index + 1} world position: ${formatVec3(point.position)}`);
+      lines.push(point.hint?.trim() || "Selection hints: none (no confident cluster at this point).");
+    }
+    lines.push("");
+  }
+
   if (clickPosition) {
     lines.push(`Click world position: ${formatVec3(clickPosition)}`);
     if (voxelContext?.trim()) {
@@ -529,9 +655,30 @@ function buildUserText(
     lines.push("");
   }
 
+  if (conversation.length > 0) {
+    lines.push("Recent edits (oldest first):");
+    for (const turn of conversation) {
+      lines.push(
+        `- id=${turn.entryId} status=${turn.active ? "active" : "inactive"} command="${turn.command}" operations=${JSON.stringify(turn.operations)}`
+      );
+    }
+    lines.push("");
+  }
+
+  if (assets.length > 0) {
+    lines.push("Asset library (use with place actions):");
+    lines.push(buildAssetCatalog(assets));
+    lines.push("");
+  }
+
   lines.push("Output requirements:");
   lines.push("- Return only a valid JSON array of EditOperation objects.");
   lines.push("- No markdown, no prose.");
+  if (conversation.some((turn) => turn.active)) {
+    lines.push(
+      '- If the command refines an active recent edit, return {"refines": "<id>", "operations": [...]} with the full replacement operations instead.'
+    );
+  }
   if (hasSecondaryImage) {
     lines.push(
       "- The second image is a click-centered crop around the selected target. Prefer it for local object boundaries."
@@ -557,192 +704,25 @@ export function setSecondaryScreenshotForNextCommand(
   );
 }
 
-export function setProviderPreference(preference: "gemini" | "openai"): void {
-  providerPreference = preference;
-  console.log(`[agent] Provider preference set to ${providerPreference}`);
+export function setProviderPreference(preference: string): void {
+  setPreferredProvider(preference);
+  console.log(`[agent] Provider preference set to ${preference}`);
 }
 
-async function requestOpenAIText(
-  apiKey: string,
-  userText: string,
-  screenshotBase64: string | null,
-  secondaryScreenshotBase64: string | null
-): Promise<string> {
-  const content: Array<
-    | { type: "input_text"; text: string }
-    | { type: "input_image"; image_url: string }
-  > = [];
-
-  const normalizedImage = normalizeScreenshotBase64(screenshotBase64);
-  if (normalizedImage) {
-    content.push({
-      type: "input_image",
-      image_url: `data:image/png;base64,${normalizedImage}`,
-    });
-  }
-
-  const normalizedSecondaryImage = normalizeScreenshotBase64(secondaryScreenshotBase64);
-  if (normalizedSecondaryImage) {
-    content.push({
-      type: "input_image",
-      image_url: `data:image/png;base64,${normalizedSecondaryImage}`,
-    });
-  }
-
-  content.push({
-    type: "input_text",
-    text: userText,
-  });
-
-  const imageParts = content.filter((item) => item.type === "input_image").length;
-  console.log(
-    `[agent] OpenAI request model=${OPENAI_FALLBACK_MODEL} imageParts=${imageParts} promptChars=${userText.length}`
-  );
-
-  const response = await fetch(OPENAI_RESPONSES_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: OPENAI_FALLBACK_MODEL,
-      instructions: SYSTEM_PROMPT,
-      temperature: 0,
-      max_output_tokens: MAX_TOKENS,
-      input: [
-        {
-          role: "user",
-          content,
-        },
-      ],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await extractOpenAIError(response);
-    throw new Error(
-      `OpenAI request failed (${response.status} ${response.statusText}): ${errorText}`
-    );
-  }
-
-  const payload = (await response.json()) as OpenAIResponsePayload;
-  const text = extractTextFromOpenAIResponse(payload);
-  console.log(`[agent] OpenAI response text chars=${text.length}`);
-  return text;
+export function getLastResolvedProvider(): string | null {
+  return lastResolvedProvider;
 }
 
-function extractTextFromOpenAIResponse(payload: OpenAIResponsePayload): string {
-  if (typeof payload.output_text === "string" && payload.output_text.trim()) {
-    return payload.output_text.trim();
-  }
-
-  const textParts: string[] = [];
-  for (const item of payload.output ?? []) {
-    if (!item || item.type !== "message" || !Array.isArray(item.content)) {
-      continue;
-    }
-
-    for (const part of item.content) {
-      if (
-        (part.type === "output_text" || part.type === "text") &&
-        typeof part.text === "string" &&
-        part.text.trim()
-      ) {
-        textParts.push(part.text.trim());
-      }
-    }
-  }
-
-  const joined = textParts.join("\n").trim();
-  if (!joined) {
-    throw new Error("OpenAI response contained no text content.");
-  }
-  return joined;
-}
-
-async function extractOpenAIError(response: Response): Promise<string> {
-  const raw = await response.text();
-  if (!raw) {
-    return "No error body";
-  }
-  try {
-    const parsed = JSON.parse(raw) as {
-      error?: { message?: string; code?: string; type?: string };
-    };
-    if (typeof parsed.error?.message === "string" && parsed.error.message.trim()) {
-      return parsed.error.message.trim();
-    }
-  } catch {
-    // Use raw text if JSON parse fails.
-  }
-  return raw.slice(0, 400);
-}
-
-function readOpenAIApiKey(): string {
-  return String(import.meta.env.VITE_OPENAI_API_KEY ?? "").trim();
-}
-
-function shouldUseOpenAIFallback(
-  geminiApiKey: string,
-  lastError: Error | null
-): boolean {
-  if (!geminiApiKey) {
-    return true;
-  }
-  if (!lastError) {
-    return false;
-  }
-
-  const message = lastError.message.toLowerCase();
-  return (
-    message.includes("503") ||
-    message.includes("status\":\"unavailable\"") ||
-    message.includes("high demand") ||
-    message.includes("429") ||
-    message.includes("rate limit") ||
-    message.includes("timeout") ||
-    message.includes("network") ||
-    message.includes("fetch failed")
-  );
-}
-
-type OpenAIResponsePayload = {
-  output_text?: string;
-  output?: Array<{
-    type?: string;
-    content?: Array<{ type?: string; text?: string }>;
-  }>;
-};
-
-function extractTextFromGeminiResponse(payload: GenerateContentResponse): string {
-  if (typeof payload.text === "string" && payload.text.trim()) {
-    console.log("[agent] extractTextFromGeminiResponse using payload.text");
-    return payload.text.trim();
-  }
-
-  console.log("[agent] extractTextFromGeminiResponse falling back to candidate parts");
-  const candidateTexts: string[] = [];
-  for (const candidate of payload.candidates ?? []) {
-    for (const part of candidate.content?.parts ?? []) {
-      if (typeof part.text === "string" && part.text.trim()) {
-        candidateTexts.push(part.text.trim());
-      }
-    }
-  }
-
-  const joined = candidateTexts.join("\n").trim();
-  if (!joined) {
-    throw new Error("Gemini response contained no text content.");
-  }
-
-  return joined;
+// Active history entry the last command refines, or null for a new edit.
+export function getLastRefinementTarget(): string | null {
+  return lastRefinementTarget;
 }
 
 function parseAndValidateOperations(
   responseText: string,
-  command: string
-): EditOperation[] {
+  command: string,
+  assets: readonly AssetEntry[]
+): ParsedCommandResponse {
   const candidates: string[] = [];
   const trimmed = responseText.trim();
   if (trimmed) {
@@ -763,7 +743,16 @@ function parseAndValidateOperations(
     try {
       console.log(`[agent] Attempting JSON parse candidateChars=${candidate.length}`);
       const parsed = JSON.parse(candidate) as unknown;
-      return validateOperations(parsed, command);
+      if (isRecord(parsed) && !Array.isArray(parsed) && "operations" in parsed) {
+        return {
+          operations: validateOperations(parsed.operations, command, assets),
+          refines:
+            typeof parsed.refines === "string" && parsed.refines.trim()
+              ? parsed.refines.trim()
+              : null,
+        };
+      }
+      return { operations: validateOperations(parsed, command, assets), refines: null };
     } catch (error) {
       lastParseError =
         error instanceof Error ? error : new Error(String(error));
@@ -772,23 +761,45 @@ function parseAndValidateOperations(
   }
 
   throw new Error(
-    `Unable to parse Gemini JSON response. ${lastParseError?.message ?? "No parse attempts succeeded."}`
+    `Unable to parse model JSON response. ${lastParseError?.message ?? "No parse attempts succeeded."}`
   );
 }
 
-function validateOperations(raw: unknown, command: string): EditOperation[] {
+function resolveRefinementTarget(
+  refines: string | null,
+  conversation: readonly ConversationTurn[]
+): string | null {
+  if (!refines) {
+    return null;
+  }
+  const turn = conversation.find((candidate) => candidate.entryId === refines);
+  if (!turn?.active) {
+    console.warn(`[agent] Ignoring refinement of unknown or inactive edit id=${refines}`);
+    return null;
+  }
+  return refines;
+}
+
+// `assets` is the library the agent was shown; `place` operations must name
+// one of them.
+export function validateOperations(
+  raw: unknown,
+  command: string,
+  assets: readonly AssetEntry[] = []
+): EditOperation[] {
   if (!Array.isArray(raw)) {
-    throw new Error("Gemini output is not a JSON array.");
+    throw new Error("Model output is not a JSON array.");
   }
   console.log(`[agent] Validating ${raw.length} operation(s)`);
 
-  return raw.map((entry, index) => validateOperation(entry, index, command));
+  return raw.map((entry, index) => validateOperation(entry, index, command, assets));
 }
 
 function validateOperation(
   raw: unknown,
   index: number,
-  command: string
+  command: string,
+  assets: readonly AssetEntry[]
 ): EditOperation {
   if (!isRecord(raw)) {
     throw new Error(`Operation ${index} is not an object.`);
@@ -798,6 +809,9 @@ function validateOperation(
   if (typeof action !== "string" || !ACTIONS.has(action as EditOperation["action"])) {
     throw new Error(`Operation ${index} has invalid action.`);
   }
+  if (action === "place") {
+    return validatePlaceOperation(raw, index, assets);
+  }
 
   const blendMode = raw.blendMode;
   if (
@@ -842,7 +856,26 @@ function validateOperation(
   normalized.sdfSmooth = clampOptionalNumber(raw.sdfSmooth, 0, 10);
   normalized.invert = typeof raw.invert === "boolean" ? raw.invert : undefined;
 
-  if (normalized.action === "delete") {
+  if (normalized.action === "move" || normalized.action === "duplicate") {
+    normalized.invert = false;
+    for (const shape of normalized.shapes) {
+      shape.opacity = 0;
+    }
+    const translate = toNumberTuple(raw.translate, 3) ?? [0, 0, 0];
+    const rotate = typeof raw.rotate === "number" && Number.isFinite(raw.rotate) ? raw.rotate % 360 : 0;
+    if (translate.every((value) => value === 0) && rotate === 0) {
+      throw new Error(`Operation ${index} ${normalized.action} needs a non-zero translate or rotate.`);
+    }
+    normalized.translate = translate as [number, number, number];
+    normalized.rotate = rotate;
+    normalized.assetLabel = getDeleteAssetLabel(raw.assetLabel, command);
+  } else if (normalized.action === "copy") {
+    normalized.invert = false;
+    for (const shape of normalized.shapes) {
+      shape.opacity = 0;
+    }
+    normalized.assetLabel = getDeleteAssetLabel(raw.assetLabel, command);
+  } else if (normalized.action === "delete") {
     normalized.invert = false;
     for (const shape of normalized.shapes) {
       shape.opacity = 0;
@@ -861,6 +894,57 @@ function validateOperation(
   return normalized;
 }
 
+function validatePlaceOperation(
+  raw: Record<string, unknown>,
+  index: number,
+  assets: readonly AssetEntry[]
+): EditOperation {
+  const reference = typeof raw.asset === "string" ? raw.asset.trim() : "";
+  if (!reference) {
+    throw new Error(`Operation ${index} place action is missing an asset reference.`);
+  }
+  const asset = resolveAssetReference(reference, assets);
+  if (!asset) {
+    throw new Error(`Operation ${index} references unknown asset "${reference}".`);
+  }
+
+  const position = toNumberTuple(raw.position, 3);
+  if (!position) {
+    throw new Error(`Operation ${index} place action has invalid position.`);
+  }
+  const yaw = typeof raw.yaw === "number" && Number.isFinite(raw.yaw) ? raw.yaw % 360 : 0;
+  const scale = clampNumber(raw.scale, 0.05, 20, 1);
+  console.log(
+    `[agent] validateOperation #${index + 1}: action=place asset=${asset.id} yaw=${yaw.toFixed(1)} scale=${scale.toFixed(2)}`
+  );
+
+  // No SDF edit is built for a placement; blendMode only satisfies the type.
+  return {
+    action: "place",
+    blendMode: "MULTIPLY",
+    shapes: [],
+    assetLabel: asset.label,
+    placement: {
+      assetId: asset.id,
+      position: position as [number, number, number],
+      yaw,
+      scale,
+    },
+  };
+}
+
+// Ids win over labels; labels match case-insensitively.
+function resolveAssetReference(
+  reference: string,
+  assets: readonly AssetEntry[]
+): AssetEntry | undefined {
+  const label = reference.toLowerCase();
+  return (
+    assets.find((asset) => asset.id === reference) ??
+    assets.find((asset) => asset.label.trim().toLowerCase() === label)
+  );
+}
+
 function validateShape(
   raw: unknown,
   opIndex: number,
@@ -988,7 +1072,7 @@ function canonicalBlendModeForAction(
   action: EditOperation["action"],
   requestedBlendMode: EditOperation["blendMode"]
 ): EditOperation["blendMode"] {
-  if (action === "delete") {
+  if (action === "delete" || action === "move" || action === "duplicate" || action === "copy") {
     return "MULTIPLY";
   }
   if (action === "recolor") {
@@ -0,0 +1,285 @@
+import * as THREE from "three";
+import { TransformControls } from "three/examples/jsm/controls/TransformControls.js";
+import { getPlacedAsset, listPlacedAssets, onPlacedAssetsChange } from "./asset-library";
+import { onEditHistoryChange } from "./executor";
+import type { GizmoMode } from "./shape-gizmo";
+import {
+  applyPlacedAssetTransform,
+  readPlacedAssetTransform,
+  removePlacedAsset,
+  transformPlacedAsset,
+  type PlacedAssetTransform,
+} from "./placement";
+import type { PlacedAssetInstance } from "./types";
+import type { ViewerContext } from "./viewer";
+
+interface AssetSelection {
+  instance: PlacedAssetInstance;
+  original: PlacedAssetTransform;
+}
+
+const SELECTION_COLOR = 0x00e5ff;
+const MIN_SCALE = 1e-3;
+
+let context: ViewerContext | null = null;
+let transformControls: TransformControls | null = null;
+let outline: THREE.Group | null = null;
+let outlineBox: THREE.Box3Helper | null = null;
+let selection: AssetSelection | null = null;
+let pickingEnabled = true;
+let suppressNextClick = false;
+const raycaster = new THREE.Raycaster();
+const pointer = new THREE.Vector2();
+
+/**
+ * Click-to-select gizmo for placed assets. The TransformControls drive the
+ * mesh directly; on release the drag is rolled back and re-applied through
+ * `transformPlacedAsset` so it lands in the edit history as one step.
+ */
+export function initAssetGizmo(ctx: ViewerContext): void {
+  if (context) {
+    console.log("[asset-gizmo] initAssetGizmo skipped (already initialized)");
+    return;
+  }
+  context = ctx;
+
+  outlineBox = new THREE.Box3Helper(new THREE.Box3(), SELECTION_COLOR);
+  const material = outlineBox.material as THREE.LineBasicMaterial;
+  material.depthTest = false;
+  material.transparent = true;
+  outlineBox.renderOrder = 1000;
+  outline = new THREE.Group();
+  outline.name = "asset-gizmo-outline";
+  outline.matrixAutoUpdate = false;
+  outline.visible = false;
+  outline.add(outlineBox);
+  ctx.scene.add(outline);
+
+  transformControls = new TransformControls(ctx.camera, ctx.canvas);
+  transformControls.setSize(0.8);
+  transformControls.addEventListener("dragging-changed", (event) => {
+    ctx.controls.enabled = !event.value;
+    if (event.value) {
+      suppressNextClick = true;
+    }
+  });
+  transformControls.addEventListener("objectChange", () => {
+    enforceUniformScale();
+    updateOutline();
+  });
+  transformControls.addEventListener("mouseUp", () => {
+    commitSelection();
+  });
+  ctx.scene.add(transformControls.getHelper());
+  transformControls.getHelper().visible = false;
+
+  // Capture phase so a consumed click never reaches the splat raycast.
+  ctx.canvas.addEventListener("click", onCanvasClick, true);
+  window.addEventListener("keydown", onKeyDown);
+  onEditHistoryChange(refreshSelection);
+  onPlacedAssetsChange(refreshSelection);
+
+  console.log(
+    "[asset-gizmo] Placed-asset gizmo ready: click to select, 1/2/3 translate/rotate/scale, Delete removes, Esc deselects"
+  );
+}
+
+/** Off while an asset is armed for placement, so clicks place instead of select. */
+export function setAssetPickingEnabled(next: boolean): void {
+  pickingEnabled = next;
+  if (!next) {
+    deselectPlacedAsset();
+  }
+}
+
+export function getSelectedPlacedAsset(): PlacedAssetInstance | null {
+  return selection?.instance ?? null;
+}
+
+export function selectPlacedAsset(id: string): boolean {
+  const instance = getPlacedAsset(id);
+  if (!instance || !transformControls) {
+    return false;
+  }
+  selection = { instance, original: readPlacedAssetTransform(instance.mesh) };
+  if (outlineBox) {
+    outlineBox.box.copy(instance.localBounds);
+  }
+  transformControls.attach(instance.mesh);
+  transformControls.getHelper().visible = true;
+  updateOutline();
+  console.log(`[asset-gizmo] Selected id=${instance.id} label="${instance.label}"`);
+  return true;
+}
+
+export function deselectPlacedAsset(): void {
+  selection = null;
+  transformControls?.detach();
+  if (transformControls) {
+    transformControls.getHelper().visible = false;
+  }
+  if (outline) {
+    outline.visible = false;
+  }
+}
+
+export function setAssetGizmoMode(mode: GizmoMode): void {
+  if (!transformControls) {
+    return;
+  }
+  transformControls.setMode(mode);
+  console.log(`[asset-gizmo] Mode set to ${mode}`);
+}
+
+/**
+ * Nearest placed instance whose oriented bounds the ray passes through.
+ * Boxes rather than splats: Spark's splat raycast is too slow to run against
+ * every placed copy on each click.
+ */
+export function pickPlacedAsset(
+  ray: THREE.Ray,
+  instances: readonly PlacedAssetInstance[]
+): PlacedAssetInstance | null {
+  let best: PlacedAssetInstance | null = null;
+  let bestDistance = Infinity;
+  const inverse = new THREE.Matrix4();
+  const localRay = new THREE.Ray();
+  const hit = new THREE.Vector3();
+  for (const instance of instances) {
+    const { mesh } = instance;
+    mesh.updateMatrixWorld(true);
+    localRay.copy(ray).applyMatrix4(inverse.copy(mesh.matrixWorld).invert());
+    if (!localRay.intersectBox(instance.localBounds, hit)) {
+      continue;
+    }
+    const distance = hit.applyMatrix4(mesh.matrixWorld).distanceTo(ray.origin);
+    if (distance < bestDistance) {
+      best = instance;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * SplatMesh averages non-uniform scales, so a single-axis scale drag is
+ * turned into a uniform one: the axis that moved furthest from `start` wins.
+ */
+export function uniformScaleFrom(start: number, scale: THREE.Vector3): number {
+  const candidates = [scale.x, scale.y, scale.z];
+  let best = start;
+  for (const value of candidates) {
+    if (Math.abs(value - start) > Math.abs(best - start)) {
+      best = value;
+    }
+  }
+  return Math.max(Math.abs(best), MIN_SCALE);
+}
+
+function enforceUniformScale(): void {
+  if (!selection || transformControls?.mode !== "scale") {
+    return;
+  }
+  const { mesh } = selection.instance;
+  mesh.scale.setScalar(uniformScaleFrom(selection.original.scale, mesh.scale));
+}
+
+function updateOutline(): void {
+  if (!outline) {
+    return;
+  }
+  if (!selection) {
+    outline.visible = false;
+    return;
+  }
+  const { mesh } = selection.instance;
+  mesh.updateMatrixWorld(true);
+  outline.matrix.copy(mesh.matrixWorld);
+  outline.matrixWorldNeedsUpdate = true;
+  outline.visible = true;
+}
+
+// One drag = one history entry: restore the original transform so undo
+// returns to it, then apply the final one through the placement history.
+function commitSelection(): void {
+  if (!selection) {
+    return;
+  }
+  const { instance, original } = selection;
+  const next = readPlacedAssetTransform(instance.mesh);
+  applyPlacedAssetTransform(instance.mesh, original);
+  if (transformPlacedAsset(instance.id, next, { provider: "gizmo" })) {
+    selection = { instance, original: next };
+  }
+  updateOutline();
+}
+
+// Undo/redo may have moved or removed the selected instance.
+function refreshSelection(): void {
+  if (!selection || transformControls?.dragging) {
+    return;
+  }
+  const current = getPlacedAsset(selection.instance.id);
+  if (current !== selection.instance) {
+    deselectPlacedAsset();
+    return;
+  }
+  selection.original = readPlacedAssetTransform(current.mesh);
+  updateOutline();
+}
+
+function onCanvasClick(event: MouseEvent): void {
+  if (suppressNextClick) {
+    suppressNextClick = false;
+    event.stopImmediatePropagation();
+    return;
+  }
+  if (!pickingEnabled || !context) {
+    return;
+  }
+  setPointer(event);
+  const hit = pickPlacedAsset(raycaster.ray, listPlacedAssets());
+  if (hit) {
+    event.stopImmediatePropagation();
+    selectPlacedAsset(hit.id);
+  }
+}
+
+function onKeyDown(event: KeyboardEvent): void {
+  if (!selection || isTextEntryTarget(event.target)) {
+    return;
+  }
+  if (event.ctrlKey || event.metaKey || event.altKey) {
+    return;
+  }
+  const key = event.key.toLowerCase();
+  if (key === "escape") {
+    deselectPlacedAsset();
+  } else if (key === "delete" || key === "backspace") {
+    event.preventDefault();
+    const { id } = selection.instance;
+    deselectPlacedAsset();
+    removePlacedAsset(id, { provider: "gizmo" });
+  } else if (key === "1") {
+    setAssetGizmoMode("translate");
+  } else if (key === "2") {
+    setAssetGizmoMode("rotate");
+  } else if (key === "3") {
+    setAssetGizmoMode("scale");
+  }
+}
+
+function setPointer(event: MouseEvent): void {
+  if (!context) {
+    return;
+  }
+  const rect = context.canvas.getBoundingClientRect();
+  pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+  pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+  raycaster.setFromCamera(pointer, context.camera);
+}
+
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  const element = target instanceof HTMLElement ? target : null;
+  return Boolean(element?.closest("input, textarea, select, [contenteditable='true']"));
+}
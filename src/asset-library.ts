@@ -1,6 +1,13 @@
-import { PackedSplats, SplatMesh } from "@sparkjsdev/spark";
+import { PackedSplats, SplatMesh, type SplatEdit } from "@sparkjsdev/spark";
 import * as THREE from "three";
-import type { AssetEntry, EditOperation, SDFShapeConfig } from "./types";
+import { getAssetLocalBounds } from "./asset-thumbnails";
+import { applyBakeEdits, compileBakeEdits, editAppliesToMesh } from "./scene-export";
+import type {
+  AssetEntry,
+  EditOperation,
+  PlacedAssetInstance,
+  SDFShapeConfig,
+} from "./types";
 
 type CapturedSplat = {
   center: THREE.Vector3;
@@ -19,12 +26,19 @@ type CompiledShape = {
 };
 
 const assets: AssetEntry[] = [];
+const placedInstances: PlacedAssetInstance[] = [];
+let nextPlacementNumber = 1;
 const BUILTIN_ASSET_PREFIX = "builtin_";
 const PRELOADED_ASSET_MANIFEST_URL = "/scenes/preloaded-assets/index.json";
 const LEGACY_FALLBACK_PRELOADED: Array<{ url: string; label: string }> = [
   { url: "/scenes/butterfly.spz", label: "butterfly" },
 ];
 let defaultAssetSeeded = false;
+let assetStore: AssetLibraryStore | null = null;
+let thumbnailRenderer: AssetThumbnailRender | null = null;
+const pendingThumbnails = new Set<string>();
+const libraryChangeListeners = new Set<() => void>();
+const placedChangeListeners = new Set<() => void>();
 
 const MIN_ASSET_SPLATS = 1;
 const MAX_EXTRACTED_SPLATS = 120_000;
@@ -33,6 +47,75 @@ const MAX_COLOR_DISTANCE = 0.52;
 const EPSILON = 1e-6;
 
 const tmpLocal = new THREE.Vector3();
+const ASSET_DB_NAME = "muse-asset-library";
+const ASSET_STORE_NAME = "assets";
+const STORED_ASSET_VERSION = 1;
+const ASSET_METADATA_VERSION = 1;
+const ASSET_METADATA_SUFFIX = ".asset.json";
+const IMPORTABLE_ASSET_EXTENSIONS = ["spz", "ply"] as const;
+
+/**
+ * Persisted form of an extracted `AssetEntry`. Splats are kept as the raw
+ * PackedSplats words (4 per splat) so rehydration needs no re-encoding.
+ */
+export interface StoredAssetRecord {
+  version: typeof STORED_ASSET_VERSION;
+  id: string;
+  label: string;
+  sourceScene: string;
+  extractedAt: number;
+  numSplats: number;
+  packedArray: Uint32Array;
+  splatEncoding?: PackedSplats["splatEncoding"];
+  thumbnailDataUrl: string;
+  originalPosition: [number, number, number];
+  bounds: { min: [number, number, number]; max: [number, number, number] };
+  splatCount: number;
+}
+
+export type AssetFileFormat = (typeof IMPORTABLE_ASSET_EXTENSIONS)[number];
+
+/** JSON written next to an exported asset file (`<name>.asset.json`). */
+export interface AssetMetadataSidecar {
+  version: number;
+  file: string;
+  label: string;
+  sourceScene: string;
+  splatCount: number;
+  extractedAt: string;
+  /** World position the asset was extracted from; the file itself is centered. */
+  originalPosition: [number, number, number];
+  bounds: { min: [number, number, number]; max: [number, number, number] };
+}
+
+export interface AssetImportFile {
+  name: string;
+  bytes: Uint8Array;
+}
+
+export interface AssetImportResult {
+  imported: AssetEntry[];
+  failed: Array<{ name: string; reason: string }>;
+}
+
+/** Renders an asset to an image data URL for `AssetEntry.thumbnailDataUrl`. */
+export type AssetThumbnailRender = (asset: AssetEntry) => Promise<string>;
+
+export interface AssetLibraryStore {
+  list(): Promise<StoredAssetRecord[]>;
+  put(record: StoredAssetRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface RegionCaptureOptions {
+  /** SplatEdits in effect; the capture sees their recolors, moves and deletions. */
+  edits?: readonly SplatEdit[];
+  /**
+   * Only splats inside the shapes: no relaxed, proximity or synthetic
+   * fallbacks, and null when none are found.
+   */
+  strict?: boolean;
+}
 
 export function extractAssetFromDeleteOperation(
   op: EditOperation,
@@ -42,7 +125,20 @@ export function extractAssetFromDeleteOperation(
   if (op.action !== "delete" || !op.extractAsset) {
     return null;
   }
+  return captureRegionSplats(op, splatMesh, sourceScene);
+}
 
+/**
+ * Copies the splats inside `op.shapes` out of `splatMesh` into a world-oriented
+ * entry centered on their centroid. Nothing in the source is hidden; callers
+ * decide whether the entry joins the library.
+ */
+export function captureRegionSplats(
+  op: EditOperation,
+  splatMesh: SplatMesh,
+  sourceScene: string,
+  options: RegionCaptureOptions = {}
+): AssetEntry | null {
   const startMs = nowMs();
   const compiledShapes = compileSupportedShapes(op.shapes);
   if (compiledShapes.length === 0) {
@@ -58,15 +154,23 @@ export function extractAssetFromDeleteOperation(
   let insideRegionCount = 0;
   let filteredLowOpacity = 0;
   const world = getSplatMeshWorldTransform(splatMesh);
+  const meshEdits = compileBakeEdits(
+    (options.edits ?? []).filter((edit) => editAppliesToMesh(edit, splatMesh))
+  );
+  const rgba = new THREE.Vector4();
 
   splatMesh.forEachSplat((_, center, scales, quaternion, opacity, color) => {
     const worldCenter = toWorldCenter(center, world.matrixWorld);
+    rgba.set(color.r, color.g, color.b, opacity);
+    if (meshEdits.length > 0) {
+      applyBakeEdits(meshEdits, worldCenter, rgba);
+    }
     if (!pointInsideAnyCompiledShape(worldCenter, compiledShapes)) {
       return;
     }
 
     insideRegionCount += 1;
-    if (opacity < MIN_OPACITY) {
+    if (rgba.w < MIN_OPACITY) {
       filteredLowOpacity += 1;
       return;
     }
@@ -75,12 +179,22 @@ export function extractAssetFromDeleteOperation(
       center: worldCenter,
       scales: toWorldScales(scales, world.uniformScale),
       quaternion: toWorldQuaternion(quaternion, world.worldQuaternion),
-      opacity,
-      color: new THREE.Color().copy(color),
+      opacity: Math.min(rgba.w, 1),
+      color: new THREE.Color(
+        THREE.MathUtils.clamp(rgba.x, 0, 1),
+        THREE.MathUtils.clamp(rgba.y, 0, 1),
+        THREE.MathUtils.clamp(rgba.z, 0, 1)
+      ),
     });
   });
 
   let working = candidates;
+  if (options.strict && working.length < MIN_ASSET_SPLATS) {
+    console.warn(
+      `[asset-library] Strict capture found no visible splats in region (inside=${insideRegionCount})`
+    );
+    return null;
+  }
   if (working.length < MIN_ASSET_SPLATS) {
     console.warn(
       `[asset-library] Too few strict candidates (inside=${insideRegionCount}, kept=${working.length}). Retrying with relaxed capture.`
@@ -159,6 +273,146 @@ export function addAsset(entry: AssetEntry): void {
   console.log(
     `[asset-library] Added asset id=${entry.id} label="${entry.label}" total=${assets.length}`
   );
+  persistAsset(entry);
+  requestThumbnail(entry);
+}
+
+/**
+ * Sets how real thumbnails are rendered. Assets still showing the text
+ * placeholder (new, imported, builtin or restored from an older session) are
+ * rendered in the background; listeners registered with
+ * `onAssetLibraryChange` hear when each image lands.
+ */
+export function setAssetThumbnailRenderer(render: AssetThumbnailRender | null): void {
+  thumbnailRenderer = render;
+  for (const asset of assets) {
+    requestThumbnail(asset);
+  }
+}
+
+export function onAssetLibraryChange(callback: () => void): () => void {
+  libraryChangeListeners.add(callback);
+  return () => {
+    libraryChangeListeners.delete(callback);
+  };
+}
+
+/** Builtins are re-seeded from the preloaded manifest each load, so they stay read-only. */
+export function isBuiltinAsset(asset: AssetEntry): boolean {
+  return asset.id.startsWith(BUILTIN_ASSET_PREFIX);
+}
+
+export function renameAsset(id: string, label: string): AssetEntry | null {
+  const asset = getAssetById(id);
+  const nextLabel = label.trim();
+  if (!asset || isBuiltinAsset(asset) || !nextLabel) {
+    return null;
+  }
+  if (asset.thumbnailDataUrl === buildPlaceholderThumbnail(asset.label)) {
+    asset.thumbnailDataUrl = buildPlaceholderThumbnail(nextLabel);
+  }
+  console.log(`[asset-library] Renamed asset id=${id} "${asset.label}" -> "${nextLabel}"`);
+  asset.label = nextLabel;
+  persistAsset(asset);
+  return asset;
+}
+
+/** Removes the asset from the library; already placed copies stay in the scene. */
+export function deleteAsset(id: string): boolean {
+  const index = assets.findIndex((asset) => asset.id === id);
+  if (index < 0 || isBuiltinAsset(assets[index])) {
+    return false;
+  }
+  const [removed] = assets.splice(index, 1);
+  console.log(
+    `[asset-library] Deleted asset id=${id} label="${removed.label}" total=${assets.length}`
+  );
+  if (assetStore) {
+    assetStore.delete(id).catch((error: unknown) => {
+      console.warn(`[asset-library] Failed to delete stored asset id=${id}`, error);
+    });
+  }
+  return true;
+}
+
+export function getAssetExportFileNames(
+  asset: AssetEntry,
+  format: AssetFileFormat
+): { fileName: string; metadataFileName: string } {
+  const base = slugifyLabel(asset.label);
+  return { fileName: `${base}.${format}`, metadataFileName: `${base}${ASSET_METADATA_SUFFIX}` };
+}
+
+export function serializeAssetMetadata(asset: AssetEntry, fileName: string): string {
+  const metadata: AssetMetadataSidecar = {
+    version: ASSET_METADATA_VERSION,
+    file: fileName,
+    label: asset.label,
+    sourceScene: asset.sourceScene,
+    splatCount: asset.splatCount,
+    extractedAt: asset.extractedAt.toISOString(),
+    originalPosition: asset.originalPosition.toArray(),
+    bounds: { min: asset.bounds.min.toArray(), max: asset.bounds.max.toArray() },
+  };
+  return JSON.stringify(metadata, null, 2);
+}
+
+/**
+ * Adds dropped .spz/.ply files to the library. A `<name>.asset.json` (or
+ * `<name>.json`) dropped alongside supplies label, source scene and original
+ * placement; without one the label comes from the file name.
+ */
+export async function importAssetFiles(
+  files: readonly AssetImportFile[]
+): Promise<AssetImportResult> {
+  const result: AssetImportResult = { imported: [], failed: [] };
+  const metadataByBase = new Map<string, AssetImportFile>();
+  for (const file of files) {
+    const lower = file.name.toLowerCase();
+    if (lower.endsWith(ASSET_METADATA_SUFFIX)) {
+      metadataByBase.set(lower.slice(0, -ASSET_METADATA_SUFFIX.length), file);
+    } else if (lower.endsWith(".json")) {
+      metadataByBase.set(lower.slice(0, -".json".length), file);
+    }
+  }
+
+  for (const file of files) {
+    const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+    if (!(IMPORTABLE_ASSET_EXTENSIONS as readonly string[]).includes(extension)) {
+      if (extension !== "json") {
+        result.failed.push({
+          name: file.name,
+          reason: "unsupported file type (expected .spz or .ply)",
+        });
+      }
+      continue;
+    }
+    const base = file.name.slice(0, -(extension.length + 1));
+    try {
+      const metadataFile = metadataByBase.get(base.toLowerCase());
+      const metadata = metadataFile ? parseAssetMetadata(metadataFile) : null;
+      const entry = await importAssetFile(file, base, metadata);
+      addAsset(entry);
+      result.imported.push(entry);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`[asset-library] Failed to import ${file.name}: ${reason}`);
+      result.failed.push({ name: file.name, reason });
+    }
+  }
+
+  console.log(
+    `[asset-library] Imported ${result.imported.length} asset(s), failed=${result.failed.length}`
+  );
+  return result;
+}
+
+/**
+ * Sets where extracted assets persist. `ensureDefaultLibraryAsset` rehydrates
+ * from it; pass null to keep the library in memory only.
+ */
+export function setAssetLibraryStore(store: AssetLibraryStore | null): void {
+  assetStore = store;
 }
 
 export function listAssets(): readonly AssetEntry[] {
@@ -171,13 +425,16 @@ export function getAssetById(id: string): AssetEntry | undefined {
   return assets.find((asset) => asset.id === id);
 }
 
+/** Orientation `createPlacedAssetMesh` gives every placed copy (see gotcha #22). */
+export const PLACED_ASSET_QUATERNION: readonly [number, number, number, number] = [1, 0, 0, 0];
+
 export function createPlacedAssetMesh(
   asset: AssetEntry,
   worldPos: THREE.Vector3
 ): SplatMesh {
   const mesh = new SplatMesh({ packedSplats: asset.splats });
   mesh.maxSh = 0;
-  mesh.quaternion.set(1, 0, 0, 0);
+  mesh.quaternion.fromArray(PLACED_ASSET_QUATERNION);
   mesh.position.copy(worldPos);
   console.log(
     `[asset-library] Created placed mesh for "${asset.label}" at [${worldPos.x.toFixed(3)}, ${worldPos.y.toFixed(3)}, ${worldPos.z.toFixed(3)}]`
@@ -185,6 +442,138 @@ export function createPlacedAssetMesh(
   return mesh;
 }
 
+// Extraction keeps splats in world orientation around their centroid, so the
+// mesh needs no flip to sit exactly where the splats were cut from.
+export function createExtractedRegionMesh(asset: AssetEntry): SplatMesh {
+  const mesh = new SplatMesh({ packedSplats: asset.splats });
+  mesh.maxSh = 0;
+  mesh.position.copy(asset.originalPosition);
+  return mesh;
+}
+
+export interface RegisterPlacedAssetOptions {
+  /** Reuses an id, e.g. from a saved session; ignored when already taken. */
+  id?: string;
+  placedAt?: Date;
+}
+
+export function registerPlacedAsset(
+  asset: AssetEntry,
+  mesh: SplatMesh,
+  options: RegisterPlacedAssetOptions = {}
+): PlacedAssetInstance {
+  const instance: PlacedAssetInstance = {
+    id: claimPlacementId(options.id),
+    assetId: asset.id,
+    label: asset.label,
+    mesh,
+    placedAt: options.placedAt ?? new Date(),
+    localBounds: getAssetLocalBounds(asset),
+  };
+  placedInstances.push(instance);
+  console.log(
+    `[asset-library] Registered placed instance id=${instance.id} asset=${asset.id} total=${placedInstances.length}`
+  );
+  notifyPlacedChange();
+  return instance;
+}
+
+/** Puts an unregistered instance back under its original id (redo of a removal). */
+export function restorePlacedAsset(
+  instance: PlacedAssetInstance,
+  parent: THREE.Object3D
+): void {
+  if (getPlacedAsset(instance.id)) {
+    console.warn(`[asset-library] Placed instance id=${instance.id} is already registered`);
+    return;
+  }
+  parent.add(instance.mesh);
+  placedInstances.push(instance);
+  console.log(
+    `[asset-library] Restored placed instance id=${instance.id} total=${placedInstances.length}`
+  );
+  notifyPlacedChange();
+}
+
+/** Detaches the instance's mesh and drops it from the registry. */
+export function unregisterPlacedAsset(id: string): PlacedAssetInstance | null {
+  const index = placedInstances.findIndex((instance) => instance.id === id);
+  if (index < 0) {
+    return null;
+  }
+  const [instance] = placedInstances.splice(index, 1);
+  instance.mesh.parent?.remove(instance.mesh);
+  console.log(
+    `[asset-library] Unregistered placed instance id=${id} total=${placedInstances.length}`
+  );
+  notifyPlacedChange();
+  return instance;
+}
+
+export function getPlacedAsset(id: string): PlacedAssetInstance | undefined {
+  return placedInstances.find((instance) => instance.id === id);
+}
+
+export function listPlacedAssets(): readonly PlacedAssetInstance[] {
+  return placedInstances;
+}
+
+export function onPlacedAssetsChange(callback: () => void): () => void {
+  placedChangeListeners.add(callback);
+  return () => {
+    placedChangeListeners.delete(callback);
+  };
+}
+
+export function clearPlacedAssets(): void {
+  for (const instance of placedInstances) {
+    instance.mesh.parent?.remove(instance.mesh);
+  }
+  console.log(`[asset-library] Cleared ${placedInstances.length} placed instance(s)`);
+  placedInstances.length = 0;
+  notifyPlacedChange();
+}
+
+/**
+ * Installs another scene's placed instances and returns the outgoing ones.
+ * Meshes keep their parents; the caller hides the scene they belong to.
+ */
+export function swapPlacedAssets(
+  next: readonly PlacedAssetInstance[]
+): PlacedAssetInstance[] {
+  const previous = placedInstances.splice(0, placedInstances.length, ...next);
+  console.log(
+    `[asset-library] Swapped placed instances out=${previous.length} in=${placedInstances.length}`
+  );
+  notifyPlacedChange();
+  return previous;
+}
+
+function claimPlacementId(requested: string | undefined): string {
+  if (requested && !getPlacedAsset(requested)) {
+    const number = /^placed-(\d+)$/.exec(requested)?.[1];
+    if (number) {
+      nextPlacementNumber = Math.max(nextPlacementNumber, Number(number) + 1);
+    }
+    return requested;
+  }
+  let id = `placed-${nextPlacementNumber++}`;
+  while (getPlacedAsset(id)) {
+    id = `placed-${nextPlacementNumber++}`;
+  }
+  return id;
+}
+
+function notifyPlacedChange(): void {
+  for (const listener of [...placedChangeListeners]) {
+    try {
+      listener();
+    } catch (error) {
+      console.error("[asset-library] Placed asset listener failed", error);
+    }
+  }
+}
+
 export async function ensureDefaultLibraryAsset(): Promise<void> {
   if (defaultAssetSeeded) {
     return;
@@ -192,6 +581,8 @@ export async function ensureDefaultLibraryAsset(): Promise<void> {
 
   defaultAssetSeeded = true;
 
+  await restoreStoredAssets();
+
   const preloadedSpecs = await loadPreloadedAssetSpecs();
   if (preloadedSpecs.length === 0) {
     console.warn("[asset-library] No preloaded assets configured");
@@ -203,6 +594,167 @@ export async function ensureDefaultLibraryAsset(): Promise<void> {
   }
 }
 
+function requestThumbnail(entry: AssetEntry): void {
+  const render = thumbnailRenderer;
+  if (
+    !render ||
+    !isPlaceholderThumbnail(entry.thumbnailDataUrl) ||
+    pendingThumbnails.has(entry.id)
+  ) {
+    return;
+  }
+  pendingThumbnails.add(entry.id);
+  render(entry)
+    .then((dataUrl) => {
+      if (!assets.includes(entry)) {
+        return;
+      }
+      entry.thumbnailDataUrl = dataUrl;
+      persistAsset(entry);
+      for (const listener of libraryChangeListeners) {
+        listener();
+      }
+    })
+    .catch((error: unknown) => {
+      console.warn(`[asset-library] Thumbnail render failed for "${entry.label}"`, error);
+    })
+    .finally(() => {
+      pendingThumbnails.delete(entry.id);
+    });
+}
+
+function isPlaceholderThumbnail(dataUrl: string): boolean {
+  return dataUrl.startsWith("data:image/svg+xml");
+}
+
+async function restoreStoredAssets(): Promise<void> {
+  if (!assetStore) {
+    return;
+  }
+  let records: StoredAssetRecord[];
+  try {
+    records = await assetStore.list();
+  } catch (error) {
+    console.warn("[asset-library] Failed to read stored assets", error);
+    return;
+  }
+
+  let restored = 0;
+  for (const record of records.sort((a, b) => b.extractedAt - a.extractedAt)) {
+    if (record.version !== STORED_ASSET_VERSION || assets.some((asset) => asset.id === record.id)) {
+      continue;
+    }
+    const entry = fromStoredAssetRecord(record);
+    assets.push(entry);
+    requestThumbnail(entry);
+    restored += 1;
+  }
+  console.log(`[asset-library] Restored ${restored} stored asset(s)`);
+}
+
+function persistAsset(entry: AssetEntry): void {
+  if (!assetStore || isBuiltinAsset(entry)) {
+    return;
+  }
+  const record = toStoredAssetRecord(entry);
+  if (!record) {
+    console.warn(`[asset-library] Asset id=${entry.id} has no packed splat data; not persisted`);
+    return;
+  }
+  assetStore.put(record).catch((error: unknown) => {
+    console.warn(`[asset-library] Failed to persist asset id=${entry.id}`, error);
+  });
+}
+
+export function toStoredAssetRecord(entry: AssetEntry): StoredAssetRecord | null {
+  const { packedArray, numSplats, splatEncoding } = entry.splats;
+  if (!packedArray) {
+    return null;
+  }
+  return {
+    version: STORED_ASSET_VERSION,
+    id: entry.id,
+    label: entry.label,
+    sourceScene: entry.sourceScene,
+    extractedAt: entry.extractedAt.getTime(),
+    numSplats,
+    packedArray: packedArray.slice(0, numSplats * 4),
+    ...(splatEncoding ? { splatEncoding: { ...splatEncoding } } : {}),
+    thumbnailDataUrl: entry.thumbnailDataUrl,
+    originalPosition: entry.originalPosition.toArray(),
+    bounds: { min: entry.bounds.min.toArray(), max: entry.bounds.max.toArray() },
+    splatCount: entry.splatCount,
+  };
+}
+
+export function fromStoredAssetRecord(record: StoredAssetRecord): AssetEntry {
+  return {
+    id: record.id,
+    label: record.label,
+    sourceScene: record.sourceScene,
+    extractedAt: new Date(record.extractedAt),
+    splats: new PackedSplats({
+      packedArray: record.packedArray,
+      numSplats: record.numSplats,
+      splatEncoding: record.splatEncoding,
+    }),
+    thumbnailDataUrl: record.thumbnailDataUrl,
+    originalPosition: new THREE.Vector3(...record.originalPosition),
+    bounds: new THREE.Box3(
+      new THREE.Vector3(...record.bounds.min),
+      new THREE.Vector3(...record.bounds.max)
+    ),
+    splatCount: record.splatCount,
+  };
+}
+
+/** IndexedDB-backed asset store, or null where IndexedDB is unavailable. */
+export function createIndexedDbAssetStore(
+  dbName: string = ASSET_DB_NAME
+): AssetLibraryStore | null {
+  if (typeof indexedDB === "undefined") {
+    return null;
+  }
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const openDb = () => {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(ASSET_STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+  };
+  const write = async (apply: (store: IDBObjectStore) => void) => {
+    const db = await openDb();
+    const tx = db.transaction(ASSET_STORE_NAME, "readwrite");
+    apply(tx.objectStore(ASSET_STORE_NAME));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  };
+
+  return {
+    async list() {
+      const db = await openDb();
+      const request = db
+        .transaction(ASSET_STORE_NAME, "readonly")
+        .objectStore(ASSET_STORE_NAME)
+        .getAll();
+      return new Promise<StoredAssetRecord[]>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result as StoredAssetRecord[]);
+        request.onerror = () => reject(request.error);
+      });
+    },
+    put: (record) => write((store) => store.put(record)),
+    delete: (id) => write((store) => store.delete(id)),
+  };
+}
+
 async function seedPreloadedAsset(url: string, label: string): Promise<void> {
   const id = `${BUILTIN_ASSET_PREFIX}${slugifyLabel(label)}`;
   if (assets.some((asset) => asset.id === id)) {
@@ -214,51 +766,14 @@ async function seedPreloadedAsset(url: string, label: string): Promise<void> {
     const packedSplats = new PackedSplats({ url });
     await packedSplats.initialized;
 
-    const captured: CapturedSplat[] = [];
-    packedSplats.forEachSplat((_, center, scales, quaternion, opacity, color) => {
-      captured.push({
-        center: new THREE.Vector3().copy(center),
-        scales: new THREE.Vector3().copy(scales),
-        quaternion: new THREE.Quaternion().copy(quaternion),
-        opacity,
-        color: new THREE.Color().copy(color),
-      });
-    });
-
-    if (captured.length === 0) {
+    const entry = buildNormalizedAsset(packedSplats, { id, label, sourceScene: "builtin" });
+    if (!entry) {
       console.warn(`[asset-library] Preloaded asset "${label}" has zero splats, skipping`);
       return;
     }
 
-    const centroid = computeCentroid(captured);
-    const bounds = computeBounds(captured);
-
-    const normalizedPackedSplats = new PackedSplats({ maxSplats: captured.length + 1 });
-    for (const splat of captured) {
-      const localCenter = new THREE.Vector3().copy(splat.center).sub(centroid);
-      normalizedPackedSplats.pushSplat(
-        localCenter,
-        splat.scales,
-        splat.quaternion,
-        splat.opacity,
-        splat.color
-      );
-    }
-    normalizedPackedSplats.needsUpdate = true;
-
-    const entry: AssetEntry = {
-      id,
-      label,
-      sourceScene: "builtin",
-      extractedAt: new Date(),
-      splats: normalizedPackedSplats,
-      thumbnailDataUrl: buildPlaceholderThumbnail(label),
-      originalPosition: centroid,
-      bounds,
-      splatCount: captured.length,
-    };
-
     assets.push(entry);
+    requestThumbnail(entry);
     console.log(
       `[asset-library] Builtin asset ready id=${entry.id} label="${entry.label}" splats=${entry.splatCount}`
     );
@@ -270,6 +785,122 @@ async function seedPreloadedAsset(url: string, label: string): Promise<void> {
   }
 }
 
+/** Decodes one imported file into a library entry; throws when it holds no splats. */
+async function importAssetFile(
+  file: AssetImportFile,
+  base: string,
+  metadata: AssetMetadataSidecar | null
+): Promise<AssetEntry> {
+  const packedSplats = new PackedSplats({ fileBytes: file.bytes, fileName: file.name });
+  await packedSplats.initialized;
+
+  const label = metadata?.label.trim() || base.replace(/[_-]+/g, " ").trim() || "imported asset";
+  const extractedAt = metadata ? new Date(metadata.extractedAt) : undefined;
+  const entry = buildNormalizedAsset(packedSplats, {
+    id: buildAssetId(),
+    label,
+    sourceScene: metadata?.sourceScene || `import:${file.name}`,
+    extractedAt: extractedAt && Number.isFinite(extractedAt.getTime()) ? extractedAt : undefined,
+  });
+  packedSplats.dispose();
+  if (!entry) {
+    throw new Error("file contains no splats");
+  }
+
+  // Exported files are already centered, so the sidecar's placement still holds.
+  if (metadata) {
+    entry.originalPosition.add(new THREE.Vector3(...metadata.originalPosition));
+    entry.bounds.set(
+      new THREE.Vector3(...metadata.bounds.min),
+      new THREE.Vector3(...metadata.bounds.max)
+    );
+  }
+  console.log(
+    `[asset-library] Imported "${entry.label}" from ${file.name} splats=${entry.splatCount} metadata=${metadata ? "yes" : "no"}`
+  );
+  return entry;
+}
+
+function parseAssetMetadata(file: AssetImportFile): AssetMetadataSidecar | null {
+  try {
+    const raw = JSON.parse(new TextDecoder().decode(file.bytes)) as Partial<AssetMetadataSidecar>;
+    const isVec3 = (value: unknown): value is [number, number, number] =>
+      Array.isArray(value) && value.length === 3 && value.every((n) => typeof n === "number");
+    if (
+      typeof raw !== "object" ||
+      raw === null ||
+      typeof raw.label !== "string" ||
+      typeof raw.sourceScene !== "string" ||
+      !isVec3(raw.originalPosition) ||
+      !isVec3(raw.bounds?.min) ||
+      !isVec3(raw.bounds?.max)
+    ) {
+      console.warn(`[asset-library] Ignoring malformed asset metadata ${file.name}`);
+      return null;
+    }
+    if (typeof raw.version === "number" && raw.version > ASSET_METADATA_VERSION) {
+      console.warn(
+        `[asset-library] Asset metadata ${file.name} is version ${raw.version}; reading known fields only`
+      );
+    }
+    return raw as AssetMetadataSidecar;
+  } catch {
+    console.warn(`[asset-library] Ignoring unreadable asset metadata ${file.name}`);
+    return null;
+  }
+}
+
+/**
+ * Re-centers loaded splats on their centroid, as extraction does, so every
+ * library asset places relative to its own middle. Null for empty inputs.
+ */
+function buildNormalizedAsset(
+  source: PackedSplats,
+  meta: { id: string; label: string; sourceScene: string; extractedAt?: Date }
+): AssetEntry | null {
+  const captured: CapturedSplat[] = [];
+  source.forEachSplat((_, center, scales, quaternion, opacity, color) => {
+    captured.push({
+      center: new THREE.Vector3().copy(center),
+      scales: new THREE.Vector3().copy(scales),
+      quaternion: new THREE.Quaternion().copy(quaternion),
+      opacity,
+      color: new THREE.Color().copy(color),
+    });
+  });
+  if (captured.length === 0) {
+    return null;
+  }
+
+  const centroid = computeCentroid(captured);
+  const bounds = computeBounds(captured);
+
+  const normalizedPackedSplats = new PackedSplats({ maxSplats: captured.length + 1 });
+  for (const splat of captured) {
+    const localCenter = new THREE.Vector3().copy(splat.center).sub(centroid);
+    normalizedPackedSplats.pushSplat(
+      localCenter,
+      splat.scales,
+      splat.quaternion,
+      splat.opacity,
+      splat.color
+    );
+  }
+  normalizedPackedSplats.needsUpdate = true;
+
+  return {
+    id: meta.id,
+    label: meta.label,
+    sourceScene: meta.sourceScene,
+    extractedAt: meta.extractedAt ?? new Date(),
+    splats: normalizedPackedSplats,
+    thumbnailDataUrl: buildPlaceholderThumbnail(meta.label),
+    originalPosition: centroid,
+    bounds,
+    splatCount: captured.length,
+  };
+}
+
 async function loadPreloadedAssetSpecs(): Promise<Array<{ url: string; label: string }>> {
   try {
     const response = await fetch(PRELOADED_ASSET_MANIFEST_URL);
@@ -0,0 +1,187 @@
+import { SparkRenderer, type SplatMesh } from "@sparkjsdev/spark";
+import * as THREE from "three";
+import type { AssetEntry } from "./types";
+
+export const THUMBNAIL_WIDTH = 256;
+export const THUMBNAIL_HEIGHT = 144;
+const THUMBNAIL_FOV = 35;
+const THUMBNAIL_ELEVATION = THREE.MathUtils.degToRad(20);
+const DEFAULT_AZIMUTH = THREE.MathUtils.degToRad(35);
+const TURNTABLE_PERIOD_MS = 6000;
+const FIT_PADDING = 1.1;
+
+export interface ThumbnailCamera {
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+  near: number;
+  far: number;
+}
+
+export interface AssetThumbnailRenderer {
+  /** Renders `asset` from the default three-quarter view to a PNG data URL. */
+  renderDataUrl(asset: AssetEntry): Promise<string>;
+  /** Slowly orbits `asset` into `canvas` until the returned stop function runs. */
+  startTurntable(asset: AssetEntry, canvas: HTMLCanvasElement): () => void;
+  dispose(): void;
+}
+
+/**
+ * Offscreen thumbnails: a private scene with its own SparkRenderer, drawn
+ * through a Spark viewpoint render target on the viewer's WebGL renderer so no
+ * extra GL context is created. `createMesh` builds the asset the way placement
+ * does, so thumbnails match what a click in the scene would drop. Renders are
+ * serialized because they share one viewpoint.
+ */
+export function createAssetThumbnailRenderer(
+  renderer: THREE.WebGLRenderer,
+  createMesh: (asset: AssetEntry) => SplatMesh
+): AssetThumbnailRenderer {
+  const scene = new THREE.Scene();
+  scene.background = new THREE.Color(0x151b21);
+  const spark = new SparkRenderer({ renderer });
+  scene.add(spark);
+  const viewpoint = spark.newViewpoint({
+    target: { width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT, superXY: 2 },
+    sortRadial: false,
+  });
+  const camera = new THREE.PerspectiveCamera(
+    THUMBNAIL_FOV,
+    THUMBNAIL_WIDTH / THUMBNAIL_HEIGHT,
+    0.01,
+    100
+  );
+  const scratch = document.createElement("canvas");
+  scratch.width = THUMBNAIL_WIDTH;
+  scratch.height = THUMBNAIL_HEIGHT;
+
+  let queue: Promise<unknown> = Promise.resolve();
+  let mounted: { asset: AssetEntry; mesh: SplatMesh; bounds: THREE.Box3 } | null = null;
+
+  function mount(asset: AssetEntry): THREE.Box3 {
+    if (mounted?.asset === asset) {
+      return mounted.bounds;
+    }
+    unmount();
+    const mesh = createMesh(asset);
+    mesh.position.set(0, 0, 0);
+    mesh.updateMatrixWorld(true);
+    scene.add(mesh);
+    const bounds = getAssetLocalBounds(asset).applyMatrix4(mesh.matrixWorld);
+    mounted = { asset, mesh, bounds };
+    return bounds;
+  }
+
+  // Not `mesh.dispose()`: that frees the PackedSplats textures, which the
+  // asset shares with every placed copy.
+  function unmount(): void {
+    if (!mounted) return;
+    scene.remove(mounted.mesh);
+    mounted = null;
+  }
+
+  async function renderPixels(asset: AssetEntry, azimuth: number): Promise<ImageData> {
+    const bounds = mount(asset);
+    const fit = computeThumbnailCamera(bounds, azimuth, THUMBNAIL_FOV, camera.aspect);
+    camera.position.copy(fit.position);
+    camera.near = fit.near;
+    camera.far = fit.far;
+    camera.lookAt(fit.target);
+    camera.updateProjectionMatrix();
+    camera.updateMatrixWorld(true);
+
+    const pixels = await viewpoint.prepareRenderPixels({ scene, camera, update: true });
+    return flipRows(pixels, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+  }
+
+  function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  return {
+    renderDataUrl(asset) {
+      return enqueue(async () => {
+        const image = await renderPixels(asset, DEFAULT_AZIMUTH);
+        scratch.getContext("2d")?.putImageData(image, 0, 0);
+        console.log(`[thumbnails] Rendered "${asset.label}" (${asset.splatCount} splats)`);
+        return scratch.toDataURL("image/png");
+      });
+    },
+
+    startTurntable(asset, canvas) {
+      let active = true;
+      const startedAt = performance.now();
+      const context = canvas.getContext("2d");
+      const tick = async () => {
+        while (active && context) {
+          const elapsed = performance.now() - startedAt;
+          const azimuth = DEFAULT_AZIMUTH + (elapsed / TURNTABLE_PERIOD_MS) * Math.PI * 2;
+          try {
+            const image = await enqueue(() => renderPixels(asset, azimuth));
+            if (active) context.putImageData(image, 0, 0);
+          } catch (error) {
+            console.warn(`[thumbnails] Turntable for "${asset.label}" stopped`, error);
+            return;
+          }
+          await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+        }
+      };
+      void tick();
+      return () => {
+        active = false;
+      };
+    },
+
+    dispose() {
+      unmount();
+      viewpoint.dispose();
+      scene.remove(spark);
+    },
+  };
+}
+
+/** The asset's extent around its centroid, i.e. in the frame of its `splats`. */
+export function getAssetLocalBounds(asset: AssetEntry): THREE.Box3 {
+  return asset.bounds.clone().translate(asset.originalPosition.clone().negate());
+}
+
+/**
+ * Camera orbiting `bounds` at `azimuth` (radians around +Y) and a fixed
+ * elevation, far enough that the bounding sphere fits both FOV axes.
+ */
+export function computeThumbnailCamera(
+  bounds: THREE.Box3,
+  azimuth: number,
+  fovDeg: number,
+  aspect: number
+): ThumbnailCamera {
+  const target = bounds.getCenter(new THREE.Vector3());
+  const radius = Math.max(bounds.getBoundingSphere(new THREE.Sphere()).radius, 1e-3);
+  const halfVertical = THREE.MathUtils.degToRad(fovDeg) / 2;
+  const halfHorizontal = Math.atan(Math.tan(halfVertical) * aspect);
+  const distance = (FIT_PADDING * radius) / Math.sin(Math.min(halfVertical, halfHorizontal));
+
+  const direction = new THREE.Vector3(
+    Math.sin(azimuth) * Math.cos(THUMBNAIL_ELEVATION),
+    Math.sin(THUMBNAIL_ELEVATION),
+    Math.cos(azimuth) * Math.cos(THUMBNAIL_ELEVATION)
+  );
+  return {
+    position: target.clone().addScaledVector(direction, distance),
+    target,
+    near: Math.max(distance - radius * 2, distance * 0.01),
+    far: distance + radius * 2,
+  };
+}
+
+// GPU readback rows start at the bottom; ImageData rows start at the top.
+function flipRows(pixels: Uint8Array, width: number, height: number): ImageData {
+  const rowBytes = width * 4;
+  const out = new Uint8ClampedArray(rowBytes * height);
+  for (let y = 0; y < height; y += 1) {
+    const src = (height - 1 - y) * rowBytes;
+    out.set(pixels.subarray(src, src + rowBytes), y * rowBytes);
+  }
+  return new ImageData(out, width, height);
+}
@@ -1,5 +1,6 @@
 import * as THREE from "three";
 import { getCellAtWorldPos, gridKey } from "./spatial-index";
+import { computePrincipalAxes, type SplatSource } from "./surface";
 import type { SDFShapeConfig, SpatialGrid, VoxelCell } from "./types";
 
 export interface SelectionOptions {
@@ -9,6 +10,28 @@ export interface SelectionOptions {
   maxClusterCells?: number;
   minClusterCells?: number;
   boxPadding?: number;
+  /** Base splats behind `VoxelCell.splatIndices`; when set the cluster is refined per splat. */
+  splats?: SplatSource;
+  refinement?: SplatRefinementOptions;
+}
+
+/**
+ * Second pass over the cluster's individual splats: a k-NN graph whose edges
+ * need both nearby positions and similar colors, cut into connected
+ * components; the component under the click gets a PCA-oriented shape.
+ */
+export interface SplatRefinementOptions {
+  /** Cluster splats beyond this are stride-sampled. */
+  maxSplats?: number;
+  neighbors?: number;
+  /** RGB distance above which two neighboring splats are not connected. */
+  colorDistanceThreshold?: number;
+  /** Edges longer than this multiple of the median nearest-neighbor distance are dropped. */
+  maxEdgeFactor?: number;
+  /** Smaller seed components keep the cell-level result. */
+  minComponentSplats?: number;
+  /** Fraction of outlying splats ignored at each end of every principal axis. */
+  trimFraction?: number;
 }
 
 export interface SelectionResult {
@@ -18,6 +41,12 @@ export interface SelectionResult {
   clusterCenter: THREE.Vector3;
   suggestedShape: SDFShapeConfig;
   confidence: number;
+  /** Set when the splat-level pass replaced the cell-level shape. */
+  refinement: {
+    candidateSplats: number;
+    componentSplats: number;
+    components: number;
+  } | null;
   diagnostics: {
     visitedCells: number;
     rejectedCells: number;
@@ -25,7 +54,7 @@ export interface SelectionResult {
   };
 }
 
-const DEFAULT_OPTIONS: Required<SelectionOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<SelectionOptions, "splats" | "refinement">> = {
   colorDistanceThreshold: 0.32,
   maxVisitedCells: 180,
   maxDepth: 5,
@@ -34,6 +63,15 @@ const DEFAULT_OPTIONS: Required<SelectionOptions> = {
   boxPadding: 1.14,
 };
 
+const DEFAULT_REFINEMENT: Required<SplatRefinementOptions> = {
+  maxSplats: 4000,
+  neighbors: 8,
+  colorDistanceThreshold: 0.2,
+  maxEdgeFactor: 3,
+  minComponentSplats: 24,
+  trimFraction: 0.02,
+};
+
 type QueueItem = {
   key: string;
   cell: VoxelCell;
@@ -168,6 +206,7 @@ export function buildLocalSelection(
     clusterCenter: weightedCenter,
     suggestedShape,
     confidence,
+    refinement: null,
     diagnostics: {
       visitedCells: visited.size,
       rejectedCells,
@@ -178,13 +217,229 @@ export function buildLocalSelection(
   console.log(
     `[selection] Built cluster seed=${seedKey} accepted=${result.clusterCellKeys.length} visited=${visited.size} rejected=${rejectedCells} confidence=${confidence.toFixed(3)}`
   );
+  if (options.splats) {
+    refineSelectionWithSplats(result, accepted, click, options.splats, {
+      boxPadding: config.boxPadding,
+      ...options.refinement,
+    });
+  }
   return result;
 }
 
+/**
+ * Tightens `result` in place to the splats connected to the click. Cells only
+ * average their splats, so an object and the wall behind it can share every
+ * cell; here each splat is judged on its own. Leaves `result` as it was (with
+ * a diagnostics reason) when too few splats stay connected to the click.
+ */
+export function refineSelectionWithSplats(
+  result: SelectionResult,
+  cells: ReadonlyMap<string, VoxelCell>,
+  click: THREE.Vector3,
+  splats: SplatSource,
+  options: SplatRefinementOptions & { boxPadding?: number } = {}
+): boolean {
+  const config = { ...DEFAULT_REFINEMENT, ...options };
+  const boxPadding = options.boxPadding ?? DEFAULT_OPTIONS.boxPadding;
+
+  let total = 0;
+  for (const cell of cells.values()) total += cell.splatIndices.length;
+  const stride = Math.max(1, Math.ceil(total / config.maxSplats));
+  const points: THREE.Vector3[] = [];
+  const colors: THREE.Color[] = [];
+  const cellOf: string[] = [];
+  let counter = 0;
+  for (const [key, cell] of cells) {
+    for (const index of cell.splatIndices) {
+      counter += 1;
+      if (counter % stride !== 0) continue;
+      const point = new THREE.Vector3();
+      const color = new THREE.Color();
+      if (!splats.read(index, point, color)) continue;
+      points.push(point);
+      colors.push(color);
+      cellOf.push(key);
+    }
+  }
+  if (points.length < config.minComponentSplats) {
+    result.diagnostics.reason.push("splatsTooFew");
+    return false;
+  }
+
+  const neighbors = findNearestNeighbors(points, config.neighbors);
+  const nearest = neighbors
+    .map((list) => list[0]?.distance ?? Infinity)
+    .filter(Number.isFinite)
+    .sort((a, b) => a - b);
+  const maxEdge = (nearest[Math.floor(nearest.length / 2)] ?? 0) * config.maxEdgeFactor;
+
+  const parent = points.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (let i = 0; i < points.length; i += 1) {
+    for (const { index, distance } of neighbors[i]) {
+      if (distance > maxEdge) break;
+      if (colorDistance3(colors[i], colors[index]) > config.colorDistanceThreshold) continue;
+      const a = find(i);
+      const b = find(index);
+      if (a !== b) parent[a] = b;
+    }
+  }
+
+  let seed = 0;
+  for (let i = 1; i < points.length; i += 1) {
+    if (points[i].distanceToSquared(click) < points[seed].distanceToSquared(click)) seed = i;
+  }
+  const seedRoot = find(seed);
+  const roots = new Set<number>();
+  const component: THREE.Vector3[] = [];
+  const componentCells = new Set<string>();
+  for (let i = 0; i < points.length; i += 1) {
+    const root = find(i);
+    roots.add(root);
+    if (root === seedRoot) {
+      component.push(points[i]);
+      componentCells.add(cellOf[i]);
+    }
+  }
+  if (component.length < config.minComponentSplats) {
+    result.diagnostics.reason.push("splatComponentTooSmall");
+    console.log(
+      `[selection] Splat refinement skipped component=${component.length} min=${config.minComponentSplats}`
+    );
+    return false;
+  }
+
+  const fit = fitOrientedShape(component, config.trimFraction, boxPadding);
+  result.clusterCellKeys = result.clusterCellKeys.filter((key) => componentCells.has(key));
+  result.clusterBounds = new THREE.Box3().setFromPoints(component);
+  result.clusterCenter = fit.center;
+  result.suggestedShape = fit.shape;
+  result.refinement = {
+    candidateSplats: points.length,
+    componentSplats: component.length,
+    components: roots.size,
+  };
+  result.diagnostics.reason.push("splatRefined");
+  console.log(
+    `[selection] Refined on splats component=${component.length}/${points.length} components=${roots.size} shape=${fit.shape.type}`
+  );
+  return true;
+}
+
+/**
+ * Shape along the principal axes of `points`, sized by trimmed extents. The
+ * sphere cutoff matches `buildLocalSelection`, but since the axes follow the
+ * object, ELLIPSOID goes to any shape whose longest extent is over 1.8x the
+ * next one, not only to upright ones as at the cell level.
+ */
+function fitOrientedShape(
+  points: readonly THREE.Vector3[],
+  trimFraction: number,
+  boxPadding: number
+): { center: THREE.Vector3; shape: SDFShapeConfig } {
+  const { centroid, axes } = computePrincipalAxes(points);
+  // Point each axis toward its largest world component so fits are repeatable.
+  for (const axis of axes.slice(0, 2)) {
+    const dominant = [axis.x, axis.y, axis.z].reduce((a, b) => (Math.abs(b) > Math.abs(a) ? b : a));
+    if (dominant < 0) axis.negate();
+  }
+  const basis = [axes[0], axes[1], new THREE.Vector3().crossVectors(axes[0], axes[1]).normalize()];
+
+  const center = centroid.clone();
+  const half: number[] = [];
+  const offset = new THREE.Vector3();
+  for (const axis of basis) {
+    const projections = points.map((point) => offset.subVectors(point, centroid).dot(axis));
+    projections.sort((a, b) => a - b);
+    const trim = Math.floor(projections.length * trimFraction);
+    const lo = projections[trim];
+    const hi = projections[projections.length - 1 - trim];
+    center.addScaledVector(axis, (lo + hi) / 2);
+    half.push(Math.max(0.05, ((hi - lo) / 2) * boxPadding));
+  }
+
+  const position: [number, number, number] = [center.x, center.y, center.z];
+  const maxHalf = Math.max(...half);
+  const minHalf = Math.min(...half);
+  if (maxHalf / minHalf < 1.6) {
+    return {
+      center,
+      shape: { type: "SPHERE", position, radius: (half[0] + half[1] + half[2]) / 3 },
+    };
+  }
+  const quaternion = new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().makeBasis(basis[0], basis[1], basis[2])
+  );
+  return {
+    center,
+    shape: {
+      type: half[0] > half[1] * 1.8 ? "ELLIPSOID" : "BOX",
+      position,
+      rotation: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+      scale: [half[0], half[1], half[2]],
+    },
+  };
+}
+
+/**
+ * `k` nearest neighbors of every point, closest first, from a hash grid whose
+ * buckets hold a few points each; only the 27 buckets around a point are
+ * searched, so far-off neighbors are simply missing.
+ */
+function findNearestNeighbors(
+  points: THREE.Vector3[],
+  k: number
+): Array<Array<{ index: number; distance: number }>> {
+  const bounds = new THREE.Box3().setFromPoints(points);
+  const size = bounds.getSize(new THREE.Vector3());
+  const volume = Math.max(size.x, 1e-3) * Math.max(size.y, 1e-3) * Math.max(size.z, 1e-3);
+  // Roughly k points per bucket for a uniform spread.
+  const bucket = Math.max(Math.cbrt((volume * k) / points.length), 1e-4);
+  const keyOf = (x: number, y: number, z: number) => `${x},${y},${z}`;
+  const coord = (value: number, min: number) => Math.floor((value - min) / bucket);
+  const buckets = new Map<string, number[]>();
+  points.forEach((point, index) => {
+    const key = keyOf(
+      coord(point.x, bounds.min.x),
+      coord(point.y, bounds.min.y),
+      coord(point.z, bounds.min.z)
+    );
+    const list = buckets.get(key);
+    if (list) list.push(index);
+    else buckets.set(key, [index]);
+  });
+
+  return points.map((point, index) => {
+    const bx = coord(point.x, bounds.min.x);
+    const by = coord(point.y, bounds.min.y);
+    const bz = coord(point.z, bounds.min.z);
+    const candidates: Array<{ index: number; distance: number }> = [];
+    for (let dx = -1; dx <= 1; dx += 1) {
+      for (let dy = -1; dy <= 1; dy += 1) {
+        for (let dz = -1; dz <= 1; dz += 1) {
+          for (const other of buckets.get(keyOf(bx + dx, by + dy, bz + dz)) ?? []) {
+            if (other !== index) {
+              candidates.push({ index: other, distance: point.distanceTo(points[other]) });
+            }
+          }
+        }
+      }
+    }
+    return candidates.sort((a, b) => a.distance - b.distance).slice(0, k);
+  });
+}
+
 export function formatSelectionHint(result: SelectionResult): string {
   const size = new THREE.Vector3();
   result.clusterBounds.getSize(size);
   const shapeLine = describeSuggestedShape(result.suggestedShape);
+  const refinement = result.refinement;
 
   return [
     "Selection hints (deterministic click-seeded cluster):",
@@ -193,6 +448,11 @@ export function formatSelectionHint(result: SelectionResult): string {
     `- clusterCenter=[${result.clusterCenter.x.toFixed(3)}, ${result.clusterCenter.y.toFixed(3)}, ${result.clusterCenter.z.toFixed(3)}]`,
     `- clusterSize=[${size.x.toFixed(3)}, ${size.y.toFixed(3)}, ${size.z.toFixed(3)}]`,
     shapeLine,
+    ...(refinement
+      ? [
+          `- splatRefinement component=${refinement.componentSplats}/${refinement.candidateSplats} splats components=${refinement.components} (oriented fit to the splats connected to the click)`,
+        ]
+      : []),
     `- diagnostics visited=${result.diagnostics.visitedCells} rejected=${result.diagnostics.rejectedCells} reasons=${result.diagnostics.reason.join(",") || "none"}`,
     "- Use this cluster as a starting reference. Adjust shape type and size based on the visual context in the screenshot.",
   ].join("\n");
@@ -203,7 +463,10 @@ function describeSuggestedShape(shape: SDFShapeConfig): string {
     return `- recommendedShape=SPHERE radius=${(shape.radius ?? 0).toFixed(3)}`;
   }
   if (shape.scale) {
-    return `- recommendedShape=${shape.type} scale=[${shape.scale[0].toFixed(3)}, ${shape.scale[1].toFixed(3)}, ${shape.scale[2].toFixed(3)}]`;
+    const rotation = shape.rotation
+      ? ` rotation=[${shape.rotation.map((value) => value.toFixed(4)).join(", ")}]`
+      : "";
+    return `- recommendedShape=${shape.type} scale=[${shape.scale[0].toFixed(3)}, ${shape.scale[1].toFixed(3)}, ${shape.scale[2].toFixed(3)}]${rotation}`;
   }
   return `- recommendedShape=${shape.type}`;
 }
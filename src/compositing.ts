@@ -0,0 +1,190 @@
+import type { SplatMesh } from "@sparkjsdev/spark";
+import * as THREE from "three";
+import { createExtractedRegionMesh } from "./asset-library";
+import { recordHistoryAction } from "./executor";
+import { applyPlacedAssetTransform, type PlacedAssetTransform } from "./placement";
+import { computePrincipalAxes, solveSymmetricEigen } from "./surface";
+import type { AssetEntry } from "./types";
+
+// Second-largest point spread below this fraction of the largest means the
+// picked points are (nearly) collinear and the rotation about them is free.
+const MIN_SPREAD_RATIO = 1e-4;
+
+/** Maps source-scene world points to target-scene world points: s·R·p + t. */
+export interface SimilarityTransform {
+  scale: number;
+  quaternion: THREE.Quaternion;
+  translation: THREE.Vector3;
+}
+
+/**
+ * A region captured by a `copy` operation. The splats are in the source
+ * scene's world frame, with that mesh's OpenCV flip already applied by the
+ * capture, so alignment only ever maps world to world.
+ */
+export interface RegionClipboard {
+  asset: AssetEntry;
+  sourceScene: string;
+  /** Bottom center of the region, where it meets its supporting surface. */
+  groundPoint: THREE.Vector3;
+  /** Normal of that surface in source world space (world +Y when none fits). */
+  groundNormal: THREE.Vector3;
+}
+
+export function createRegionClipboard(
+  asset: AssetEntry,
+  sourceScene: string,
+  normalAt: (point: THREE.Vector3) => THREE.Vector3 | null = () => null
+): RegionClipboard {
+  const groundPoint = asset.bounds.getCenter(new THREE.Vector3());
+  groundPoint.y = asset.bounds.min.y;
+  const groundNormal = normalAt(groundPoint)?.clone().normalize() ?? new THREE.Vector3(0, 1, 0);
+  return { asset, sourceScene, groundPoint, groundNormal };
+}
+
+export function applySimilarityTransform(
+  transform: SimilarityTransform,
+  point: THREE.Vector3
+): THREE.Vector3 {
+  return point
+    .clone()
+    .multiplyScalar(transform.scale)
+    .applyQuaternion(transform.quaternion)
+    .add(transform.translation);
+}
+
+/**
+ * Best-fit similarity from `source` to `target` point pairs (Horn's
+ * closed-form quaternion solution with symmetric scale). Needs at least three
+ * pairs that are not collinear on either side.
+ */
+export function solveSimilarityTransform(
+  source: readonly THREE.Vector3[],
+  target: readonly THREE.Vector3[]
+): SimilarityTransform | null {
+  if (source.length < 3 || source.length !== target.length) {
+    return null;
+  }
+  const sourceAxes = computePrincipalAxes(source);
+  const targetAxes = computePrincipalAxes(target);
+  if (isDegenerate(sourceAxes.variances) || isDegenerate(targetAxes.variances)) {
+    return null;
+  }
+
+  // Cross-covariance terms S[i][j] = sum(a_i * b_j) over centered points.
+  const S = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  let sourceSq = 0;
+  let targetSq = 0;
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  for (let i = 0; i < source.length; i += 1) {
+    a.subVectors(source[i], sourceAxes.centroid);
+    b.subVectors(target[i], targetAxes.centroid);
+    const av = [a.x, a.y, a.z];
+    const bv = [b.x, b.y, b.z];
+    for (let r = 0; r < 3; r += 1) {
+      for (let c = 0; c < 3; c += 1) {
+        S[r * 3 + c] += av[r] * bv[c];
+      }
+    }
+    sourceSq += a.lengthSq();
+    targetSq += b.lengthSq();
+  }
+  const [xx, xy, xz, yx, yy, yz, zx, zy, zz] = S;
+  const N = [
+    xx + yy + zz, yz - zy, zx - xz, xy - yx,
+    yz - zy, xx - yy - zz, xy + yx, zx + xz,
+    zx - xz, xy + yx, -xx + yy - zz, yz + zy,
+    xy - yx, zx + xz, yz + zy, -xx - yy + zz,
+  ];
+  const { values, vectors } = solveSymmetricEigen(N, 4);
+  const best = values.indexOf(Math.max(...values));
+  // Eigenvector components are (w, x, y, z).
+  const quaternion = new THREE.Quaternion(
+    vectors[4 + best],
+    vectors[8 + best],
+    vectors[12 + best],
+    vectors[best]
+  ).normalize();
+
+  const scale = Math.sqrt(targetSq / sourceSq);
+  const translation = targetAxes.centroid
+    .clone()
+    .sub(sourceAxes.centroid.clone().multiplyScalar(scale).applyQuaternion(quaternion));
+  return { scale, quaternion, translation };
+}
+
+/**
+ * Similarity that stands the source ground on the target ground: turns
+ * `sourceNormal` onto `targetNormal`, spins `yaw` radians about it, scales,
+ * and moves `sourcePoint` onto `targetPoint`. Fitted normals rather than an
+ * assumed +Y keep scenes with different up conventions upright.
+ */
+export function alignGroundPlanes(
+  sourcePoint: THREE.Vector3,
+  sourceNormal: THREE.Vector3,
+  targetPoint: THREE.Vector3,
+  targetNormal: THREE.Vector3,
+  options: { yaw?: number; scale?: number } = {}
+): SimilarityTransform {
+  const to = targetNormal.clone().normalize();
+  const quaternion = new THREE.Quaternion()
+    .setFromAxisAngle(to, options.yaw ?? 0)
+    .multiply(new THREE.Quaternion().setFromUnitVectors(sourceNormal.clone().normalize(), to));
+  const scale = options.scale ?? 1;
+  const translation = targetPoint
+    .clone()
+    .sub(sourcePoint.clone().multiplyScalar(scale).applyQuaternion(quaternion));
+  return { scale, quaternion, translation };
+}
+
+/** Pose of `createExtractedRegionMesh(asset)` after `transform`. */
+export function computePastedRegionPose(
+  asset: AssetEntry,
+  transform: SimilarityTransform
+): PlacedAssetTransform {
+  const position = applySimilarityTransform(transform, asset.originalPosition);
+  const { x, y, z, w } = transform.quaternion;
+  return {
+    position: [position.x, position.y, position.z],
+    quaternion: [x, y, z, w],
+    scale: transform.scale,
+  };
+}
+
+/**
+ * Adds the clipboard region under `parent` at `transform` as one undoable
+ * history step. Like move/duplicate copies it stays out of the library and
+ * the placed-asset registry.
+ */
+export function pasteRegion(
+  clipboard: RegionClipboard,
+  transform: SimilarityTransform,
+  parent: THREE.Object3D
+): SplatMesh {
+  const mesh = createExtractedRegionMesh(clipboard.asset);
+  applyPlacedAssetTransform(mesh, computePastedRegionPose(clipboard.asset, transform));
+  parent.add(mesh);
+  recordHistoryAction(
+    {
+      apply: () => {
+        parent.add(mesh);
+      },
+      revert: () => {
+        parent.remove(mesh);
+      },
+    },
+    {
+      command: `Paste ${clipboard.asset.label} from ${clipboard.sourceScene}`,
+      provider: "compositing",
+    }
+  );
+  console.log(
+    `[compositing] Pasted "${clipboard.asset.label}" splats=${clipboard.asset.splatCount} scale=${transform.scale.toFixed(3)}`
+  );
+  return mesh;
+}
+
+function isDegenerate(variances: [number, number, number]): boolean {
+  return variances[0] <= 0 || variances[1] <= variances[0] * MIN_SPREAD_RATIO;
+}
@@ -5,17 +5,107 @@ import {
   SplatEditRgbaBlendMode,
 } from "@sparkjsdev/spark";
 import * as THREE from "three";
-import type { EditOperation, SDFShapeConfig } from "./types";
+import type { ConversationTurn, EditOperation, SDFShapeConfig } from "./types";
 
-type HistoryEntry = {
+export interface EditHistoryMeta {
+  command?: string;
+  provider?: string;
+  createdAt?: Date;
+  // Replayed operations (e.g. from a saved session) skip the asset extraction
+  // hook so the library is not re-seeded with duplicates.
+  replay?: boolean;
+  // Id of an active entry this command refines. Its edits are swapped out for
+  // the new ones within the same history step.
+  replaces?: string;
+  // Parent per op, by index, used as-is instead of routing global ops to the
+  // scene (a saved session replays each op under the parent it was saved with).
+  parents?: readonly THREE.Object3D[];
+}
+
+export interface AppliedEdit {
   edit: SplatEdit;
   addedParent: THREE.Object3D;
+  operation: EditOperation;
+  // Index of `operation` in the entry's `operations`. Ops that add no edit
+  // (`place`, `copy`, `duplicate`) leave gaps, so it is not the index here.
+  opIndex: number;
+}
+
+// A mesh added by a `place` operation (library asset) or a `move`/`duplicate`
+// (copy of the selected region). Detaching the entry reverts it; re-attaching
+// applies it again.
+export interface AppliedPlacement {
+  operation: EditOperation;
+  opIndex: number;
+  action: HistoryAction;
+}
+
+export interface EditHistoryEntry {
+  id: string;
+  parentId: string | null;
+  command: string;
+  provider: string;
+  operations: EditOperation[];
+  createdAt: Date;
+  applied: AppliedEdit[];
+  placed: AppliedPlacement[];
+  replacesEntryId: string | null;
+  // Set for non-edit steps (asset placement, transforms); undo/redo call it
+  // instead of detaching SplatEdits.
+  action: HistoryAction | null;
+}
+
+// A scene change recorded in the edit history. It has already been performed
+// when recorded: undo calls `revert`, redo calls `apply`.
+export interface HistoryAction {
+  apply(): void;
+  revert(): void;
+}
+
+type HistoryNode = {
+  entry: EditHistoryEntry;
+  childIds: string[];
+  redoChildId: string | null;
 };
 
+// One scene's edit history. Each loaded scene keeps its own; the executor
+// works on whichever `setActiveEditHistory` installed last.
+export interface EditHistoryState {
+  nodes: Map<string, HistoryNode>;
+  rootChildIds: string[];
+  rootRedoChildId: string | null;
+  currentEntryId: string | null;
+}
+
 type AssetExtractionHandler = (op: EditOperation, parent: THREE.Object3D) => void;
+// Captures a `copy` operation's region onto the clipboard; changes nothing.
+// `edits` are the SplatEdits in effect when the op runs (see `editsInEffect`).
+type RegionCaptureHandler = (
+  op: EditOperation,
+  parent: THREE.Object3D,
+  edits: readonly SplatEdit[]
+) => void;
+// Adds the mesh for a `place` (asset) or `move`/`duplicate` (region copy)
+// operation and returns how to undo/redo it, or null when nothing was added.
+type PlacementHandler = (
+  op: EditOperation,
+  parent: THREE.Object3D,
+  edits: readonly SplatEdit[]
+) => HistoryAction | null;
+type HistoryChangeCallback = () => void;
 
-const history: HistoryEntry[] = [];
+// Edit history is a tree: undo walks toward the root, redo follows the most
+// recently visited child, and applying after an undo forks a sibling branch.
+// A refinement entry replaces an earlier active entry: applying it detaches
+// the old edits, undoing it re-attaches them. Entry ids are numbered across
+// all histories so they stay unique when scenes are switched.
+let history: EditHistoryState = createEditHistoryState();
+let nextEntryNumber = 1;
 let assetExtractionHandler: AssetExtractionHandler | null = null;
+let assetPlacementHandler: PlacementHandler | null = null;
+let regionCopyHandler: PlacementHandler | null = null;
+let regionCaptureHandler: RegionCaptureHandler | null = null;
+const historyChangeCallbacks: HistoryChangeCallback[] = [];
 
 const BLEND_MODE_MAP: Record<EditOperation["blendMode"], SplatEditRgbaBlendMode> = {
   MULTIPLY: SplatEditRgbaBlendMode.MULTIPLY,
@@ -36,18 +126,150 @@ const SHAPE_TYPE_MAP: Record<SDFShapeConfig["type"], SplatEditSdfType> = {
 
 export function executeOperations(
   ops: EditOperation[],
-  parent: THREE.Object3D
+  parent: THREE.Object3D,
+  meta: EditHistoryMeta = {}
+): SplatEdit[] {
+  return applyOperations(ops, parent, meta, !meta.replay);
+}
+
+// Replaces an active entry's operations with edited copies (e.g. after a
+// gizmo drag) as one refinement step. The asset extraction hook is skipped
+// because the object was already extracted when the entry was first applied,
+// and region copies whose op and earlier ops are unchanged are kept as they
+// are instead of being cut again.
+export function rewriteEntryOperations(
+  entryId: string,
+  ops: EditOperation[],
+  meta: EditHistoryMeta = {}
+): EditHistoryEntry | null {
+  const entry = getActiveEntries().find((candidate) => candidate.id === entryId);
+  const first = entry?.applied[0];
+  if (!entry || !first) {
+    console.warn(`[executor] rewriteEntryOperations: entry id=${entryId} is not active`);
+    return null;
+  }
+
+  const parent =
+    entry.applied.find((item) => !(item.addedParent instanceof THREE.Scene))?.addedParent ??
+    first.addedParent;
+  applyOperations(
+    ops,
+    parent,
+    {
+      command: entry.command,
+      provider: entry.provider,
+      ...meta,
+      replaces: entry.id,
+    },
+    false,
+    entry
+  );
+  const rewritten = history.currentEntryId
+    ? history.nodes.get(history.currentEntryId)?.entry ?? null
+    : null;
+  return rewritten?.replacesEntryId === entry.id ? rewritten : null;
+}
+
+export function recordHistoryAction(
+  action: HistoryAction,
+  meta: EditHistoryMeta = {}
+): EditHistoryEntry {
+  const entry = pushHistoryEntry([], [], [], meta, null, action);
+  console.log(
+    `[executor] Recorded action entry id=${entry.id} parent=${entry.parentId ?? "root"} command="${entry.command}"`
+  );
+  notifyHistoryChange();
+  return entry;
+}
+
+export function onEditHistoryChange(callback: HistoryChangeCallback): () => void {
+  historyChangeCallbacks.push(callback);
+  return () => {
+    const index = historyChangeCallbacks.indexOf(callback);
+    if (index >= 0) {
+      historyChangeCallbacks.splice(index, 1);
+    }
+  };
+}
+
+// `previous` is the entry being rewritten: a `move`/`duplicate` copy it made
+// is reused while the ops up to and including that one are unchanged, since
+// they alone decide what the copy was cut from.
+function applyOperations(
+  ops: EditOperation[],
+  parent: THREE.Object3D,
+  meta: EditHistoryMeta,
+  runExtraction: boolean,
+  previous: EditHistoryEntry | null = null
 ): SplatEdit[] {
-  const applied: SplatEdit[] = [];
+  const applied: AppliedEdit[] = [];
+  const placed: AppliedPlacement[] = [];
+  const reused = new Set<AppliedPlacement>();
   console.log(`[executor] executeOperations called with ${ops.length} op(s)`);
 
+  const replaced = resolveReplacedEntry(meta.replaces);
+  let unchanged = previous !== null && previous === replaced;
+
   for (const [opIndex, op] of ops.entries()) {
-    if (op.action === "delete" && op.extractAsset && assetExtractionHandler) {
+    unchanged = unchanged && JSON.stringify(op) === JSON.stringify(previous?.operations[opIndex]);
+    const opParent = meta.parents?.[opIndex] ?? resolveParentForOperation(op, parent);
+    // A copy leaves the scene as it is, so it has nothing to undo and never
+    // reruns on replay or refinement.
+    if (op.action === "copy") {
+      if (runExtraction) {
+        runRegionCaptureHandler(op, opParent, editsInEffect(applied, replaced));
+      }
+      continue;
+    }
+    if (op.action === "place") {
+      const placement = runPlacementHandler(
+        assetPlacementHandler,
+        op,
+        opIndex,
+        opParent,
+        editsInEffect(applied, replaced)
+      );
+      if (placement) {
+        placed.push(placement);
+      }
+      continue;
+    }
+    // The copy is cut from the splats as shown before `move` hides the
+    // originals; without a copy the originals stay visible.
+    if (op.action === "move" || op.action === "duplicate") {
+      const kept = unchanged
+        ? previous?.placed.find((item) => item.opIndex === opIndex)
+        : undefined;
+      const copy = kept
+        ? { ...kept, operation: op }
+        : runPlacementHandler(
+            regionCopyHandler,
+            op,
+            opIndex,
+            opParent,
+            editsInEffect(applied, replaced)
+          );
+      if (!copy) {
+        continue;
+      }
+      if (kept) {
+        reused.add(copy);
+        console.log(
+          `[executor] Op ${opIndex + 1}/${ops.length}: reusing unchanged ${op.action} copy`
+        );
+      }
+      placed.push(copy);
+      if (op.action === "duplicate") {
+        continue;
+      }
+    }
+
+    if (op.action === "delete" && op.extractAsset && assetExtractionHandler && runExtraction) {
       try {
         console.log(
           `[executor] Running asset extraction hook for delete op ${opIndex + 1}/${ops.length}`
         );
-        assetExtractionHandler(op, parent);
+        assetExtractionHandler(op, opParent);
       } catch (error) {
         console.error("[executor] Asset extraction hook failed", error);
       }
@@ -56,67 +278,35 @@ export function executeOperations(
     console.log(
       `[executor] Op ${opIndex + 1}/${ops.length}: action=${op.action} blend=${op.blendMode} shapes=${op.shapes.length} softEdge=${op.softEdge ?? "default"} sdfSmooth=${op.sdfSmooth ?? "default"} invert=${op.invert ?? false}`
     );
-    const edit = new SplatEdit({
-      rgbaBlendMode: BLEND_MODE_MAP[op.blendMode],
-      softEdge: op.softEdge,
-      sdfSmooth: op.sdfSmooth,
-      invert: op.invert === true ? true : false,
-    });
+    const edit = buildSplatEdit(op);
 
-    for (const [shapeIndex, shape] of op.shapes.entries()) {
-      console.log(
-        `[executor]   Shape ${shapeIndex + 1}/${op.shapes.length}: type=${shape.type} pos=[${shape.position.join(", ")}] radius=${shape.radius ?? "-"} opacity=${shape.opacity ?? "-"} scale=${shape.scale ? `[${shape.scale.join(", ")}]` : "-"}`
-      );
-      const sdf = new SplatEditSdf({
-        type: SHAPE_TYPE_MAP[shape.type],
-      });
+    opParent.add(edit);
+    console.log(
+      `[executor] Added edit to parent=${opParent.type} (isScene=${opParent instanceof THREE.Scene})`
+    );
 
-      sdf.position.set(shape.position[0], shape.position[1], shape.position[2]);
+    applied.push({ edit, addedParent: opParent, operation: op, opIndex });
 
-      if (shape.radius !== undefined) {
-        sdf.radius = shape.radius;
-      }
-      if (shape.color) {
-        if (sdf.color) {
-          sdf.color.setRGB(shape.color[0], shape.color[1], shape.color[2]);
-        } else {
-          sdf.color = new THREE.Color(shape.color[0], shape.color[1], shape.color[2]);
-        }
-      }
-      if (shape.opacity !== undefined) {
-        sdf.opacity = shape.opacity;
-      }
-      if (shape.scale) {
-        sdf.scale.set(shape.scale[0], shape.scale[1], shape.scale[2]);
-      }
-      if (shape.rotation) {
-        sdf.quaternion.set(
-          shape.rotation[0],
-          shape.rotation[1],
-          shape.rotation[2],
-          shape.rotation[3]
-        );
-      }
-      if (shape.displace) {
-        sdf.displace?.set(shape.displace[0], shape.displace[1], shape.displace[2]);
-      }
+    console.log(`[executor] Applied ${op.action} with ${op.shapes.length} shapes`);
+  }
 
-      edit.addSdf(sdf);
+  if (applied.length > 0 || placed.length > 0) {
+    if (replaced) {
+      detachEntry(replaced);
+      // Detaching reverted the copies this entry shares with it.
+      for (const item of reused) {
+        item.action.apply();
+      }
+      console.log(`[executor] Swapped out edits of refined entry id=${replaced.id}`);
     }
-
-    const targetParent = resolveParentForOperation(op, parent);
-    targetParent.add(edit);
+    const entry = pushHistoryEntry(ops, applied, placed, meta, replaced?.id ?? null);
     console.log(
-      `[executor] Added edit to parent=${targetParent.type} (isScene=${targetParent instanceof THREE.Scene})`
+      `[executor] Recorded history entry id=${entry.id} parent=${entry.parentId ?? "root"} edits=${applied.length} placed=${placed.length} provider=${entry.provider}`
     );
-
-    history.push({ edit, addedParent: targetParent });
-    applied.push(edit);
-
-    console.log(`[executor] Applied ${op.action} with ${op.shapes.length} shapes`);
+    notifyHistoryChange();
   }
 
-  return applied;
+  return applied.map((item) => item.edit);
 }
 
 export function setAssetExtractionHandler(
@@ -128,46 +318,388 @@ export function setAssetExtractionHandler(
   );
 }
 
+export function setAssetPlacementHandler(handler: PlacementHandler | null): void {
+  assetPlacementHandler = handler;
+  console.log(`[executor] Asset placement handler ${handler ? "registered" : "cleared"}`);
+}
+
+// `parent` is the edit parent, so the handler can find the splats to copy.
+export function setRegionCopyHandler(handler: PlacementHandler | null): void {
+  regionCopyHandler = handler;
+  console.log(`[executor] Region copy handler ${handler ? "registered" : "cleared"}`);
+}
+
+export function setRegionCaptureHandler(handler: RegionCaptureHandler | null): void {
+  regionCaptureHandler = handler;
+  console.log(`[executor] Region capture handler ${handler ? "registered" : "cleared"}`);
+}
+
+function runRegionCaptureHandler(
+  op: EditOperation,
+  parent: THREE.Object3D,
+  edits: readonly SplatEdit[]
+): void {
+  if (!regionCaptureHandler) {
+    console.warn("[executor] No handler for copy op; skipping");
+    return;
+  }
+  try {
+    regionCaptureHandler(op, parent, edits);
+  } catch (error) {
+    console.error("[executor] copy hook failed", error);
+  }
+}
+
+function runPlacementHandler(
+  handler: PlacementHandler | null,
+  op: EditOperation,
+  opIndex: number,
+  parent: THREE.Object3D,
+  edits: readonly SplatEdit[]
+): AppliedPlacement | null {
+  if (!handler) {
+    console.warn(`[executor] No handler for ${op.action} op; skipping`);
+    return null;
+  }
+  try {
+    const action = handler(op, parent, edits);
+    console.log(`[executor] Op ${op.action}: added=${action !== null}`);
+    return action ? { operation: op, opIndex, action } : null;
+  } catch (error) {
+    console.error(`[executor] ${op.action} hook failed`, error);
+    return null;
+  }
+}
+
 export function undoLastEdit(): boolean {
-  const last = history.pop();
-  if (!last) {
+  const node = history.currentEntryId ? history.nodes.get(history.currentEntryId) : undefined;
+  if (!node) {
     console.log("[executor] undoLastEdit called with empty history");
     return false;
   }
 
-  const removalParent = last.edit.parent ?? last.addedParent;
+  revertEntry(node.entry);
+  history.currentEntryId = node.entry.parentId;
+  setRedoChild(history.currentEntryId, node.entry.id);
+
   console.log(
-    `[executor] undoLastEdit removing from parent=${removalParent.type} historyBefore=${history.length + 1}`
+    `[executor] Undid entry id=${node.entry.id} (${getActiveEntries().length} active remaining)`
   );
-  removalParent.remove(last.edit);
+  notifyHistoryChange();
+  return true;
+}
 
-  const maybeDisposable = last.edit as unknown as { dispose?: () => void };
-  if (typeof maybeDisposable.dispose === "function") {
-    maybeDisposable.dispose();
+export function redoEdit(branchId?: string): boolean {
+  const childIds = getChildIds(history.currentEntryId);
+  const preferred =
+    branchId && childIds.includes(branchId) ? branchId : getRedoChild(history.currentEntryId);
+  const node = preferred ? history.nodes.get(preferred) : undefined;
+  if (!node) {
+    console.log(
+      `[executor] redoEdit found nothing to redo (branch=${branchId ?? "default"} children=${childIds.length})`
+    );
+    return false;
   }
 
-  console.log(`[executor] Undid last edit (${history.length} remaining)`);
+  reapplyEntry(node.entry);
+  history.currentEntryId = node.entry.id;
+  setRedoChild(node.entry.parentId, node.entry.id);
+
+  console.log(
+    `[executor] Redid entry id=${node.entry.id} (${getActiveEntries().length} active)`
+  );
+  notifyHistoryChange();
   return true;
 }
 
 export function undoAllEdits(): void {
-  console.log(`[executor] undoAllEdits called for ${history.length} edit(s)`);
-  while (history.length > 0) {
-    const entry = history.pop()!;
-    const removalParent = entry.edit.parent ?? entry.addedParent;
-    removalParent.remove(entry.edit);
+  const path = getHistoryPath();
+  console.log(`[executor] undoAllEdits called for ${path.length} history steps`);
+  for (const entry of [...path].reverse()) {
+    revertEntry(entry);
+  }
 
-    const maybeDisposable = entry.edit as unknown as { dispose?: () => void };
-    if (typeof maybeDisposable.dispose === "function") {
-      maybeDisposable.dispose();
+  for (const node of history.nodes.values()) {
+    for (const item of node.entry.applied) {
+      const maybeDisposable = item.edit as unknown as { dispose?: () => void };
+      if (typeof maybeDisposable.dispose === "function") {
+        maybeDisposable.dispose();
+      }
     }
   }
 
+  history.nodes.clear();
+  history.rootChildIds.length = 0;
+  history.rootRedoChildId = null;
+  history.currentEntryId = null;
   console.log("[executor] Cleared all edits (0 remaining)");
+  notifyHistoryChange();
+}
+
+export function createEditHistoryState(): EditHistoryState {
+  return { nodes: new Map(), rootChildIds: [], rootRedoChildId: null, currentEntryId: null };
+}
+
+// Switches which history undo/redo and new entries work on. The outgoing
+// history's edits stay attached to their parents; hiding the scene they
+// belong to is the caller's job.
+export function setActiveEditHistory(next: EditHistoryState): EditHistoryState {
+  const previous = history;
+  if (next === previous) {
+    return previous;
+  }
+  history = next;
+  console.log(
+    `[executor] Switched edit history (${getActiveEntries().length} active entries)`
+  );
+  notifyHistoryChange();
+  return previous;
+}
+
+export function getActiveEditHistory(): EditHistoryState {
+  return history;
 }
 
 export function getEditHistory(): readonly SplatEdit[] {
-  return history.map((entry) => entry.edit);
+  return getActiveEntries().flatMap((entry) => entry.applied.map((item) => item.edit));
+}
+
+export function getHistoryEntries(): readonly EditHistoryEntry[] {
+  return getActiveEntries();
+}
+
+export function getRedoBranches(): readonly EditHistoryEntry[] {
+  return getChildIds(history.currentEntryId)
+    .map((id) => history.nodes.get(id)?.entry)
+    .filter((entry): entry is EditHistoryEntry => Boolean(entry));
+}
+
+export function getCurrentHistoryEntryId(): string | null {
+  return history.currentEntryId;
+}
+
+// Most recent commands in creation order (including undone branches), for
+// the agent's rolling conversation context. Action entries carry no
+// operations the agent could refine, so they are left out.
+export function getConversationTurns(limit = 6): ConversationTurn[] {
+  const activeIds = new Set(getActiveEntries().map((entry) => entry.id));
+  const edits = [...history.nodes.values()].filter(({ entry }) => !entry.action);
+  return edits.slice(-Math.max(0, limit)).map(({ entry }) => ({
+    entryId: entry.id,
+    command: entry.command,
+    operations: entry.operations,
+    active: activeIds.has(entry.id),
+  }));
+}
+
+function buildSplatEdit(op: EditOperation): SplatEdit {
+  const edit = new SplatEdit({
+    rgbaBlendMode: BLEND_MODE_MAP[op.blendMode],
+    softEdge: op.softEdge,
+    sdfSmooth: op.sdfSmooth,
+    invert: op.invert === true ? true : false,
+  });
+
+  for (const [shapeIndex, shape] of op.shapes.entries()) {
+    console.log(
+      `[executor]   Shape ${shapeIndex + 1}/${op.shapes.length}: type=${shape.type} pos=[${shape.position.join(", ")}] radius=${shape.radius ?? "-"} opacity=${shape.opacity ?? "-"} scale=${shape.scale ? `[${shape.scale.join(", ")}]` : "-"}`
+    );
+    const sdf = new SplatEditSdf({
+      type: SHAPE_TYPE_MAP[shape.type],
+    });
+
+    sdf.position.set(shape.position[0], shape.position[1], shape.position[2]);
+
+    if (shape.radius !== undefined) {
+      sdf.radius = shape.radius;
+    }
+    if (shape.color) {
+      if (sdf.color) {
+        sdf.color.setRGB(shape.color[0], shape.color[1], shape.color[2]);
+      } else {
+        sdf.color = new THREE.Color(shape.color[0], shape.color[1], shape.color[2]);
+      }
+    }
+    if (shape.opacity !== undefined) {
+      sdf.opacity = shape.opacity;
+    }
+    if (shape.scale) {
+      sdf.scale.set(shape.scale[0], shape.scale[1], shape.scale[2]);
+    }
+    if (shape.rotation) {
+      sdf.quaternion.set(
+        shape.rotation[0],
+        shape.rotation[1],
+        shape.rotation[2],
+        shape.rotation[3]
+      );
+    }
+    if (shape.displace) {
+      sdf.displace?.set(shape.displace[0], shape.displace[1], shape.displace[2]);
+    }
+
+    edit.addSdf(sdf);
+  }
+
+  return edit;
+}
+
+function notifyHistoryChange(): void {
+  for (const callback of [...historyChangeCallbacks]) {
+    try {
+      callback();
+    } catch (error) {
+      console.error("[executor] History change callback failed", error);
+    }
+  }
+}
+
+// SplatEdits an op sees: the active history without the entry being refined
+// (it is swapped out once the command applies), then this command's edits
+// applied so far.
+function editsInEffect(
+  applied: readonly AppliedEdit[],
+  replaced: EditHistoryEntry | null
+): SplatEdit[] {
+  const swappedOut = new Set(replaced?.applied.map((item) => item.edit));
+  return [
+    ...getEditHistory().filter((edit) => !swappedOut.has(edit)),
+    ...applied.map((item) => item.edit),
+  ];
+}
+
+function resolveReplacedEntry(entryId: string | undefined): EditHistoryEntry | null {
+  if (!entryId) {
+    return null;
+  }
+  const entry = getActiveEntries().find((candidate) => candidate.id === entryId);
+  if (!entry || entry.action) {
+    console.warn(
+      `[executor] Refinement target id=${entryId} is not an active edit; applying as a new edit`
+    );
+    return null;
+  }
+  return entry;
+}
+
+function pushHistoryEntry(
+  ops: EditOperation[],
+  applied: AppliedEdit[],
+  placed: AppliedPlacement[],
+  meta: EditHistoryMeta,
+  replacesEntryId: string | null,
+  action: HistoryAction | null = null
+): EditHistoryEntry {
+  const entry: EditHistoryEntry = {
+    id: `edit-${nextEntryNumber++}`,
+    parentId: history.currentEntryId,
+    command: meta.command?.trim() ?? "",
+    provider: meta.provider?.trim() || "unknown",
+    operations: ops,
+    createdAt: meta.createdAt ?? new Date(),
+    applied,
+    placed,
+    replacesEntryId,
+    action,
+  };
+
+  history.nodes.set(entry.id, { entry, childIds: [], redoChildId: null });
+  getChildIds(entry.parentId).push(entry.id);
+  setRedoChild(entry.parentId, entry.id);
+  history.currentEntryId = entry.id;
+  return entry;
+}
+
+// Entries on the current path whose edits are in the scene, i.e. the path
+// minus entries superseded by a later refinement.
+function getActiveEntries(): EditHistoryEntry[] {
+  const path = getHistoryPath();
+  const replacedIds = new Set(
+    path.map((entry) => entry.replacesEntryId).filter((id): id is string => id !== null)
+  );
+  return path.filter((entry) => !replacedIds.has(entry.id));
+}
+
+function getHistoryPath(): EditHistoryEntry[] {
+  const path: EditHistoryEntry[] = [];
+  let cursor = history.currentEntryId;
+  while (cursor) {
+    const node = history.nodes.get(cursor);
+    if (!node) {
+      break;
+    }
+    path.push(node.entry);
+    cursor = node.entry.parentId;
+  }
+  return path.reverse();
+}
+
+function getChildIds(entryId: string | null): string[] {
+  if (entryId === null) {
+    return history.rootChildIds;
+  }
+  return history.nodes.get(entryId)?.childIds ?? [];
+}
+
+function getRedoChild(entryId: string | null): string | null {
+  if (entryId === null) {
+    return history.rootRedoChildId;
+  }
+  return history.nodes.get(entryId)?.redoChildId ?? null;
+}
+
+function setRedoChild(entryId: string | null, childId: string): void {
+  if (entryId === null) {
+    history.rootRedoChildId = childId;
+    return;
+  }
+  const node = history.nodes.get(entryId);
+  if (node) {
+    node.redoChildId = childId;
+  }
+}
+
+function detachEntry(entry: EditHistoryEntry): void {
+  for (const item of [...entry.placed].reverse()) {
+    item.action.revert();
+  }
+  for (const item of [...entry.applied].reverse()) {
+    const removalParent = item.edit.parent ?? item.addedParent;
+    removalParent.remove(item.edit);
+  }
+}
+
+function attachEntry(entry: EditHistoryEntry): void {
+  for (const item of entry.applied) {
+    item.addedParent.add(item.edit);
+  }
+  for (const item of entry.placed) {
+    item.action.apply();
+  }
+}
+
+function revertEntry(entry: EditHistoryEntry): void {
+  if (entry.action) {
+    entry.action.revert();
+    return;
+  }
+  detachEntry(entry);
+  const replaced = entry.replacesEntryId ? history.nodes.get(entry.replacesEntryId) : undefined;
+  if (replaced) {
+    attachEntry(replaced.entry);
+  }
+}
+
+function reapplyEntry(entry: EditHistoryEntry): void {
+  if (entry.action) {
+    entry.action.apply();
+    return;
+  }
+  const replaced = entry.replacesEntryId ? history.nodes.get(entry.replacesEntryId) : undefined;
+  if (replaced) {
+    detachEntry(replaced.entry);
+  }
+  attachEntry(entry);
 }
 
 function resolveParentForOperation(
@@ -176,7 +708,7 @@ function resolveParentForOperation(
 ): THREE.Object3D {
   const isGlobalLight =
     op.action === "light" && op.shapes.some((shape) => shape.type === "ALL");
-  const shouldUseScene = op.action === "atmosphere" || isGlobalLight;
+  const shouldUseScene = op.action === "atmosphere" || op.action === "place" || isGlobalLight;
 
   if (!shouldUseScene) {
     console.log("[executor] Parent resolution: using provided parent (scoped edit)");
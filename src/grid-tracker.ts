@@ -0,0 +1,330 @@
+import { SplatEditSdfType, type SplatEdit, type SplatMesh } from "@sparkjsdev/spark";
+import * as THREE from "three";
+import {
+  applyBakeEdits,
+  compileBakeEdits,
+  editAppliesToMesh,
+  type BakeEdit,
+  type BakeSdf,
+} from "./scene-export";
+import {
+  extractSplatArrays,
+  finalizeVoxelCell,
+  gridKey,
+  transformBoundsToWorld,
+  worldPosToGridCoord,
+  type SplatArrays,
+  type VoxelAccumulator,
+} from "./spatial-index";
+import type { SpatialGrid } from "./types";
+
+// Splats whose edited opacity falls below this are treated as deleted.
+const HIDDEN_OPACITY = 1 / 255;
+
+export interface GridTracker {
+  readonly grid: SpatialGrid;
+  /** Re-evaluates cells touched by edits added or removed since the last sync. */
+  syncEdits(edits: readonly SplatEdit[]): number;
+  /**
+   * Adds splats of newly placed meshes, drops those of removed ones and
+   * re-bins meshes whose transform changed since they were last binned.
+   */
+  syncPlacedMeshes(meshes: readonly SplatMesh[]): number;
+  /** Re-bins a placed mesh after its transform changed. */
+  refreshPlacedMesh(mesh: SplatMesh): number;
+}
+
+type TrackedSource = {
+  mesh: SplatMesh;
+  arrays: SplatArrays;
+  matrixWorld: THREE.Matrix4;
+  isBase: boolean;
+};
+
+type TrackedCell = {
+  gridPos: [number, number, number];
+  box: THREE.Box3;
+  members: Array<{ source: TrackedSource; slots: number[] }>;
+};
+
+type TrackedEdit = {
+  edit: SplatEdit;
+  bake: BakeEdit;
+  bounds: THREE.Box3 | null;
+};
+
+/**
+ * Keeps `grid` in step with the edit history and placed assets. Each splat is
+ * binned once; afterwards only cells overlapping a changed edit or a placed
+ * mesh are re-aggregated, by replaying the active edits over their splats the
+ * way the bake does. `VoxelCell.splatIndices` keeps listing visible base-mesh
+ * splats only; placed-asset splats count toward the cell statistics.
+ * Displacement is not tracked: splats stay in the cell of their rest position.
+ */
+export function createGridTracker(
+  grid: SpatialGrid,
+  baseMesh: SplatMesh,
+  baseArrays: SplatArrays = extractSplatArrays(baseMesh)
+): GridTracker {
+  const cells = new Map<string, TrackedCell>();
+  const placed = new Map<SplatMesh, { source: TrackedSource; keys: string[] }>();
+  let edits: TrackedEdit[] = [];
+  const cellVolume = Math.max(grid.cellSize.x * grid.cellSize.y * grid.cellSize.z, 1e-9);
+
+  const base = createSource(baseMesh, true, baseArrays);
+  const baseKeys = binSource(base);
+  console.log(
+    `[grid-tracker] Tracking ${base.arrays.count} base splats across ${baseKeys.length} cells`
+  );
+
+  function createSource(mesh: SplatMesh, isBase: boolean, arrays?: SplatArrays): TrackedSource {
+    mesh.updateMatrixWorld(true);
+    return {
+      mesh,
+      arrays: arrays ?? extractSplatArrays(mesh),
+      matrixWorld: mesh.matrixWorld.clone(),
+      isBase,
+    };
+  }
+
+  function binSource(source: TrackedSource): string[] {
+    const { count, centers } = source.arrays;
+    const slotsByKey = new Map<string, number[]>();
+    const worldPos = new THREE.Vector3();
+    for (let slot = 0; slot < count; slot += 1) {
+      worldPos.fromArray(centers, slot * 3).applyMatrix4(source.matrixWorld);
+      const coord = worldPosToGridCoord(worldPos, grid.worldBounds, grid.resolution);
+      if (!coord) continue;
+      const key = gridKey(coord[0], coord[1], coord[2]);
+      let slots = slotsByKey.get(key);
+      if (!slots) {
+        slots = [];
+        slotsByKey.set(key, slots);
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = { gridPos: coord, box: nominalCellBox(coord), members: [] };
+          cells.set(key, cell);
+        }
+        cell.members.push({ source, slots });
+      }
+      slots.push(slot);
+    }
+    return Array.from(slotsByKey.keys());
+  }
+
+  function unbinSource(source: TrackedSource, keys: readonly string[]): void {
+    for (const key of keys) {
+      const cell = cells.get(key);
+      if (!cell) continue;
+      cell.members = cell.members.filter((member) => member.source !== source);
+    }
+  }
+
+  // Returns the cells the mesh left and entered.
+  function rebinPlaced(mesh: SplatMesh, entry: { source: TrackedSource; keys: string[] }): string[] {
+    unbinSource(entry.source, entry.keys);
+    const source = createSource(mesh, false, entry.source.arrays);
+    const meshKeys = binSource(source);
+    placed.set(mesh, { source, keys: meshKeys });
+    return [...entry.keys, ...meshKeys];
+  }
+
+  function nominalCellBox(gridPos: [number, number, number]): THREE.Box3 {
+    const min = new THREE.Vector3(
+      grid.worldBounds.min.x + gridPos[0] * grid.cellSize.x,
+      grid.worldBounds.min.y + gridPos[1] * grid.cellSize.y,
+      grid.worldBounds.min.z + gridPos[2] * grid.cellSize.z
+    );
+    return new THREE.Box3(min, min.clone().add(grid.cellSize));
+  }
+
+  function recomputeCell(key: string): void {
+    const cell = cells.get(key);
+    if (!cell) return;
+
+    const acc: VoxelAccumulator = {
+      gridPos: cell.gridPos,
+      count: 0,
+      sumPos: new THREE.Vector3(),
+      sumColor: new THREE.Vector3(),
+      sumColorSq: new THREE.Vector3(),
+      min: new THREE.Vector3(Infinity, Infinity, Infinity),
+      max: new THREE.Vector3(-Infinity, -Infinity, -Infinity),
+      splatIndices: [],
+    };
+    const touching = edits.filter((tracked) => !tracked.bounds || tracked.bounds.intersectsBox(cell.box));
+    const worldPos = new THREE.Vector3();
+    const editPos = new THREE.Vector3();
+    const rgba = new THREE.Vector4();
+
+    for (const { source, slots } of cell.members) {
+      const { centers, colors, indices } = source.arrays;
+      const sourceEdits = touching
+        .filter((tracked) => editAppliesToMesh(tracked.edit, source.mesh))
+        .map((tracked) => tracked.bake);
+      for (const slot of slots) {
+        worldPos.fromArray(centers, slot * 3).applyMatrix4(source.matrixWorld);
+        rgba.set(colors[slot * 3], colors[slot * 3 + 1], colors[slot * 3 + 2], 1);
+        if (sourceEdits.length > 0) {
+          applyBakeEdits(sourceEdits, editPos.copy(worldPos), rgba);
+          if (rgba.w < HIDDEN_OPACITY) continue;
+        }
+        acc.count += 1;
+        acc.sumPos.add(worldPos);
+        acc.sumColor.x += rgba.x;
+        acc.sumColor.y += rgba.y;
+        acc.sumColor.z += rgba.z;
+        acc.sumColorSq.x += rgba.x * rgba.x;
+        acc.sumColorSq.y += rgba.y * rgba.y;
+        acc.sumColorSq.z += rgba.z * rgba.z;
+        acc.min.min(worldPos);
+        acc.max.max(worldPos);
+        if (source.isBase) {
+          acc.splatIndices.push(indices[slot]);
+        }
+      }
+    }
+
+    if (acc.count === 0) {
+      grid.cells.delete(key);
+    } else {
+      grid.cells.set(key, finalizeVoxelCell(acc, cellVolume));
+    }
+  }
+
+  function recomputeCells(keys: Iterable<string>): number {
+    let updated = 0;
+    for (const key of new Set(keys)) {
+      recomputeCell(key);
+      updated += 1;
+    }
+    return updated;
+  }
+
+  function keysTouchedBy(tracked: TrackedEdit): string[] {
+    const { bounds } = tracked;
+    const out: string[] = [];
+    for (const [key, cell] of cells) {
+      if (!bounds || bounds.intersectsBox(cell.box)) {
+        out.push(key);
+      }
+    }
+    return out;
+  }
+
+  return {
+    grid,
+
+    syncEdits(nextEdits) {
+      const previous = new Map(edits.map((tracked) => [tracked.edit, tracked]));
+      const next: TrackedEdit[] = [];
+      const changed: TrackedEdit[] = [];
+      for (const edit of nextEdits) {
+        const existing = previous.get(edit);
+        if (existing) {
+          previous.delete(edit);
+          next.push(existing);
+          continue;
+        }
+        const [bake] = compileBakeEdits([edit]);
+        if (!bake) continue;
+        const tracked = { edit, bake, bounds: computeEditBounds(bake) };
+        next.push(tracked);
+        changed.push(tracked);
+      }
+      changed.push(...previous.values());
+      if (changed.length === 0) return 0;
+
+      edits = next.sort((a, b) => a.bake.ordering - b.bake.ordering);
+      const updated = recomputeCells(changed.flatMap(keysTouchedBy));
+      console.log(
+        `[grid-tracker] Synced edits active=${edits.length} changed=${changed.length} cellsUpdated=${updated} occupied=${grid.cells.size}`
+      );
+      return updated;
+    },
+
+    syncPlacedMeshes(meshes) {
+      const keys: string[] = [];
+      const wanted = new Set(meshes);
+      for (const [mesh, entry] of placed) {
+        if (wanted.has(mesh)) continue;
+        unbinSource(entry.source, entry.keys);
+        placed.delete(mesh);
+        keys.push(...entry.keys);
+      }
+      for (const mesh of meshes) {
+        const entry = placed.get(mesh);
+        if (entry) {
+          mesh.updateMatrixWorld(true);
+          if (!mesh.matrixWorld.equals(entry.source.matrixWorld)) {
+            keys.push(...rebinPlaced(mesh, entry));
+          }
+          continue;
+        }
+        const source = createSource(mesh, false);
+        const meshKeys = binSource(source);
+        placed.set(mesh, { source, keys: meshKeys });
+        keys.push(...meshKeys);
+      }
+      if (keys.length === 0) return 0;
+
+      const updated = recomputeCells(keys);
+      console.log(
+        `[grid-tracker] Synced placed meshes count=${placed.size} cellsUpdated=${updated} occupied=${grid.cells.size}`
+      );
+      return updated;
+    },
+
+    refreshPlacedMesh(mesh) {
+      const entry = placed.get(mesh);
+      if (!entry) return 0;
+      return recomputeCells(rebinPlaced(mesh, entry));
+    },
+  };
+}
+
+/**
+ * World-space box outside which `edit` leaves splats untouched, or null when
+ * its influence is unbounded (ALL/PLANE/cone shapes or inverted edits).
+ */
+export function computeEditBounds(edit: BakeEdit): THREE.Box3 | null {
+  if (edit.invert || edit.sdfs.length === 0) {
+    return null;
+  }
+  // Soft edges reach softEdge/2 past the surface; smooth unions can grow the
+  // combined surface by up to sdfSmooth * ln(n).
+  const margin =
+    edit.softEdge / 2 + (edit.sdfSmooth > 0 ? edit.sdfSmooth * Math.log(edit.sdfs.length) : 0);
+
+  const bounds = new THREE.Box3();
+  for (const sdf of edit.sdfs) {
+    const extents = sdfLocalExtents(sdf);
+    if (!extents) {
+      return null;
+    }
+    extents.addScalar(margin);
+    const local = new THREE.Box3(extents.clone().negate(), extents);
+    bounds.union(transformBoundsToWorld(local, sdf.worldToSdf.clone().invert()));
+  }
+  return bounds;
+}
+
+function sdfLocalExtents(sdf: BakeSdf): THREE.Vector3 | null {
+  if (sdf.invert) {
+    return null;
+  }
+  const { sizes } = sdf;
+  switch (sdf.type) {
+    case SplatEditSdfType.SPHERE:
+      return new THREE.Vector3(sizes.w, sizes.w, sizes.w);
+    case SplatEditSdfType.BOX:
+    case SplatEditSdfType.ELLIPSOID:
+      return new THREE.Vector3(sizes.x, sizes.y, sizes.z);
+    case SplatEditSdfType.CYLINDER:
+      return new THREE.Vector3(sizes.w, sizes.y, sizes.w);
+    case SplatEditSdfType.CAPSULE:
+      return new THREE.Vector3(sizes.w, 0.5 * sizes.y + sizes.w, sizes.w);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,46 @@
+// FNV-1a over UTF-16 code units, run in two 32-bit lanes with different
+// offsets to give a 64-bit hex digest. Fast and deterministic; not for
+// anything security-sensitive.
+export function hashString(text: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ 0x9e3779b9;
+  for (let i = 0; i < text.length; i += 1) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 0x01000193);
+    h2 = Math.imul(h2 ^ code, 0x01000193);
+    h2 ^= h2 >>> 15;
+  }
+  return toHex32(h1) + toHex32(h2);
+}
+
+// Same two-lane FNV-1a over the raw bytes of typed arrays, fed 32-bit words at
+// a time (tail bytes singly; unaligned views are copied first). Each part
+// hashes its own words, so `parts` are not equivalent to their concatenation.
+export function hashBytes(...parts: ArrayBufferView[]): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ 0x9e3779b9;
+  const mix = (value: number) => {
+    h1 = Math.imul(h1 ^ value, 0x01000193);
+    h2 = Math.imul(h2 ^ value, 0x01000193);
+    h2 ^= h2 >>> 15;
+  };
+  for (const part of parts) {
+    let bytes = new Uint8Array(part.buffer, part.byteOffset, part.byteLength);
+    if (bytes.byteOffset % 4 !== 0) {
+      bytes = bytes.slice();
+    }
+    const wordCount = Math.floor(bytes.byteLength / 4);
+    const words = new Uint32Array(bytes.buffer, bytes.byteOffset, wordCount);
+    for (let i = 0; i < wordCount; i += 1) {
+      mix(words[i]);
+    }
+    for (let i = wordCount * 4; i < bytes.length; i += 1) {
+      mix(bytes[i]);
+    }
+  }
+  return toHex32(h1) + toHex32(h2);
+}
+
+function toHex32(value: number): string {
+  return (value >>> 0).toString(16).padStart(8, "0");
+}
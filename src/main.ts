@@ -2,52 +2,317 @@ import * as THREE from "three";
 import type { SplatMesh } from "@sparkjsdev/spark";
 import { processCommand } from "./agent";
 import {
+  createEditHistoryState,
   executeOperations,
+  getConversationTurns,
+  getEditHistory,
+  getHistoryEntries,
+  onEditHistoryChange,
+  redoEdit,
   setAssetExtractionHandler,
+  setAssetPlacementHandler,
+  setRegionCaptureHandler,
+  setRegionCopyHandler,
   undoLastEdit,
 } from "./executor";
 import {
   addAsset,
+  captureRegionSplats,
+  clearPlacedAssets,
+  createIndexedDbAssetStore,
   createPlacedAssetMesh,
+  deleteAsset,
   ensureDefaultLibraryAsset,
   extractAssetFromDeleteOperation,
   getAssetById,
+  getAssetExportFileNames,
+  importAssetFiles,
+  isBuiltinAsset,
   listAssets,
+  listPlacedAssets,
+  onAssetLibraryChange,
+  registerPlacedAsset,
+  renameAsset,
+  serializeAssetMetadata,
+  setAssetLibraryStore,
+  setAssetThumbnailRenderer,
 } from "./asset-library";
-import { generateManifest, getManifestJSON } from "./scene-manifest";
+import { initAssetGizmo, setAssetPickingEnabled } from "./asset-gizmo";
+import { createAssetThumbnailRenderer, getAssetLocalBounds } from "./asset-thumbnails";
+import { createRegionClipboard, pasteRegion } from "./compositing";
+import { createGridTracker, type GridTracker } from "./grid-tracker";
 import {
-  buildSpatialGrid,
+  computeManifestCacheKey,
+  computeSplatContentHash,
+  createCachedManifestDocument,
+  createIndexedDbManifestStore,
+  getManifestSidecarUrl,
+  loadCachedManifest,
+  saveCachedManifest,
+  type CachedManifestDocument,
+  type ManifestCacheStore,
+} from "./manifest-cache";
+import { serializeFixtureFile } from "./providers/fixtures";
+import { createFixtureRecorder } from "./providers/recording";
+import { setProviderRecorder } from "./providers/registry";
+import { bakeScene, encodeBakedPly, encodeBakedSpz } from "./scene-export";
+import { generateManifest, generateVisionManifest, getManifestJSON } from "./scene-manifest";
+import {
+  applySessionDocument,
+  captureSession,
+  parseSessionDocument,
+  serializeSession,
+} from "./session";
+import {
+  applyPlacedAssetTransform,
+  computeSurfacePlacement,
+  copyRegionFromOperation,
+  placeAsset,
+  placeAssetFromOperation,
+} from "./placement";
+import { createPlacementPreview } from "./placement-preview";
+import { createRegionPaste } from "./region-paste";
+import { createRegionSelector } from "./region-selector";
+import { createSelectionSet } from "./selection-set";
+import { initShapeGizmos } from "./shape-gizmo";
+import {
+  buildSpatialGridInWorker,
+  buildSpatialIndex,
   getCellAtWorldPos,
   gridKey,
+  raycastSpatialGrid,
+  resolveSpatialIndexOptions,
   serializeSpatialGridForLLM,
 } from "./spatial-index";
-import type { SceneManifest, SpatialGrid } from "./types";
-import { initUI } from "./ui";
 import {
+  createSceneRegistry,
+  loadSceneIndex,
+  type LoadedScene,
+  type SceneIndexEntry,
+} from "./scene-registry";
+import { createSurfaceSampler, type SplatSource, type SurfaceSampler } from "./surface";
+import type { AssetEntry, SceneManifest, SpatialGrid, SpatialIndex } from "./types";
+import { initUI, readGeminiApiKey } from "./ui";
+import {
+  captureSettledScreenshot,
+  clearClickIndicator,
+  getCameraState,
   getScreenshot,
   getScreenshotCropAroundPoint,
   initViewer,
+  loadSplatScene,
+  onEditOverlayHover,
   onSplatClick,
+  setCameraState,
+  setEditOverlayEntries,
+  showSplatScene,
+  type CameraState,
+  type LoadedSplatScene,
 } from "./viewer";
 
 const DEFAULT_SCENE_FILE = "elegant_library_with_fireplace_500k.spz";
+const RECORD_LLM_FIXTURES =
+  String(import.meta.env.VITE_LLM_RECORD ?? "false").toLowerCase() === "true";
+const RECORD_LLM_IMAGES =
+  String(import.meta.env.VITE_LLM_RECORD_IMAGES ?? "false").toLowerCase() === "true";
+const SPATIAL_INDEX_TYPE =
+  String(import.meta.env.VITE_SPATIAL_INDEX ?? "grid").toLowerCase() === "octree"
+    ? "octree"
+    : "grid";
+const VISION_MANIFEST_ENABLED =
+  String(import.meta.env.VITE_VISION_MANIFEST ?? "true").toLowerCase() !== "false";
+
+// Per-scene state on top of what the registry tracks; the grid tracker,
+// surface sampler and region copies all follow the scene's own splats.
+interface SceneWorkspace extends LoadedScene {
+  view: LoadedSplatScene;
+  gridTracker: GridTracker;
+  surfaceSampler: SurfaceSampler;
+  // Copies made by move/duplicate are not registered placed assets, but they
+  // are scene content for the grid and the bake while attached.
+  regionCopies: SplatMesh[];
+  toCacheDocument: (manifest: SceneManifest) => CachedManifestDocument;
+  // Camera when the scene was last left, restored on return.
+  camera: CameraState | null;
+}
 
-let currentGrid: SpatialGrid | null = null;
-let currentManifest: SceneManifest | null = null;
+const scenes = createSceneRegistry<SceneWorkspace>();
 let lastClickPoint: THREE.Vector3 | null = null;
+// Settles once the running vision pass has its screenshots and has put the
+// camera back; scene switches wait for it so the orbit never spans two scenes.
+let visionCapture: Promise<void> = Promise.resolve();
 
 export function getGrid(): SpatialGrid | null {
-  return currentGrid;
+  return scenes.getActive()?.grid ?? null;
+}
+
+export function getSpatialIndex(): SpatialIndex | null {
+  const active = scenes.getActive();
+  return active?.spatialIndex ?? active?.grid ?? null;
+}
+
+export function getSplatSource(): SplatSource | null {
+  return scenes.getActive()?.surfaceSampler.splats ?? null;
 }
 
 export function getManifest(): SceneManifest | null {
-  return currentManifest;
+  return scenes.getActive()?.manifest ?? null;
 }
 
 export function getLastClickPoint(): THREE.Vector3 | null {
   return lastClickPoint;
 }
 
+function requireActiveScene(): SceneWorkspace {
+  const active = scenes.getActive();
+  if (!active) {
+    throw new Error("No scene is active");
+  }
+  return active;
+}
+
+function listAddedMeshes(workspace: SceneWorkspace): SplatMesh[] {
+  return [
+    ...listPlacedAssets().map((instance) => instance.mesh),
+    ...workspace.regionCopies.filter((mesh) => mesh.parent !== null),
+  ];
+}
+
+/**
+ * Indexes a loaded splat scene and prepares its manifest. The vision pass is
+ * left to the caller because it screenshots the scene and needs it shown.
+ */
+async function createSceneWorkspace(
+  entry: SceneIndexEntry,
+  view: LoadedSplatScene,
+  manifestStore: ManifestCacheStore | null,
+  info: HTMLDivElement | null
+): Promise<{ workspace: SceneWorkspace; manifestCached: boolean }> {
+  info?.replaceChildren(`Indexing ${entry.file}...`);
+  // One set of options for every index built here, so the manifest cache key
+  // records the configured index type along with the grid settings.
+  const indexOptions = resolveSpatialIndexOptions({ type: SPATIAL_INDEX_TYPE });
+  const { grid: spatialGrid, arrays: splatArrays } = await buildSpatialGridInWorker(
+    view.splatMesh,
+    indexOptions,
+    (processed, total) => {
+      const percent = total > 0 ? Math.round((processed / total) * 100) : 100;
+      info?.replaceChildren(`Indexing ${entry.file}... ${percent}%`);
+    }
+  );
+  info?.replaceChildren(`Loaded ${entry.file}`);
+  const spatialJson = serializeSpatialGridForLLM(spatialGrid);
+  console.log(
+    `[spatial] Grid ready: occupied=${spatialGrid.cells.size}, serializedBytes=${spatialJson.length}`
+  );
+
+  // Manifest generation and click selection rely on uniform grid adjacency, so
+  // the octree is built alongside the grid and only feeds the LLM voxel context.
+  let spatialIndex: SpatialIndex | null = null;
+  if (SPATIAL_INDEX_TYPE === "octree") {
+    const octree = buildSpatialIndex(view.splatMesh, indexOptions);
+    spatialIndex = octree;
+    console.log(
+      `[spatial] Octree ready: leaves=${octree.cells.size}, serializedBytes=${serializeSpatialGridForLLM(octree).length}`
+    );
+  }
+
+  // Manifests are cached per splat content + index options; a hit skips both
+  // the heuristic pass and the vision request.
+  const contentHash = computeSplatContentHash(splatArrays);
+  const manifestKey = computeManifestCacheKey(contentHash, indexOptions);
+  const cachedManifest = await loadCachedManifest(manifestKey, spatialGrid, {
+    store: manifestStore,
+    sidecarUrl: getManifestSidecarUrl(entry.url),
+  });
+  const manifest = cachedManifest ?? generateManifest(spatialGrid);
+  const manifestJson = getManifestJSON(manifest);
+  console.log(`[main] Manifest (${manifest.source}): ${manifest.description}`);
+  console.log(
+    `[main] Manifest regions=${manifest.regions.length}, serializedBytes=${manifestJson.length}`
+  );
+
+  const workspace: SceneWorkspace = {
+    entry,
+    root: view.root,
+    splatMesh: view.splatMesh,
+    grid: spatialGrid,
+    arrays: splatArrays,
+    spatialIndex,
+    manifest,
+    history: createEditHistoryState(),
+    placedAssets: [],
+    view,
+    // The manifest describes the scene as loaded; from here on the grid
+    // follows edits and placed assets so the agent's voxel context stays current.
+    gridTracker: createGridTracker(spatialGrid, view.splatMesh, splatArrays),
+    // Placement rests the asset's bounds on the surface; the ghost follows the
+    // cursor via the voxel grid because a splat raycast per move is too slow.
+    surfaceSampler: createSurfaceSampler(spatialGrid, splatArrays, view.splatMesh.matrixWorld),
+    regionCopies: [],
+    toCacheDocument: (target) =>
+      createCachedManifestDocument(target, {
+        key: manifestKey,
+        contentHash,
+        indexOptions,
+        sceneUrl: entry.url,
+      }),
+    camera: null,
+  };
+  return { workspace, manifestCached: cachedManifest !== null };
+}
+
+// The heuristic manifest is usable immediately; the vision pass replaces it
+// once the provider answers (or leaves it in place if none is configured).
+// Only the screenshot orbit holds up scene switches; the provider request
+// labels `workspace` whichever scene is shown by the time it answers.
+function startVisionManifest(
+  workspace: SceneWorkspace,
+  manifestStore: ManifestCacheStore | null,
+  info: HTMLDivElement | null
+): void {
+  info?.replaceChildren(`Labeling ${workspace.entry.file}...`);
+  let labels = "heuristic labels";
+  let captured = () => {};
+  visionCapture = new Promise((resolve) => {
+    captured = resolve;
+  });
+  void generateVisionManifest(
+    workspace.grid,
+    {
+      getCameraState,
+      setCameraState,
+      captureScreenshot: () => captureSettledScreenshot(),
+      onCaptured: captured,
+    },
+    { apiKeys: { gemini: readGeminiApiKey() || undefined } }
+  )
+    .then(async (visionManifest) => {
+      workspace.manifest = visionManifest;
+      if (visionManifest.source === "vision") {
+        labels = "vision labels";
+      }
+      console.log(
+        `[main] Manifest (${visionManifest.source}) regions=${visionManifest.regions.length}: ${visionManifest.description}`
+      );
+      // Heuristic fallbacks are cheap to rebuild and should not mask a
+      // provider configured later, so only vision results are cached.
+      if (visionManifest.source === "vision" && manifestStore) {
+        await saveCachedManifest(manifestStore, workspace.toCacheDocument(visionManifest));
+      }
+    })
+    .catch((error: unknown) => {
+      console.warn("[main] Vision manifest failed; keeping heuristic manifest", error);
+    })
+    .finally(() => {
+      captured();
+      // Say which labels the agent sees, so a missing vision provider shows.
+      if (scenes.getActive() === workspace) {
+        info?.replaceChildren(`Loaded ${workspace.entry.file} (${labels})`);
+      }
+    });
+}
+
 async function bootstrap() {
   const canvas = document.querySelector<HTMLCanvasElement>("#canvas");
   const info = document.querySelector<HTMLDivElement>("#info");
@@ -56,34 +321,174 @@ async function bootstrap() {
     throw new Error("Missing #canvas element");
   }
 
-  const sceneUrl = `/scenes/${DEFAULT_SCENE_FILE}`;
-  info?.replaceChildren(`Loading ${DEFAULT_SCENE_FILE}...`);
+  const sceneIndex = await loadSceneIndex(DEFAULT_SCENE_FILE);
+  const initialEntry =
+    sceneIndex.find((entry) => entry.file === DEFAULT_SCENE_FILE) ?? sceneIndex[0];
+  info?.replaceChildren(`Loading ${initialEntry.file}...`);
 
-  const viewer = await initViewer(canvas, sceneUrl);
+  const viewer = await initViewer(canvas, initialEntry.url);
+  setAssetLibraryStore(createIndexedDbAssetStore());
+  const assetThumbnails = createAssetThumbnailRenderer(viewer.renderer, (asset) =>
+    createPlacedAssetMesh(asset, new THREE.Vector3())
+  );
+  setAssetThumbnailRenderer((asset) => assetThumbnails.renderDataUrl(asset));
   await ensureDefaultLibraryAsset();
+  initShapeGizmos(viewer);
+  initAssetGizmo(viewer);
+  onEditHistoryChange(() => setEditOverlayEntries(getHistoryEntries()));
 
-  info?.replaceChildren(`Loaded ${DEFAULT_SCENE_FILE}`);
   console.log("[main] Viewer initialized");
 
-  const spatialGrid = buildSpatialGrid(viewer.splatMesh);
-  currentGrid = spatialGrid;
-  const spatialJson = serializeSpatialGridForLLM(spatialGrid);
-  console.log(
-    `[spatial] Grid ready: occupied=${spatialGrid.cells.size}, serializedBytes=${spatialJson.length}`
+  const manifestStore = createIndexedDbManifestStore();
+  const initial = await createSceneWorkspace(
+    initialEntry,
+    {
+      root: viewer.sceneRoot,
+      splatMesh: viewer.splatMesh,
+      bounds: viewer.bounds,
+      boundsCenter: viewer.boundsCenter,
+      boundsSize: viewer.boundsSize,
+    },
+    manifestStore,
+    info
   );
+  scenes.add(initial.workspace);
+  scenes.activate(initialEntry.file);
+  if (!initial.manifestCached && VISION_MANIFEST_ENABLED) {
+    startVisionManifest(initial.workspace, manifestStore, info);
+  }
 
-  const manifest = generateManifest(spatialGrid);
-  currentManifest = manifest;
-  const manifestJson = getManifestJSON(manifest);
-  console.log(`[main] Manifest: ${manifest.description}`);
-  console.log(
-    `[main] Manifest regions=${manifest.regions.length}, serializedBytes=${manifestJson.length}`
-  );
+  const syncGridWithPlacedAssets = () => {
+    const active = scenes.getActive();
+    active?.gridTracker.syncPlacedMeshes(listAddedMeshes(active));
+  };
+  // Placements and gizmo transforms are history steps too, so one listener
+  // covers both edits and placed assets. Switching scenes swaps the history
+  // and notifies here as well, so the incoming scene's grid catches up.
+  onEditHistoryChange(() => {
+    scenes.getActive()?.gridTracker.syncEdits(getEditHistory());
+    syncGridWithPlacedAssets();
+  });
+
+  // Scenes stay loaded once visited; switching back restores the camera.
+  let sceneSwitch: Promise<void> = Promise.resolve();
+  const switchScene = (file: string): Promise<void> => {
+    sceneSwitch = sceneSwitch.then(async () => {
+      await visionCapture;
+      const outgoing = scenes.getActive();
+      if (outgoing?.entry.file === file) {
+        return;
+      }
+      const entry = sceneIndex.find((candidate) => candidate.file === file);
+      if (!entry) {
+        throw new Error(`Unknown scene ${file}`);
+      }
+      if (outgoing) {
+        outgoing.camera = getCameraState();
+      }
+      // Picks and previews belong to the scene they were made in; the
+      // clipboard itself carries over.
+      regionPaste.cancel();
+      regionSelector.clear();
+      selectionSet.clear();
+
+      let target = scenes.get(file);
+      let runVision = false;
+      if (!target) {
+        info?.replaceChildren(`Loading ${entry.file}...`);
+        const view = await loadSplatScene(entry.url);
+        const created = await createSceneWorkspace(entry, view, manifestStore, info);
+        target = created.workspace;
+        runVision = !created.manifestCached && VISION_MANIFEST_ENABLED;
+        scenes.add(target);
+      }
+
+      lastClickPoint = null;
+      scenes.activate(file);
+      showSplatScene(target.view, { fitCamera: target.camera === null });
+      if (target.camera) {
+        setCameraState(target.camera);
+      }
+      info?.replaceChildren(`Loaded ${entry.file}`);
+      if (runVision) {
+        startVisionManifest(target, manifestStore, info);
+      }
+    });
+    return sceneSwitch;
+  };
+
+  // Asset picking stands down while an asset is armed or paste points are
+  // being clicked, so those clicks do not select placed assets.
+  let placementArmed = false;
+  let pastePicking = false;
+  const updateAssetPicking = () => setAssetPickingEnabled(!placementArmed && !pastePicking);
+
+  // `copy` ops fill the clipboard; pasting aligns it into whichever scene is
+  // active and records it like a move/duplicate copy of that scene.
+  const regionPaste = createRegionPaste(viewer, {
+    getActiveSceneFile: () => scenes.getActive()?.entry.file ?? null,
+    normalAt: (point) =>
+      requireActiveScene().surfaceSampler.normalAt(point, viewer.camera.position),
+    commit: (clipboard, transform) => {
+      const active = requireActiveScene();
+      active.regionCopies.push(pasteRegion(clipboard, transform, active.root));
+      syncGridWithPlacedAssets();
+    },
+    onPickingChange: (picking) => {
+      pastePicking = picking;
+      updateAssetPicking();
+    },
+  });
+
+  let alignPlacementToSurface = false;
+  const resolveSurfacePose = (asset: AssetEntry, point: THREE.Vector3) =>
+    computeSurfacePlacement(getAssetLocalBounds(asset), point, {
+      normal: alignPlacementToSurface
+        ? requireActiveScene().surfaceSampler.normalAt(point, viewer.camera.position)
+        : null,
+    });
+  const placementPreview = createPlacementPreview(viewer, {
+    createMesh: (asset) => createPlacedAssetMesh(asset, new THREE.Vector3()),
+    resolvePose: (asset, ray) => {
+      const grid = getGrid();
+      const hit = grid ? raycastSpatialGrid(grid, ray) : null;
+      return hit ? resolveSurfacePose(asset, hit.point) : null;
+    },
+  });
 
-  onSplatClick((point) => {
+  // A drawn region replaces the click point until a plain click or Esc.
+  const regionSelector = createRegionSelector(viewer, { getGrid });
+  // Ctrl-click adds points (the previous plain click becomes the first one),
+  // Alt-click removes one, and a plain click starts over with a single point.
+  const selectionSet = createSelectionSet(viewer, { getGrid, getSplats: getSplatSource });
+  regionSelector.onChange((selection) => {
+    if (selection) selectionSet.clear();
+  });
+
+  onSplatClick((point, event) => {
+    regionSelector.clear();
+    if (event.altKey) {
+      selectionSet.subtract(point);
+      clearClickIndicator();
+      return;
+    }
+    if (event.ctrlKey || event.metaKey) {
+      if (selectionSet.getMembers().length === 0 && lastClickPoint) {
+        selectionSet.add(lastClickPoint);
+      }
+      selectionSet.add(point);
+      clearClickIndicator();
+    } else {
+      selectionSet.clear();
+    }
     lastClickPoint = point.clone();
     console.log("[main] Selected point:", point.toArray());
+    regionPaste.handleClick(point);
 
+    const spatialGrid = getGrid();
+    if (!spatialGrid) {
+      return;
+    }
     const hitCell = getCellAtWorldPos(spatialGrid, point);
     if (hitCell) {
       console.log(
@@ -103,9 +508,11 @@ async function bootstrap() {
     }
   });
 
+  // Extracted assets record the scene that was active when they were cut.
   setAssetExtractionHandler((op, parent) => {
-    const extractionMesh = resolveSplatMesh(parent, viewer.splatMesh);
-    const asset = extractAssetFromDeleteOperation(op, extractionMesh, DEFAULT_SCENE_FILE);
+    const active = requireActiveScene();
+    const extractionMesh = resolveSplatMesh(parent, active.splatMesh);
+    const asset = extractAssetFromDeleteOperation(op, extractionMesh, active.entry.file);
     if (!asset) {
       console.log("[main] No asset extracted for current delete operation");
       return;
@@ -117,21 +524,172 @@ async function bootstrap() {
     );
   });
 
+  // Same strict, edit-aware capture as move; an empty copy keeps the clipboard.
+  setRegionCaptureHandler((op, parent, edits) => {
+    const active = requireActiveScene();
+    const source = resolveSplatMesh(parent, active.splatMesh);
+    const asset = captureRegionSplats(op, source, active.entry.file, { strict: true, edits });
+    if (!asset) {
+      console.log("[main] Nothing captured for copy operation; clipboard unchanged");
+      return;
+    }
+    // The region's own ground is fitted facing up, not toward the camera.
+    const up = new THREE.Vector3(0, 1, 0);
+    regionPaste.setClipboard(
+      createRegionClipboard(asset, active.entry.file, (point) =>
+        active.surfaceSampler.normalAt(point, point.clone().add(up))
+      )
+    );
+  });
+
+  setAssetPlacementHandler(placeAssetFromOperation);
+  setRegionCopyHandler((op, parent, edits) => {
+    const active = requireActiveScene();
+    const source = resolveSplatMesh(parent, active.splatMesh);
+    const copy = copyRegionFromOperation(op, source, active.root, active.entry.file, edits);
+    if (!copy) {
+      return null;
+    }
+    active.regionCopies.push(copy.mesh);
+    return copy.action;
+  });
+
+  const fixtureRecorder = RECORD_LLM_FIXTURES
+    ? createFixtureRecorder({ includeImageData: RECORD_LLM_IMAGES })
+    : null;
+  setProviderRecorder(fixtureRecorder);
+
   initUI({
     processCommand,
     executeOperations,
     undoLastEdit,
-    getSplatMesh: () => viewer.splatMesh,
+    redoEdit,
+    getConversationTurns,
+    getHistoryEntries,
+    onEditHistoryChange,
+    onEditOverlayHover,
+    getSplatMesh: () => requireActiveScene().splatMesh,
     getScreenshot,
     getScreenshotCropAroundPoint,
     getGrid,
+    getSpatialIndex,
+    getSplatSource,
     getManifest,
     getLastClickPoint,
     onSplatClick,
+    regionSelection: regionSelector,
+    selectionSet,
+    listScenes: () => sceneIndex,
+    getActiveSceneFile: () => scenes.getActive()?.entry.file ?? null,
+    switchScene,
     listAssets,
     getAssetById,
-    createPlacedAssetMesh,
-    getPlacementParent: () => viewer.scene,
+    placeAsset: (asset, worldPos) => {
+      const mesh = createPlacedAssetMesh(asset, worldPos);
+      applyPlacedAssetTransform(mesh, resolveSurfacePose(asset, worldPos));
+      placeAsset(asset, mesh, requireActiveScene().root);
+    },
+    onPlacementArmedChange: (asset) => {
+      placementArmed = asset !== null;
+      updateAssetPicking();
+      placementPreview.setAsset(asset);
+    },
+    setPlacementAlignToSurface: (enabled) => {
+      alignPlacementToSurface = enabled;
+      console.log(`[main] Align placement to surface: ${enabled}`);
+    },
+    regionPaste,
+    onAssetsChange: onAssetLibraryChange,
+    startAssetTurntable: (asset, canvas) => assetThumbnails.startTurntable(asset, canvas),
+    isBuiltinAsset,
+    renameAsset,
+    deleteAsset,
+    exportAsset: async (id, format) => {
+      const asset = getAssetById(id);
+      if (!asset) {
+        throw new Error(`Unknown asset ${id}`);
+      }
+      const { fileName, metadataFileName } = getAssetExportFileNames(asset, format);
+      const bytes =
+        format === "ply" ? encodeBakedPly(asset.splats) : await encodeBakedSpz(asset.splats);
+      return {
+        fileName,
+        bytes,
+        metadataFileName,
+        metadataJson: serializeAssetMetadata(asset, fileName),
+      };
+    },
+    importAssetFiles,
+    exportSession: () =>
+      serializeSession(
+        captureSession(requireActiveScene().entry.url, listPlacedAssets(), getCameraState())
+      ),
+    importSession: (json) => {
+      const active = requireActiveScene();
+      const doc = parseSessionDocument(json);
+      if (doc.sceneUrl !== active.entry.url) {
+        console.warn(
+          `[main] Session was saved against ${doc.sceneUrl}, current scene is ${active.entry.url}`
+        );
+      }
+      const result = applySessionDocument(doc, {
+        editParent: active.splatMesh,
+        sceneParent: active.root,
+        placementParent: active.root,
+        clearPlacedAssets,
+        resolveAsset: (assetId, label) =>
+          getAssetById(assetId) ?? listAssets().find((asset) => asset.label === label),
+        placeAsset: (asset, placement) => {
+          const mesh = createPlacedAssetMesh(asset, new THREE.Vector3(...placement.position));
+          mesh.quaternion.set(...placement.quaternion);
+          mesh.scale.setScalar(placement.scale);
+          registerPlacedAsset(asset, mesh, { id: placement.id });
+          return mesh;
+        },
+        setCameraState,
+      });
+      syncGridWithPlacedAssets();
+      return result;
+    },
+    exportBakedScene: async (format) => {
+      const active = requireActiveScene();
+      const placedMeshes = listAddedMeshes(active).filter((mesh) => mesh.parent !== null);
+      const result = bakeScene(active.splatMesh, { edits: getEditHistory(), placedMeshes });
+      try {
+        const bytes =
+          format === "ply" ? encodeBakedPly(result.splats) : await encodeBakedSpz(result.splats);
+        const baseName = (active.entry.file.split("/").pop() ?? active.entry.file).replace(
+          /\.[^.]+$/,
+          ""
+        );
+        return {
+          fileName: `${baseName}-edited.${format}`,
+          bytes,
+          bakedSplats: result.bakedSplats,
+          droppedSplats: result.droppedSplats,
+        };
+      } finally {
+        result.splats.dispose();
+      }
+    },
+    exportManifestSidecar: () => {
+      const active = scenes.getActive();
+      if (!active) {
+        return null;
+      }
+      const doc = active.toCacheDocument(active.manifest);
+      return {
+        fileName: getManifestSidecarUrl(active.entry.file),
+        json: JSON.stringify(doc),
+        source: doc.source,
+      };
+    },
+    exportRecordedFixtures: fixtureRecorder
+      ? () => ({
+          json: serializeFixtureFile(fixtureRecorder.fixtures),
+          count: fixtureRecorder.fixtures.length,
+        })
+      : undefined,
   });
 
   window.addEventListener("keydown", (event) => {
@@ -0,0 +1,308 @@
+import * as THREE from "three";
+import { hashBytes, hashString } from "./hash";
+import type { SpatialIndexOptions, SplatArrays } from "./spatial-index";
+import type { SceneManifest, SemanticRegion, SpatialGrid } from "./types";
+
+export const MANIFEST_CACHE_VERSION = 1;
+const DEFAULT_DB_NAME = "muse-manifest-cache";
+const STORE_NAME = "manifests";
+
+export interface CachedSemanticRegion {
+  label: string;
+  gridCells: string[];
+  bounds: { min: [number, number, number]; max: [number, number, number] };
+  color: [number, number, number];
+  confidence: number;
+}
+
+/**
+ * Persisted manifest, minus the grid: a cache hit means the grid just rebuilt
+ * from the same splats and options is identical, so regions re-attach to it.
+ */
+export interface CachedManifestDocument {
+  version: typeof MANIFEST_CACHE_VERSION;
+  key: string;
+  contentHash: string;
+  indexOptions: CacheKeyIndexOptions;
+  sceneUrl: string;
+  createdAt: string;
+  source: NonNullable<SceneManifest["source"]>;
+  description: string;
+  regions: CachedSemanticRegion[];
+  screenshots: string[];
+}
+
+// `logPrefix` does not change the grid, so it stays out of the key.
+export type CacheKeyIndexOptions = Omit<SpatialIndexOptions, "logPrefix">;
+
+export interface ManifestCacheStore {
+  get(key: string): Promise<CachedManifestDocument | null>;
+  put(doc: CachedManifestDocument): Promise<void>;
+}
+
+export interface LoadCachedManifestOptions {
+  store?: ManifestCacheStore | null;
+  /** Sidecar JSON next to the scene, tried when the store misses. */
+  sidecarUrl?: string | null;
+  fetchImpl?: typeof fetch;
+}
+
+export function computeSplatContentHash(arrays: SplatArrays): string {
+  return hashBytes(
+    new Uint32Array([arrays.count]),
+    arrays.indices.subarray(0, arrays.count),
+    arrays.centers.subarray(0, arrays.count * 3),
+    arrays.colors.subarray(0, arrays.count * 3)
+  );
+}
+
+export function toCacheKeyIndexOptions(options: SpatialIndexOptions): CacheKeyIndexOptions {
+  return {
+    type: options.type,
+    resolution: [...options.resolution],
+    cropYFraction: [...options.cropYFraction],
+    octree: { ...options.octree },
+  };
+}
+
+export function computeManifestCacheKey(
+  contentHash: string,
+  options: SpatialIndexOptions
+): string {
+  const indexOptions = toCacheKeyIndexOptions(options);
+  return hashString(
+    JSON.stringify({ version: MANIFEST_CACHE_VERSION, contentHash, indexOptions: sortKeys(indexOptions) })
+  );
+}
+
+/** `scenes/room.spz` → `scenes/room.manifest.json`. */
+export function getManifestSidecarUrl(sceneUrl: string): string {
+  const [path, query] = sceneUrl.split("?", 2);
+  const base = path.replace(/\.[^./]+$/, "");
+  return `${base}.manifest.json${query ? `?${query}` : ""}`;
+}
+
+export function createCachedManifestDocument(
+  manifest: SceneManifest,
+  meta: { key: string; contentHash: string; indexOptions: SpatialIndexOptions; sceneUrl: string }
+): CachedManifestDocument {
+  return {
+    version: MANIFEST_CACHE_VERSION,
+    key: meta.key,
+    contentHash: meta.contentHash,
+    indexOptions: toCacheKeyIndexOptions(meta.indexOptions),
+    sceneUrl: meta.sceneUrl,
+    createdAt: new Date().toISOString(),
+    source: manifest.source ?? "heuristic",
+    description: manifest.description,
+    regions: manifest.regions.map((region) => ({
+      label: region.label,
+      gridCells: [...region.gridCells],
+      bounds: {
+        min: region.estimatedBounds.min.toArray(),
+        max: region.estimatedBounds.max.toArray(),
+      },
+      color: [region.dominantColor.r, region.dominantColor.g, region.dominantColor.b],
+      confidence: region.confidence,
+    })),
+    screenshots: [...manifest.screenshots],
+  };
+}
+
+/**
+ * Rebuilds a manifest on top of `grid`, or null when the document is from
+ * another cache version or references cells the grid does not have.
+ */
+export function restoreCachedManifest(
+  doc: CachedManifestDocument,
+  grid: SpatialGrid
+): SceneManifest | null {
+  if (doc.version !== MANIFEST_CACHE_VERSION) {
+    console.warn(`[manifest-cache] Ignoring cache version ${doc.version}`);
+    return null;
+  }
+  const regions: SemanticRegion[] = [];
+  for (const region of doc.regions) {
+    const missing = region.gridCells.find((key) => !grid.cells.has(key));
+    if (missing) {
+      console.warn(
+        `[manifest-cache] Cached region "${region.label}" references missing cell ${missing}; discarding cache`
+      );
+      return null;
+    }
+    regions.push({
+      label: region.label,
+      gridCells: [...region.gridCells],
+      estimatedBounds: new THREE.Box3(
+        new THREE.Vector3(...region.bounds.min),
+        new THREE.Vector3(...region.bounds.max)
+      ),
+      dominantColor: new THREE.Color(...region.color),
+      confidence: region.confidence,
+    });
+  }
+  return {
+    description: doc.description,
+    regions,
+    grid,
+    screenshots: [...doc.screenshots],
+    source: doc.source,
+  };
+}
+
+export function parseCachedManifestDocument(json: string): CachedManifestDocument {
+  const raw = JSON.parse(json) as unknown;
+  if (typeof raw !== "object" || raw === null) {
+    throw new Error("Manifest cache document must be a JSON object.");
+  }
+  const doc = raw as Partial<CachedManifestDocument>;
+  if (typeof doc.key !== "string" || !Array.isArray(doc.regions) || typeof doc.description !== "string") {
+    throw new Error("Manifest cache document is missing key, description or regions.");
+  }
+  return {
+    ...doc,
+    screenshots: Array.isArray(doc.screenshots) ? doc.screenshots : [],
+  } as CachedManifestDocument;
+}
+
+/**
+ * Looks `key` up in the store, then in the sidecar file. A sidecar hit is
+ * copied into the store so later loads skip the fetch.
+ */
+export async function loadCachedManifest(
+  key: string,
+  grid: SpatialGrid,
+  options: LoadCachedManifestOptions = {}
+): Promise<SceneManifest | null> {
+  const { store = null, sidecarUrl = null, fetchImpl = globalThis.fetch } = options;
+
+  if (store) {
+    try {
+      const doc = await store.get(key);
+      const manifest = doc ? restoreCachedManifest(doc, grid) : null;
+      if (manifest) {
+        console.log(
+          `[manifest-cache] Loaded ${manifest.source} manifest from IndexedDB key=${key} regions=${manifest.regions.length}`
+        );
+        return manifest;
+      }
+    } catch (error) {
+      console.warn("[manifest-cache] IndexedDB lookup failed", error);
+    }
+  }
+
+  if (sidecarUrl && fetchImpl) {
+    const doc = await fetchSidecar(sidecarUrl, fetchImpl);
+    if (doc && doc.key !== key) {
+      console.log(
+        `[manifest-cache] Sidecar ${sidecarUrl} is for key=${doc.key}, scene is key=${key}; regenerating`
+      );
+    } else if (doc) {
+      const manifest = restoreCachedManifest(doc, grid);
+      if (manifest) {
+        console.log(
+          `[manifest-cache] Loaded ${manifest.source} manifest from ${sidecarUrl} regions=${manifest.regions.length}`
+        );
+        if (store) {
+          await saveCachedManifest(store, doc);
+        }
+        return manifest;
+      }
+    }
+  }
+
+  console.log(`[manifest-cache] No cached manifest for key=${key}`);
+  return null;
+}
+
+export async function saveCachedManifest(
+  store: ManifestCacheStore,
+  doc: CachedManifestDocument
+): Promise<boolean> {
+  try {
+    await store.put(doc);
+    console.log(`[manifest-cache] Stored ${doc.source} manifest key=${doc.key}`);
+    return true;
+  } catch (error) {
+    console.warn("[manifest-cache] Failed to store manifest", error);
+    return false;
+  }
+}
+
+/** IndexedDB-backed store, or null where IndexedDB is unavailable. */
+export function createIndexedDbManifestStore(
+  dbName: string = DEFAULT_DB_NAME
+): ManifestCacheStore | null {
+  if (typeof indexedDB === "undefined") {
+    return null;
+  }
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const openDb = () => {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+  };
+
+  return {
+    async get(key) {
+      const db = await openDb();
+      const result = await requestToPromise<unknown>(
+        db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(key)
+      );
+      return (result as CachedManifestDocument | undefined) ?? null;
+    },
+    async put(doc) {
+      const db = await openDb();
+      const tx = db.transaction(STORE_NAME, "readwrite");
+      tx.objectStore(STORE_NAME).put(doc);
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      });
+    },
+  };
+}
+
+async function fetchSidecar(
+  url: string,
+  fetchImpl: typeof fetch
+): Promise<CachedManifestDocument | null> {
+  try {
+    const response = await fetchImpl(url);
+    if (!response.ok) {
+      return null;
+    }
+    return parseCachedManifestDocument(await response.text());
+  } catch {
+    // Missing sidecars come back as 404s or the dev server's HTML fallback.
+    return null;
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((k) => [k, sortKeys((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+}
@@ -0,0 +1,96 @@
+import type { SplatMesh } from "@sparkjsdev/spark";
+import * as THREE from "three";
+import { applyPlacedAssetTransform, type PlacedAssetTransform } from "./placement";
+import type { AssetEntry } from "./types";
+import type { ViewerContext } from "./viewer";
+
+const GHOST_OPACITY = 0.45;
+const GHOST_TINT = new THREE.Color(0.7, 0.95, 1);
+
+export interface PlacementPreviewOptions {
+  createMesh(asset: AssetEntry): SplatMesh;
+  /** Pose for `asset` under the cursor ray, or null when the ray hits nothing. */
+  resolvePose(asset: AssetEntry, ray: THREE.Ray): PlacedAssetTransform | null;
+}
+
+export interface PlacementPreview {
+  /** Starts following the cursor with `asset`; null hides the ghost. */
+  setAsset(asset: AssetEntry | null): void;
+  dispose(): void;
+}
+
+/** Makes `mesh` a translucent, tinted ghost that never intercepts clicks. */
+export function styleGhostMesh(mesh: SplatMesh): void {
+  mesh.opacity = GHOST_OPACITY;
+  mesh.recolor.copy(GHOST_TINT);
+  mesh.raycast = () => {};
+}
+
+/**
+ * Translucent copy of the armed asset that follows the cursor. Pointer moves
+ * are coalesced to one pose update per frame; the ghost opts out of
+ * raycasting so it never intercepts the placement click.
+ */
+export function createPlacementPreview(
+  ctx: ViewerContext,
+  options: PlacementPreviewOptions
+): PlacementPreview {
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+  let ghost: { asset: AssetEntry; mesh: SplatMesh } | null = null;
+  let pendingFrame: number | null = null;
+
+  function update(): void {
+    pendingFrame = null;
+    if (!ghost) return;
+    raycaster.setFromCamera(pointer, ctx.camera);
+    const pose = options.resolvePose(ghost.asset, raycaster.ray);
+    ghost.mesh.visible = pose !== null;
+    if (pose) {
+      applyPlacedAssetTransform(ghost.mesh, pose);
+    }
+  }
+
+  function onPointerMove(event: PointerEvent): void {
+    if (!ghost) return;
+    const rect = ctx.canvas.getBoundingClientRect();
+    pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    pendingFrame ??= requestAnimationFrame(update);
+  }
+
+  function onPointerLeave(): void {
+    if (ghost) ghost.mesh.visible = false;
+  }
+
+  // Not `mesh.dispose()`: the ghost shares the asset's PackedSplats.
+  function clear(): void {
+    if (!ghost) return;
+    ctx.scene.remove(ghost.mesh);
+    ghost = null;
+  }
+
+  ctx.canvas.addEventListener("pointermove", onPointerMove);
+  ctx.canvas.addEventListener("pointerleave", onPointerLeave);
+
+  return {
+    setAsset(asset) {
+      if (ghost?.asset === asset) return;
+      clear();
+      if (!asset) return;
+      const mesh = options.createMesh(asset);
+      styleGhostMesh(mesh);
+      mesh.visible = false;
+      ctx.scene.add(mesh);
+      ghost = { asset, mesh };
+      console.log(`[placement-preview] Previewing "${asset.label}"`);
+    },
+
+    dispose() {
+      clear();
+      if (pendingFrame !== null) cancelAnimationFrame(pendingFrame);
+      ctx.canvas.removeEventListener("pointermove", onPointerMove);
+      ctx.canvas.removeEventListener("pointerleave", onPointerLeave);
+    },
+  };
+}
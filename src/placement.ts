@@ -0,0 +1,285 @@
+import type { SplatEdit, SplatMesh } from "@sparkjsdev/spark";
+import * as THREE from "three";
+import {
+  PLACED_ASSET_QUATERNION,
+  captureRegionSplats,
+  createExtractedRegionMesh,
+  createPlacedAssetMesh,
+  getAssetById,
+  getPlacedAsset,
+  registerPlacedAsset,
+  restorePlacedAsset,
+  unregisterPlacedAsset,
+} from "./asset-library";
+import { getAssetLocalBounds } from "./asset-thumbnails";
+import { recordHistoryAction, type EditHistoryMeta, type HistoryAction } from "./executor";
+import type { AssetEntry, EditOperation, PlacedAssetInstance } from "./types";
+
+export interface PlacedAssetTransform {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  /** Uniform: SplatMesh averages non-uniform scales. */
+  scale: number;
+}
+
+export interface SurfacePlacementOptions {
+  /** Surface normal at the hit; when set, the asset's up axis is turned onto it. */
+  normal?: THREE.Vector3 | null;
+  /** Orientation the asset carries before alignment; defaults to placed-mesh orientation. */
+  baseQuaternion?: THREE.Quaternion;
+  /** Radians about world +Y, applied before the normal alignment. */
+  yaw?: number;
+  scale?: number;
+}
+
+export interface PlacementMeta {
+  /** Stable id to reuse instead of allocating a new one. */
+  id?: string;
+  command?: string;
+  provider?: string;
+}
+
+export function readPlacedAssetTransform(object: THREE.Object3D): PlacedAssetTransform {
+  return {
+    position: [object.position.x, object.position.y, object.position.z],
+    quaternion: [object.quaternion.x, object.quaternion.y, object.quaternion.z, object.quaternion.w],
+    scale: object.scale.x,
+  };
+}
+
+export function applyPlacedAssetTransform(
+  object: THREE.Object3D,
+  transform: PlacedAssetTransform
+): void {
+  object.position.fromArray(transform.position);
+  object.quaternion.fromArray(transform.quaternion);
+  object.scale.setScalar(transform.scale);
+  object.updateMatrixWorld(true);
+}
+
+export function isSamePlacedAssetTransform(
+  a: PlacedAssetTransform,
+  b: PlacedAssetTransform,
+  epsilon = 1e-6
+): boolean {
+  const values = (t: PlacedAssetTransform) => [...t.position, ...t.quaternion, t.scale];
+  const bValues = values(b);
+  return values(a).every((value, index) => Math.abs(value - bValues[index]) <= epsilon);
+}
+
+/**
+ * Pose that rests `localBounds` on the surface at `point`: the box's lowest
+ * corner along the up axis (world +Y, or `normal` when aligning) touches the
+ * surface, with the asset's centroid straight above the hit.
+ */
+export function computeSurfacePlacement(
+  localBounds: THREE.Box3,
+  point: THREE.Vector3,
+  options: SurfacePlacementOptions = {}
+): PlacedAssetTransform {
+  const worldUp = new THREE.Vector3(0, 1, 0);
+  const up = options.normal ? options.normal.clone().normalize() : worldUp.clone();
+  const base =
+    options.baseQuaternion ?? new THREE.Quaternion().fromArray(PLACED_ASSET_QUATERNION);
+  const scale = options.scale ?? 1;
+  const quaternion = new THREE.Quaternion()
+    .setFromUnitVectors(worldUp, up)
+    .multiply(new THREE.Quaternion().setFromAxisAngle(worldUp, options.yaw ?? 0))
+    .multiply(base);
+
+  let lowest = Infinity;
+  const corner = new THREE.Vector3();
+  const { min, max } = localBounds;
+  for (let i = 0; i < 8; i += 1) {
+    corner
+      .set(i & 1 ? max.x : min.x, i & 2 ? max.y : min.y, i & 4 ? max.z : min.z)
+      .multiplyScalar(scale)
+      .applyQuaternion(quaternion);
+    lowest = Math.min(lowest, corner.dot(up));
+  }
+
+  const position = point.clone().addScaledVector(up, -lowest);
+  return {
+    position: [position.x, position.y, position.z],
+    quaternion: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+    scale,
+  };
+}
+
+/**
+ * Adds `mesh` under `parent`, registers it and records the placement as an
+ * undoable history step. Undo detaches the mesh and unregisters it; redo puts
+ * the same instance back, so its id survives the round trip.
+ */
+export function placeAsset(
+  asset: AssetEntry,
+  mesh: SplatMesh,
+  parent: THREE.Object3D,
+  meta: PlacementMeta = {}
+): PlacedAssetInstance {
+  parent.add(mesh);
+  const instance = registerPlacedAsset(asset, mesh, { id: meta.id });
+  recordHistoryAction(
+    {
+      apply: () => restorePlacedAsset(instance, parent),
+      revert: () => {
+        unregisterPlacedAsset(instance.id);
+      },
+    },
+    historyMeta(meta, `Place ${asset.label}`)
+  );
+  console.log(`[placement] Placed id=${instance.id} asset=${asset.id}`);
+  return instance;
+}
+
+/**
+ * Executor hook for the agent's `place` operations: rests the named asset on
+ * `placement.position` and registers it. The executor records the returned
+ * action with the operation's history entry, so undo and refinements take
+ * the instance back out.
+ */
+export function placeAssetFromOperation(
+  op: EditOperation,
+  parent: THREE.Object3D
+): HistoryAction | null {
+  const config = op.placement;
+  const asset = config ? getAssetById(config.assetId) : undefined;
+  if (!config || !asset) {
+    console.warn(`[placement] placeAssetFromOperation: unknown asset ${config?.assetId ?? "(none)"}`);
+    return null;
+  }
+
+  const mesh = createPlacedAssetMesh(asset, new THREE.Vector3());
+  const pose = computeSurfacePlacement(
+    getAssetLocalBounds(asset),
+    new THREE.Vector3(...config.position),
+    { yaw: THREE.MathUtils.degToRad(config.yaw), scale: config.scale }
+  );
+  applyPlacedAssetTransform(mesh, pose);
+  parent.add(mesh);
+  const instance = registerPlacedAsset(asset, mesh);
+  console.log(`[placement] Agent placed id=${instance.id} asset=${asset.id}`);
+  return {
+    apply: () => restorePlacedAsset(instance, parent),
+    revert: () => {
+      unregisterPlacedAsset(instance.id);
+    },
+  };
+}
+
+/** Pose of a `move`/`duplicate` copy whose splats are centered on `origin`. */
+export function computeRegionCopyTransform(
+  origin: THREE.Vector3,
+  op: Pick<EditOperation, "translate" | "rotate">
+): PlacedAssetTransform {
+  const position = origin.clone().add(new THREE.Vector3(...(op.translate ?? [0, 0, 0])));
+  const quaternion = new THREE.Quaternion().setFromAxisAngle(
+    new THREE.Vector3(0, 1, 0),
+    THREE.MathUtils.degToRad(op.rotate ?? 0)
+  );
+  return {
+    position: [position.x, position.y, position.z],
+    quaternion: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+    scale: 1,
+  };
+}
+
+/**
+ * Executor hook for `move`/`duplicate`: copies the splats inside the operation's
+ * shapes out of `source`, as `edits` leave them on screen, and adds them under
+ * `parent` at the offset pose. The capture is strict, so an empty region
+ * copies nothing. The copy stays out of the asset library and the
+ * placed-asset registry; the executor hides the originals for `move`.
+ */
+export function copyRegionFromOperation(
+  op: EditOperation,
+  source: SplatMesh,
+  parent: THREE.Object3D,
+  sourceScene: string,
+  edits: readonly SplatEdit[] = []
+): { mesh: SplatMesh; action: HistoryAction } | null {
+  const extracted = captureRegionSplats(op, source, sourceScene, { strict: true, edits });
+  if (!extracted) {
+    console.warn(`[placement] copyRegionFromOperation: nothing extracted for ${op.action}`);
+    return null;
+  }
+
+  const mesh = createExtractedRegionMesh(extracted);
+  applyPlacedAssetTransform(mesh, computeRegionCopyTransform(extracted.originalPosition, op));
+  parent.add(mesh);
+  console.log(
+    `[placement] Copied region "${extracted.label}" splats=${extracted.splatCount} action=${op.action}`
+  );
+  return {
+    mesh,
+    action: {
+      apply: () => {
+        parent.add(mesh);
+      },
+      revert: () => {
+        parent.remove(mesh);
+      },
+    },
+  };
+}
+
+/** Moves a placed instance to `next` as one undoable history step. */
+export function transformPlacedAsset(
+  id: string,
+  next: PlacedAssetTransform,
+  meta: PlacementMeta = {}
+): boolean {
+  const instance = getPlacedAsset(id);
+  if (!instance) {
+    console.warn(`[placement] transformPlacedAsset: no placed instance id=${id}`);
+    return false;
+  }
+  const previous = readPlacedAssetTransform(instance.mesh);
+  if (isSamePlacedAssetTransform(previous, next)) {
+    return false;
+  }
+
+  const { mesh } = instance;
+  applyPlacedAssetTransform(mesh, next);
+  recordHistoryAction(
+    {
+      apply: () => applyPlacedAssetTransform(mesh, next),
+      revert: () => applyPlacedAssetTransform(mesh, previous),
+    },
+    historyMeta(meta, `Transform ${instance.label}`)
+  );
+  console.log(
+    `[placement] Transformed id=${id} pos=[${next.position.map((v) => v.toFixed(3)).join(", ")}] scale=${next.scale.toFixed(3)}`
+  );
+  return true;
+}
+
+/** Removes a placed instance as one undoable history step. */
+export function removePlacedAsset(id: string, meta: PlacementMeta = {}): boolean {
+  const instance = getPlacedAsset(id);
+  const parent = instance?.mesh.parent;
+  if (!instance || !parent) {
+    console.warn(`[placement] removePlacedAsset: no placed instance id=${id} in the scene`);
+    return false;
+  }
+
+  unregisterPlacedAsset(id);
+  recordHistoryAction(
+    {
+      apply: () => {
+        unregisterPlacedAsset(id);
+      },
+      revert: () => restorePlacedAsset(instance, parent),
+    },
+    historyMeta(meta, `Delete ${instance.label}`)
+  );
+  console.log(`[placement] Removed id=${id}`);
+  return true;
+}
+
+function historyMeta(meta: PlacementMeta, command: string): EditHistoryMeta {
+  return {
+    command: meta.command ?? command,
+    provider: meta.provider ?? "placement",
+  };
+}
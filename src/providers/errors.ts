@@ -0,0 +1,134 @@
+export type LLMErrorKind =
+  | "auth"
+  | "bad_request"
+  | "rate_limit"
+  | "unavailable"
+  | "timeout"
+  | "network"
+  | "invalid_response"
+  | "unknown";
+
+export class LLMProviderError extends Error {
+  readonly provider: string;
+  readonly kind: LLMErrorKind;
+  readonly status: number | null;
+
+  constructor(
+    provider: string,
+    kind: LLMErrorKind,
+    message: string,
+    status: number | null = null
+  ) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.provider = provider;
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+const TRANSIENT_KINDS = new Set<LLMErrorKind>(["rate_limit", "unavailable", "timeout", "network"]);
+
+const GOOGLE_RPC_STATUS_TO_HTTP: Record<string, number> = {
+  INVALID_ARGUMENT: 400,
+  FAILED_PRECONDITION: 400,
+  UNAUTHENTICATED: 401,
+  PERMISSION_DENIED: 403,
+  NOT_FOUND: 404,
+  RESOURCE_EXHAUSTED: 429,
+  INTERNAL: 500,
+  UNAVAILABLE: 503,
+  DEADLINE_EXCEEDED: 504,
+};
+
+export function kindForHttpStatus(status: number): LLMErrorKind {
+  if (status === 401 || status === 403) {
+    return "auth";
+  }
+  if (status === 408 || status === 504) {
+    return "timeout";
+  }
+  if (status === 429) {
+    return "rate_limit";
+  }
+  if (status >= 500) {
+    return "unavailable";
+  }
+  if (status >= 400) {
+    return "bad_request";
+  }
+  return "unknown";
+}
+
+// Maps SDK/fetch failures onto a provider error using structured fields:
+// an HTTP `status`/`code` on the error, a JSON error body carried in the
+// message (`{"error":{"code":503,"status":"UNAVAILABLE"}}`), or the
+// standard DOM error names for aborts and network failures.
+export function classifyProviderError(provider: string, error: unknown): LLMProviderError {
+  if (error instanceof LLMProviderError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = readStatusCode(error) ?? readStatusFromJsonBody(message);
+  if (status !== null) {
+    return new LLMProviderError(provider, kindForHttpStatus(status), message, status);
+  }
+
+  if (error instanceof Error) {
+    if (error.name === "AbortError" || error.name === "TimeoutError") {
+      return new LLMProviderError(provider, "timeout", message);
+    }
+    // fetch() rejects with a TypeError for DNS/connection/CORS failures.
+    if (error.name === "TypeError") {
+      return new LLMProviderError(provider, "network", message);
+    }
+  }
+
+  return new LLMProviderError(provider, "unknown", message);
+}
+
+export function isTransientProviderError(error: LLMProviderError): boolean {
+  return TRANSIENT_KINDS.has(error.kind);
+}
+
+function readStatusCode(error: unknown): number | null {
+  if (typeof error !== "object" || error === null) {
+    return null;
+  }
+  const candidate = error as { status?: unknown; code?: unknown };
+  for (const value of [candidate.status, candidate.code]) {
+    if (typeof value === "number" && Number.isInteger(value) && value >= 100 && value < 600) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function readStatusFromJsonBody(message: string): number | null {
+  const start = message.indexOf("{");
+  if (start < 0) {
+    return null;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message.slice(start));
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    return null;
+  }
+  const body = (parsed as { error?: unknown }).error ?? parsed;
+  if (typeof body !== "object" || body === null) {
+    return null;
+  }
+  const { code, status } = body as { code?: unknown; status?: unknown };
+  if (typeof code === "number" && code >= 100 && code < 600) {
+    return code;
+  }
+  if (typeof status === "string" && status in GOOGLE_RPC_STATUS_TO_HTTP) {
+    return GOOGLE_RPC_STATUS_TO_HTTP[status];
+  }
+  return null;
+}
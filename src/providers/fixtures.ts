@@ -0,0 +1,95 @@
+import { hashString } from "../hash";
+import type { LLMImage, LLMRequest } from "./types";
+
+export const FIXTURE_FILE_VERSION = 1;
+
+export interface LLMFixtureImage {
+  mimeType: LLMImage["mimeType"];
+  hash: string;
+  bytes: number;
+  // Full base64 payload, only kept when recording with `includeImageData`.
+  base64?: string;
+}
+
+export interface LLMFixture {
+  key: string;
+  label?: string;
+  provider: string;
+  model: string;
+  userText: string;
+  images: LLMFixtureImage[];
+  responseText: string;
+  recordedAt: string;
+}
+
+export interface LLMFixtureFile {
+  version: number;
+  fixtures: LLMFixture[];
+}
+
+// Fixtures are keyed by the user prompt and image hashes only. The system
+// prompt is deliberately excluded so prompt tuning does not invalidate the
+// whole corpus; command/context/retry changes still produce new keys.
+export function computeFixtureKey(userText: string, imageHashes: readonly string[]): string {
+  return hashString([userText, ...imageHashes].join("\n--image--\n"));
+}
+
+export function describeRequestImages(
+  images: readonly LLMImage[],
+  includeImageData = false
+): LLMFixtureImage[] {
+  return images.map((image) => ({
+    mimeType: image.mimeType,
+    hash: hashString(image.base64),
+    bytes: image.base64.length,
+    ...(includeImageData ? { base64: image.base64 } : {}),
+  }));
+}
+
+export function computeRequestKey(request: Pick<LLMRequest, "userText" | "images">): string {
+  return computeFixtureKey(
+    request.userText,
+    request.images.map((image) => hashString(image.base64))
+  );
+}
+
+export function serializeFixtureFile(fixtures: readonly LLMFixture[]): string {
+  const file: LLMFixtureFile = { version: FIXTURE_FILE_VERSION, fixtures: [...fixtures] };
+  return JSON.stringify(file, null, 2);
+}
+
+// Accepts hand-written fixtures: a missing `key` is derived from userText and
+// image hashes, and missing metadata falls back to neutral defaults.
+export function parseFixtureFile(json: string): LLMFixture[] {
+  const raw = JSON.parse(json) as unknown;
+  if (typeof raw !== "object" || raw === null || !Array.isArray((raw as LLMFixtureFile).fixtures)) {
+    throw new Error("[providers] ERROR: fixture file must contain a fixtures array");
+  }
+  const file = raw as { version?: unknown; fixtures: unknown[] };
+  if (typeof file.version === "number" && file.version > FIXTURE_FILE_VERSION) {
+    throw new Error(
+      `[providers] ERROR: fixture file version ${file.version} is newer than ${FIXTURE_FILE_VERSION}`
+    );
+  }
+
+  return file.fixtures.map((entry, index) => {
+    if (typeof entry !== "object" || entry === null) {
+      throw new Error(`[providers] ERROR: fixture ${index} is not an object`);
+    }
+    const fixture = entry as Partial<LLMFixture>;
+    if (typeof fixture.userText !== "string" || typeof fixture.responseText !== "string") {
+      throw new Error(`[providers] ERROR: fixture ${index} needs userText and responseText`);
+    }
+    const images = Array.isArray(fixture.images) ? fixture.images : [];
+    return {
+      key: fixture.key ?? computeFixtureKey(fixture.userText, images.map((image) => image.hash)),
+      label: fixture.label,
+      provider: fixture.provider ?? "unknown",
+      model: fixture.model ?? "unknown",
+      userText: fixture.userText,
+      images,
+      responseText: fixture.responseText,
+      recordedAt: fixture.recordedAt ?? new Date(0).toISOString(),
+    };
+  });
+}
@@ -0,0 +1,95 @@
+import { GoogleGenAI, type GenerateContentResponse } from "@google/genai";
+import { classifyProviderError, LLMProviderError } from "./errors";
+import type { LLMProvider, LLMProviderDefinition, LLMRequest, LLMResponse } from "./types";
+
+const GEMINI_MODEL = "gemini-3-flash-preview";
+
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: "image/png"; data: string } };
+
+export const geminiProviderDefinition: LLMProviderDefinition = {
+  name: "gemini",
+  label: "Gemini",
+  create(context) {
+    const apiKey = (context.apiKeys.gemini ?? readGeminiEnvKey()).trim();
+    return apiKey ? createGeminiProvider(apiKey) : null;
+  },
+};
+
+export function createGeminiProvider(apiKey: string, model: string = GEMINI_MODEL): LLMProvider {
+  let client: GoogleGenAI | null = null;
+
+  return {
+    name: "gemini",
+    label: "Gemini",
+    model,
+    capabilities: { vision: true, jsonMode: true, maxImages: 16 },
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      client ??= new GoogleGenAI({ apiKey });
+      const parts: GeminiPart[] = request.images.map((image) => ({
+        inlineData: { mimeType: image.mimeType, data: image.base64 },
+      }));
+      parts.push({ text: request.userText });
+      console.log(
+        `[agent] Gemini request model=${model} imageParts=${request.images.length} promptChars=${request.userText.length}`
+      );
+
+      let response: GenerateContentResponse;
+      try {
+        response = await client.models.generateContent({
+          model,
+          contents: [{ role: "user", parts }],
+          config: {
+            temperature: request.temperature,
+            maxOutputTokens: request.maxOutputTokens,
+            systemInstruction: request.systemPrompt,
+          },
+        });
+      } catch (error) {
+        throw classifyProviderError("gemini", error);
+      }
+      console.log(
+        `[agent] Gemini response received candidates=${response.candidates?.length ?? 0} textChars=${response.text?.length ?? 0}`
+      );
+
+      return { text: extractTextFromGeminiResponse(response), provider: "gemini", model };
+    },
+  };
+}
+
+function extractTextFromGeminiResponse(payload: GenerateContentResponse): string {
+  if (typeof payload.text === "string" && payload.text.trim()) {
+    console.log("[agent] extractTextFromGeminiResponse using payload.text");
+    return payload.text.trim();
+  }
+
+  console.log("[agent] extractTextFromGeminiResponse falling back to candidate parts");
+  const candidateTexts: string[] = [];
+  for (const candidate of payload.candidates ?? []) {
+    for (const part of candidate.content?.parts ?? []) {
+      if (typeof part.text === "string" && part.text.trim()) {
+        candidateTexts.push(part.text.trim());
+      }
+    }
+  }
+
+  const joined = candidateTexts.join("\n").trim();
+  if (!joined) {
+    throw new LLMProviderError(
+      "gemini",
+      "invalid_response",
+      "Gemini response contained no text content."
+    );
+  }
+
+  return joined;
+}
+
+function readGeminiEnvKey(): string {
+  const googleKey = String(import.meta.env.VITE_GOOGLE_API_KEY ?? "").trim();
+  if (googleKey) {
+    return googleKey;
+  }
+  return String(import.meta.env.VITE_GEMINI_API_KEY ?? "").trim();
+}
@@ -0,0 +1,139 @@
+import { classifyProviderError, kindForHttpStatus, LLMProviderError } from "./errors";
+import type { LLMProvider, LLMProviderDefinition, LLMRequest, LLMResponse } from "./types";
+
+const OPENAI_RESPONSES_URL = "https://api.openai.com/v1/responses";
+const DEFAULT_OPENAI_MODEL = "gpt-5.2";
+
+type OpenAIResponsePayload = {
+  output_text?: string;
+  output?: Array<{
+    type?: string;
+    content?: Array<{ type?: string; text?: string }>;
+  }>;
+};
+
+type OpenAIContent =
+  | { type: "input_text"; text: string }
+  | { type: "input_image"; image_url: string };
+
+export const openAIProviderDefinition: LLMProviderDefinition = {
+  name: "openai",
+  label: "OpenAI",
+  create(context) {
+    const apiKey = (
+      context.apiKeys.openai ?? String(import.meta.env.VITE_OPENAI_API_KEY ?? "")
+    ).trim();
+    if (!apiKey) {
+      return null;
+    }
+    const model =
+      String(import.meta.env.VITE_OPENAI_MODEL ?? DEFAULT_OPENAI_MODEL).trim() ||
+      DEFAULT_OPENAI_MODEL;
+    return createOpenAIProvider(apiKey, model);
+  },
+};
+
+export function createOpenAIProvider(apiKey: string, model: string): LLMProvider {
+  return {
+    name: "openai",
+    label: "OpenAI",
+    model,
+    capabilities: { vision: true, jsonMode: false, maxImages: 8 },
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+      const content: OpenAIContent[] = request.images.map((image) => ({
+        type: "input_image",
+        image_url: `data:${image.mimeType};base64,${image.base64}`,
+      }));
+      content.push({ type: "input_text", text: request.userText });
+      console.log(
+        `[agent] OpenAI request model=${model} imageParts=${request.images.length} promptChars=${request.userText.length}`
+      );
+
+      let response: Response;
+      try {
+        response = await fetch(OPENAI_RESPONSES_URL, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({
+            model,
+            instructions: request.systemPrompt,
+            temperature: request.temperature,
+            max_output_tokens: request.maxOutputTokens,
+            input: [{ role: "user", content }],
+          }),
+        });
+      } catch (error) {
+        throw classifyProviderError("openai", error);
+      }
+
+      if (!response.ok) {
+        const errorText = await extractOpenAIError(response);
+        throw new LLMProviderError(
+          "openai",
+          kindForHttpStatus(response.status),
+          `OpenAI request failed (${response.status} ${response.statusText}): ${errorText}`,
+          response.status
+        );
+      }
+
+      const payload = (await response.json()) as OpenAIResponsePayload;
+      const text = extractTextFromOpenAIResponse(payload);
+      console.log(`[agent] OpenAI response text chars=${text.length}`);
+      return { text, provider: "openai", model };
+    },
+  };
+}
+
+function extractTextFromOpenAIResponse(payload: OpenAIResponsePayload): string {
+  if (typeof payload.output_text === "string" && payload.output_text.trim()) {
+    return payload.output_text.trim();
+  }
+
+  const textParts: string[] = [];
+  for (const item of payload.output ?? []) {
+    if (!item || item.type !== "message" || !Array.isArray(item.content)) {
+      continue;
+    }
+
+    for (const part of item.content) {
+      if (
+        (part.type === "output_text" || part.type === "text") &&
+        typeof part.text === "string" &&
+        part.text.trim()
+      ) {
+        textParts.push(part.text.trim());
+      }
+    }
+  }
+
+  const joined = textParts.join("\n").trim();
+  if (!joined) {
+    throw new LLMProviderError(
+      "openai",
+      "invalid_response",
+      "OpenAI response contained no text content."
+    );
+  }
+  return joined;
+}
+
+async function extractOpenAIError(response: Response): Promise<string> {
+  const raw = await response.text();
+  if (!raw) {
+    return "No error body";
+  }
+  try {
+    const parsed = JSON.parse(raw) as {
+      error?: { message?: string; code?: string; type?: string };
+    };
+    if (typeof parsed.error?.message === "string" && parsed.error.message.trim()) {
+      return parsed.error.message.trim();
+    }
+  } catch {
+    // Use raw text if JSON parse fails.
+  }
+  return raw.slice(0, 400);
+}
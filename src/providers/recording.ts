@@ -0,0 +1,57 @@
+import { computeRequestKey, describeRequestImages, type LLMFixture } from "./fixtures";
+import type { LLMProvider, LLMRequest, LLMResponse } from "./types";
+
+export interface FixtureRecorderOptions {
+  includeImageData?: boolean;
+}
+
+export interface FixtureRecorder {
+  readonly fixtures: readonly LLMFixture[];
+  record(provider: LLMProvider, request: LLMRequest, response: LLMResponse): LLMFixture;
+  clear(): void;
+}
+
+export function createFixtureRecorder(options: FixtureRecorderOptions = {}): FixtureRecorder {
+  const fixtures: LLMFixture[] = [];
+  return {
+    fixtures,
+    record(provider, request, response) {
+      const fixture: LLMFixture = {
+        key: computeRequestKey(request),
+        provider: provider.name,
+        model: response.model,
+        userText: request.userText,
+        images: describeRequestImages(request.images, options.includeImageData === true),
+        responseText: response.text,
+        recordedAt: new Date().toISOString(),
+      };
+      fixtures.push(fixture);
+      console.log(
+        `[providers] Recorded fixture key=${fixture.key} provider=${fixture.provider} responseChars=${fixture.responseText.length} total=${fixtures.length}`
+      );
+      return fixture;
+    },
+    clear() {
+      fixtures.length = 0;
+    },
+  };
+}
+
+// Wraps a provider so every successful raw response is captured before the
+// agent parses it, including malformed or markdown-fenced text.
+export function createRecordingProvider(
+  inner: LLMProvider,
+  recorder: FixtureRecorder
+): LLMProvider {
+  return {
+    name: inner.name,
+    label: inner.label,
+    model: inner.model,
+    capabilities: inner.capabilities,
+    async generate(request) {
+      const response = await inner.generate(request);
+      recorder.record(inner, request, response);
+      return response;
+    },
+  };
+}
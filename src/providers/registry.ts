@@ -0,0 +1,98 @@
+import { geminiProviderDefinition } from "./gemini";
+import { openAIProviderDefinition } from "./openai";
+import { createRecordingProvider, type FixtureRecorder } from "./recording";
+import type { LLMProvider, LLMProviderContext, LLMProviderDefinition } from "./types";
+
+const definitions = new Map<string, LLMProviderDefinition>();
+let preferredProvider: string | null = null;
+let fallbackChain: string[] = [];
+let recorder: FixtureRecorder | null = null;
+
+export function registerLLMProvider(definition: LLMProviderDefinition): void {
+  const name = definition.name.trim().toLowerCase();
+  if (!name) {
+    throw new Error("[providers] ERROR: provider name is empty");
+  }
+  definitions.set(name, { ...definition, name });
+  console.log(`[providers] Registered provider ${name} (${definitions.size} total)`);
+}
+
+export function listLLMProviders(): readonly LLMProviderDefinition[] {
+  return [...definitions.values()];
+}
+
+export function getLLMProviderDefinition(name: string): LLMProviderDefinition | undefined {
+  return definitions.get(name.trim().toLowerCase());
+}
+
+export function setPreferredProvider(name: string): void {
+  const normalized = name.trim().toLowerCase();
+  if (!definitions.has(normalized)) {
+    throw new Error(`[providers] ERROR: unknown provider "${name}"`);
+  }
+  preferredProvider = normalized;
+  console.log(`[providers] Preferred provider set to ${preferredProvider}`);
+}
+
+export function getPreferredProvider(): string | null {
+  return preferredProvider;
+}
+
+// Order in which providers are tried after the preferred one fails with a
+// transient error. Unknown names are dropped with a warning.
+export function setFallbackChain(names: readonly string[]): void {
+  const next: string[] = [];
+  for (const raw of names) {
+    const name = raw.trim().toLowerCase();
+    if (!name || next.includes(name)) {
+      continue;
+    }
+    if (!definitions.has(name)) {
+      console.warn(`[providers] Ignoring unknown provider "${raw}" in fallback chain`);
+      continue;
+    }
+    next.push(name);
+  }
+  fallbackChain = next;
+  console.log(`[providers] Fallback chain: ${fallbackChain.join(" → ") || "(none)"}`);
+}
+
+export function getFallbackChain(): readonly string[] {
+  return fallbackChain;
+}
+
+// When set, every resolved provider is wrapped so its raw responses are
+// captured as replay fixtures. Pass null to stop recording.
+export function setProviderRecorder(next: FixtureRecorder | null): void {
+  recorder = next;
+  console.log(`[providers] Fixture recording ${recorder ? "enabled" : "disabled"}`);
+}
+
+export function getProviderRecorder(): FixtureRecorder | null {
+  return recorder;
+}
+
+// Instantiates configured providers for one command, preferred first.
+export function resolveProviderChain(context: LLMProviderContext): LLMProvider[] {
+  const order = preferredProvider
+    ? [preferredProvider, ...fallbackChain.filter((name) => name !== preferredProvider)]
+    : [...fallbackChain];
+
+  const providers: LLMProvider[] = [];
+  for (const name of order) {
+    const definition = definitions.get(name);
+    const provider = definition?.create(context) ?? null;
+    if (!provider) {
+      console.warn(`[providers] Skipping ${name}: not configured`);
+      continue;
+    }
+    providers.push(recorder ? createRecordingProvider(provider, recorder) : provider);
+  }
+  return providers;
+}
+
+registerLLMProvider(geminiProviderDefinition);
+registerLLMProvider(openAIProviderDefinition);
+setFallbackChain(
+  String(import.meta.env.VITE_LLM_FALLBACK_CHAIN ?? "gemini,openai").split(",")
+);
@@ -0,0 +1,58 @@
+import { LLMProviderError } from "./errors";
+import { computeRequestKey, type LLMFixture } from "./fixtures";
+import type { LLMProvider, LLMProviderDefinition, LLMResponse } from "./types";
+
+export const REPLAY_PROVIDER_NAME = "replay";
+
+export interface ReplayProvider extends LLMProvider {
+  readonly misses: readonly string[];
+}
+
+// Serves recorded responses by prompt hash with no network access. A miss is
+// a `bad_request` so the agent does not fall through to a live provider.
+export function createReplayProvider(fixtures: readonly LLMFixture[]): ReplayProvider {
+  const byKey = new Map<string, LLMFixture>();
+  for (const fixture of fixtures) {
+    if (byKey.has(fixture.key)) {
+      console.warn(`[providers] Duplicate replay fixture key=${fixture.key}; keeping the latest`);
+    }
+    byKey.set(fixture.key, fixture);
+  }
+  const misses: string[] = [];
+
+  return {
+    name: REPLAY_PROVIDER_NAME,
+    label: "Replay",
+    model: "fixtures",
+    capabilities: { vision: true, jsonMode: true, maxImages: 16 },
+    misses,
+    async generate(request): Promise<LLMResponse> {
+      const key = computeRequestKey(request);
+      const fixture = byKey.get(key);
+      if (!fixture) {
+        misses.push(key);
+        const command = request.userText.split("\n").at(-1) ?? "";
+        throw new LLMProviderError(
+          REPLAY_PROVIDER_NAME,
+          "bad_request",
+          `No replay fixture for key=${key} (${command})`
+        );
+      }
+      console.log(
+        `[providers] Replay hit key=${key} label=${fixture.label ?? "-"} responseChars=${fixture.responseText.length}`
+      );
+      return { text: fixture.responseText, provider: REPLAY_PROVIDER_NAME, model: fixture.model };
+    },
+  };
+}
+
+export function createReplayProviderDefinition(
+  fixtures: readonly LLMFixture[]
+): LLMProviderDefinition {
+  const provider = createReplayProvider(fixtures);
+  return {
+    name: REPLAY_PROVIDER_NAME,
+    label: provider.label,
+    create: () => provider,
+  };
+}
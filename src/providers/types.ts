@@ -0,0 +1,45 @@
+export interface LLMProviderCapabilities {
+  vision: boolean;
+  jsonMode: boolean;
+  maxImages: number;
+}
+
+export interface LLMImage {
+  mimeType: "image/png";
+  base64: string;
+}
+
+export interface LLMRequest {
+  systemPrompt: string;
+  userText: string;
+  images: LLMImage[];
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  name: string;
+  label: string;
+  model: string;
+  capabilities: LLMProviderCapabilities;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+}
+
+// Per-command inputs a provider may need at construction time. `apiKeys`
+// overrides environment keys, keyed by provider name.
+export interface LLMProviderContext {
+  apiKeys: Partial<Record<string, string>>;
+}
+
+export interface LLMProviderDefinition {
+  name: string;
+  label: string;
+  // Returns null when the provider is not configured (e.g. no API key).
+  create(context: LLMProviderContext): LLMProvider | null;
+}
@@ -0,0 +1,260 @@
+import type { SplatMesh } from "@sparkjsdev/spark";
+import * as THREE from "three";
+import { createExtractedRegionMesh } from "./asset-library";
+import {
+  alignGroundPlanes,
+  computePastedRegionPose,
+  solveSimilarityTransform,
+  type RegionClipboard,
+  type SimilarityTransform,
+} from "./compositing";
+import { applyPlacedAssetTransform } from "./placement";
+import { styleGhostMesh } from "./placement-preview";
+import type { ViewerContext } from "./viewer";
+
+const ANCHOR_COUNT = 3;
+const YAW_STEP = THREE.MathUtils.degToRad(15);
+
+/**
+ * `surface`: one click on the target ground, matched to the region's own
+ * ground plane. `points`: three target clicks matching the three source
+ * anchors picked before.
+ */
+export type RegionPasteMode = "surface" | "points";
+
+export interface RegionPasteState {
+  clipboard: RegionClipboard | null;
+  mode: "idle" | "source-points" | RegionPasteMode;
+  /** Clicks collected in the current mode, and how many it needs. */
+  picked: number;
+  needed: number;
+  /** Source anchors recorded for `points` pastes. */
+  sourceAnchors: number;
+  previewing: boolean;
+}
+
+export interface RegionPasteOptions {
+  getActiveSceneFile(): string | null;
+  /** Surface normal at a point in the active scene, or null where none fits. */
+  normalAt(point: THREE.Vector3): THREE.Vector3 | null;
+  /** Adds the region to the active scene as an undoable step. */
+  commit(clipboard: RegionClipboard, transform: SimilarityTransform): void;
+  /** Whether canvas clicks are being collected (other click tools should stand down). */
+  onPickingChange?(picking: boolean): void;
+}
+
+export interface RegionPaste {
+  setClipboard(clipboard: RegionClipboard | null): void;
+  getState(): RegionPasteState;
+  onChange(callback: (state: RegionPasteState) => void): () => void;
+  /** Starts collecting the three source anchors; the source scene must be active. */
+  pickSourcePoints(): boolean;
+  start(mode: RegionPasteMode): boolean;
+  /** Feeds a canvas click; returns whether it was consumed. */
+  handleClick(point: THREE.Vector3): boolean;
+  commit(): boolean;
+  cancel(): void;
+  dispose(): void;
+}
+
+/**
+ * Interactive paste of the region clipboard: collects clicks, solves the
+ * alignment, and shows a ghost of the result until Enter commits or Esc
+ * cancels. `[`/`]` turn a surface paste about the target normal.
+ */
+export function createRegionPaste(ctx: ViewerContext, options: RegionPasteOptions): RegionPaste {
+  let clipboard: RegionClipboard | null = null;
+  let mode: RegionPasteState["mode"] = "idle";
+  let picks: THREE.Vector3[] = [];
+  let sourceAnchors: THREE.Vector3[] = [];
+  let yaw = 0;
+  let surfaceTarget: { point: THREE.Vector3; normal: THREE.Vector3 } | null = null;
+  let transform: SimilarityTransform | null = null;
+  let ghost: SplatMesh | null = null;
+  const listeners = new Set<(state: RegionPasteState) => void>();
+
+  function getState(): RegionPasteState {
+    return {
+      clipboard,
+      mode,
+      picked: picks.length,
+      needed: mode === "surface" ? 1 : mode === "idle" ? 0 : ANCHOR_COUNT,
+      sourceAnchors: sourceAnchors.length,
+      previewing: transform !== null,
+    };
+  }
+
+  function notify(): void {
+    const state = getState();
+    for (const listener of [...listeners]) {
+      try {
+        listener(state);
+      } catch (error) {
+        console.error("[region-paste] Listener failed", error);
+      }
+    }
+  }
+
+  function setMode(next: RegionPasteState["mode"]): void {
+    const wasPicking = mode !== "idle";
+    mode = next;
+    picks = [];
+    surfaceTarget = null;
+    setPreview(null);
+    if (wasPicking !== (next !== "idle")) {
+      options.onPickingChange?.(next !== "idle");
+    }
+  }
+
+  // Not `mesh.dispose()`: the ghost shares the clipboard's PackedSplats.
+  function setPreview(next: SimilarityTransform | null): void {
+    transform = next;
+    if (!next || !clipboard) {
+      if (ghost) ctx.scene.remove(ghost);
+      ghost = null;
+      return;
+    }
+    if (!ghost) {
+      ghost = createExtractedRegionMesh(clipboard.asset);
+      styleGhostMesh(ghost);
+      ctx.scene.add(ghost);
+    }
+    applyPlacedAssetTransform(ghost, computePastedRegionPose(clipboard.asset, next));
+  }
+
+  function updateSurfacePreview(): void {
+    if (!clipboard || !surfaceTarget) return;
+    setPreview(
+      alignGroundPlanes(
+        clipboard.groundPoint,
+        clipboard.groundNormal,
+        surfaceTarget.point,
+        surfaceTarget.normal,
+        { yaw }
+      )
+    );
+  }
+
+  function onKeyDown(event: KeyboardEvent): void {
+    if (mode === "idle" || isTextEntryTarget(event.target)) return;
+    if (event.key === "Escape") {
+      api.cancel();
+    } else if (event.key === "Enter" && transform) {
+      event.preventDefault();
+      api.commit();
+    } else if ((event.key === "[" || event.key === "]") && mode === "surface") {
+      yaw += event.key === "]" ? YAW_STEP : -YAW_STEP;
+      updateSurfacePreview();
+    }
+  }
+
+  window.addEventListener("keydown", onKeyDown);
+
+  const api: RegionPaste = {
+    setClipboard(next) {
+      setMode("idle");
+      clipboard = next;
+      sourceAnchors = [];
+      yaw = 0;
+      console.log(
+        `[region-paste] Clipboard ${next ? `"${next.asset.label}" from ${next.sourceScene}` : "cleared"}`
+      );
+      notify();
+    },
+
+    getState,
+
+    onChange(callback) {
+      listeners.add(callback);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+
+    pickSourcePoints() {
+      if (!clipboard || options.getActiveSceneFile() !== clipboard.sourceScene) {
+        console.warn("[region-paste] Source anchors must be picked in the source scene");
+        return false;
+      }
+      sourceAnchors = [];
+      setMode("source-points");
+      notify();
+      return true;
+    },
+
+    start(next) {
+      if (!clipboard || (next === "points" && sourceAnchors.length < ANCHOR_COUNT)) {
+        console.warn(`[region-paste] Cannot start ${next} paste`);
+        return false;
+      }
+      yaw = 0;
+      setMode(next);
+      console.log(`[region-paste] Started ${next} paste of "${clipboard.asset.label}"`);
+      notify();
+      return true;
+    },
+
+    handleClick(point) {
+      if (mode === "idle" || !clipboard) return false;
+
+      if (mode === "surface") {
+        surfaceTarget = {
+          point: point.clone(),
+          normal: options.normalAt(point)?.clone().normalize() ?? new THREE.Vector3(0, 1, 0),
+        };
+        picks = [point.clone()];
+        updateSurfacePreview();
+        notify();
+        return true;
+      }
+
+      // Once a point paste is previewing, a fourth click starts a new pick.
+      if (picks.length >= ANCHOR_COUNT) {
+        picks = [];
+        setPreview(null);
+      }
+      picks.push(point.clone());
+      if (mode === "source-points" && picks.length === ANCHOR_COUNT) {
+        sourceAnchors = picks;
+        console.log("[region-paste] Source anchors recorded");
+        setMode("idle");
+      } else if (mode === "points" && picks.length === ANCHOR_COUNT) {
+        const solved = solveSimilarityTransform(sourceAnchors, picks);
+        if (!solved) {
+          console.warn("[region-paste] Anchors are collinear; pick three spread-out points");
+          picks = [];
+        }
+        setPreview(solved);
+      }
+      notify();
+      return true;
+    },
+
+    commit() {
+      if (!clipboard || !transform) return false;
+      options.commit(clipboard, transform);
+      setMode("idle");
+      notify();
+      return true;
+    },
+
+    cancel() {
+      if (mode === "idle") return;
+      console.log(`[region-paste] Canceled ${mode}`);
+      setMode("idle");
+      notify();
+    },
+
+    dispose() {
+      setMode("idle");
+      listeners.clear();
+      window.removeEventListener("keydown", onKeyDown);
+    },
+  };
+  return api;
+}
+
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  const element = target instanceof HTMLElement ? target : null;
+  return Boolean(element?.closest("input, textarea, select, [contenteditable='true']"));
+}
@@ -0,0 +1,224 @@
+import * as THREE from "three";
+import {
+  buildRegionSelection,
+  rectangleToPolygon,
+  selectCellsInScreenPolygon,
+  type RegionSelection,
+  type ScreenSelectionMode,
+} from "./screen-selection";
+import type { SpatialGrid } from "./types";
+import type { ViewerContext } from "./viewer";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+// Shorter drags count as a plain Shift-click.
+const MIN_DRAG_PX = 6;
+// Lasso vertices closer than this are skipped.
+const MIN_LASSO_STEP_PX = 3;
+const HIGHLIGHT_COLOR = 0x4dd2ff;
+
+export interface RegionSelectorOptions {
+  getGrid(): SpatialGrid | null;
+}
+
+export interface RegionSelector {
+  getSelection(): RegionSelection | null;
+  clear(): void;
+  onChange(callback: (selection: RegionSelection | null) => void): () => void;
+  dispose(): void;
+}
+
+/**
+ * Shift-drag draws a lasso, Shift+Alt-drag a rectangle. On release the grid
+ * cells inside are resolved to a `RegionSelection` and its shapes are
+ * outlined in the scene until the selection is cleared (Esc, or a new one).
+ */
+export function createRegionSelector(
+  ctx: ViewerContext,
+  options: RegionSelectorOptions
+): RegionSelector {
+  let selection: RegionSelection | null = null;
+  let drag: { mode: ScreenSelectionMode; points: Array<[number, number]> } | null = null;
+  let swallowClick = false;
+  let highlight: THREE.Group | null = null;
+  const listeners = new Set<(selection: RegionSelection | null) => void>();
+
+  const overlay = document.createElementNS(SVG_NS, "svg");
+  overlay.id = "muse-selection-overlay";
+  const outline = document.createElementNS(SVG_NS, "polygon");
+  overlay.append(outline);
+  overlay.style.display = "none";
+  document.body.append(overlay);
+
+  function setSelection(next: RegionSelection | null): void {
+    selection = next;
+    setHighlight(next);
+    for (const listener of [...listeners]) {
+      try {
+        listener(next);
+      } catch (error) {
+        console.error("[region-selector] Listener failed", error);
+      }
+    }
+  }
+
+  function setHighlight(next: RegionSelection | null): void {
+    if (highlight) {
+      ctx.scene.remove(highlight);
+      highlight.traverse((object) => {
+        if (object instanceof THREE.Box3Helper) {
+          object.geometry.dispose();
+          (object.material as THREE.Material).dispose();
+        }
+      });
+      highlight = null;
+    }
+    if (!next) {
+      return;
+    }
+    highlight = new THREE.Group();
+    highlight.name = "region-selection";
+    for (const shape of next.shapes) {
+      const center = new THREE.Vector3().fromArray(shape.position);
+      const half = new THREE.Vector3().fromArray(shape.scale ?? [0, 0, 0]);
+      const box = new THREE.Box3(center.clone().sub(half), center.clone().add(half));
+      highlight.add(new THREE.Box3Helper(box, HIGHLIGHT_COLOR));
+    }
+    ctx.scene.add(highlight);
+  }
+
+  function toCanvasPoint(event: PointerEvent): [number, number] {
+    const rect = ctx.canvas.getBoundingClientRect();
+    return [event.clientX - rect.left, event.clientY - rect.top];
+  }
+
+  function drawOutline(): void {
+    if (!drag) {
+      overlay.style.display = "none";
+      return;
+    }
+    const rect = ctx.canvas.getBoundingClientRect();
+    const polygon = currentPolygon(drag);
+    outline.setAttribute(
+      "points",
+      polygon.map(([x, y]) => `${x + rect.left},${y + rect.top}`).join(" ")
+    );
+    overlay.style.display = "block";
+  }
+
+  function currentPolygon(state: NonNullable<typeof drag>): Array<[number, number]> {
+    return state.mode === "box"
+      ? rectangleToPolygon(state.points[0], state.points[state.points.length - 1])
+      : state.points;
+  }
+
+  function onPointerDown(event: PointerEvent): void {
+    if (event.target !== ctx.canvas || event.button !== 0 || !event.shiftKey) {
+      return;
+    }
+    // Window capture runs before OrbitControls, so Shift-drag never pans.
+    event.stopPropagation();
+    event.preventDefault();
+    const point = toCanvasPoint(event);
+    drag = { mode: event.altKey ? "box" : "lasso", points: [point] };
+    drawOutline();
+  }
+
+  function onPointerMove(event: PointerEvent): void {
+    if (!drag) return;
+    const point = toCanvasPoint(event);
+    const last = drag.points[drag.points.length - 1];
+    if (drag.mode === "box") {
+      drag.points = [drag.points[0], point];
+    } else if (Math.hypot(point[0] - last[0], point[1] - last[1]) >= MIN_LASSO_STEP_PX) {
+      drag.points.push(point);
+    }
+    drawOutline();
+  }
+
+  function onPointerUp(event: PointerEvent): void {
+    if (!drag) return;
+    const finished = drag;
+    drag = null;
+    drawOutline();
+
+    const polygon = currentPolygon(finished);
+    const xs = polygon.map(([x]) => x);
+    const ys = polygon.map(([, y]) => y);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    if (width < MIN_DRAG_PX && height < MIN_DRAG_PX) {
+      return;
+    }
+    // The release still fires a click; keep it from reaching the raycast.
+    swallowClick = event.target === ctx.canvas;
+
+    const grid = options.getGrid();
+    if (!grid) {
+      console.warn("[region-selector] Spatial grid not ready; selection ignored");
+      return;
+    }
+    const rect = ctx.canvas.getBoundingClientRect();
+    const keys = selectCellsInScreenPolygon(grid, ctx.camera, polygon, rect);
+    const next = buildRegionSelection(grid, keys, finished.mode);
+    if (!next) {
+      console.log(`[region-selector] ${finished.mode} selection is empty`);
+    }
+    setSelection(next);
+  }
+
+  function onClick(event: MouseEvent): void {
+    if (swallowClick && event.target === ctx.canvas) {
+      event.stopPropagation();
+    }
+    swallowClick = false;
+  }
+
+  function onKeyDown(event: KeyboardEvent): void {
+    if (event.key === "Escape" && selection && !isTextEntryTarget(event.target)) {
+      api.clear();
+    }
+  }
+
+  window.addEventListener("pointerdown", onPointerDown, true);
+  window.addEventListener("pointermove", onPointerMove);
+  window.addEventListener("pointerup", onPointerUp);
+  window.addEventListener("click", onClick, true);
+  window.addEventListener("keydown", onKeyDown);
+  console.log("[region-selector] Ready: Shift-drag lasso, Shift+Alt-drag rectangle, Esc clears");
+
+  const api: RegionSelector = {
+    getSelection() {
+      return selection;
+    },
+
+    clear() {
+      if (!selection) return;
+      console.log("[region-selector] Selection cleared");
+      setSelection(null);
+    },
+
+    onChange(callback) {
+      listeners.add(callback);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+
+    dispose() {
+      setHighlight(null);
+      listeners.clear();
+      overlay.remove();
+      window.removeEventListener("pointerdown", onPointerDown, true);
+      window.removeEventListener("pointermove", onPointerMove);
+      window.removeEventListener("pointerup", onPointerUp);
+      window.removeEventListener("click", onClick, true);
+      window.removeEventListener("keydown", onKeyDown);
+    },
+  };
+  return api;
+}
+
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  const element = target instanceof HTMLElement ? target : null;
+  return Boolean(element?.closest("input, textarea, select, [contenteditable='true']"));
+}
@@ -0,0 +1,435 @@
+import {
+  PackedSplats,
+  SpzWriter,
+  SplatEdit,
+  SplatEditRgbaBlendMode,
+  SplatEditSdf,
+  SplatEditSdfType,
+  SplatMesh,
+} from "@sparkjsdev/spark";
+import * as THREE from "three";
+
+export type BakeExportFormat = "ply" | "spz";
+
+export interface BakeSceneOptions {
+  edits: readonly SplatEdit[];
+  placedMeshes?: readonly SplatMesh[];
+  minOpacity?: number;
+}
+
+export interface BakeResult {
+  splats: PackedSplats;
+  sourceSplats: number;
+  bakedSplats: number;
+  droppedSplats: number;
+  editCount: number;
+  meshCount: number;
+}
+
+// CPU mirror of one SplatEditSdf as Spark encodes it for the edit shader.
+export interface BakeSdf {
+  type: SplatEditSdfType;
+  invert: boolean;
+  worldToSdf: THREE.Matrix4;
+  sizes: THREE.Vector4;
+  rgba: THREE.Vector4;
+  displace: THREE.Vector3;
+}
+
+export interface BakeEdit {
+  ordering: number;
+  blendMode: SplatEditRgbaBlendMode;
+  softEdge: number;
+  sdfSmooth: number;
+  invert: boolean;
+  sdfs: BakeSdf[];
+}
+
+const DEFAULT_MIN_OPACITY = 1 / 255;
+const SH_C0 = 0.28209479177387814;
+
+type EditValues = {
+  rgba: THREE.Vector4;
+  displace: THREE.Vector3;
+};
+
+export function compileBakeEdits(edits: readonly SplatEdit[]): BakeEdit[] {
+  return [...edits]
+    .filter((edit) => edit.visible)
+    .sort((a, b) => a.ordering - b.ordering)
+    .map((edit) => ({
+      ordering: edit.ordering,
+      blendMode: edit.rgbaBlendMode,
+      softEdge: edit.softEdge ?? 0,
+      sdfSmooth: edit.sdfSmooth ?? 0,
+      invert: edit.invert === true,
+      sdfs: collectEditSdfs(edit).map(compileBakeSdf),
+    }));
+}
+
+export function evaluateSdfDistance(sdf: BakeSdf, worldPos: THREE.Vector3): number {
+  const p = worldPos.clone().applyMatrix4(sdf.worldToSdf);
+  const sizes = sdf.sizes;
+
+  switch (sdf.type) {
+    case SplatEditSdfType.ALL:
+      return Number.NEGATIVE_INFINITY;
+    case SplatEditSdfType.PLANE:
+      return p.z;
+    case SplatEditSdfType.SPHERE:
+      return p.length() - sizes.w;
+    case SplatEditSdfType.BOX: {
+      const qx = Math.abs(p.x) - sizes.x + sizes.w;
+      const qy = Math.abs(p.y) - sizes.y + sizes.w;
+      const qz = Math.abs(p.z) - sizes.z + sizes.w;
+      const outside = Math.hypot(Math.max(qx, 0), Math.max(qy, 0), Math.max(qz, 0));
+      const inside = Math.min(Math.max(qx, qy, qz), 0);
+      return outside + inside - sizes.w;
+    }
+    case SplatEditSdfType.ELLIPSOID: {
+      const k0 = Math.hypot(p.x / sizes.x, p.y / sizes.y, p.z / sizes.z);
+      const sizeSq = sizes.x * sizes.x + sizes.y * sizes.y + sizes.z * sizes.z;
+      const k1 = p.length() / sizeSq;
+      if (k1 === 0) {
+        return -Math.min(sizes.x, sizes.y, sizes.z);
+      }
+      return (k0 * (k0 - 1)) / k1;
+    }
+    case SplatEditSdfType.CYLINDER: {
+      const dx = Math.hypot(p.x, p.z) - sizes.w;
+      const dy = Math.abs(p.y) - sizes.y;
+      return Math.min(Math.max(dx, dy), 0) + Math.hypot(Math.max(dx, 0), Math.max(dy, 0));
+    }
+    case SplatEditSdfType.CAPSULE: {
+      const halfHeight = 0.5 * sizes.y;
+      const y = p.y - clamp(p.y, -halfHeight, halfHeight);
+      return Math.hypot(p.x, y, p.z) - sizes.w;
+    }
+    case SplatEditSdfType.INFINITE_CONE: {
+      const angle = 0.25 * Math.PI * sizes.w;
+      const cx = Math.sin(angle);
+      const cy = Math.cos(angle);
+      const qx = Math.hypot(p.x, p.y);
+      const qy = -p.z;
+      const t = Math.max(qx * cx + qy * cy, 0);
+      const d = Math.hypot(qx - cx * t, qy - cy * t);
+      return qx * cy - qy * cx < 0 ? -d : d;
+    }
+    default:
+      return Number.POSITIVE_INFINITY;
+  }
+}
+
+// Returns the 0..1 blend weight for one edit and fills `values` with the
+// (possibly smooth-blended) color/opacity and displacement of its SDFs.
+export function evaluateEditModulation(
+  edit: BakeEdit,
+  worldPos: THREE.Vector3,
+  values: EditValues
+): number {
+  values.rgba.set(0, 0, 0, 0);
+  values.displace.set(0, 0, 0);
+
+  let distance: number;
+  if (edit.sdfSmooth === 0) {
+    distance = Number.POSITIVE_INFINITY;
+    for (const sdf of edit.sdfs) {
+      const d = signedDistance(sdf, worldPos);
+      if (d < distance) {
+        distance = d;
+        values.rgba.copy(sdf.rgba);
+        values.displace.copy(sdf.displace);
+      }
+    }
+  } else {
+    distance = smoothMinDistance(edit, worldPos, values);
+  }
+
+  if (edit.invert) {
+    distance = -distance;
+  }
+
+  if (edit.softEdge === 0) {
+    return distance < 0 ? 1 : 0;
+  }
+  return clamp(-distance / edit.softEdge + 0.5, 0, 1);
+}
+
+// Applies edits in order to a world-space position and linear rgba, matching
+// Spark's applyRgbaDisplaceEdit shader. Mutates `worldPos` and `rgba`.
+export function applyBakeEdits(
+  edits: readonly BakeEdit[],
+  worldPos: THREE.Vector3,
+  rgba: THREE.Vector4
+): void {
+  const values: EditValues = { rgba: new THREE.Vector4(), displace: new THREE.Vector3() };
+  const target = new THREE.Vector4();
+
+  for (const edit of edits) {
+    const modulate = evaluateEditModulation(edit, worldPos, values);
+    if (modulate === 0) {
+      continue;
+    }
+
+    switch (edit.blendMode) {
+      case SplatEditRgbaBlendMode.MULTIPLY:
+        target.copy(rgba).multiply(values.rgba);
+        break;
+      case SplatEditRgbaBlendMode.SET_RGB:
+        target.set(values.rgba.x, values.rgba.y, values.rgba.z, rgba.w * values.rgba.w);
+        break;
+      case SplatEditRgbaBlendMode.ADD_RGBA:
+        target.copy(rgba).add(values.rgba);
+        break;
+      default:
+        target.copy(rgba);
+    }
+
+    rgba.lerp(target, modulate);
+    worldPos.addScaledVector(values.displace, modulate);
+  }
+}
+
+// Bakes every active edit into a single PackedSplats expressed in the base
+// mesh's local frame, so the exported file reloads in place with the same
+// viewer transform. Placed assets are merged in with the scene-level edits.
+export function bakeScene(baseMesh: SplatMesh, options: BakeSceneOptions): BakeResult {
+  const startMs = nowMs();
+  const minOpacity = options.minOpacity ?? DEFAULT_MIN_OPACITY;
+  const meshes = [baseMesh, ...(options.placedMeshes ?? []).filter((mesh) => mesh !== baseMesh)];
+
+  baseMesh.updateWorldMatrix(true, false);
+  const worldToBase = baseMesh.matrixWorld.clone().invert();
+
+  let totalSplats = 0;
+  for (const mesh of meshes) {
+    totalSplats += mesh.packedSplats.numSplats;
+  }
+
+  const splats = new PackedSplats({ maxSplats: Math.max(1, totalSplats) });
+  const worldPos = new THREE.Vector3();
+  const rgba = new THREE.Vector4();
+  const outScales = new THREE.Vector3();
+  const outQuaternion = new THREE.Quaternion();
+  const outColor = new THREE.Color();
+
+  let bakedSplats = 0;
+  let droppedSplats = 0;
+  let editCount = 0;
+
+  for (const mesh of meshes) {
+    mesh.updateWorldMatrix(true, false);
+    const meshEdits = compileBakeEdits(
+      options.edits.filter((edit) => editAppliesToMesh(edit, mesh))
+    );
+    editCount += meshEdits.length;
+
+    const meshToBase = worldToBase.clone().multiply(mesh.matrixWorld);
+    const basePosition = new THREE.Vector3();
+    const baseQuaternion = new THREE.Quaternion();
+    const baseScale = new THREE.Vector3();
+    meshToBase.decompose(basePosition, baseQuaternion, baseScale);
+    const uniformScale = (Math.abs(baseScale.x) + Math.abs(baseScale.y) + Math.abs(baseScale.z)) / 3;
+
+    mesh.forEachSplat((_, center, scales, quaternion, opacity, color) => {
+      worldPos.copy(center).applyMatrix4(mesh.matrixWorld);
+      rgba.set(color.r, color.g, color.b, opacity);
+
+      applyBakeEdits(meshEdits, worldPos, rgba);
+
+      const alpha = clamp(rgba.w, 0, 1);
+      if (alpha < minOpacity) {
+        droppedSplats += 1;
+        return;
+      }
+
+      worldPos.applyMatrix4(worldToBase);
+      outScales.copy(scales).multiplyScalar(uniformScale);
+      outQuaternion.copy(baseQuaternion).multiply(quaternion);
+      outColor.setRGB(clamp(rgba.x, 0, 1), clamp(rgba.y, 0, 1), clamp(rgba.z, 0, 1));
+      splats.pushSplat(worldPos, outScales, outQuaternion, alpha, outColor);
+      bakedSplats += 1;
+    });
+  }
+
+  splats.needsUpdate = true;
+  console.log(
+    `[export] Baked meshes=${meshes.length} edits=${editCount} source=${totalSplats} kept=${bakedSplats} dropped=${droppedSplats} ms=${(nowMs() - startMs).toFixed(1)}`
+  );
+
+  return {
+    splats,
+    sourceSplats: totalSplats,
+    bakedSplats,
+    droppedSplats,
+    editCount,
+    meshCount: meshes.length,
+  };
+}
+
+// Binary little-endian 3DGS PLY (degree-0 SH) as read by common splat tools.
+export function encodeBakedPly(splats: PackedSplats): Uint8Array {
+  const properties = [
+    "x", "y", "z",
+    "nx", "ny", "nz",
+    "f_dc_0", "f_dc_1", "f_dc_2",
+    "opacity",
+    "scale_0", "scale_1", "scale_2",
+    "rot_0", "rot_1", "rot_2", "rot_3",
+  ];
+  const header =
+    [
+      "ply",
+      "format binary_little_endian 1.0",
+      `element vertex ${splats.numSplats}`,
+      ...properties.map((name) => `property float ${name}`),
+      "end_header",
+    ].join("\n") + "\n";
+
+  const headerBytes = new TextEncoder().encode(header);
+  const stride = properties.length * 4;
+  const bytes = new Uint8Array(headerBytes.length + splats.numSplats * stride);
+  bytes.set(headerBytes, 0);
+  const view = new DataView(bytes.buffer);
+
+  splats.forEachSplat((index, center, scales, quaternion, opacity, color) => {
+    const values = [
+      center.x, center.y, center.z,
+      0, 0, 0,
+      (color.r - 0.5) / SH_C0, (color.g - 0.5) / SH_C0, (color.b - 0.5) / SH_C0,
+      logit(opacity),
+      safeLog(scales.x), safeLog(scales.y), safeLog(scales.z),
+      quaternion.w, quaternion.x, quaternion.y, quaternion.z,
+    ];
+    let offset = headerBytes.length + index * stride;
+    for (const value of values) {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    }
+  });
+
+  console.log(`[export] Encoded PLY splats=${splats.numSplats} bytes=${bytes.length}`);
+  return bytes;
+}
+
+export async function encodeBakedSpz(splats: PackedSplats): Promise<Uint8Array> {
+  const writer = new SpzWriter({ numSplats: splats.numSplats, shDegree: 0 });
+  splats.forEachSplat((index, center, scales, quaternion, opacity, color) => {
+    writer.setCenter(index, center.x, center.y, center.z);
+    writer.setScale(index, scales.x, scales.y, scales.z);
+    writer.setQuat(index, quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    writer.setAlpha(index, opacity);
+    writer.setRgb(index, color.r, color.g, color.b);
+  });
+  const bytes = await writer.finalize();
+  if (writer.clippedCount > 0) {
+    console.warn(`[export] SPZ clipped ${writer.clippedCount} splat center(s) out of range`);
+  }
+  console.log(`[export] Encoded SPZ splats=${splats.numSplats} bytes=${bytes.length}`);
+  return bytes;
+}
+
+// Mirrors SparkRenderer: edits under a SplatMesh only affect that mesh, edits
+// with no SplatMesh ancestor apply to every mesh in the scene.
+export function editAppliesToMesh(edit: SplatEdit, mesh: SplatMesh): boolean {
+  let ancestor = edit.parent;
+  while (ancestor && !(ancestor instanceof SplatMesh)) {
+    ancestor = ancestor.parent;
+  }
+  return ancestor === null || ancestor === mesh;
+}
+
+function collectEditSdfs(edit: SplatEdit): SplatEditSdf[] {
+  if (edit.sdfs != null) {
+    return edit.sdfs;
+  }
+  const sdfs: SplatEditSdf[] = [];
+  edit.traverseVisible((node) => {
+    if (node instanceof SplatEditSdf) {
+      sdfs.push(node);
+    }
+  });
+  return sdfs;
+}
+
+function compileBakeSdf(sdf: SplatEditSdf): BakeSdf {
+  // Spark treats the SDF's scale as shape sizes and evaluates in an unscaled frame.
+  const sizes = new THREE.Vector4(sdf.scale.x, sdf.scale.y, sdf.scale.z, sdf.radius);
+  const savedScale = sdf.scale.clone();
+  sdf.scale.setScalar(1);
+  sdf.updateMatrixWorld();
+  const worldToSdf = sdf.matrixWorld.clone().invert();
+  sdf.scale.copy(savedScale);
+  sdf.updateMatrixWorld();
+
+  return {
+    type: sdf.type,
+    invert: sdf.invert === true,
+    worldToSdf,
+    sizes,
+    rgba: new THREE.Vector4(sdf.color.r, sdf.color.g, sdf.color.b, sdf.opacity),
+    displace: sdf.displace.clone(),
+  };
+}
+
+function signedDistance(sdf: BakeSdf, worldPos: THREE.Vector3): number {
+  const d = evaluateSdfDistance(sdf, worldPos);
+  return sdf.invert ? -d : d;
+}
+
+function smoothMinDistance(edit: BakeEdit, worldPos: THREE.Vector3, values: EditValues): number {
+  const smoothK = edit.sdfSmooth;
+  let accum = 0;
+  let maxExp = Number.NEGATIVE_INFINITY;
+
+  for (const sdf of edit.sdfs) {
+    const d = signedDistance(sdf, worldPos);
+    if (d === Number.NEGATIVE_INFINITY) {
+      // An unbounded "inside" shape dominates any soft blend.
+      values.rgba.copy(sdf.rgba);
+      values.displace.copy(sdf.displace);
+      return d;
+    }
+    if (d === Number.POSITIVE_INFINITY) {
+      continue;
+    }
+
+    const scaled = -d / smoothK;
+    if (scaled > maxExp) {
+      const rescale = Math.exp(maxExp - scaled);
+      accum *= rescale;
+      values.rgba.multiplyScalar(rescale);
+      values.displace.multiplyScalar(rescale);
+      maxExp = scaled;
+    }
+
+    const weight = Math.exp(scaled - maxExp);
+    accum += weight;
+    values.rgba.addScaledVector(sdf.rgba, weight);
+    values.displace.addScaledVector(sdf.displace, weight);
+  }
+
+  if (accum === 0) {
+    return Number.POSITIVE_INFINITY;
+  }
+  values.rgba.divideScalar(accum);
+  values.displace.divideScalar(accum);
+  return (-Math.log(accum) - maxExp) * smoothK;
+}
+
+function logit(opacity: number): number {
+  const p = clamp(opacity, 1e-6, 1 - 1e-6);
+  return Math.log(p / (1 - p));
+}
+
+function safeLog(value: number): number {
+  return Math.log(Math.max(value, 1e-8));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function nowMs(): number {
+  return typeof performance !== "undefined" ? performance.now() : Date.now();
+}
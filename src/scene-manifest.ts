@@ -1,8 +1,57 @@
 import * as THREE from "three";
+import { resolveProviderChain } from "./providers/registry";
+import type { LLMImage, LLMProvider } from "./providers/types";
 import type { SceneManifest, SemanticRegion, SpatialGrid, VoxelCell } from "./types";
-import { gridKey } from "./spatial-index";
+import { gridKey, serializeSpatialGridForLLM } from "./spatial-index";
+import type { CameraState } from "./viewer";
 
 const MIN_SPLATS_FOR_LABEL = 10;
+const MIN_VISION_VIEWS = 4;
+const MAX_VISION_VIEWS = 6;
+const DEFAULT_VISION_VIEWS = 5;
+const VISION_GRID_MAX_CELLS = 400;
+const VISION_MAX_TOKENS = 4096;
+const DEFAULT_VISION_CONFIDENCE = 0.6;
+const MARKDOWN_JSON_REGEX = /```json?\s*([\s\S]*?)```/i;
+
+const VISION_SYSTEM_PROMPT = `You label the contents of a 3D gaussian splat scene for a spatial editing assistant.
+You receive screenshots of the scene from several viewpoints and a JSON voxel grid of the same scene.
+Grid JSON: worldBounds/cellSize in world units; each cell has g=[x,y,z] grid coordinates, c=center, d=size, n=splat count, col=average color, cv=color variance.
+
+Identify the distinct objects and surfaces you can see (e.g. "bookshelf", "fireplace", "armchair", "wooden_floor", "ceiling", "window") and map each to the grid cells it occupies.
+
+Respond with only this JSON object, no markdown:
+{"description": "<one or two sentences describing the scene>",
+ "regions": [{"label": "<snake_case object name>", "cells": ["x,y,z", ...], "bounds": {"min": [x,y,z], "max": [x,y,z]}, "confidence": <0..1>}]}
+Use "cells" with g coordinates from the grid when you can; use "bounds" (world units) when an object spans many cells. Prefer specific object names over generic ones like "structure" or "surface".`;
+
+export interface ManifestViewpoint {
+  label: string;
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
+// What generateVisionManifest needs from the viewer. Screenshots may be data
+// URLs or bare base64 PNG.
+export interface ManifestCaptureTarget {
+  getCameraState(): CameraState;
+  setCameraState(state: CameraState): void;
+  captureScreenshot(): Promise<string>;
+  /** Called once the viewpoints are captured and the camera is restored. */
+  onCaptured?(): void;
+}
+
+export interface VisionManifestOptions {
+  viewCount?: number;
+  /** Defaults to the configured provider chain. */
+  providers?: readonly LLMProvider[];
+  apiKeys?: Partial<Record<string, string>>;
+}
+
+export interface ParsedVisionManifest {
+  description: string;
+  regions: SemanticRegion[];
+}
 
 type CellLabel = {
   label: string;
@@ -37,9 +86,153 @@ export function generateManifest(grid: SpatialGrid): SceneManifest {
     regions,
     grid,
     screenshots: [],
+    source: "heuristic",
   };
 }
 
+/**
+ * Labels the scene with the configured vision provider: captures 4-6 views
+ * orbiting inside the grid bounds, sends them with the serialized grid, and maps
+ * the returned objects back to grid cells. Falls back to the heuristic
+ * `generateManifest` when no vision provider is configured or labeling fails.
+ */
+export async function generateVisionManifest(
+  grid: SpatialGrid,
+  capture: ManifestCaptureTarget,
+  options: VisionManifestOptions = {}
+): Promise<SceneManifest> {
+  const providers = (options.providers ?? resolveProviderChain({ apiKeys: options.apiKeys ?? {} }))
+    .filter((provider) => provider.capabilities.vision && provider.capabilities.maxImages > 0);
+  if (providers.length === 0 || grid.cells.size === 0) {
+    console.warn(
+      `[manifest] Vision manifest unavailable (visionProviders=${providers.length}, cells=${grid.cells.size}); using heuristic manifest`
+    );
+    return generateManifest(grid);
+  }
+
+  const viewpoints = computeManifestViewpoints(grid.worldBounds, options.viewCount);
+  const screenshots = await captureViewpoints(capture, viewpoints);
+  const images: LLMImage[] = screenshots
+    .map((shot) => toBase64Png(shot))
+    .filter((base64): base64 is string => base64 !== null)
+    .map((base64) => ({ mimeType: "image/png", base64 }));
+  const userText = buildVisionUserText(grid, viewpoints);
+
+  for (const provider of providers) {
+    try {
+      const limited = images.slice(0, provider.capabilities.maxImages);
+      console.log(
+        `[manifest] Requesting vision manifest provider=${provider.name} model=${provider.model} images=${limited.length} promptChars=${userText.length}`
+      );
+      const response = await provider.generate({
+        systemPrompt: VISION_SYSTEM_PROMPT,
+        userText,
+        images: limited,
+        temperature: 0,
+        maxOutputTokens: VISION_MAX_TOKENS,
+      });
+      const parsed = parseVisionManifestResponse(response.text, grid);
+      if (parsed.regions.length === 0) {
+        throw new Error("response mapped to no occupied grid cells");
+      }
+      console.log(
+        `[manifest] Vision manifest from ${provider.name}: ${parsed.regions.length} regions (${parsed.regions.map((region) => region.label).join(", ")})`
+      );
+      return {
+        description: parsed.description,
+        regions: parsed.regions,
+        grid,
+        screenshots,
+        source: "vision",
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[manifest] Vision manifest via ${provider.name} failed: ${message}`);
+    }
+  }
+
+  console.warn("[manifest] All vision providers failed; using heuristic manifest");
+  return generateManifest(grid);
+}
+
+// Cameras sit on an ellipse just inside the horizontal bounds, a little above
+// center height, looking at the center: splat worlds are mostly environments
+// viewed from within, so outside views would only show the backs of walls.
+export function computeManifestViewpoints(
+  bounds: THREE.Box3,
+  count: number = DEFAULT_VISION_VIEWS
+): ManifestViewpoint[] {
+  const views = THREE.MathUtils.clamp(Math.round(count), MIN_VISION_VIEWS, MAX_VISION_VIEWS);
+  const center = new THREE.Vector3();
+  const size = new THREE.Vector3();
+  bounds.getCenter(center);
+  bounds.getSize(size);
+
+  const viewpoints: ManifestViewpoint[] = [];
+  for (let i = 0; i < views; i += 1) {
+    const azimuth = Math.PI / 4 + (2 * Math.PI * i) / views;
+    const position = new THREE.Vector3(
+      center.x + Math.cos(azimuth) * size.x * 0.45,
+      center.y + size.y * 0.2,
+      center.z + Math.sin(azimuth) * size.z * 0.45
+    );
+    viewpoints.push({
+      label: `view ${i + 1} (azimuth ${Math.round(THREE.MathUtils.radToDeg(azimuth)) % 360}°)`,
+      position,
+      target: center.clone(),
+    });
+  }
+  return viewpoints;
+}
+
+export function parseVisionManifestResponse(
+  responseText: string,
+  grid: SpatialGrid
+): ParsedVisionManifest {
+  const trimmed = responseText.trim();
+  const markdownMatch = trimmed.match(MARKDOWN_JSON_REGEX);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(markdownMatch?.[1]?.trim() || trimmed) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Vision manifest response is not valid JSON: ${message}`);
+  }
+
+  const body = Array.isArray(raw) ? { regions: raw } : raw;
+  if (typeof body !== "object" || body === null) {
+    throw new Error("Vision manifest response must be a JSON object.");
+  }
+  const record = body as Record<string, unknown>;
+  const rawRegions = Array.isArray(record.regions) ? record.regions : [];
+
+  const regions: SemanticRegion[] = [];
+  for (const rawRegion of rawRegions) {
+    if (typeof rawRegion !== "object" || rawRegion === null) continue;
+    const item = rawRegion as Record<string, unknown>;
+    const label = normalizeRegionLabel(item.label);
+    if (!label) continue;
+
+    const cells = resolveRegionCells(grid, item.cells, item.bounds);
+    if (cells.length === 0) {
+      console.warn(`[manifest] Vision region "${label}" matched no occupied cells; skipped`);
+      continue;
+    }
+    const confidence =
+      typeof item.confidence === "number" && Number.isFinite(item.confidence)
+        ? THREE.MathUtils.clamp(item.confidence, 0, 1)
+        : DEFAULT_VISION_CONFIDENCE;
+    regions.push(summarizeRegion(grid, label, cells, confidence));
+  }
+  sortRegionsBySplatCount(grid, regions);
+
+  const description =
+    typeof record.description === "string" && record.description.trim()
+      ? record.description.trim()
+      : generateDescription(regions, grid.cells.size);
+  return { description, regions };
+}
+
 export function getManifestJSON(manifest: SceneManifest): string {
   const r2 = (n: number) => Math.round(n * 100) / 100;
 
@@ -156,52 +349,156 @@ function buildRegions(
     const component = floodFill(grid, cellLabels, key, labelInfo.label, visited);
     if (component.length === 0) continue;
 
-    const bounds = new THREE.Box3();
-    const colorSum = new THREE.Vector3();
-    let totalSplats = 0;
     let confidenceSum = 0;
-
     for (const cellKey of component) {
-      const cell = grid.cells.get(cellKey);
-      if (!cell) continue;
-      bounds.expandByPoint(cell.worldBounds.min);
-      bounds.expandByPoint(cell.worldBounds.max);
-      colorSum.x += cell.avgColor.r * cell.splatCount;
-      colorSum.y += cell.avgColor.g * cell.splatCount;
-      colorSum.z += cell.avgColor.b * cell.splatCount;
-      totalSplats += cell.splatCount;
-      const cl = cellLabels.get(cellKey);
-      if (cl) confidenceSum += cl.confidence;
+      confidenceSum += cellLabels.get(cellKey)?.confidence ?? 0;
     }
+    regions.push(
+      summarizeRegion(grid, labelInfo.label, component, confidenceSum / component.length)
+    );
+  }
 
-    const invTotal = totalSplats > 0 ? 1 / totalSplats : 0;
-    const dominantColor = new THREE.Color(
+  sortRegionsBySplatCount(grid, regions);
+  return regions;
+}
+
+function summarizeRegion(
+  grid: SpatialGrid,
+  label: string,
+  cellKeys: string[],
+  confidence: number
+): SemanticRegion {
+  const bounds = new THREE.Box3();
+  const colorSum = new THREE.Vector3();
+  let totalSplats = 0;
+
+  for (const cellKey of cellKeys) {
+    const cell = grid.cells.get(cellKey);
+    if (!cell) continue;
+    bounds.expandByPoint(cell.worldBounds.min);
+    bounds.expandByPoint(cell.worldBounds.max);
+    colorSum.x += cell.avgColor.r * cell.splatCount;
+    colorSum.y += cell.avgColor.g * cell.splatCount;
+    colorSum.z += cell.avgColor.b * cell.splatCount;
+    totalSplats += cell.splatCount;
+  }
+
+  const invTotal = totalSplats > 0 ? 1 / totalSplats : 0;
+  return {
+    label,
+    gridCells: cellKeys,
+    estimatedBounds: bounds,
+    dominantColor: new THREE.Color(
       colorSum.x * invTotal,
       colorSum.y * invTotal,
       colorSum.z * invTotal
-    );
+    ),
+    confidence,
+  };
+}
 
-    regions.push({
-      label: labelInfo.label,
-      gridCells: component,
-      estimatedBounds: bounds,
-      dominantColor,
-      confidence: component.length > 0 ? confidenceSum / component.length : 0,
-    });
+// Largest regions first.
+function sortRegionsBySplatCount(grid: SpatialGrid, regions: SemanticRegion[]): void {
+  const splatsOf = (region: SemanticRegion) =>
+    region.gridCells.reduce((sum, key) => sum + (grid.cells.get(key)?.splatCount ?? 0), 0);
+  regions.sort((a, b) => splatsOf(b) - splatsOf(a));
+}
+
+async function captureViewpoints(
+  capture: ManifestCaptureTarget,
+  viewpoints: readonly ManifestViewpoint[]
+): Promise<string[]> {
+  const saved = capture.getCameraState();
+  const screenshots: string[] = [];
+  try {
+    for (const viewpoint of viewpoints) {
+      capture.setCameraState({
+        position: viewpoint.position.toArray(),
+        target: viewpoint.target.toArray(),
+        fov: saved.fov,
+      });
+      screenshots.push(await capture.captureScreenshot());
+    }
+  } finally {
+    capture.setCameraState(saved);
+    capture.onCaptured?.();
   }
+  console.log(`[manifest] Captured ${screenshots.length} manifest viewpoints`);
+  return screenshots;
+}
 
-  // Sort by splat count (largest regions first)
-  regions.sort((a, b) => {
-    const aSplats = a.gridCells.reduce(
-      (sum, key) => sum + (grid.cells.get(key)?.splatCount ?? 0), 0
-    );
-    const bSplats = b.gridCells.reduce(
-      (sum, key) => sum + (grid.cells.get(key)?.splatCount ?? 0), 0
+function buildVisionUserText(
+  grid: SpatialGrid,
+  viewpoints: readonly ManifestViewpoint[]
+): string {
+  const r2 = (n: number) => Math.round(n * 100) / 100;
+  const lines = ["Screenshots, in order:"];
+  for (const viewpoint of viewpoints) {
+    lines.push(
+      `- ${viewpoint.label}: camera=[${viewpoint.position.toArray().map(r2).join(", ")}] looking at [${viewpoint.target.toArray().map(r2).join(", ")}]`
     );
-    return bSplats - aSplats;
-  });
+  }
+  lines.push("");
+  lines.push("Voxel grid:");
+  lines.push(serializeSpatialGridForLLM(grid, { maxCells: VISION_GRID_MAX_CELLS }));
+  return lines.join("\n");
+}
 
-  return regions;
+function resolveRegionCells(grid: SpatialGrid, rawCells: unknown, rawBounds: unknown): string[] {
+  const keys = new Set<string>();
+  if (Array.isArray(rawCells)) {
+    for (const rawCell of rawCells) {
+      const key =
+        typeof rawCell === "string"
+          ? rawCell.replace(/\s+/g, "")
+          : Array.isArray(rawCell) && rawCell.length === 3 && rawCell.every(Number.isInteger)
+            ? gridKey(rawCell[0], rawCell[1], rawCell[2])
+            : null;
+      if (key && grid.cells.has(key)) {
+        keys.add(key);
+      }
+    }
+  }
+
+  const bounds = parseBounds(rawBounds);
+  if (bounds) {
+    for (const [key, cell] of grid.cells) {
+      if (bounds.containsPoint(cell.worldCenter)) {
+        keys.add(key);
+      }
+    }
+  }
+  return Array.from(keys);
+}
+
+function parseBounds(raw: unknown): THREE.Box3 | null {
+  if (typeof raw !== "object" || raw === null) return null;
+  const { min, max } = raw as Record<string, unknown>;
+  const isVec3 = (value: unknown): value is [number, number, number] =>
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((n) => typeof n === "number" && Number.isFinite(n));
+  if (!isVec3(min) || !isVec3(max)) return null;
+  const box = new THREE.Box3(new THREE.Vector3(...min), new THREE.Vector3(...max));
+  return box.isEmpty() ? null : box;
+}
+
+function normalizeRegionLabel(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const label = raw
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40);
+  return label || null;
+}
+
+function toBase64Png(screenshot: string): string | null {
+  const trimmed = screenshot.trim();
+  const match = trimmed.match(/^data:image\/png;base64,(.+)$/i);
+  const base64 = (match ? match[1] : trimmed).replace(/\s+/g, "");
+  return base64 || null;
 }
 
 function floodFill(
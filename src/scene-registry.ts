@@ -0,0 +1,149 @@
+import type { SplatMesh } from "@sparkjsdev/spark";
+import type * as THREE from "three";
+import { swapPlacedAssets } from "./asset-library";
+import { setActiveEditHistory, type EditHistoryState } from "./executor";
+import type { SplatArrays } from "./spatial-index";
+import type { PlacedAssetInstance, SceneManifest, SpatialGrid, SpatialIndex } from "./types";
+
+export const SCENE_INDEX_URL = "/scenes/index.json";
+const SCENE_BASE_URL = "/scenes/";
+
+export interface SceneIndexEntry {
+  /** Path under `public/scenes`; doubles as the scene id and `sourceScene`. */
+  file: string;
+  label: string;
+  url: string;
+}
+
+/**
+ * Everything one loaded scene owns. The asset library is shared; the placed
+ * instances and edit history are swapped in while the scene is active.
+ */
+export interface LoadedScene {
+  entry: SceneIndexEntry;
+  root: THREE.Object3D;
+  splatMesh: SplatMesh;
+  grid: SpatialGrid;
+  arrays: SplatArrays;
+  /** Octree built alongside the grid for the LLM voxel context, if enabled. */
+  spatialIndex: SpatialIndex | null;
+  manifest: SceneManifest;
+  history: EditHistoryState;
+  /** Parked here while another scene is active. */
+  placedAssets: PlacedAssetInstance[];
+}
+
+export interface SceneRegistry<T extends LoadedScene> {
+  add(scene: T): void;
+  get(file: string): T | undefined;
+  getActive(): T | null;
+  /** Makes a loaded scene active, swapping in its edit history and placed assets. */
+  activate(file: string): T | null;
+}
+
+export async function loadSceneIndex(fallbackFile: string): Promise<SceneIndexEntry[]> {
+  const fallback = [createSceneIndexEntry(fallbackFile)];
+  try {
+    const response = await fetch(SCENE_INDEX_URL);
+    if (!response.ok) {
+      console.warn(
+        `[scene-registry] Scene index missing (${response.status}). Using ${fallbackFile}.`
+      );
+      return fallback;
+    }
+    const parsed = parseSceneIndex((await response.json()) as unknown);
+    if (parsed.length > 0) {
+      console.log(`[scene-registry] Scene index lists ${parsed.length} scene(s)`);
+      return parsed;
+    }
+    console.warn(`[scene-registry] Scene index empty/invalid. Using ${fallbackFile}.`);
+    return fallback;
+  } catch (error) {
+    console.warn(`[scene-registry] Failed to load scene index. Using ${fallbackFile}.`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Accepts an array of file names or `{ file, label? }` records. Non-.spz
+ * files and duplicates are dropped.
+ */
+export function parseSceneIndex(payload: unknown): SceneIndexEntry[] {
+  if (!Array.isArray(payload)) {
+    return [];
+  }
+
+  const out: SceneIndexEntry[] = [];
+  const seen = new Set<string>();
+  for (const item of payload) {
+    const record =
+      typeof item === "string"
+        ? { file: item }
+        : item && typeof item === "object"
+          ? (item as { file?: unknown; label?: unknown })
+          : null;
+    const file = typeof record?.file === "string" ? record.file.trim().replace(/^\/+/, "") : "";
+    if (!/\.spz$/i.test(file) || seen.has(file)) {
+      continue;
+    }
+    seen.add(file);
+    const label =
+      typeof record?.label === "string" && record.label.trim() ? record.label.trim() : undefined;
+    out.push(createSceneIndexEntry(file, label));
+  }
+  return out;
+}
+
+export function createSceneIndexEntry(file: string, label?: string): SceneIndexEntry {
+  const tail = file.split("/").pop() ?? file;
+  return {
+    file,
+    label: label ?? (tail.replace(/\.spz$/i, "").replace(/[_-]+/g, " ").trim() || file),
+    url: `${SCENE_BASE_URL}${file}`,
+  };
+}
+
+export function createSceneRegistry<T extends LoadedScene>(): SceneRegistry<T> {
+  const scenes = new Map<string, T>();
+  let active: T | null = null;
+
+  return {
+    add(scene) {
+      scenes.set(scene.entry.file, scene);
+      console.log(`[scene-registry] Loaded scene ${scene.entry.file} (${scenes.size} total)`);
+    },
+
+    get(file) {
+      return scenes.get(file);
+    },
+
+    getActive() {
+      return active;
+    },
+
+    activate(file) {
+      const next = scenes.get(file);
+      if (!next) {
+        console.warn(`[scene-registry] activate: scene ${file} is not loaded`);
+        return null;
+      }
+      if (next === active) {
+        return next;
+      }
+
+      // Active first: the swaps notify listeners that read the active scene.
+      const previous = active;
+      active = next;
+      const outgoing = swapPlacedAssets(next.placedAssets);
+      if (previous) {
+        previous.placedAssets = outgoing;
+      }
+      next.placedAssets = [];
+      setActiveEditHistory(next.history);
+      console.log(
+        `[scene-registry] Active scene ${previous?.entry.file ?? "(none)"} -> ${next.entry.file}`
+      );
+      return next;
+    },
+  };
+}
@@ -0,0 +1,346 @@
+import * as THREE from "three";
+import { gridKey } from "./spatial-index";
+import type { SDFShapeConfig, SpatialGrid, VoxelCell } from "./types";
+
+export type ScreenSelectionMode = "box" | "lasso";
+
+/** Polygon vertices in canvas pixels (origin top-left). */
+export type ScreenPolygon = ReadonlyArray<readonly [number, number]>;
+
+export interface ScreenSelectionOptions {
+  /** Drop cells hidden behind nearer selected cells. */
+  visibleOnly?: boolean;
+  /** Screen bin size for the coarse depth test. */
+  depthBinPx?: number;
+  /** Depth kept behind the nearest cell of a bin, in cell diagonals. */
+  depthTolerance?: number;
+}
+
+export interface CompoundShapeOptions {
+  maxShapes?: number;
+  padding?: number;
+  /** Below this cell fill ratio a merged block becomes an ELLIPSOID. */
+  minBoxFill?: number;
+}
+
+/** A drawn selection resolved to grid cells and the SDF shapes covering them. */
+export interface RegionSelection {
+  mode: ScreenSelectionMode;
+  cellKeys: string[];
+  bounds: THREE.Box3;
+  center: THREE.Vector3;
+  splatCount: number;
+  shapes: SDFShapeConfig[];
+}
+
+const DEFAULT_SELECTION_OPTIONS: Required<ScreenSelectionOptions> = {
+  visibleOnly: true,
+  depthBinPx: 24,
+  depthTolerance: 1.5,
+};
+
+const DEFAULT_SHAPE_OPTIONS: Required<CompoundShapeOptions> = {
+  maxShapes: 8,
+  padding: 1.08,
+  minBoxFill: 0.6,
+};
+
+const MIN_HALF_EXTENT = 0.03;
+const MAX_LISTED_CELLS = 40;
+
+type CellBlock = {
+  min: [number, number, number];
+  max: [number, number, number];
+  cells: VoxelCell[];
+};
+
+export function rectangleToPolygon(
+  start: readonly [number, number],
+  end: readonly [number, number]
+): Array<[number, number]> {
+  const [x0, y0] = start;
+  const [x1, y1] = end;
+  return [
+    [x0, y0],
+    [x1, y0],
+    [x1, y1],
+    [x0, y1],
+  ];
+}
+
+/** Even-odd test; works for self-intersecting lasso paths too. */
+export function isPointInPolygon(x: number, y: number, polygon: ScreenPolygon): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Grid cells whose centers project inside `polygon`. Cell centers rather than
+ * splat centers keep a drag over a 500k-splat scene interactive. With
+ * `visibleOnly`, a cell is kept only when it lies within `depthTolerance`
+ * cell diagonals of the nearest selected cell in its screen bin, so a lasso
+ * around a chair does not also take the wall behind it.
+ */
+export function selectCellsInScreenPolygon(
+  grid: SpatialGrid,
+  camera: THREE.Camera,
+  polygon: ScreenPolygon,
+  viewport: { width: number; height: number },
+  options: ScreenSelectionOptions = {}
+): string[] {
+  const config = { ...DEFAULT_SELECTION_OPTIONS, ...options };
+  if (polygon.length < 3 || viewport.width <= 0 || viewport.height <= 0) {
+    return [];
+  }
+
+  camera.updateMatrixWorld();
+  const viewProjection = new THREE.Matrix4().multiplyMatrices(
+    camera.projectionMatrix,
+    camera.matrixWorldInverse
+  );
+  const cameraPosition = new THREE.Vector3().setFromMatrixPosition(camera.matrixWorld);
+  const ndc = new THREE.Vector3();
+
+  const hits: Array<{ key: string; bin: string; depth: number }> = [];
+  for (const [key, cell] of grid.cells) {
+    ndc.copy(cell.worldCenter).applyMatrix4(viewProjection);
+    if (Math.abs(ndc.x) > 1 || Math.abs(ndc.y) > 1 || ndc.z < -1 || ndc.z > 1) {
+      continue;
+    }
+    const px = (ndc.x * 0.5 + 0.5) * viewport.width;
+    const py = (-ndc.y * 0.5 + 0.5) * viewport.height;
+    if (!isPointInPolygon(px, py, polygon)) {
+      continue;
+    }
+    hits.push({
+      key,
+      bin: `${Math.floor(px / config.depthBinPx)},${Math.floor(py / config.depthBinPx)}`,
+      depth: cell.worldCenter.distanceTo(cameraPosition),
+    });
+  }
+
+  if (!config.visibleOnly) {
+    return hits.map((hit) => hit.key);
+  }
+  const nearest = new Map<string, number>();
+  for (const hit of hits) {
+    nearest.set(hit.bin, Math.min(nearest.get(hit.bin) ?? Infinity, hit.depth));
+  }
+  const tolerance = grid.cellSize.length() * config.depthTolerance;
+  const visible = hits.filter((hit) => hit.depth <= nearest.get(hit.bin)! + tolerance);
+  console.log(
+    `[screen-selection] Polygon covers ${hits.length} cell(s); ${visible.length} visible`
+  );
+  return visible.map((hit) => hit.key);
+}
+
+/**
+ * Covers the cells with at most `maxShapes` axis-aligned shapes. Cells are
+ * first split greedily into solid blocks of grid coordinates; the smallest
+ * blocks are then merged into whichever kept block grows least. Each shape is
+ * sized to the splat bounds of its cells, so it hugs the splats instead of
+ * the voxel staircase.
+ */
+export function buildCompoundSelectionShapes(
+  grid: SpatialGrid,
+  cellKeys: readonly string[],
+  options: CompoundShapeOptions = {}
+): SDFShapeConfig[] {
+  const config = { ...DEFAULT_SHAPE_OPTIONS, ...options };
+  const selected = new Map<string, VoxelCell>();
+  for (const key of cellKeys) {
+    const cell = grid.cells.get(key);
+    if (cell) {
+      selected.set(key, cell);
+    }
+  }
+
+  const blocks = splitIntoBlocks(selected).sort((a, b) => b.cells.length - a.cells.length);
+  const kept = blocks.slice(0, Math.max(1, config.maxShapes));
+  for (const block of blocks.slice(kept.length)) {
+    let best = kept[0];
+    let bestGrowth = Infinity;
+    for (const candidate of kept) {
+      const growth = blockVolume(unionBlock(candidate, block)) - blockVolume(candidate);
+      if (growth < bestGrowth) {
+        best = candidate;
+        bestGrowth = growth;
+      }
+    }
+    const merged = unionBlock(best, block);
+    best.min = merged.min;
+    best.max = merged.max;
+    best.cells.push(...block.cells);
+  }
+
+  return kept.map((block) => blockToShape(block, config));
+}
+
+export function buildRegionSelection(
+  grid: SpatialGrid,
+  cellKeys: readonly string[],
+  mode: ScreenSelectionMode,
+  options: CompoundShapeOptions = {}
+): RegionSelection | null {
+  const keys: string[] = [];
+  const cells: VoxelCell[] = [];
+  for (const key of cellKeys) {
+    const cell = grid.cells.get(key);
+    if (cell) {
+      keys.push(key);
+      cells.push(cell);
+    }
+  }
+  if (cells.length === 0) {
+    return null;
+  }
+
+  const bounds = new THREE.Box3();
+  const center = new THREE.Vector3();
+  let splatCount = 0;
+  for (const cell of cells) {
+    bounds.union(cell.worldBounds);
+    center.addScaledVector(cell.worldCenter, cell.splatCount);
+    splatCount += cell.splatCount;
+  }
+  center.multiplyScalar(1 / Math.max(1, splatCount));
+
+  const selection: RegionSelection = {
+    mode,
+    cellKeys: keys,
+    bounds,
+    center,
+    splatCount,
+    shapes: buildCompoundSelectionShapes(grid, keys, options),
+  };
+  console.log(
+    `[screen-selection] ${mode} selection cells=${cells.length} splats=${splatCount} shapes=${selection.shapes.length}`
+  );
+  return selection;
+}
+
+export function formatRegionSelection(selection: RegionSelection): string {
+  const size = selection.bounds.getSize(new THREE.Vector3());
+  const listed = selection.cellKeys.slice(0, MAX_LISTED_CELLS).join(" ");
+  const more = selection.cellKeys.length - MAX_LISTED_CELLS;
+  return [
+    `Selected region (drawn by the user with a ${selection.mode === "box" ? "rectangle" : "lasso"}; replaces the click point):`,
+    `- cells=${selection.cellKeys.length} splats=${selection.splatCount}`,
+    `- center=${formatVec3(selection.center)} size=${formatVec3(size)}`,
+    `- bounds min=${formatVec3(selection.bounds.min)} max=${formatVec3(selection.bounds.max)}`,
+    `- cellKeys=${listed}${more > 0 ? ` (+${more} more)` : ""}`,
+    `- shapes=${JSON.stringify(selection.shapes)}`,
+  ].join("\n");
+}
+
+// Greedy meshing in 3D: grow each unused cell along x, then y, then z while
+// every cell of the next row/slab is selected and unused.
+function splitIntoBlocks(selected: Map<string, VoxelCell>): CellBlock[] {
+  const used = new Set<string>();
+  const free = (x: number, y: number, z: number) => {
+    const key = gridKey(x, y, z);
+    return selected.has(key) && !used.has(key);
+  };
+  const ordered = Array.from(selected.values()).sort(
+    (a, b) =>
+      a.gridPos[2] - b.gridPos[2] || a.gridPos[1] - b.gridPos[1] || a.gridPos[0] - b.gridPos[0]
+  );
+
+  const blocks: CellBlock[] = [];
+  for (const seed of ordered) {
+    const [x0, y0, z0] = seed.gridPos;
+    if (!free(x0, y0, z0)) {
+      continue;
+    }
+    let x1 = x0;
+    while (free(x1 + 1, y0, z0)) x1 += 1;
+    let y1 = y0;
+    while (rangeFree(free, x0, x1, y1 + 1, y1 + 1, z0, z0)) y1 += 1;
+    let z1 = z0;
+    while (rangeFree(free, x0, x1, y0, y1, z1 + 1, z1 + 1)) z1 += 1;
+
+    const cells: VoxelCell[] = [];
+    for (let z = z0; z <= z1; z += 1) {
+      for (let y = y0; y <= y1; y += 1) {
+        for (let x = x0; x <= x1; x += 1) {
+          const key = gridKey(x, y, z);
+          used.add(key);
+          const cell = selected.get(key);
+          if (cell) cells.push(cell);
+        }
+      }
+    }
+    blocks.push({ min: [x0, y0, z0], max: [x1, y1, z1], cells });
+  }
+  return blocks;
+}
+
+function rangeFree(
+  free: (x: number, y: number, z: number) => boolean,
+  x0: number,
+  x1: number,
+  y0: number,
+  y1: number,
+  z0: number,
+  z1: number
+): boolean {
+  for (let z = z0; z <= z1; z += 1) {
+    for (let y = y0; y <= y1; y += 1) {
+      for (let x = x0; x <= x1; x += 1) {
+        if (!free(x, y, z)) {
+          return false;
+        }
+      }
+    }
+  }
+  return true;
+}
+
+function unionBlock(a: CellBlock, b: CellBlock): Pick<CellBlock, "min" | "max"> {
+  return {
+    min: [Math.min(a.min[0], b.min[0]), Math.min(a.min[1], b.min[1]), Math.min(a.min[2], b.min[2])],
+    max: [Math.max(a.max[0], b.max[0]), Math.max(a.max[1], b.max[1]), Math.max(a.max[2], b.max[2])],
+  };
+}
+
+function blockVolume(block: Pick<CellBlock, "min" | "max">): number {
+  return (
+    (block.max[0] - block.min[0] + 1) *
+    (block.max[1] - block.min[1] + 1) *
+    (block.max[2] - block.min[2] + 1)
+  );
+}
+
+function blockToShape(block: CellBlock, config: Required<CompoundShapeOptions>): SDFShapeConfig {
+  const bounds = new THREE.Box3();
+  for (const cell of block.cells) {
+    bounds.union(cell.worldBounds);
+  }
+  const center = bounds.getCenter(new THREE.Vector3());
+  const half = bounds.getSize(new THREE.Vector3()).multiplyScalar(0.5 * config.padding);
+  const fill = block.cells.length / blockVolume(block);
+  return {
+    type: fill >= config.minBoxFill ? "BOX" : "ELLIPSOID",
+    position: [round3(center.x), round3(center.y), round3(center.z)],
+    scale: [
+      round3(Math.max(MIN_HALF_EXTENT, half.x)),
+      round3(Math.max(MIN_HALF_EXTENT, half.y)),
+      round3(Math.max(MIN_HALF_EXTENT, half.z)),
+    ],
+  };
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function formatVec3(vec: THREE.Vector3): string {
+  return `[${vec.x.toFixed(3)}, ${vec.y.toFixed(3)}, ${vec.z.toFixed(3)}]`;
+}
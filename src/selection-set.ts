@@ -0,0 +1,175 @@
+import * as THREE from "three";
+import { buildLocalSelection, type SelectionResult } from "./click-selection";
+import { getCellAtWorldPos, gridKey } from "./spatial-index";
+import type { SplatSource } from "./surface";
+import type { SpatialGrid } from "./types";
+import type { ViewerContext } from "./viewer";
+
+// Member colors cycle through this palette; the plain click indicator is cyan.
+const MEMBER_COLORS = [0xffb020, 0x7cff6b, 0xff5fd2, 0x9d8cff, 0xff7a45, 0x4dffd8];
+const MARKER_RADIUS = 0.06;
+
+export interface SelectionSetMember {
+  id: number;
+  point: THREE.Vector3;
+  /** Click-seeded cluster from `buildLocalSelection`; null when none grew. */
+  cluster: SelectionResult | null;
+}
+
+export interface SelectionSetOptions {
+  getGrid(): SpatialGrid | null;
+  /** Base splats for the splat-level pass of each member's cluster. */
+  getSplats?(): SplatSource | null;
+}
+
+export interface SelectionSet {
+  getMembers(): readonly SelectionSetMember[];
+  add(point: THREE.Vector3): SelectionSetMember;
+  /** Removes the member whose cluster or marker is at `point`; false if none is. */
+  subtract(point: THREE.Vector3): boolean;
+  clear(): void;
+  onChange(callback: (members: readonly SelectionSetMember[]) => void): () => void;
+  dispose(): void;
+}
+
+/**
+ * Points collected by Ctrl-click (add) and Alt-click (subtract), each with its
+ * own cluster, marker and cluster outline in a color of its own.
+ */
+export function createSelectionSet(
+  ctx: ViewerContext,
+  options: SelectionSetOptions
+): SelectionSet {
+  let members: SelectionSetMember[] = [];
+  let nextId = 1;
+  const markers = new Map<number, THREE.Group>();
+  const listeners = new Set<(members: readonly SelectionSetMember[]) => void>();
+
+  function notify(): void {
+    for (const listener of [...listeners]) {
+      try {
+        listener(members);
+      } catch (error) {
+        console.error("[selection-set] Listener failed", error);
+      }
+    }
+  }
+
+  function addMarker(member: SelectionSetMember, index: number): void {
+    const color = MEMBER_COLORS[index % MEMBER_COLORS.length];
+    const group = new THREE.Group();
+    group.name = `selection-set-${member.id}`;
+    const marker = new THREE.Mesh(
+      new THREE.SphereGeometry(MARKER_RADIUS, 16, 16),
+      new THREE.MeshBasicMaterial({ color, wireframe: true })
+    );
+    marker.position.copy(member.point);
+    group.add(marker);
+    if (member.cluster) {
+      group.add(new THREE.Box3Helper(member.cluster.clusterBounds.clone(), color));
+    }
+    ctx.scene.add(group);
+    markers.set(member.id, group);
+  }
+
+  function removeMarker(id: number): void {
+    const group = markers.get(id);
+    if (!group) return;
+    ctx.scene.remove(group);
+    group.traverse((object) => {
+      if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      }
+    });
+    markers.delete(id);
+  }
+
+  function findMemberAt(point: THREE.Vector3): SelectionSetMember | null {
+    const grid = options.getGrid();
+    const cell = grid ? getCellAtWorldPos(grid, point) : null;
+    const cellKey = cell ? gridKey(...cell.gridPos) : null;
+    // Most recent first, so overlapping clusters drop the last one added.
+    for (let i = members.length - 1; i >= 0; i -= 1) {
+      const member = members[i];
+      if (cellKey && member.cluster?.clusterCellKeys.includes(cellKey)) {
+        return member;
+      }
+    }
+    const reach = grid ? grid.cellSize.length() : MARKER_RADIUS * 4;
+    let nearest: SelectionSetMember | null = null;
+    let nearestDistance = reach;
+    for (const member of members) {
+      const distance = member.point.distanceTo(point);
+      if (distance <= nearestDistance) {
+        nearest = member;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  return {
+    getMembers() {
+      return members;
+    },
+
+    add(point) {
+      const grid = options.getGrid();
+      const member: SelectionSetMember = {
+        id: nextId,
+        point: point.clone(),
+        cluster: grid
+          ? buildLocalSelection(grid, point, { splats: options.getSplats?.() ?? undefined })
+          : null,
+      };
+      nextId += 1;
+      members = [...members, member];
+      addMarker(member, member.id - 1);
+      console.log(
+        `[selection-set] Added point ${member.id} cells=${member.cluster?.clusterCellKeys.length ?? 0} (${members.length} selected)`
+      );
+      notify();
+      return member;
+    },
+
+    subtract(point) {
+      const member = findMemberAt(point);
+      if (!member) {
+        console.log("[selection-set] Alt-click matched no selected point");
+        return false;
+      }
+      members = members.filter((candidate) => candidate !== member);
+      removeMarker(member.id);
+      console.log(`[selection-set] Removed point ${member.id} (${members.length} selected)`);
+      notify();
+      return true;
+    },
+
+    clear() {
+      if (members.length === 0) return;
+      for (const id of [...markers.keys()]) {
+        removeMarker(id);
+      }
+      members = [];
+      nextId = 1;
+      console.log("[selection-set] Cleared");
+      notify();
+    },
+
+    onChange(callback) {
+      listeners.add(callback);
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+
+    dispose() {
+      for (const id of [...markers.keys()]) {
+        removeMarker(id);
+      }
+      members = [];
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,361 @@
+import type { SplatMesh } from "@sparkjsdev/spark";
+import * as THREE from "three";
+import { validateOperations } from "./agent";
+import {
+  executeOperations,
+  getHistoryEntries,
+  undoAllEdits,
+  type EditHistoryEntry,
+} from "./executor";
+import type { AssetEntry, EditOperation, PlacedAssetInstance } from "./types";
+import type { CameraState } from "./viewer";
+
+export const SESSION_VERSION = 1;
+
+export type SessionTarget = "mesh" | "scene";
+
+export interface SessionOperation {
+  target: SessionTarget;
+  operation: EditOperation;
+}
+
+export interface SessionHistoryEntry {
+  command: string;
+  provider: string;
+  timestamp: string;
+  operations: SessionOperation[];
+}
+
+export interface SessionPlacedAsset {
+  /** Placement id, restored so references to the instance survive a reload. */
+  id?: string;
+  assetId: string;
+  label: string;
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  scale: number;
+}
+
+export interface EditSessionDocument {
+  version: number;
+  savedAt: string;
+  sceneUrl: string;
+  history: SessionHistoryEntry[];
+  placedAssets: SessionPlacedAsset[];
+  camera: CameraState | null;
+}
+
+export interface SessionSnapshotInput {
+  sceneUrl: string;
+  history: readonly EditHistoryEntry[];
+  placedAssets: readonly PlacedAssetInstance[];
+  camera: CameraState | null;
+}
+
+export interface SessionApplyTarget {
+  /** Parent of `target: "mesh"` operations. */
+  editParent: THREE.Object3D;
+  /** Parent of `target: "scene"` operations (global edits). */
+  sceneParent: THREE.Object3D;
+  placementParent: THREE.Object3D;
+  clearPlacedAssets: () => void;
+  resolveAsset: (assetId: string, label: string) => AssetEntry | undefined;
+  placeAsset: (asset: AssetEntry, placement: SessionPlacedAsset) => SplatMesh;
+  setCameraState?: (state: CameraState) => void;
+}
+
+export interface SessionApplyResult {
+  replayedEntries: number;
+  replayedOperations: number;
+  placedAssets: number;
+  missingAssets: string[];
+}
+
+export function buildSessionDocument(input: SessionSnapshotInput): EditSessionDocument {
+  // Placement steps (gizmo actions and agent `place` ops) are not replayed:
+  // `placedAssets` already holds their end state. Move/duplicate ops are,
+  // since their copies are cut from the scene again. Copy ops changed nothing.
+  const history: SessionHistoryEntry[] = input.history
+    .filter((entry) => !entry.action)
+    .map((entry) => ({
+      command: entry.command,
+      provider: entry.provider,
+      timestamp: entry.createdAt.toISOString(),
+      operations: entry.operations
+        .filter((op) => op.action !== "place" && op.action !== "copy")
+        .map((op) => ({ target: getSessionTarget(entry, op), operation: op })),
+    }))
+    .filter((entry) => entry.operations.length > 0);
+
+  const placedAssets: SessionPlacedAsset[] = input.placedAssets.map((instance) => {
+    const { mesh } = instance;
+    return {
+      id: instance.id,
+      assetId: instance.assetId,
+      label: instance.label,
+      position: [mesh.position.x, mesh.position.y, mesh.position.z],
+      quaternion: [mesh.quaternion.x, mesh.quaternion.y, mesh.quaternion.z, mesh.quaternion.w],
+      scale: mesh.scale.x,
+    };
+  });
+
+  return {
+    version: SESSION_VERSION,
+    savedAt: new Date().toISOString(),
+    sceneUrl: input.sceneUrl,
+    history,
+    placedAssets,
+    camera: input.camera,
+  };
+}
+
+export function serializeSession(doc: EditSessionDocument): string {
+  return JSON.stringify(doc, null, 2);
+}
+
+export function captureSession(
+  sceneUrl: string,
+  placedAssets: readonly PlacedAssetInstance[],
+  camera: CameraState | null
+): EditSessionDocument {
+  const doc = buildSessionDocument({
+    sceneUrl,
+    history: getHistoryEntries(),
+    placedAssets,
+    camera,
+  });
+  console.log(
+    `[session] Captured session entries=${doc.history.length} placed=${doc.placedAssets.length} camera=${Boolean(doc.camera)}`
+  );
+  return doc;
+}
+
+export function parseSessionDocument(json: string): EditSessionDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Session file is not valid JSON: ${message}`);
+  }
+
+  if (!isRecord(raw)) {
+    throw new Error("Session file must contain a JSON object.");
+  }
+
+  const version = raw.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error("Session has invalid version.");
+  }
+  if (version > SESSION_VERSION) {
+    throw new Error(
+      `Session version ${version} is newer than supported version ${SESSION_VERSION}.`
+    );
+  }
+
+  if (typeof raw.sceneUrl !== "string" || !raw.sceneUrl.trim()) {
+    throw new Error("Session has invalid sceneUrl.");
+  }
+
+  if (!Array.isArray(raw.history)) {
+    throw new Error("Session history must be an array.");
+  }
+
+  const placedAssets = raw.placedAssets ?? [];
+  if (!Array.isArray(placedAssets)) {
+    throw new Error("Session placedAssets must be an array.");
+  }
+
+  return {
+    version,
+    savedAt: typeof raw.savedAt === "string" ? raw.savedAt : new Date().toISOString(),
+    sceneUrl: raw.sceneUrl.trim(),
+    history: raw.history.map((entry, index) => validateHistoryEntry(entry, index)),
+    placedAssets: placedAssets.map((item, index) => validatePlacedAsset(item, index)),
+    camera: raw.camera === undefined || raw.camera === null ? null : validateCamera(raw.camera),
+  };
+}
+
+export function applySessionDocument(
+  doc: EditSessionDocument,
+  target: SessionApplyTarget
+): SessionApplyResult {
+  console.log(
+    `[session] Applying session scene=${doc.sceneUrl} entries=${doc.history.length} placed=${doc.placedAssets.length}`
+  );
+  undoAllEdits();
+  target.clearPlacedAssets();
+
+  let replayedOperations = 0;
+  for (const entry of doc.history) {
+    const ops = entry.operations.map((item) => item.operation);
+    executeOperations(ops, target.editParent, {
+      command: entry.command,
+      provider: entry.provider,
+      createdAt: new Date(entry.timestamp),
+      replay: true,
+      parents: entry.operations.map((item) =>
+        item.target === "scene" ? target.sceneParent : target.editParent
+      ),
+    });
+    replayedOperations += ops.length;
+  }
+
+  const missingAssets: string[] = [];
+  let placedCount = 0;
+  for (const placement of doc.placedAssets) {
+    const asset = target.resolveAsset(placement.assetId, placement.label);
+    if (!asset) {
+      console.warn(
+        `[session] Placed asset missing from library id=${placement.assetId} label="${placement.label}"`
+      );
+      missingAssets.push(placement.label || placement.assetId);
+      continue;
+    }
+    const mesh = target.placeAsset(asset, placement);
+    target.placementParent.add(mesh);
+    placedCount += 1;
+  }
+
+  if (doc.camera && target.setCameraState) {
+    target.setCameraState(doc.camera);
+  }
+
+  console.log(
+    `[session] Session applied entries=${doc.history.length} ops=${replayedOperations} placed=${placedCount} missing=${missingAssets.length}`
+  );
+  return {
+    replayedEntries: doc.history.length,
+    replayedOperations,
+    placedAssets: placedCount,
+    missingAssets,
+  };
+}
+
+function validateHistoryEntry(raw: unknown, index: number): SessionHistoryEntry {
+  if (!isRecord(raw)) {
+    throw new Error(`Session history entry ${index} is not an object.`);
+  }
+
+  const command = typeof raw.command === "string" ? raw.command : "";
+  const provider = typeof raw.provider === "string" && raw.provider.trim() ? raw.provider : "unknown";
+  const timestamp =
+    typeof raw.timestamp === "string" && Number.isFinite(Date.parse(raw.timestamp))
+      ? raw.timestamp
+      : null;
+  if (!timestamp) {
+    throw new Error(`Session history entry ${index} has invalid timestamp.`);
+  }
+
+  if (!Array.isArray(raw.operations) || raw.operations.length === 0) {
+    throw new Error(`Session history entry ${index} must include non-empty operations array.`);
+  }
+
+  const targets: SessionTarget[] = [];
+  const rawOperations: unknown[] = [];
+  for (const [opIndex, item] of raw.operations.entries()) {
+    if (!isRecord(item)) {
+      throw new Error(`Session history entry ${index} operation ${opIndex} is not an object.`);
+    }
+    if (item.target !== "mesh" && item.target !== "scene") {
+      throw new Error(`Session history entry ${index} operation ${opIndex} has invalid target.`);
+    }
+    targets.push(item.target);
+    rawOperations.push(item.operation);
+  }
+
+  let operations: EditOperation[];
+  try {
+    operations = validateOperations(rawOperations, command);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Session history entry ${index}: ${message}`);
+  }
+
+  return {
+    command,
+    provider,
+    timestamp,
+    operations: operations.map((operation, opIndex) => ({
+      target: targets[opIndex],
+      operation,
+    })),
+  };
+}
+
+function validatePlacedAsset(raw: unknown, index: number): SessionPlacedAsset {
+  if (!isRecord(raw)) {
+    throw new Error(`Session placed asset ${index} is not an object.`);
+  }
+
+  const assetId = typeof raw.assetId === "string" ? raw.assetId.trim() : "";
+  const label = typeof raw.label === "string" ? raw.label.trim() : "";
+  if (!assetId && !label) {
+    throw new Error(`Session placed asset ${index} needs an assetId or label.`);
+  }
+
+  const position = toFiniteTuple(raw.position, 3);
+  if (!position) {
+    throw new Error(`Session placed asset ${index} has invalid position.`);
+  }
+  const quaternion = toFiniteTuple(raw.quaternion, 4);
+  if (!quaternion) {
+    throw new Error(`Session placed asset ${index} has invalid quaternion.`);
+  }
+  const scale =
+    typeof raw.scale === "number" && Number.isFinite(raw.scale) && raw.scale > 0 ? raw.scale : 1;
+  const id = typeof raw.id === "string" && raw.id.trim() ? raw.id.trim() : undefined;
+
+  return {
+    ...(id ? { id } : {}),
+    assetId,
+    label,
+    position: position as [number, number, number],
+    quaternion: quaternion as [number, number, number, number],
+    scale,
+  };
+}
+
+function validateCamera(raw: unknown): CameraState {
+  if (!isRecord(raw)) {
+    throw new Error("Session camera is not an object.");
+  }
+  const position = toFiniteTuple(raw.position, 3);
+  const target = toFiniteTuple(raw.target, 3);
+  if (!position || !target) {
+    throw new Error("Session camera has invalid position/target.");
+  }
+  const fov =
+    typeof raw.fov === "number" && Number.isFinite(raw.fov) && raw.fov > 0 && raw.fov < 180
+      ? raw.fov
+      : 60;
+  return {
+    position: position as [number, number, number],
+    target: target as [number, number, number],
+    fov,
+  };
+}
+
+function toFiniteTuple(value: unknown, length: number): number[] | null {
+  if (!Array.isArray(value) || value.length !== length) {
+    return null;
+  }
+  const out: number[] = [];
+  for (const item of value) {
+    if (typeof item !== "number" || !Number.isFinite(item)) {
+      return null;
+    }
+    out.push(item);
+  }
+  return out;
+}
+
+// Duplicates add no SplatEdit; like every region op they replay on the mesh.
+function getSessionTarget(entry: EditHistoryEntry, op: EditOperation): SessionTarget {
+  const applied = entry.applied.find((item) => item.operation === op);
+  return applied?.addedParent instanceof THREE.Scene ? "scene" : "mesh";
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
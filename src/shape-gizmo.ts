@@ -0,0 +1,516 @@
+import type { SplatEdit } from "@sparkjsdev/spark";
+import * as THREE from "three";
+import { TransformControls } from "three/examples/jsm/controls/TransformControls.js";
+import {
+  getHistoryEntries,
+  onEditHistoryChange,
+  rewriteEntryOperations,
+  type EditHistoryEntry,
+} from "./executor";
+import type { EditOperation, SDFShapeConfig } from "./types";
+import type { ViewerContext } from "./viewer";
+
+export type GizmoMode = "translate" | "rotate" | "scale";
+
+// Minimal view of a SplatEditSdf: Spark reads position/quaternion/scale as
+// the SDF frame (SDFs added via addSdf have no parent, so this is world space)
+// and `radius` as the fourth size component.
+export type SdfTransformTarget = THREE.Object3D & { radius: number };
+
+export interface ShapeHandle {
+  entryId: string;
+  opIndex: number;
+  shapeIndex: number;
+  shape: SDFShapeConfig;
+  sdf: SdfTransformTarget;
+  marker: THREE.Mesh;
+}
+
+interface ShapeSelection {
+  handle: ShapeHandle;
+  original: SDFShapeConfig;
+}
+
+const RADIUS_SHAPES = new Set<SDFShapeConfig["type"]>(["SPHERE", "INFINITE_CONE"]);
+const MARKER_COLOR = 0xffc400;
+const MARKER_SELECTED_COLOR = 0x00e5ff;
+const RADIUS_HANDLE_COLOR = 0xff3dcb;
+const CONE_MAX_RADIUS = 1.95;
+const VALUE_PRECISION = 1e4;
+
+let context: ViewerContext | null = null;
+let transformControls: TransformControls | null = null;
+let proxy: THREE.Object3D | null = null;
+let markerGroup: THREE.Group | null = null;
+let radiusHandle: THREE.Mesh | null = null;
+let handles: ShapeHandle[] = [];
+let selection: ShapeSelection | null = null;
+let enabled = false;
+let markerSize = 0.05;
+let radiusDrag: { plane: THREE.Plane } | null = null;
+let suppressNextClick = false;
+const raycaster = new THREE.Raycaster();
+const pointer = new THREE.Vector2();
+const tmpVec = new THREE.Vector3();
+
+export function initShapeGizmos(ctx: ViewerContext): void {
+  if (context) {
+    console.log("[gizmo] initShapeGizmos skipped (already initialized)");
+    return;
+  }
+  context = ctx;
+  markerSize = Math.max(ctx.boundsSize.x, ctx.boundsSize.y, ctx.boundsSize.z, 0.5) * 0.008;
+
+  markerGroup = new THREE.Group();
+  markerGroup.name = "shape-gizmo-markers";
+  markerGroup.visible = false;
+  ctx.scene.add(markerGroup);
+
+  proxy = new THREE.Object3D();
+  proxy.name = "shape-gizmo-proxy";
+  ctx.scene.add(proxy);
+
+  radiusHandle = new THREE.Mesh(
+    new THREE.SphereGeometry(markerSize * 0.8, 12, 12),
+    overlayMaterial(RADIUS_HANDLE_COLOR)
+  );
+  radiusHandle.renderOrder = 1001;
+  radiusHandle.visible = false;
+  ctx.scene.add(radiusHandle);
+
+  transformControls = new TransformControls(ctx.camera, ctx.canvas);
+  transformControls.setSize(0.8);
+  transformControls.addEventListener("dragging-changed", (event) => {
+    ctx.controls.enabled = !event.value;
+    if (event.value) {
+      suppressNextClick = true;
+    }
+  });
+  transformControls.addEventListener("objectChange", () => {
+    syncProxyToSdf();
+  });
+  transformControls.addEventListener("mouseUp", () => {
+    commitSelection();
+  });
+  ctx.scene.add(transformControls.getHelper());
+  transformControls.getHelper().visible = false;
+
+  ctx.canvas.addEventListener("pointerdown", onPointerDown, true);
+  window.addEventListener("pointermove", onPointerMove);
+  window.addEventListener("pointerup", onPointerUp);
+  // Capture phase so a consumed click never reaches the splat raycast.
+  ctx.canvas.addEventListener("click", onCanvasClick, true);
+  window.addEventListener("keydown", onKeyDown);
+  onEditHistoryChange(() => {
+    if (enabled) {
+      rebuildHandles();
+    }
+  });
+
+  console.log(
+    "[gizmo] Shape gizmos ready: G toggles shape editing, 1/2/3 translate/rotate/scale, Esc deselects"
+  );
+}
+
+export function setShapeGizmosEnabled(next: boolean): void {
+  if (!context || enabled === next) {
+    return;
+  }
+  enabled = next;
+  if (markerGroup) {
+    markerGroup.visible = enabled;
+  }
+  if (enabled) {
+    rebuildHandles();
+  } else {
+    deselect();
+  }
+  console.log(`[gizmo] Shape editing ${enabled ? "enabled" : "disabled"} handles=${handles.length}`);
+}
+
+export function isShapeGizmosEnabled(): boolean {
+  return enabled;
+}
+
+export function setGizmoMode(mode: GizmoMode): void {
+  if (!transformControls) {
+    return;
+  }
+  if (mode === "scale" && selection && RADIUS_SHAPES.has(selection.handle.shape.type)) {
+    console.log(
+      `[gizmo] ${selection.handle.shape.type} is sized by its radius handle; staying in ${transformControls.mode}`
+    );
+    return;
+  }
+  transformControls.setMode(mode);
+  console.log(`[gizmo] Mode set to ${mode}`);
+}
+
+// Reads the live SDF transform back into a shape config, keeping fields the
+// original shape did not use untouched so the operation stays minimal.
+export function shapeConfigFromSdf(
+  shape: SDFShapeConfig,
+  sdf: SdfTransformTarget
+): SDFShapeConfig {
+  const next: SDFShapeConfig = {
+    ...shape,
+    position: [round(sdf.position.x), round(sdf.position.y), round(sdf.position.z)],
+  };
+
+  const q = sdf.quaternion;
+  const rotated = Math.abs(q.x) + Math.abs(q.y) + Math.abs(q.z) > 1e-6;
+  if (shape.rotation || rotated) {
+    next.rotation = [round(q.x), round(q.y), round(q.z), round(q.w)];
+  }
+
+  const s = sdf.scale;
+  const scaled = Math.abs(s.x - 1) + Math.abs(s.y - 1) + Math.abs(s.z - 1) > 1e-6;
+  if (shape.scale || scaled) {
+    next.scale = [round(s.x), round(s.y), round(s.z)];
+  }
+
+  if (shape.radius !== undefined || sdf.radius !== 0) {
+    next.radius = round(sdf.radius);
+  }
+  return next;
+}
+
+// World position of the radius handle. SPHERE: on the sphere surface along
+// the SDF's local +X. INFINITE_CONE: on the cone surface at `length` from the
+// apex; the cone opens along local -Z with half-angle radius * π/4.
+export function radiusHandlePosition(
+  type: SDFShapeConfig["type"],
+  sdf: SdfTransformTarget,
+  length: number,
+  out: THREE.Vector3 = new THREE.Vector3()
+): THREE.Vector3 {
+  if (type === "INFINITE_CONE") {
+    const angle = 0.25 * Math.PI * sdf.radius;
+    out.set(Math.sin(angle) * length, 0, -Math.cos(angle) * length);
+  } else {
+    out.set(sdf.radius, 0, 0);
+  }
+  return out.applyQuaternion(sdf.quaternion).add(sdf.position);
+}
+
+export function radiusFromHandlePoint(
+  type: SDFShapeConfig["type"],
+  sdf: SdfTransformTarget,
+  point: THREE.Vector3
+): number {
+  const local = point.clone().sub(sdf.position).applyQuaternion(sdf.quaternion.clone().invert());
+  if (type === "INFINITE_CONE") {
+    const angle = Math.atan2(Math.hypot(local.x, local.y), -local.z);
+    return THREE.MathUtils.clamp(angle / (0.25 * Math.PI), 0.01, CONE_MAX_RADIUS);
+  }
+  return Math.max(local.length(), 1e-3);
+}
+
+function rebuildHandles(): void {
+  if (!markerGroup) {
+    return;
+  }
+  const previous = selection
+    ? {
+        entryId: selection.handle.entryId,
+        opIndex: selection.handle.opIndex,
+        shapeIndex: selection.handle.shapeIndex,
+      }
+    : null;
+  deselect();
+  for (const handle of handles) {
+    markerGroup.remove(handle.marker);
+    handle.marker.geometry.dispose();
+    (handle.marker.material as THREE.Material).dispose();
+  }
+  handles = collectHandles(getHistoryEntries());
+  for (const handle of handles) {
+    markerGroup.add(handle.marker);
+  }
+
+  if (previous) {
+    const match = handles.find(
+      (handle) =>
+        handle.entryId === previous.entryId &&
+        handle.opIndex === previous.opIndex &&
+        handle.shapeIndex === previous.shapeIndex
+    );
+    if (match) {
+      select(match);
+    }
+  }
+  console.log(`[gizmo] Rebuilt ${handles.length} shape handle(s)`);
+}
+
+/** One handle per editable SDF, keyed by the index of its op in `entry.operations`. */
+export function collectHandles(entries: readonly EditHistoryEntry[]): ShapeHandle[] {
+  const out: ShapeHandle[] = [];
+  for (const entry of entries) {
+    for (const { edit, operation, opIndex } of entry.applied) {
+      const sdfs = (edit as SplatEdit).sdfs ?? [];
+      for (const [shapeIndex, shape] of operation.shapes.entries()) {
+        const sdf = sdfs[shapeIndex] as SdfTransformTarget | undefined;
+        if (!sdf || shape.type === "ALL") {
+          continue;
+        }
+        const marker = new THREE.Mesh(
+          new THREE.OctahedronGeometry(markerSize),
+          overlayMaterial(MARKER_COLOR)
+        );
+        marker.renderOrder = 1000;
+        marker.position.copy(sdf.position);
+        out.push({ entryId: entry.id, opIndex, shapeIndex, shape, sdf, marker });
+      }
+    }
+  }
+  return out;
+}
+
+function select(handle: ShapeHandle): void {
+  if (!transformControls || !proxy) {
+    return;
+  }
+  deselect();
+  selection = { handle, original: shapeConfigFromSdf(handle.shape, handle.sdf) };
+  (handle.marker.material as THREE.MeshBasicMaterial).color.setHex(MARKER_SELECTED_COLOR);
+
+  proxy.position.copy(handle.sdf.position);
+  proxy.quaternion.copy(handle.sdf.quaternion);
+  proxy.scale.copy(handle.sdf.scale);
+  if (transformControls.mode === "scale" && RADIUS_SHAPES.has(handle.shape.type)) {
+    transformControls.setMode("translate");
+  }
+  transformControls.attach(proxy);
+  transformControls.getHelper().visible = true;
+  updateRadiusHandle();
+  console.log(
+    `[gizmo] Selected entry=${handle.entryId} op=${handle.opIndex + 1} shape=${handle.shapeIndex + 1} type=${handle.shape.type}`
+  );
+}
+
+function deselect(): void {
+  if (selection) {
+    (selection.handle.marker.material as THREE.MeshBasicMaterial).color.setHex(MARKER_COLOR);
+  }
+  selection = null;
+  radiusDrag = null;
+  transformControls?.detach();
+  if (transformControls) {
+    transformControls.getHelper().visible = false;
+  }
+  if (radiusHandle) {
+    radiusHandle.visible = false;
+  }
+}
+
+function syncProxyToSdf(): void {
+  if (!selection || !proxy) {
+    return;
+  }
+  const { sdf, marker } = selection.handle;
+  sdf.position.copy(proxy.position);
+  sdf.quaternion.copy(proxy.quaternion);
+  sdf.scale.set(
+    Math.max(Math.abs(proxy.scale.x), 1e-3),
+    Math.max(Math.abs(proxy.scale.y), 1e-3),
+    Math.max(Math.abs(proxy.scale.z), 1e-3)
+  );
+  marker.position.copy(sdf.position);
+  updateRadiusHandle();
+}
+
+function updateRadiusHandle(): void {
+  if (!radiusHandle) {
+    return;
+  }
+  const type = selection?.handle.shape.type;
+  if (!selection || !type || !RADIUS_SHAPES.has(type)) {
+    radiusHandle.visible = false;
+    return;
+  }
+  radiusHandlePosition(type, selection.handle.sdf, coneHandleLength(), radiusHandle.position);
+  radiusHandle.visible = true;
+}
+
+// One drag = one history entry: restore the original SDF so undo brings back
+// the untouched edit, then rewrite the operation through the executor.
+function commitSelection(): void {
+  if (!selection) {
+    return;
+  }
+  const { handle, original } = selection;
+  const updated = shapeConfigFromSdf(handle.shape, handle.sdf);
+  if (JSON.stringify(updated) === JSON.stringify(original)) {
+    return;
+  }
+
+  applyShapeToSdf(handle.shape, handle.sdf);
+  const entry = getHistoryEntries().find((candidate) => candidate.id === handle.entryId);
+  if (!entry) {
+    console.warn(`[gizmo] Entry ${handle.entryId} is no longer active; drag discarded`);
+    return;
+  }
+
+  const operations: EditOperation[] = entry.operations.map((op, opIndex) =>
+    opIndex === handle.opIndex
+      ? {
+          ...op,
+          shapes: op.shapes.map((shape, shapeIndex) =>
+            shapeIndex === handle.shapeIndex ? updated : shape
+          ),
+        }
+      : op
+  );
+  const { opIndex, shapeIndex } = handle;
+  const rewritten = rewriteEntryOperations(handle.entryId, operations, { provider: "gizmo" });
+  if (!rewritten) {
+    return;
+  }
+  console.log(
+    `[gizmo] Committed ${updated.type} edit as entry=${rewritten.id} (replaces ${handle.entryId})`
+  );
+
+  // The history change listener rebuilt the handles for the old entry id;
+  // follow the shape into its replacement entry.
+  const next = handles.find(
+    (candidate) =>
+      candidate.entryId === rewritten.id &&
+      candidate.opIndex === opIndex &&
+      candidate.shapeIndex === shapeIndex
+  );
+  if (next) {
+    select(next);
+  }
+}
+
+function applyShapeToSdf(shape: SDFShapeConfig, sdf: SdfTransformTarget): void {
+  sdf.position.fromArray(shape.position);
+  if (shape.rotation) {
+    sdf.quaternion.fromArray(shape.rotation);
+  } else {
+    sdf.quaternion.identity();
+  }
+  if (shape.scale) {
+    sdf.scale.fromArray(shape.scale);
+  } else {
+    sdf.scale.setScalar(1);
+  }
+  sdf.radius = shape.radius ?? 0;
+}
+
+function onPointerDown(event: PointerEvent): void {
+  if (!enabled || !context || event.button !== 0) {
+    return;
+  }
+  if (transformControls?.dragging) {
+    return;
+  }
+  setPointer(event);
+
+  if (selection && radiusHandle?.visible) {
+    const hit = raycaster.intersectObject(radiusHandle, false)[0];
+    if (hit) {
+      const normal = context.camera.getWorldDirection(tmpVec).clone();
+      radiusDrag = {
+        plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, radiusHandle.position),
+      };
+      context.controls.enabled = false;
+      suppressNextClick = true;
+      event.stopImmediatePropagation();
+    }
+  }
+}
+
+function onPointerMove(event: PointerEvent): void {
+  if (!radiusDrag || !selection || !context) {
+    return;
+  }
+  setPointer(event);
+  const point = raycaster.ray.intersectPlane(radiusDrag.plane, tmpVec);
+  if (!point) {
+    return;
+  }
+  const { shape, sdf } = selection.handle;
+  sdf.radius = radiusFromHandlePoint(shape.type, sdf, point);
+  updateRadiusHandle();
+}
+
+function onPointerUp(): void {
+  if (!radiusDrag || !context) {
+    return;
+  }
+  radiusDrag = null;
+  context.controls.enabled = true;
+  commitSelection();
+}
+
+function onCanvasClick(event: MouseEvent): void {
+  if (!enabled) {
+    return;
+  }
+  if (suppressNextClick) {
+    suppressNextClick = false;
+    event.stopImmediatePropagation();
+    return;
+  }
+  setPointer(event);
+  const hit = raycaster.intersectObjects(
+    handles.map((handle) => handle.marker),
+    false
+  )[0];
+  const handle = hit ? handles.find((candidate) => candidate.marker === hit.object) : undefined;
+  if (handle) {
+    event.stopImmediatePropagation();
+    select(handle);
+  }
+}
+
+function onKeyDown(event: KeyboardEvent): void {
+  if (isTextEntryTarget(event.target) || event.ctrlKey || event.metaKey || event.altKey) {
+    return;
+  }
+  const key = event.key.toLowerCase();
+  if (key === "g") {
+    setShapeGizmosEnabled(!enabled);
+    return;
+  }
+  if (!enabled || !selection) {
+    return;
+  }
+  if (key === "escape") {
+    deselect();
+  } else if (key === "1") {
+    setGizmoMode("translate");
+  } else if (key === "2") {
+    setGizmoMode("rotate");
+  } else if (key === "3") {
+    setGizmoMode("scale");
+  }
+}
+
+function setPointer(event: MouseEvent): void {
+  if (!context) {
+    return;
+  }
+  const rect = context.canvas.getBoundingClientRect();
+  pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+  pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+  raycaster.setFromCamera(pointer, context.camera);
+}
+
+function coneHandleLength(): number {
+  return markerSize * 12;
+}
+
+function overlayMaterial(color: number): THREE.MeshBasicMaterial {
+  return new THREE.MeshBasicMaterial({ color, depthTest: false, transparent: true, opacity: 0.9 });
+}
+
+function round(value: number): number {
+  return Math.round(value * VALUE_PRECISION) / VALUE_PRECISION;
+}
+
+function isTextEntryTarget(target: EventTarget | null): boolean {
+  const element = target instanceof HTMLElement ? target : null;
+  return Boolean(element?.closest("input, textarea, select, [contenteditable='true']"));
+}
@@ -0,0 +1,18 @@
+import {
+  handleSpatialGridWorkerRequest,
+  type SpatialGridWorkerMessage,
+  type SpatialGridWorkerRequest,
+} from "./spatial-index";
+
+type WorkerScope = {
+  onmessage: ((event: MessageEvent<SpatialGridWorkerRequest>) => void) | null;
+  postMessage: (message: SpatialGridWorkerMessage, transfer?: Transferable[]) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+
+scope.onmessage = (event) => {
+  handleSpatialGridWorkerRequest(event.data, (message, transfer) =>
+    scope.postMessage(message, transfer ?? [])
+  );
+};
@@ -1,11 +1,88 @@
 import type { SplatMesh } from "@sparkjsdev/spark";
 import * as THREE from "three";
-import type { SpatialGrid, VoxelCell } from "./types";
+import type {
+  OctreeIndex,
+  OctreeNode,
+  SpatialGrid,
+  SpatialIndex,
+  VoxelCell,
+} from "./types";
+
+export type SpatialIndexType = "grid" | "octree";
+
+export interface OctreeOptions {
+  /** Deepest subdivision level (root is depth 0). */
+  maxDepth: number;
+  /** Nodes holding more splats than this are subdivided. */
+  maxSplatsPerNode: number;
+  /** Nodes whose mean RGB variance exceeds this are subdivided... */
+  maxColorVariance: number;
+  /** ...as long as they still hold at least this many splats. */
+  minSplatsToSplit: number;
+}
 
 export interface SpatialIndexOptions {
+  type: SpatialIndexType;
   resolution: [number, number, number];
   cropYFraction: [number, number];
   logPrefix: string;
+  octree: Partial<OctreeOptions>;
+}
+
+/** Flat copies of splat data; `indices[i]` is the splat index of slot `i`. */
+export interface SplatArrays {
+  count: number;
+  indices: Uint32Array;
+  /** Local-space centers, xyz per slot. */
+  centers: Float32Array;
+  /** RGB in [0, 1], rgb per slot. */
+  colors: Float32Array;
+}
+
+export type SpatialIndexProgress = (processed: number, total: number) => void;
+
+/** Structured-clone friendly `SpatialGrid`; all splat indices share one buffer. */
+export interface SerializedSpatialGrid {
+  resolution: [number, number, number];
+  worldBounds: number[];
+  cellSize: number[];
+  cells: Array<{
+    gridPos: [number, number, number];
+    worldCenter: number[];
+    worldBounds: number[];
+    splatCount: number;
+    avgColor: number[];
+    colorVariance: number;
+    density: number;
+    indexOffset: number;
+  }>;
+  splatIndices: Uint32Array;
+}
+
+export interface SpatialGridBuildResult {
+  grid: SpatialGrid;
+  /** The splat copies the grid was built from, kept for incremental updates. */
+  arrays: SplatArrays;
+}
+
+export interface SpatialGridWorkerRequest {
+  arrays: SplatArrays;
+  localBounds: number[];
+  matrixWorld: number[];
+  options: Partial<SpatialIndexOptions>;
+}
+
+export type SpatialGridWorkerMessage =
+  | { type: "progress"; processed: number; total: number }
+  | { type: "result"; grid: SerializedSpatialGrid; arrays: SplatArrays }
+  | { type: "error"; message: string };
+
+export interface SpatialSerializeOptions {
+  /** Uniform grid only: keep at most this many cells. */
+  maxCells?: number;
+  minSplats?: number;
+  /** Octree only: upper bound on the serialized JSON length. */
+  maxBytes?: number;
 }
 
 export interface CroppedBoundsResult {
@@ -13,7 +90,7 @@ export interface CroppedBoundsResult {
   usedFallback: boolean;
 }
 
-type VoxelAccumulator = {
+export type VoxelAccumulator = {
   gridPos: [number, number, number];
   count: number;
   sumPos: THREE.Vector3;
@@ -24,16 +101,47 @@ type VoxelAccumulator = {
   splatIndices: number[];
 };
 
+type IndexBounds = {
+  rawBounds: THREE.Box3;
+  bounds: THREE.Box3 | null;
+};
+
+type OctreeSplats = {
+  positions: number[];
+  colors: number[];
+  indices: number[];
+};
+
 const DEFAULT_OPTIONS: SpatialIndexOptions = {
+  type: "grid",
   resolution: [20, 20, 20],
   cropYFraction: [0.1, 0.1],
   logPrefix: "[spatial]",
+  octree: {},
+};
+
+export const DEFAULT_OCTREE_OPTIONS: OctreeOptions = {
+  maxDepth: 7,
+  maxSplatsPerNode: 4000,
+  maxColorVariance: 0.02,
+  minSplatsToSplit: 64,
 };
 
+const DEFAULT_OCTREE_MAX_BYTES = 24000;
+const PROGRESS_INTERVAL = 65536;
+
 export function gridKey(x: number, y: number, z: number): string {
   return `${x},${y},${z}`;
 }
 
+export function octreeKey(depth: number, x: number, y: number, z: number): string {
+  return `${depth}:${x},${y},${z}`;
+}
+
+export function isOctreeIndex(index: SpatialIndex): index is OctreeIndex {
+  return index.kind === "octree";
+}
+
 export function computeNominalCellSize(
   bounds: THREE.Box3,
   resolution: [number, number, number]
@@ -125,6 +233,60 @@ export function worldPosToGridCoord(
 export function buildSpatialGrid(
   splatMesh: SplatMesh,
   options: Partial<SpatialIndexOptions> = {}
+): SpatialGrid {
+  const { matrixWorld, localBounds } = readMeshFrame(splatMesh);
+  return buildSpatialGridFromArrays(
+    extractSplatArrays(splatMesh),
+    localBounds,
+    matrixWorld,
+    options
+  );
+}
+
+/**
+ * Copies local-space splat centers and colors into flat typed arrays once, so
+ * the grid can be built from them on either thread.
+ */
+export function extractSplatArrays(splatMesh: SplatMesh): SplatArrays {
+  const hint = (splatMesh as unknown as { packedSplats?: { numSplats?: number } }).packedSplats
+    ?.numSplats;
+  let capacity = Math.max(typeof hint === "number" ? hint : 0, 1024);
+  let indices = new Uint32Array(capacity);
+  let centers = new Float32Array(capacity * 3);
+  let colors = new Float32Array(capacity * 3);
+  let count = 0;
+
+  splatMesh.forEachSplat((index, center, _scales, _quat, _opacity, color) => {
+    if (count === capacity) {
+      capacity *= 2;
+      indices = growArray(indices, new Uint32Array(capacity));
+      centers = growArray(centers, new Float32Array(capacity * 3));
+      colors = growArray(colors, new Float32Array(capacity * 3));
+    }
+    indices[count] = index;
+    centers[count * 3] = center.x;
+    centers[count * 3 + 1] = center.y;
+    centers[count * 3 + 2] = center.z;
+    colors[count * 3] = color.r;
+    colors[count * 3 + 1] = color.g;
+    colors[count * 3 + 2] = color.b;
+    count += 1;
+  });
+
+  return {
+    count,
+    indices: indices.slice(0, count),
+    centers: centers.slice(0, count * 3),
+    colors: colors.slice(0, count * 3),
+  };
+}
+
+export function buildSpatialGridFromArrays(
+  arrays: SplatArrays,
+  localBounds: THREE.Box3,
+  matrixWorld: THREE.Matrix4,
+  options: Partial<SpatialIndexOptions> = {},
+  onProgress?: SpatialIndexProgress
 ): SpatialGrid {
   const config: SpatialIndexOptions = {
     ...DEFAULT_OPTIONS,
@@ -132,17 +294,10 @@ export function buildSpatialGrid(
   };
   const [rx, ry, rz] = config.resolution;
   const logPrefix = config.logPrefix;
-  if (typeof splatMesh.updateMatrixWorld === "function") {
-    splatMesh.updateMatrixWorld(true);
-  }
-  const matrixWorld =
-    (splatMesh as unknown as { matrixWorld?: THREE.Matrix4 }).matrixWorld?.clone() ??
-    new THREE.Matrix4().identity();
-  const localBounds = splatMesh.getBoundingBox();
-  const rawBounds = transformBoundsToWorld(localBounds, matrixWorld);
-
-  if (isDegenerateBounds(rawBounds)) {
+  const { rawBounds, bounds } = resolveIndexBounds(localBounds, matrixWorld, config, "Grid");
+  if (!bounds) {
     console.warn(`${logPrefix} Degenerate bounding box; returning empty grid`);
+    onProgress?.(arrays.count, arrays.count);
     return {
       resolution: config.resolution,
       worldBounds: rawBounds.clone(),
@@ -150,34 +305,26 @@ export function buildSpatialGrid(
       cells: new Map<string, VoxelCell>(),
     };
   }
-
-  const { bounds: croppedBounds, usedFallback } = computeCroppedBounds(
-    rawBounds,
-    config.cropYFraction
-  );
-  if (usedFallback) {
-    console.warn(`${logPrefix} Y-crop fallback to raw bounds (scene too small/degenerate)`);
-  }
-  console.log(
-    `${logPrefix} Grid worldBounds: min=${croppedBounds.min.toArray()} max=${croppedBounds.max.toArray()}`
-  );
+  const croppedBounds = bounds;
 
   const cellSize = computeNominalCellSize(croppedBounds, config.resolution);
   const nominalCellVolume = Math.max(cellSize.x * cellSize.y * cellSize.z, 1e-9);
 
   const accumulators = new Map<string, VoxelAccumulator>();
-  let totalSplats = 0;
+  const { count: totalSplats, indices, centers, colors } = arrays;
   let indexedSplats = 0;
   const start = nowMs();
   const worldCenter = new THREE.Vector3();
 
-  splatMesh.forEachSplat((index, center, _scales, _quat, _opacity, color) => {
-    totalSplats += 1;
-    worldCenter.copy(center).applyMatrix4(matrixWorld);
+  for (let slot = 0; slot < totalSplats; slot += 1) {
+    if (onProgress && slot % PROGRESS_INTERVAL === 0) {
+      onProgress(slot, totalSplats);
+    }
+    worldCenter.fromArray(centers, slot * 3).applyMatrix4(matrixWorld);
 
     const coord = worldPosToGridCoord(worldCenter, croppedBounds, config.resolution);
     if (!coord) {
-      return;
+      continue;
     }
 
     const [gx, gy, gz] = coord;
@@ -197,19 +344,23 @@ export function buildSpatialGrid(
       accumulators.set(key, acc);
     }
 
+    const r = colors[slot * 3];
+    const g = colors[slot * 3 + 1];
+    const b = colors[slot * 3 + 2];
     indexedSplats += 1;
     acc.count += 1;
     acc.sumPos.add(worldCenter);
-    acc.sumColor.x += color.r;
-    acc.sumColor.y += color.g;
-    acc.sumColor.z += color.b;
-    acc.sumColorSq.x += color.r * color.r;
-    acc.sumColorSq.y += color.g * color.g;
-    acc.sumColorSq.z += color.b * color.b;
+    acc.sumColor.x += r;
+    acc.sumColor.y += g;
+    acc.sumColor.z += b;
+    acc.sumColorSq.x += r * r;
+    acc.sumColorSq.y += g * g;
+    acc.sumColorSq.z += b * b;
     acc.min.min(worldCenter);
     acc.max.max(worldCenter);
-    acc.splatIndices.push(index);
-  });
+    acc.splatIndices.push(indices[slot]);
+  }
+  onProgress?.(totalSplats, totalSplats);
 
   const cells = new Map<string, VoxelCell>();
   for (const [key, acc] of accumulators) {
@@ -233,10 +384,260 @@ export function buildSpatialGrid(
   };
 }
 
+/**
+ * Builds the uniform grid off the main thread. Splat data is copied once into
+ * transferable arrays; the worker runs `buildSpatialGridFromArrays`, so the
+ * result matches `buildSpatialGrid` exactly. The arrays are transferred back
+ * with the grid. Falls back to the synchronous builder when workers are
+ * unavailable or the worker fails.
+ */
+export function buildSpatialGridInWorker(
+  splatMesh: SplatMesh,
+  options: Partial<SpatialIndexOptions> = {},
+  onProgress?: SpatialIndexProgress
+): Promise<SpatialGridBuildResult> {
+  const logPrefix = options.logPrefix ?? DEFAULT_OPTIONS.logPrefix;
+  const { matrixWorld, localBounds } = readMeshFrame(splatMesh);
+  const buildSync = (): SpatialGridBuildResult => {
+    const arrays = extractSplatArrays(splatMesh);
+    return {
+      grid: buildSpatialGridFromArrays(arrays, localBounds, matrixWorld, options),
+      arrays,
+    };
+  };
+  if (typeof Worker === "undefined") {
+    console.warn(`${logPrefix} Web Workers unavailable; building grid on main thread`);
+    return Promise.resolve(buildSync());
+  }
+
+  const arrays = extractSplatArrays(splatMesh);
+  const request: SpatialGridWorkerRequest = {
+    arrays,
+    localBounds: [...localBounds.min.toArray(), ...localBounds.max.toArray()],
+    matrixWorld: matrixWorld.toArray(),
+    options,
+  };
+
+  return new Promise<SpatialGridBuildResult>((resolve, reject) => {
+    const worker = new Worker(new URL("./spatial-index-worker.ts", import.meta.url), {
+      type: "module",
+    });
+    const fallback = (reason: string) => {
+      worker.terminate();
+      console.warn(`${logPrefix} Grid worker failed (${reason}); building on main thread`);
+      try {
+        resolve(buildSync());
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    worker.onmessage = (event: MessageEvent<SpatialGridWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.processed, message.total);
+      } else if (message.type === "result") {
+        worker.terminate();
+        resolve({ grid: deserializeSpatialGrid(message.grid), arrays: message.arrays });
+      } else {
+        fallback(message.message);
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault?.();
+      fallback(event.message || "worker error");
+    };
+
+    console.log(`${logPrefix} Posting ${arrays.count} splats to grid worker`);
+    worker.postMessage(request, [
+      arrays.indices.buffer,
+      arrays.centers.buffer,
+      arrays.colors.buffer,
+    ]);
+  });
+}
+
+/** Worker-side entry point; `post` is the worker's `postMessage`. */
+export function handleSpatialGridWorkerRequest(
+  request: SpatialGridWorkerRequest,
+  post: (message: SpatialGridWorkerMessage, transfer?: Transferable[]) => void
+): void {
+  try {
+    const localBounds = new THREE.Box3(
+      new THREE.Vector3().fromArray(request.localBounds, 0),
+      new THREE.Vector3().fromArray(request.localBounds, 3)
+    );
+    const matrixWorld = new THREE.Matrix4().fromArray(request.matrixWorld);
+    const grid = buildSpatialGridFromArrays(
+      request.arrays,
+      localBounds,
+      matrixWorld,
+      request.options,
+      (processed, total) => post({ type: "progress", processed, total })
+    );
+    const serialized = serializeSpatialGrid(grid);
+    const { arrays } = request;
+    post({ type: "result", grid: serialized, arrays }, [
+      serialized.splatIndices.buffer,
+      arrays.indices.buffer,
+      arrays.centers.buffer,
+      arrays.colors.buffer,
+    ]);
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+export function serializeSpatialGrid(grid: SpatialGrid): SerializedSpatialGrid {
+  let totalIndices = 0;
+  for (const cell of grid.cells.values()) {
+    totalIndices += cell.splatIndices.length;
+  }
+  const splatIndices = new Uint32Array(totalIndices);
+  let offset = 0;
+  const cells: SerializedSpatialGrid["cells"] = [];
+  for (const cell of grid.cells.values()) {
+    cells.push({
+      gridPos: cell.gridPos,
+      worldCenter: cell.worldCenter.toArray(),
+      worldBounds: [...cell.worldBounds.min.toArray(), ...cell.worldBounds.max.toArray()],
+      splatCount: cell.splatCount,
+      avgColor: [cell.avgColor.r, cell.avgColor.g, cell.avgColor.b],
+      colorVariance: cell.colorVariance,
+      density: cell.density,
+      indexOffset: offset,
+    });
+    splatIndices.set(cell.splatIndices, offset);
+    offset += cell.splatIndices.length;
+  }
+
+  return {
+    resolution: grid.resolution,
+    worldBounds: [...grid.worldBounds.min.toArray(), ...grid.worldBounds.max.toArray()],
+    cellSize: grid.cellSize.toArray(),
+    cells,
+    splatIndices,
+  };
+}
+
+export function deserializeSpatialGrid(data: SerializedSpatialGrid): SpatialGrid {
+  const cells = new Map<string, VoxelCell>();
+  data.cells.forEach((cell, i) => {
+    const end = i + 1 < data.cells.length ? data.cells[i + 1].indexOffset : data.splatIndices.length;
+    cells.set(gridKey(...cell.gridPos), {
+      gridPos: cell.gridPos,
+      worldCenter: new THREE.Vector3().fromArray(cell.worldCenter),
+      worldBounds: new THREE.Box3(
+        new THREE.Vector3().fromArray(cell.worldBounds, 0),
+        new THREE.Vector3().fromArray(cell.worldBounds, 3)
+      ),
+      splatCount: cell.splatCount,
+      avgColor: new THREE.Color(cell.avgColor[0], cell.avgColor[1], cell.avgColor[2]),
+      colorVariance: cell.colorVariance,
+      density: cell.density,
+      splatIndices: Array.from(data.splatIndices.subarray(cell.indexOffset, end)),
+    });
+  });
+
+  return {
+    resolution: data.resolution,
+    worldBounds: new THREE.Box3(
+      new THREE.Vector3().fromArray(data.worldBounds, 0),
+      new THREE.Vector3().fromArray(data.worldBounds, 3)
+    ),
+    cellSize: new THREE.Vector3().fromArray(data.cellSize),
+    cells,
+  };
+}
+
+/** `options` merged over the defaults every builder uses. */
+export function resolveSpatialIndexOptions(
+  options: Partial<SpatialIndexOptions> = {}
+): SpatialIndexOptions {
+  return { ...DEFAULT_OPTIONS, ...options };
+}
+
+export function buildSpatialIndex(
+  splatMesh: SplatMesh,
+  options: Partial<SpatialIndexOptions> = {}
+): SpatialIndex {
+  const type = options.type ?? DEFAULT_OPTIONS.type;
+  return type === "octree"
+    ? buildOctreeIndex(splatMesh, options)
+    : buildSpatialGrid(splatMesh, options);
+}
+
+export function buildOctreeIndex(
+  splatMesh: SplatMesh,
+  options: Partial<SpatialIndexOptions> = {}
+): OctreeIndex {
+  const config: SpatialIndexOptions = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+  const octreeConfig: OctreeOptions = {
+    ...DEFAULT_OCTREE_OPTIONS,
+    ...config.octree,
+  };
+  const logPrefix = config.logPrefix;
+  const { matrixWorld, localBounds } = readMeshFrame(splatMesh);
+  const { rawBounds, bounds } = resolveIndexBounds(localBounds, matrixWorld, config, "Octree");
+  if (!bounds) {
+    console.warn(`${logPrefix} Degenerate bounding box; returning empty octree`);
+    return {
+      kind: "octree",
+      worldBounds: rawBounds.clone(),
+      maxDepth: octreeConfig.maxDepth,
+      root: null,
+      cells: new Map<string, VoxelCell>(),
+    };
+  }
+
+  const splats: OctreeSplats = { positions: [], colors: [], indices: [] };
+  let totalSplats = 0;
+  const start = nowMs();
+  const worldCenter = new THREE.Vector3();
+
+  splatMesh.forEachSplat((index, center, _scales, _quat, _opacity, color) => {
+    totalSplats += 1;
+    worldCenter.copy(center).applyMatrix4(matrixWorld);
+    if (!bounds.containsPoint(worldCenter)) {
+      return;
+    }
+    splats.positions.push(worldCenter.x, worldCenter.y, worldCenter.z);
+    splats.colors.push(color.r, color.g, color.b);
+    splats.indices.push(index);
+  });
+
+  const cells = new Map<string, VoxelCell>();
+  const members = splats.indices.map((_, slot) => slot);
+  const root =
+    members.length > 0
+      ? buildOctreeNode(splats, members, 0, [0, 0, 0], bounds.clone(), octreeConfig, cells)
+      : null;
+
+  const elapsedMs = nowMs() - start;
+  console.log(
+    `${logPrefix} Built octree maxDepth=${octreeConfig.maxDepth}: leaves=${cells.size}, indexedSplats=${members.length}/${totalSplats}, elapsed=${elapsedMs.toFixed(1)}ms`
+  );
+
+  return {
+    kind: "octree",
+    worldBounds: bounds,
+    maxDepth: octreeConfig.maxDepth,
+    root,
+    cells,
+  };
+}
+
 export function getCellAtWorldPos(
-  grid: SpatialGrid,
+  grid: SpatialIndex,
   pos: THREE.Vector3
 ): VoxelCell | null {
+  if (isOctreeIndex(grid)) {
+    return getOctreeCellAtWorldPos(grid, pos);
+  }
+
   // Try exact match first
   const coord = worldPosToGridCoord(pos, grid.worldBounds, grid.resolution);
   if (coord) {
@@ -284,11 +685,79 @@ export function getCellAtWorldPos(
   return nearest;
 }
 
-export function getNeighborCells(
+export interface GridRayHit {
+  cell: VoxelCell;
+  point: THREE.Vector3;
+  distance: number;
+}
+
+/**
+ * First occupied cell along `ray`, walking the grid cell by cell (3D DDA).
+ * The hit point is where the ray enters the cell's occupied extent, so it is
+ * cheap enough for per-frame cursor previews where a splat raycast is not.
+ */
+export function raycastSpatialGrid(
   grid: SpatialGrid,
+  ray: THREE.Ray,
+  maxDistance: number = Infinity
+): GridRayHit | null {
+  const { worldBounds, resolution, cellSize } = grid;
+  const start = new THREE.Vector3();
+  if (worldBounds.containsPoint(ray.origin)) {
+    start.copy(ray.origin);
+  } else if (!ray.intersectBox(worldBounds, start)) {
+    return null;
+  }
+
+  const coord = worldPosToGridCoord(start, worldBounds, resolution, true);
+  if (!coord) return null;
+  const origin = ray.origin.toArray();
+  const dir = ray.direction.toArray();
+  const min = worldBounds.min.toArray();
+  const size = cellSize.toArray();
+  const step = [0, 0, 0];
+  const tMax = [Infinity, Infinity, Infinity];
+  const tDelta = [Infinity, Infinity, Infinity];
+  for (let axis = 0; axis < 3; axis += 1) {
+    if (dir[axis] === 0) continue;
+    step[axis] = dir[axis] > 0 ? 1 : -1;
+    const boundary = min[axis] + (coord[axis] + (dir[axis] > 0 ? 1 : 0)) * size[axis];
+    tMax[axis] = (boundary - origin[axis]) / dir[axis];
+    tDelta[axis] = size[axis] / Math.abs(dir[axis]);
+  }
+
+  // Occupied extents of single-splat cells are points; pad them slightly.
+  const pad = Math.min(cellSize.x, cellSize.y, cellSize.z) * 0.05;
+  const padded = new THREE.Box3();
+  const point = new THREE.Vector3();
+  const cursor = [...coord];
+  while (
+    cursor[0] >= 0 && cursor[0] < resolution[0] &&
+    cursor[1] >= 0 && cursor[1] < resolution[1] &&
+    cursor[2] >= 0 && cursor[2] < resolution[2]
+  ) {
+    const cell = grid.cells.get(gridKey(cursor[0], cursor[1], cursor[2]));
+    if (cell && ray.intersectBox(padded.copy(cell.worldBounds).expandByScalar(pad), point)) {
+      const distance = point.distanceTo(ray.origin);
+      return distance <= maxDistance ? { cell, point: point.clone(), distance } : null;
+    }
+    const axis = tMax[0] < tMax[1] ? (tMax[0] < tMax[2] ? 0 : 2) : tMax[1] < tMax[2] ? 1 : 2;
+    if (tMax[axis] > maxDistance) return null;
+    cursor[axis] += step[axis];
+    tMax[axis] += tDelta[axis];
+  }
+  return null;
+}
+
+export function getNeighborCells(
+  grid: SpatialIndex,
   cell: VoxelCell,
   radius: number = 1
 ): VoxelCell[] {
+  if (isOctreeIndex(grid)) {
+    return getOctreeNeighborCells(grid, cell, radius);
+  }
+
   const out: VoxelCell[] = [];
   const [cx, cy, cz] = cell.gridPos;
   const [rx, ry, rz] = grid.resolution;
@@ -309,9 +778,13 @@ export function getNeighborCells(
 }
 
 export function serializeSpatialGridForLLM(
-  grid: SpatialGrid,
-  options: { maxCells?: number; minSplats?: number } = {}
+  grid: SpatialIndex,
+  options: SpatialSerializeOptions = {}
 ): string {
+  if (isOctreeIndex(grid)) {
+    return serializeOctreeForLLM(grid, options);
+  }
+
   const minSplats = options.minSplats ?? 10;
   const maxCells = options.maxCells ?? 600;
   let cells = Array.from(grid.cells.entries()).filter(
@@ -352,7 +825,335 @@ export function serializeSpatialGridForLLM(
   return JSON.stringify(payload);
 }
 
-function finalizeVoxelCell(acc: VoxelAccumulator, nominalCellVolume: number): VoxelCell {
+/**
+ * Serializes an octree as a flat node list. Starting from the root, the node
+ * with the most splats is repeatedly replaced by its children while the JSON
+ * stays under `maxBytes`; nodes that could not be expanded are emitted as
+ * coarse summaries (`sum: 1`).
+ */
+export function serializeOctreeForLLM(
+  octree: OctreeIndex,
+  options: { minSplats?: number; maxBytes?: number } = {}
+): string {
+  const minSplats = options.minSplats ?? 10;
+  const maxBytes = options.maxBytes ?? DEFAULT_OCTREE_MAX_BYTES;
+  const r2 = (n: number) => Math.round(n * 100) / 100;
+
+  const header = {
+    type: "octree",
+    maxDepth: octree.maxDepth,
+    worldBounds: {
+      min: octree.worldBounds.min.toArray().map(r2),
+      max: octree.worldBounds.max.toArray().map(r2),
+    },
+  };
+  const headerBytes = JSON.stringify({ ...header, nodes: [] }).length;
+  if (!octree.root) {
+    return JSON.stringify({ ...header, nodes: [] });
+  }
+
+  const entryCache = new Map<OctreeNode, { value: Record<string, unknown>; bytes: number }>();
+  const entryOf = (node: OctreeNode) => {
+    let entry = entryCache.get(node);
+    if (!entry) {
+      const bSize = new THREE.Vector3();
+      node.bounds.getSize(bSize);
+      const value = {
+        k: octreeKey(node.depth, ...node.gridPos),
+        c: node.worldCenter.toArray().map(r2),
+        d: [r2(bSize.x), r2(bSize.y), r2(bSize.z)],
+        n: node.splatCount,
+        col: "#" + node.avgColor.getHexString(),
+        cv: r2(node.colorVariance),
+        den: r2(node.density),
+        ...(node.children.length > 0 ? { sum: 1 } : {}),
+      };
+      entry = { value, bytes: JSON.stringify(value).length };
+      entryCache.set(node, entry);
+    }
+    return entry;
+  };
+  // Entries are joined with commas, so each one costs its length plus one.
+  const costOf = (nodes: readonly OctreeNode[]) =>
+    nodes.reduce((sum, node) => sum + entryOf(node).bytes + 1, 0);
+
+  let frontier: OctreeNode[] = [octree.root];
+  let bytes = headerBytes + costOf(frontier);
+  const blocked = new Set<OctreeNode>();
+
+  for (;;) {
+    let candidate: OctreeNode | null = null;
+    for (const node of frontier) {
+      if (node.children.length === 0 || blocked.has(node)) continue;
+      if (!candidate || node.splatCount > candidate.splatCount) {
+        candidate = node;
+      }
+    }
+    if (!candidate) break;
+
+    const expanded = candidate.children.filter((child) => child.splatCount >= minSplats);
+    const nextBytes = bytes - costOf([candidate]) + costOf(expanded);
+    if (nextBytes > maxBytes) {
+      blocked.add(candidate);
+      continue;
+    }
+    const parent = candidate;
+    frontier = frontier.flatMap((node) => (node === parent ? expanded : [node]));
+    bytes = nextBytes;
+  }
+
+  const json = JSON.stringify({
+    ...header,
+    nodes: frontier.map((node) => entryOf(node).value),
+  });
+  console.log(
+    `[spatial] serializeOctreeForLLM nodes=${frontier.length} summarized=${frontier.filter((node) => node.children.length > 0).length} bytes=${json.length}/${maxBytes}`
+  );
+  return json;
+}
+
+function getOctreeCellAtWorldPos(octree: OctreeIndex, pos: THREE.Vector3): VoxelCell | null {
+  if (!octree.root) return null;
+
+  const point = octree.root.bounds.clampPoint(pos, new THREE.Vector3());
+  let node = octree.root;
+  for (;;) {
+    const next = node.children.find((child) => child.bounds.containsPoint(point));
+    if (!next) break;
+    node = next;
+  }
+  if (node.cell) return node.cell;
+
+  // The point sits in an empty octant of an occupied node; the nearest leaf
+  // below that node is at most one node-width away.
+  let nearest: VoxelCell | null = null;
+  let bestDist = Infinity;
+  const visit = (current: OctreeNode) => {
+    if (current.bounds.distanceToPoint(pos) ** 2 > bestDist) return;
+    if (current.cell) {
+      const dist = current.cell.worldCenter.distanceToSquared(pos);
+      if (dist < bestDist) {
+        bestDist = dist;
+        nearest = current.cell;
+      }
+      return;
+    }
+    current.children.forEach(visit);
+  };
+  visit(node);
+  return nearest;
+}
+
+function getOctreeNeighborCells(
+  octree: OctreeIndex,
+  cell: VoxelCell,
+  radius: number
+): VoxelCell[] {
+  if (!octree.root) return [];
+
+  const nodeBounds = computeOctreeNodeBounds(
+    octree.worldBounds,
+    cell.depth ?? 0,
+    cell.gridPos
+  );
+  const nodeSize = new THREE.Vector3();
+  nodeBounds.getSize(nodeSize);
+  const r = Math.max(0, Math.floor(radius));
+  // Shrink by a hair so leaves that merely touch the query box are excluded,
+  // matching the grid's "within r cells" semantics at r=0.
+  const epsilon = nodeSize.clone().multiplyScalar(1e-6);
+  const query = new THREE.Box3(
+    nodeBounds.min.clone().addScaledVector(nodeSize, -r).add(epsilon),
+    nodeBounds.max.clone().addScaledVector(nodeSize, r).sub(epsilon)
+  );
+
+  const out: VoxelCell[] = [];
+  const visit = (node: OctreeNode) => {
+    if (!node.bounds.intersectsBox(query)) return;
+    if (node.cell) {
+      out.push(node.cell);
+      return;
+    }
+    node.children.forEach(visit);
+  };
+  visit(octree.root);
+  return out;
+}
+
+function computeOctreeNodeBounds(
+  rootBounds: THREE.Box3,
+  depth: number,
+  gridPos: [number, number, number]
+): THREE.Box3 {
+  const size = new THREE.Vector3();
+  rootBounds.getSize(size).multiplyScalar(1 / 2 ** depth);
+  const min = new THREE.Vector3(
+    rootBounds.min.x + size.x * gridPos[0],
+    rootBounds.min.y + size.y * gridPos[1],
+    rootBounds.min.z + size.z * gridPos[2]
+  );
+  return new THREE.Box3(min, min.clone().add(size));
+}
+
+function buildOctreeNode(
+  splats: OctreeSplats,
+  members: number[],
+  depth: number,
+  gridPos: [number, number, number],
+  bounds: THREE.Box3,
+  config: OctreeOptions,
+  cells: Map<string, VoxelCell>
+): OctreeNode {
+  const { positions, colors } = splats;
+  const acc: VoxelAccumulator = {
+    gridPos,
+    count: 0,
+    sumPos: new THREE.Vector3(),
+    sumColor: new THREE.Vector3(),
+    sumColorSq: new THREE.Vector3(),
+    min: new THREE.Vector3(Infinity, Infinity, Infinity),
+    max: new THREE.Vector3(-Infinity, -Infinity, -Infinity),
+    splatIndices: [],
+  };
+  const point = new THREE.Vector3();
+  for (const slot of members) {
+    point.fromArray(positions, slot * 3);
+    const r = colors[slot * 3];
+    const g = colors[slot * 3 + 1];
+    const b = colors[slot * 3 + 2];
+    acc.count += 1;
+    acc.sumPos.add(point);
+    acc.sumColor.x += r;
+    acc.sumColor.y += g;
+    acc.sumColor.z += b;
+    acc.sumColorSq.x += r * r;
+    acc.sumColorSq.y += g * g;
+    acc.sumColorSq.z += b * b;
+    acc.min.min(point);
+    acc.max.max(point);
+  }
+
+  const nodeSize = new THREE.Vector3();
+  bounds.getSize(nodeSize);
+  const nodeVolume = Math.max(nodeSize.x * nodeSize.y * nodeSize.z, 1e-9);
+  const summary = finalizeVoxelCell(acc, nodeVolume);
+
+  const shouldSplit =
+    depth < config.maxDepth &&
+    (acc.count > config.maxSplatsPerNode ||
+      (summary.colorVariance > config.maxColorVariance &&
+        acc.count >= config.minSplatsToSplit));
+
+  const node: OctreeNode = {
+    depth,
+    gridPos,
+    bounds,
+    splatCount: acc.count,
+    worldCenter: summary.worldCenter,
+    avgColor: summary.avgColor,
+    colorVariance: summary.colorVariance,
+    density: summary.density,
+    children: [],
+    cell: null,
+  };
+
+  if (!shouldSplit) {
+    summary.splatIndices = members.map((slot) => splats.indices[slot]);
+    summary.depth = depth;
+    node.cell = summary;
+    cells.set(octreeKey(depth, ...gridPos), summary);
+    return node;
+  }
+
+  const mid = new THREE.Vector3();
+  bounds.getCenter(mid);
+  const octants: number[][] = Array.from({ length: 8 }, () => []);
+  for (const slot of members) {
+    const octant =
+      (positions[slot * 3] >= mid.x ? 1 : 0) |
+      (positions[slot * 3 + 1] >= mid.y ? 2 : 0) |
+      (positions[slot * 3 + 2] >= mid.z ? 4 : 0);
+    octants[octant].push(slot);
+  }
+
+  for (let octant = 0; octant < 8; octant += 1) {
+    const childMembers = octants[octant];
+    if (childMembers.length === 0) continue;
+    const ox = octant & 1;
+    const oy = (octant >> 1) & 1;
+    const oz = (octant >> 2) & 1;
+    const childBounds = new THREE.Box3(
+      new THREE.Vector3(
+        ox ? mid.x : bounds.min.x,
+        oy ? mid.y : bounds.min.y,
+        oz ? mid.z : bounds.min.z
+      ),
+      new THREE.Vector3(
+        ox ? bounds.max.x : mid.x,
+        oy ? bounds.max.y : mid.y,
+        oz ? bounds.max.z : mid.z
+      )
+    );
+    node.children.push(
+      buildOctreeNode(
+        splats,
+        childMembers,
+        depth + 1,
+        [gridPos[0] * 2 + ox, gridPos[1] * 2 + oy, gridPos[2] * 2 + oz],
+        childBounds,
+        config,
+        cells
+      )
+    );
+  }
+  return node;
+}
+
+function readMeshFrame(splatMesh: SplatMesh): {
+  matrixWorld: THREE.Matrix4;
+  localBounds: THREE.Box3;
+} {
+  if (typeof splatMesh.updateMatrixWorld === "function") {
+    splatMesh.updateMatrixWorld(true);
+  }
+  const matrixWorld =
+    (splatMesh as unknown as { matrixWorld?: THREE.Matrix4 }).matrixWorld?.clone() ??
+    new THREE.Matrix4().identity();
+  return { matrixWorld, localBounds: splatMesh.getBoundingBox() };
+}
+
+function resolveIndexBounds(
+  localBounds: THREE.Box3,
+  matrixWorld: THREE.Matrix4,
+  config: SpatialIndexOptions,
+  label: string
+): IndexBounds {
+  const logPrefix = config.logPrefix;
+  const rawBounds = transformBoundsToWorld(localBounds, matrixWorld);
+
+  if (isDegenerateBounds(rawBounds)) {
+    return { rawBounds, bounds: null };
+  }
+
+  const { bounds: croppedBounds, usedFallback } = computeCroppedBounds(
+    rawBounds,
+    config.cropYFraction
+  );
+  if (usedFallback) {
+    console.warn(`${logPrefix} Y-crop fallback to raw bounds (scene too small/degenerate)`);
+  }
+  console.log(
+    `${logPrefix} ${label} worldBounds: min=${croppedBounds.min.toArray()} max=${croppedBounds.max.toArray()}`
+  );
+  return { rawBounds, bounds: croppedBounds };
+}
+
+function growArray<T extends Uint32Array | Float32Array>(source: T, target: T): T {
+  target.set(source);
+  return target;
+}
+
+export function finalizeVoxelCell(acc: VoxelAccumulator, nominalCellVolume: number): VoxelCell {
   const invCount = 1 / acc.count;
   const center = acc.sumPos.clone().multiplyScalar(invCount);
   const avgR = acc.sumColor.x * invCount;
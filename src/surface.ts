@@ -0,0 +1,205 @@
+import * as THREE from "three";
+import { getCellAtWorldPos, getNeighborCells, type SplatArrays } from "./spatial-index";
+import type { SpatialGrid } from "./types";
+
+const DEFAULT_MAX_POINTS = 512;
+const MIN_NORMAL_POINTS = 6;
+const JACOBI_SWEEPS = 24;
+// Least/middle variance above this means no dominant plane (e.g. foliage).
+const MAX_PLANAR_RATIO = 0.5;
+
+export interface PrincipalAxes {
+  centroid: THREE.Vector3;
+  /** Unit axes, largest variance first. */
+  axes: [THREE.Vector3, THREE.Vector3, THREE.Vector3];
+  variances: [number, number, number];
+}
+
+/** Reads base splats by the indices stored in `VoxelCell.splatIndices`. */
+export interface SplatSource {
+  /** World center (and color) of splat `index`; false when the arrays lack it. */
+  read(index: number, center: THREE.Vector3, color?: THREE.Color): boolean;
+}
+
+export interface SurfaceSampler {
+  /** The splat lookup the sampler reads through. */
+  splats: SplatSource;
+  /** World-space centers of visible base splats within `radius` of `point`. */
+  centersNear(point: THREE.Vector3, radius?: number, maxPoints?: number): THREE.Vector3[];
+  /** Surface normal at `point` facing `towards` (e.g. the camera); null where no plane fits. */
+  normalAt(point: THREE.Vector3, towards?: THREE.Vector3, radius?: number): THREE.Vector3 | null;
+}
+
+/**
+ * Maps splat indices back to their slot in `arrays`, reading local centers
+ * through `matrixWorld` (the mesh's current world matrix, by reference).
+ */
+export function createSplatSource(arrays: SplatArrays, matrixWorld: THREE.Matrix4): SplatSource {
+  let maxIndex = 0;
+  for (let slot = 0; slot < arrays.count; slot += 1) {
+    maxIndex = Math.max(maxIndex, arrays.indices[slot]);
+  }
+  const slotOfIndex = new Int32Array(maxIndex + 1).fill(-1);
+  for (let slot = 0; slot < arrays.count; slot += 1) {
+    slotOfIndex[arrays.indices[slot]] = slot;
+  }
+
+  return {
+    read(index, center, color) {
+      const slot = index < slotOfIndex.length ? slotOfIndex[index] : -1;
+      if (slot < 0) return false;
+      center.fromArray(arrays.centers, slot * 3).applyMatrix4(matrixWorld);
+      color?.fromArray(arrays.colors, slot * 3);
+      return true;
+    },
+  };
+}
+
+/**
+ * Samples splat centers through the voxel grid. `VoxelCell.splatIndices`
+ * lists visible base-mesh splats (the grid tracker drops deleted ones), and
+ * `arrays` maps those indices back to local centers.
+ */
+export function createSurfaceSampler(
+  grid: SpatialGrid,
+  arrays: SplatArrays,
+  matrixWorld: THREE.Matrix4
+): SurfaceSampler {
+  const splats = createSplatSource(arrays, matrixWorld);
+  const defaultRadius = Math.max(grid.cellSize.x, grid.cellSize.y, grid.cellSize.z) * 1.5;
+
+  function centersNear(
+    point: THREE.Vector3,
+    radius: number = defaultRadius,
+    maxPoints: number = DEFAULT_MAX_POINTS
+  ): THREE.Vector3[] {
+    const seed = getCellAtWorldPos(grid, point);
+    if (!seed) return [];
+    const ring = Math.ceil(radius / Math.min(grid.cellSize.x, grid.cellSize.y, grid.cellSize.z));
+    const radiusSq = radius * radius;
+    const out: THREE.Vector3[] = [];
+    const world = new THREE.Vector3();
+    for (const cell of getNeighborCells(grid, seed, ring)) {
+      for (const index of cell.splatIndices) {
+        if (!splats.read(index, world)) continue;
+        if (world.distanceToSquared(point) <= radiusSq) {
+          out.push(world.clone());
+        }
+      }
+    }
+    if (out.length <= maxPoints) return out;
+    const stride = out.length / maxPoints;
+    return Array.from({ length: maxPoints }, (_, i) => out[Math.floor(i * stride)]);
+  }
+
+  return {
+    splats,
+    centersNear,
+    normalAt(point, towards, radius) {
+      const facing = towards ? towards.clone().sub(point) : undefined;
+      return estimateSurfaceNormal(centersNear(point, radius), facing);
+    },
+  };
+}
+
+/**
+ * Normal of the best-fit plane through `points` (the axis of least variance),
+ * flipped to face `facing` when given. Null when the points are too few, lie
+ * along a line, or are too blob-like for any plane to fit.
+ */
+export function estimateSurfaceNormal(
+  points: readonly THREE.Vector3[],
+  facing?: THREE.Vector3
+): THREE.Vector3 | null {
+  if (points.length < MIN_NORMAL_POINTS) return null;
+  const { axes, variances } = computePrincipalAxes(points);
+  if (variances[1] <= variances[0] * 1e-6 || variances[2] / variances[1] > MAX_PLANAR_RATIO) {
+    return null;
+  }
+  const normal = axes[2].clone();
+  if (facing && normal.dot(facing) < 0) {
+    normal.negate();
+  }
+  return normal;
+}
+
+export function computePrincipalAxes(points: readonly THREE.Vector3[]): PrincipalAxes {
+  const centroid = new THREE.Vector3();
+  for (const point of points) centroid.add(point);
+  centroid.divideScalar(Math.max(points.length, 1));
+
+  // Row-major 3x3 covariance.
+  const cov = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  const d = new THREE.Vector3();
+  for (const point of points) {
+    d.subVectors(point, centroid);
+    const v = [d.x, d.y, d.z];
+    for (let r = 0; r < 3; r += 1) {
+      for (let c = 0; c < 3; c += 1) {
+        cov[r * 3 + c] += v[r] * v[c];
+      }
+    }
+  }
+  const n = Math.max(points.length, 1);
+  for (let i = 0; i < 9; i += 1) cov[i] /= n;
+
+  const { values, vectors } = solveSymmetricEigen(cov, 3);
+  const order = [0, 1, 2].sort((a, b) => values[b] - values[a]);
+  const axis = (i: number) =>
+    new THREE.Vector3(vectors[i], vectors[3 + i], vectors[6 + i]).normalize();
+  return {
+    centroid,
+    axes: [axis(order[0]), axis(order[1]), axis(order[2])],
+    variances: [values[order[0]], values[order[1]], values[order[2]]],
+  };
+}
+
+/**
+ * Eigen-decomposition of a symmetric `size`x`size` row-major matrix by cyclic
+ * Jacobi rotations. Eigenvectors are the columns of `vectors` (row-major),
+ * matching `values` by index; neither is sorted.
+ */
+export function solveSymmetricEigen(
+  matrix: readonly number[],
+  size: number
+): { values: number[]; vectors: number[] } {
+  const a = [...matrix];
+  const v = Array.from({ length: size * size }, (_, i): number => (i % (size + 1) === 0 ? 1 : 0));
+  const pairs: Array<[number, number]> = [];
+  for (let p = 0; p < size; p += 1) {
+    for (let q = p + 1; q < size; q += 1) {
+      pairs.push([p, q]);
+    }
+  }
+  for (let sweep = 0; sweep < JACOBI_SWEEPS; sweep += 1) {
+    const off = pairs.reduce((sum, [p, q]) => sum + Math.abs(a[p * size + q]), 0);
+    if (off < 1e-15) break;
+    for (const [p, q] of pairs) {
+      const apq = a[p * size + q];
+      if (Math.abs(apq) < 1e-18) continue;
+      const theta = (a[q * size + q] - a[p * size + p]) / (2 * apq);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+      for (let k = 0; k < size; k += 1) {
+        const akp = a[k * size + p];
+        const akq = a[k * size + q];
+        a[k * size + p] = c * akp - s * akq;
+        a[k * size + q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < size; k += 1) {
+        const apk = a[p * size + k];
+        const aqk = a[q * size + k];
+        a[p * size + k] = c * apk - s * aqk;
+        a[q * size + k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < size; k += 1) {
+        const vkp = v[k * size + p];
+        const vkq = v[k * size + q];
+        v[k * size + p] = c * vkp - s * vkq;
+        v[k * size + q] = s * vkp + c * vkq;
+      }
+    }
+  }
+  return { values: Array.from({ length: size }, (_, i) => a[i * size + i]), vectors: v };
+}
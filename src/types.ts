@@ -1,4 +1,4 @@
-import type { PackedSplats } from "@sparkjsdev/spark";
+import type { PackedSplats, SplatMesh } from "@sparkjsdev/spark";
 import type * as THREE from "three";
 
 export interface VoxelCell {
@@ -10,20 +10,51 @@ export interface VoxelCell {
   colorVariance: number;
   density: number;
   splatIndices: number[];
+  /** Octree level of the cell; unset for uniform grid cells. */
+  depth?: number;
 }
 
 export interface SpatialGrid {
+  kind?: "grid";
   resolution: [number, number, number];
   worldBounds: THREE.Box3;
   cellSize: THREE.Vector3;
   cells: Map<string, VoxelCell>;
 }
 
+export interface OctreeNode {
+  depth: number;
+  /** Integer node coordinates at this depth (0..2^depth-1 per axis). */
+  gridPos: [number, number, number];
+  bounds: THREE.Box3;
+  splatCount: number;
+  worldCenter: THREE.Vector3;
+  avgColor: THREE.Color;
+  colorVariance: number;
+  density: number;
+  /** Occupied children only; empty for leaves. */
+  children: OctreeNode[];
+  cell: VoxelCell | null;
+}
+
+export interface OctreeIndex {
+  kind: "octree";
+  worldBounds: THREE.Box3;
+  maxDepth: number;
+  root: OctreeNode | null;
+  /** Leaf cells keyed by octreeKey(depth, x, y, z). */
+  cells: Map<string, VoxelCell>;
+}
+
+export type SpatialIndex = SpatialGrid | OctreeIndex;
+
 export interface SceneManifest {
   description: string;
   regions: SemanticRegion[];
   grid: SpatialGrid;
   screenshots: string[];
+  /** How the regions were labeled; absent on manifests built before vision support. */
+  source?: "heuristic" | "vision";
 }
 
 export interface SemanticRegion {
@@ -35,7 +66,19 @@ export interface SemanticRegion {
 }
 
 export interface EditOperation {
-  action: "delete" | "recolor" | "light" | "darken" | "atmosphere";
+  action:
+    | "delete"
+    | "recolor"
+    | "light"
+    | "darken"
+    | "atmosphere"
+    | "place"
+    | "move"
+    | "duplicate"
+    // Captures the shapes' splats onto the region clipboard for pasting,
+    // possibly into another scene; adds no edit.
+    | "copy";
+  // Empty for `place`, which adds a library asset instead of an SDF edit.
   shapes: SDFShapeConfig[];
   blendMode: "MULTIPLY" | "SET_RGB" | "ADD_RGBA";
   softEdge?: number;
@@ -43,6 +86,36 @@ export interface EditOperation {
   invert?: boolean;
   extractAsset?: boolean;
   assetLabel?: string;
+  placement?: AssetPlacementConfig;
+  // `move`/`duplicate`: world-space offset of the region's copy, and its turn
+  // in degrees about world +Y around the region's centroid.
+  translate?: [number, number, number];
+  rotate?: number;
+}
+
+// Where a `place` operation puts a library asset. `position` is the world
+// point the asset's base rests on; `yaw` turns it about world +Y in degrees.
+export interface AssetPlacementConfig {
+  assetId: string;
+  position: [number, number, number];
+  yaw: number;
+  scale: number;
+}
+
+// One prior command as seen by the agent when it interprets follow-ups.
+// `active` is false once the edit was undone or superseded by a refinement.
+export interface ConversationTurn {
+  entryId: string;
+  command: string;
+  operations: EditOperation[];
+  active: boolean;
+}
+
+// One point of a multi-click selection set as sent to the agent. `hint` is its
+// click-seeded cluster (`formatSelectionHint`), or null when none was confident.
+export interface SelectedPoint {
+  position: THREE.Vector3;
+  hint: string | null;
 }
 
 export interface SDFShapeConfig {
@@ -75,3 +148,14 @@ export interface AssetEntry {
   bounds: THREE.Box3;
   splatCount: number;
 }
+
+export interface PlacedAssetInstance {
+  /** Kept across undo/redo and saved sessions. */
+  id: string;
+  assetId: string;
+  label: string;
+  mesh: SplatMesh;
+  placedAt: Date;
+  /** Asset extent in the mesh's local frame, for picking and selection boxes. */
+  localBounds: THREE.Box3;
+}
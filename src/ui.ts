@@ -2,35 +2,129 @@ import type { SplatMesh } from "@sparkjsdev/spark";
 import type * as THREE from "three";
 import {
   buildClickContext,
+  getLastRefinementTarget,
+  getLastResolvedProvider,
   setProviderPreference,
   setSecondaryScreenshotForNextCommand,
   type processCommand as processCommandFn,
 } from "./agent";
-import { buildLocalSelection, formatSelectionHint } from "./click-selection";
-import type { executeOperations as executeOperationsFn, undoLastEdit as undoLastEditFn } from "./executor";
+import type { AssetFileFormat, AssetImportFile, AssetImportResult } from "./asset-library";
+import {
+  buildLocalSelection,
+  formatSelectionHint,
+  type SelectionResult,
+} from "./click-selection";
+import type {
+  EditHistoryEntry,
+  executeOperations as executeOperationsFn,
+  getConversationTurns as getConversationTurnsFn,
+  redoEdit as redoEditFn,
+  undoLastEdit as undoLastEditFn,
+} from "./executor";
+import { getLLMProviderDefinition, listLLMProviders } from "./providers/registry";
 import { getManifestJSON } from "./scene-manifest";
+import type { BakeExportFormat } from "./scene-export";
+import type { RegionPaste, RegionPasteState } from "./region-paste";
+import type { RegionSelector } from "./region-selector";
+import type { SceneIndexEntry } from "./scene-registry";
+import { formatRegionSelection } from "./screen-selection";
+import type { SelectionSet } from "./selection-set";
+import type { SessionApplyResult } from "./session";
 import { getCellAtWorldPos, getNeighborCells } from "./spatial-index";
-import type { AssetEntry, SceneManifest, SpatialGrid } from "./types";
+import type { SplatSource } from "./surface";
+import type {
+  AssetEntry,
+  EditOperation,
+  SceneManifest,
+  SelectedPoint,
+  SpatialGrid,
+  SpatialIndex,
+} from "./types";
 
 type ProcessCommand = typeof processCommandFn;
 type ExecuteOperations = typeof executeOperationsFn;
 type UndoLastEdit = typeof undoLastEditFn;
+type RedoEdit = typeof redoEditFn;
+type GetConversationTurns = typeof getConversationTurnsFn;
 
 export interface UIDependencies {
   processCommand: ProcessCommand;
   executeOperations: ExecuteOperations;
   undoLastEdit: UndoLastEdit;
+  redoEdit: RedoEdit;
+  getConversationTurns?: GetConversationTurns;
+  getHistoryEntries?: () => readonly EditHistoryEntry[];
+  onEditHistoryChange?: (callback: () => void) => () => void;
+  onEditOverlayHover?: (callback: (entryId: string | null) => void) => () => void;
   getSplatMesh: () => SplatMesh;
   getScreenshot: () => string;
   getScreenshotCropAroundPoint?: (point: THREE.Vector3, sizePx?: number) => string | null;
   getGrid: () => SpatialGrid | null;
+  getSpatialIndex?: () => SpatialIndex | null;
+  /** Base splats of the active scene; refines click clusters splat by splat. */
+  getSplatSource?: () => SplatSource | null;
   getManifest: () => SceneManifest | null;
   getLastClickPoint: () => THREE.Vector3 | null;
   onSplatClick?: (callback: (point: THREE.Vector3) => void) => () => void;
+  /** Shift-drag lasso/box selection; while set it replaces the click point. */
+  regionSelection?: Pick<RegionSelector, "getSelection" | "onChange">;
+  /** Ctrl/Alt-click selection set; two or more members replace the click point. */
+  selectionSet?: Pick<SelectionSet, "getMembers" | "onChange">;
+  listScenes?: () => readonly SceneIndexEntry[];
+  getActiveSceneFile?: () => string | null;
+  /** Loads the scene on first use, then makes it active; resolves once shown. */
+  switchScene?: (file: string) => Promise<void>;
   listAssets?: () => readonly AssetEntry[];
   getAssetById?: (id: string) => AssetEntry | undefined;
-  createPlacedAssetMesh?: (asset: AssetEntry, worldPos: THREE.Vector3) => SplatMesh;
-  getPlacementParent?: () => THREE.Object3D;
+  /** Rests `asset` on the surface clicked at `worldPos` as an undoable placement. */
+  placeAsset?: (asset: AssetEntry, worldPos: THREE.Vector3) => void;
+  /** The asset armed for placement (null when none), for the ghost preview and picking. */
+  onPlacementArmedChange?: (asset: AssetEntry | null) => void;
+  /** Whether placement turns the asset's up axis onto the surface normal. */
+  setPlacementAlignToSurface?: (enabled: boolean) => void;
+  /** Clipboard of `copy` operations and the paste flow into the active scene. */
+  regionPaste?: Pick<
+    RegionPaste,
+    "getState" | "onChange" | "pickSourcePoints" | "start" | "commit" | "cancel"
+  >;
+  onAssetsChange?: (callback: () => void) => () => void;
+  startAssetTurntable?: (asset: AssetEntry, canvas: HTMLCanvasElement) => () => void;
+  /** Read-only library entries; they get no rename/delete actions. */
+  isBuiltinAsset?: (asset: AssetEntry) => boolean;
+  renameAsset?: (id: string, label: string) => AssetEntry | null;
+  deleteAsset?: (id: string) => boolean;
+  exportAsset?: (id: string, format: AssetFileFormat) => Promise<AssetExportFile>;
+  importAssetFiles?: (files: AssetImportFile[]) => Promise<AssetImportResult>;
+  exportSession?: () => string;
+  importSession?: (json: string) => SessionApplyResult;
+  exportBakedScene?: (format: BakeExportFormat) => Promise<BakedSceneFile>;
+  exportRecordedFixtures?: () => RecordedFixtureFile | null;
+  exportManifestSidecar?: () => ManifestSidecarFile | null;
+}
+
+export interface AssetExportFile {
+  fileName: string;
+  bytes: Uint8Array;
+  metadataFileName: string;
+  metadataJson: string;
+}
+
+export interface ManifestSidecarFile {
+  fileName: string;
+  json: string;
+  source: "heuristic" | "vision";
+}
+
+export interface RecordedFixtureFile {
+  json: string;
+  count: number;
+}
+
+export interface BakedSceneFile {
+  fileName: string;
+  bytes: Uint8Array;
+  bakedSplats: number;
+  droppedSplats: number;
 }
 
 let toastContainer: HTMLDivElement | null = null;
@@ -40,10 +134,9 @@ const ENABLE_CLICK_SELECTION_HINTS =
   "false";
 const CROP_SIZE_PX = 320;
 const MIN_SELECTION_CONFIDENCE = 0.2;
-const DEFAULT_PROVIDER =
-  String(import.meta.env.VITE_DEFAULT_LLM_PROVIDER ?? "gemini").toLowerCase() === "openai"
-    ? "openai"
-    : "gemini";
+const DEFAULT_PROVIDER = String(import.meta.env.VITE_DEFAULT_LLM_PROVIDER ?? "gemini")
+  .trim()
+  .toLowerCase();
 
 export function initUI(deps: UIDependencies): void {
   if (initialized) {
@@ -59,6 +152,9 @@ export function initUI(deps: UIDependencies): void {
   const container = document.createElement("div");
   container.id = "muse-chat-container";
 
+  const history = document.createElement("div");
+  history.id = "muse-history";
+
   const messages = document.createElement("div");
   messages.id = "muse-messages";
 
@@ -81,16 +177,72 @@ export function initUI(deps: UIDependencies): void {
   undoButton.type = "button";
   undoButton.textContent = "↩";
 
+  const redoButton = document.createElement("button");
+  redoButton.id = "muse-redo-btn";
+  redoButton.type = "button";
+  redoButton.textContent = "↪";
+
   const providerButton = document.createElement("button");
   providerButton.id = "muse-provider-btn";
   providerButton.type = "button";
   providerButton.textContent = "Gemini";
 
+  const scenePicker = document.createElement("select");
+  scenePicker.id = "muse-scene-picker";
+  scenePicker.title = "Switch scene";
+  const scenes = deps.listScenes?.() ?? [];
+  for (const entry of scenes) {
+    const option = document.createElement("option");
+    option.value = entry.file;
+    option.textContent = entry.label;
+    scenePicker.append(option);
+  }
+  scenePicker.value = deps.getActiveSceneFile?.() ?? scenes[0]?.file ?? "";
+
+  const saveSessionButton = document.createElement("button");
+  saveSessionButton.id = "muse-session-save-btn";
+  saveSessionButton.type = "button";
+  saveSessionButton.textContent = "Save";
+  saveSessionButton.title = "Save edit session";
+
+  const loadSessionButton = document.createElement("button");
+  loadSessionButton.id = "muse-session-load-btn";
+  loadSessionButton.type = "button";
+  loadSessionButton.textContent = "Load";
+  loadSessionButton.title = "Load edit session";
+
+  const exportPlyButton = document.createElement("button");
+  exportPlyButton.id = "muse-export-ply-btn";
+  exportPlyButton.type = "button";
+  exportPlyButton.textContent = "PLY";
+  exportPlyButton.title = "Export edited scene as .ply";
+
+  const exportSpzButton = document.createElement("button");
+  exportSpzButton.id = "muse-export-spz-btn";
+  exportSpzButton.type = "button";
+  exportSpzButton.textContent = "SPZ";
+  exportSpzButton.title = "Export edited scene as .spz";
+
+  const sessionFileInput = document.createElement("input");
+  sessionFileInput.id = "muse-session-file";
+  sessionFileInput.type = "file";
+  sessionFileInput.accept = "application/json,.json";
+  sessionFileInput.hidden = true;
+
   const status = document.createElement("div");
   status.id = "muse-status";
 
-  inputRow.append(input, sendButton, undoButton, providerButton);
-  container.append(messages, inputRow, status);
+  inputRow.append(input, sendButton, undoButton, redoButton, providerButton);
+  if (deps.switchScene && scenes.length > 1) {
+    inputRow.append(scenePicker);
+  }
+  if (deps.exportSession && deps.importSession) {
+    inputRow.append(saveSessionButton, loadSessionButton, sessionFileInput);
+  }
+  if (deps.exportBakedScene) {
+    inputRow.append(exportPlyButton, exportSpzButton);
+  }
+  container.append(history, messages, inputRow, status);
   document.body.append(container);
 
   const library = document.createElement("aside");
@@ -106,7 +258,99 @@ export function initUI(deps: UIDependencies): void {
   const libraryList = document.createElement("div");
   libraryList.id = "muse-library-list";
 
-  library.append(libraryHeader, libraryStatus, libraryList);
+  const alignToggle = document.createElement("label");
+  alignToggle.id = "muse-library-align";
+  alignToggle.title = "Tilt placed assets to match the surface under the cursor";
+  const alignCheckbox = document.createElement("input");
+  alignCheckbox.type = "checkbox";
+  alignCheckbox.addEventListener("change", () => {
+    deps.setPlacementAlignToSurface?.(alignCheckbox.checked);
+  });
+  alignToggle.append(alignCheckbox, "Align to surface");
+  alignToggle.hidden = !deps.setPlacementAlignToSurface;
+
+  const clipboardPanel = document.createElement("div");
+  clipboardPanel.id = "muse-clipboard";
+  const clipboardLabel = document.createElement("div");
+  clipboardLabel.id = "muse-clipboard-label";
+  const clipboardHint = document.createElement("div");
+  clipboardHint.id = "muse-clipboard-hint";
+  const clipboardActions = document.createElement("div");
+  clipboardActions.className = "muse-asset-actions";
+  const clipboardButton = (text: string, title: string, onClick: () => void) => {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.className = "muse-asset-action";
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener("click", onClick);
+    clipboardActions.append(button);
+    return button;
+  };
+  const anchorButton = clipboardButton(
+    "Anchors",
+    "Click 3 points around the copied region in its source scene",
+    () => {
+      if (!deps.regionPaste?.pickSourcePoints()) {
+        showToast("Switch to the source scene to pick anchors", 2200);
+      }
+    }
+  );
+  const pasteSurfaceButton = clipboardButton(
+    "Paste on surface",
+    "Stand the region on a clicked surface, matching ground planes",
+    () => deps.regionPaste?.start("surface")
+  );
+  const pastePointsButton = clipboardButton(
+    "Paste by points",
+    "Click 3 points matching the anchors; solves position, rotation and scale",
+    () => deps.regionPaste?.start("points")
+  );
+  const commitPasteButton = clipboardButton("Paste", "Paste at the previewed pose (Enter)", () =>
+    deps.regionPaste?.commit()
+  );
+  const cancelPasteButton = clipboardButton("Cancel", "Cancel (Esc)", () =>
+    deps.regionPaste?.cancel()
+  );
+  clipboardPanel.append(clipboardLabel, clipboardHint, clipboardActions);
+
+  const renderClipboard = (state: RegionPasteState) => {
+    const { clipboard } = state;
+    clipboardPanel.hidden = !clipboard;
+    if (!clipboard) {
+      return;
+    }
+    clipboardLabel.textContent = `Clipboard: ${clipboard.asset.label} (${clipboard.asset.splatCount.toLocaleString()} splats) from ${clipboard.sourceScene}`;
+    clipboardHint.textContent = describeRegionPaste(state);
+    anchorButton.disabled = state.mode !== "idle";
+    pasteSurfaceButton.disabled = state.mode !== "idle";
+    pastePointsButton.disabled = state.mode !== "idle" || state.sourceAnchors < 3;
+    commitPasteButton.hidden = !state.previewing;
+    cancelPasteButton.hidden = state.mode === "idle";
+  };
+  if (deps.regionPaste) {
+    renderClipboard(deps.regionPaste.getState());
+    deps.regionPaste.onChange(renderClipboard);
+  } else {
+    clipboardPanel.hidden = true;
+  }
+
+  deps.selectionSet?.onChange((members) => {
+    if (members.length > 1) {
+      showToast(`${members.length} points selected · click clears`, 1500);
+    }
+  });
+
+  deps.regionSelection?.onChange((selection) => {
+    if (selection) {
+      showToast(
+        `Selected ${selection.cellKeys.length} cell${selection.cellKeys.length === 1 ? "" : "s"} · Esc clears`,
+        2000
+      );
+    }
+  });
+
+  library.append(libraryHeader, libraryStatus, alignToggle, clipboardPanel, libraryList);
   document.body.append(library);
 
   toastContainer = document.createElement("div");
@@ -114,9 +358,11 @@ export function initUI(deps: UIDependencies): void {
   document.body.append(toastContainer);
 
   let selectedAssetId: string | null = null;
-  let provider: "gemini" | "openai" = DEFAULT_PROVIDER;
+  let provider = getLLMProviderDefinition(DEFAULT_PROVIDER)
+    ? DEFAULT_PROVIDER
+    : listLLMProviders()[0]?.name ?? "gemini";
   setProviderPreference(provider);
-  providerButton.textContent = provider === "gemini" ? "Gemini" : "OpenAI";
+  providerButton.textContent = providerLabel(provider);
 
   setStatus(status, "Click an object, then type a command");
   setLibraryStatus(libraryStatus, "No asset selected");
@@ -126,10 +372,57 @@ export function initUI(deps: UIDependencies): void {
     "Click an object, then type a command. Try: 'remove this' or 'add warm lighting'"
   );
 
+  // Refinements and gizmo drags create new entry ids; remember what each one
+  // replaced so hovering the new volume still finds the original chat lines.
+  const replacedEntryIds = new Map<string, string>();
+
+  const renderHistory = () => {
+    const entries = deps.getHistoryEntries?.() ?? [];
+    for (const entry of entries) {
+      if (entry.replacesEntryId) {
+        replacedEntryIds.set(entry.id, entry.replacesEntryId);
+      }
+    }
+    history.replaceChildren();
+    history.hidden = entries.length === 0;
+    for (const [index, entry] of entries.entries()) {
+      const item = document.createElement("span");
+      item.className = "muse-history-item";
+      item.dataset.entryId = entry.id;
+      item.textContent = `${index + 1}. ${entry.command || "(edit)"}`;
+      item.title = `${entry.id} · ${entry.provider} · ${entry.operations.length} op(s)`;
+      history.append(item);
+    }
+  };
+
+  renderHistory();
+  deps.onEditHistoryChange?.(renderHistory);
+  deps.onEditOverlayHover?.((entryId) => {
+    const lineage = new Set<string>();
+    for (let id = entryId; id && !lineage.has(id); id = replacedEntryIds.get(id) ?? null) {
+      lineage.add(id);
+    }
+    let firstMatch: HTMLElement | null = null;
+    for (const el of container.querySelectorAll<HTMLElement>("[data-entry-id]")) {
+      const highlighted = lineage.has(el.dataset.entryId ?? "");
+      el.classList.toggle("muse-entry-highlight", highlighted);
+      if (highlighted && !firstMatch && messages.contains(el)) {
+        firstMatch = el;
+      }
+    }
+    firstMatch?.scrollIntoView({ block: "nearest" });
+  });
+
+  let stopTurntable: (() => void) | null = null;
   const renderLibrary = () => {
+    stopTurntable?.();
+    stopTurntable = null;
     libraryList.replaceChildren();
+    deps.onPlacementArmedChange?.(
+      selectedAssetId ? deps.getAssetById?.(selectedAssetId) ?? null : null
+    );
 
-    if (!deps.listAssets || !deps.getAssetById || !deps.createPlacedAssetMesh || !deps.getPlacementParent) {
+    if (!deps.listAssets || !deps.getAssetById || !deps.placeAsset) {
       const disabled = document.createElement("div");
       disabled.className = "muse-library-empty";
       disabled.textContent = "Asset placement unavailable.";
@@ -154,6 +447,32 @@ export function initUI(deps: UIDependencies): void {
         item.classList.add("active");
       }
 
+      const thumb = document.createElement("div");
+      thumb.className = "muse-asset-thumb";
+      const thumbImage = document.createElement("img");
+      thumbImage.src = asset.thumbnailDataUrl;
+      thumbImage.alt = "";
+      thumb.append(thumbImage);
+      if (deps.startAssetTurntable) {
+        const startAssetTurntable = deps.startAssetTurntable;
+        item.addEventListener("mouseenter", () => {
+          stopTurntable?.();
+          const canvas = document.createElement("canvas");
+          canvas.width = thumbImage.naturalWidth || 256;
+          canvas.height = thumbImage.naturalHeight || 144;
+          thumb.append(canvas);
+          const stop = startAssetTurntable(asset, canvas);
+          stopTurntable = () => {
+            stop();
+            canvas.remove();
+          };
+        });
+        item.addEventListener("mouseleave", () => {
+          stopTurntable?.();
+          stopTurntable = null;
+        });
+      }
+
       const label = document.createElement("div");
       label.className = "muse-asset-label";
       label.textContent = asset.label;
@@ -162,7 +481,7 @@ export function initUI(deps: UIDependencies): void {
       meta.className = "muse-asset-meta";
       meta.textContent = `${asset.splatCount.toLocaleString()} splats`;
 
-      item.append(label, meta);
+      item.append(thumb, label, meta);
       item.addEventListener("click", () => {
         const wasSelected = selectedAssetId === asset.id;
         selectedAssetId = wasSelected ? null : asset.id;
@@ -176,18 +495,197 @@ export function initUI(deps: UIDependencies): void {
         renderLibrary();
       });
 
-      libraryList.append(item);
+      // Builtins are re-seeded from the preloaded manifest on every load, so
+      // only extracted and imported assets get rename/delete actions. A
+      // re-imported builtin keeps `sourceScene: "builtin"` but is not one.
+      const editable = !(deps.isBuiltinAsset?.(asset) ?? false);
+      if (!deps.exportAsset && (!editable || (!deps.renameAsset && !deps.deleteAsset))) {
+        libraryList.append(item);
+        continue;
+      }
+
+      const row = document.createElement("div");
+      row.className = "muse-asset-row";
+      const actions = document.createElement("div");
+      actions.className = "muse-asset-actions";
+
+      if (deps.exportAsset) {
+        const exportAsset = deps.exportAsset;
+        for (const format of ["spz", "ply"] as const) {
+          const downloadButton = document.createElement("button");
+          downloadButton.type = "button";
+          downloadButton.className = "muse-asset-action";
+          downloadButton.textContent = `.${format}`;
+          downloadButton.title = `Download ${asset.label} as .${format} with metadata`;
+          downloadButton.addEventListener("click", async () => {
+            downloadButton.disabled = true;
+            try {
+              const file = await exportAsset(asset.id, format);
+              downloadBlob(file.fileName, file.bytes, "application/octet-stream");
+              downloadBlob(file.metadataFileName, file.metadataJson, "application/json");
+              showToast(`Downloaded ${file.fileName}`, 1800);
+            } catch (error) {
+              console.error("[ui] Asset export failed", error);
+              showToast("Asset export failed", 2000);
+            } finally {
+              downloadButton.disabled = false;
+            }
+          });
+          actions.append(downloadButton);
+        }
+      }
+
+      if (editable && deps.renameAsset) {
+        const renameAsset = deps.renameAsset;
+        const renameButton = document.createElement("button");
+        renameButton.type = "button";
+        renameButton.className = "muse-asset-action";
+        renameButton.textContent = "Rename";
+        renameButton.addEventListener("click", () => {
+          const field = document.createElement("input");
+          field.type = "text";
+          field.className = "muse-asset-rename";
+          field.value = asset.label;
+          let settled = false;
+          const finish = (commit: boolean) => {
+            if (settled) {
+              return;
+            }
+            settled = true;
+            const nextLabel = field.value.trim();
+            if (commit && nextLabel && nextLabel !== asset.label) {
+              const renamed = renameAsset(asset.id, nextLabel);
+              showToast(renamed ? `Renamed to ${renamed.label}` : "Rename failed", 1800);
+              if (renamed && selectedAssetId === asset.id) {
+                setLibraryStatus(libraryStatus, `Placement mode: ${renamed.label}`);
+              }
+            }
+            renderLibrary();
+          };
+          field.addEventListener("keydown", (event) => {
+            // Keep Escape/undo shortcuts from reaching the window handlers.
+            event.stopPropagation();
+            if (event.key === "Enter") {
+              finish(true);
+            } else if (event.key === "Escape") {
+              finish(false);
+            }
+          });
+          field.addEventListener("blur", () => finish(true));
+          item.replaceWith(field);
+          field.focus();
+          field.select();
+        });
+        actions.append(renameButton);
+      }
+
+      if (editable && deps.deleteAsset) {
+        const deleteAsset = deps.deleteAsset;
+        const deleteButton = document.createElement("button");
+        deleteButton.type = "button";
+        deleteButton.className = "muse-asset-action danger";
+        deleteButton.textContent = "Delete";
+        deleteButton.addEventListener("click", () => {
+          if (!window.confirm(`Delete "${asset.label}" from the library? Placed copies stay in the scene.`)) {
+            return;
+          }
+          if (!deleteAsset(asset.id)) {
+            showToast("Delete failed", 1800);
+            return;
+          }
+          if (selectedAssetId === asset.id) {
+            selectedAssetId = null;
+            setLibraryStatus(libraryStatus, "No asset selected");
+          }
+          showToast(`Deleted ${asset.label}`, 1800);
+          renderLibrary();
+        });
+        actions.append(deleteButton);
+      }
+
+      row.append(item, actions);
+      libraryList.append(row);
     }
   };
 
   renderLibrary();
+  deps.onAssetsChange?.(() => {
+    // Thumbnails land asynchronously; an open rename field re-renders on close.
+    if (!libraryList.querySelector(".muse-asset-rename")) {
+      renderLibrary();
+    }
+  });
+
+  if (deps.importAssetFiles) {
+    const importAssetFiles = deps.importAssetFiles;
+    let dragDepth = 0;
+    library.addEventListener("dragenter", (event) => {
+      event.preventDefault();
+      dragDepth += 1;
+      library.classList.add("drop-target");
+    });
+    library.addEventListener("dragover", (event) => {
+      event.preventDefault();
+      if (event.dataTransfer) {
+        event.dataTransfer.dropEffect = "copy";
+      }
+    });
+    library.addEventListener("dragleave", () => {
+      dragDepth = Math.max(0, dragDepth - 1);
+      if (dragDepth === 0) {
+        library.classList.remove("drop-target");
+      }
+    });
+    library.addEventListener("drop", async (event) => {
+      event.preventDefault();
+      dragDepth = 0;
+      library.classList.remove("drop-target");
+      const dropped = Array.from(event.dataTransfer?.files ?? []);
+      if (dropped.length === 0) {
+        return;
+      }
+      setLibraryStatus(
+        libraryStatus,
+        `Importing ${dropped.length} file${dropped.length === 1 ? "" : "s"}...`
+      );
+      try {
+        const files = await Promise.all(
+          dropped.map(async (file) => ({
+            name: file.name,
+            bytes: new Uint8Array(await file.arrayBuffer()),
+          }))
+        );
+        const result = await importAssetFiles(files);
+        renderLibrary();
+        if (result.imported.length > 0) {
+          showToast(
+            `Imported ${result.imported.map((asset) => asset.label).join(", ")}`,
+            2200
+          );
+        }
+        for (const failure of result.failed) {
+          showToast(`Skipped ${failure.name}: ${failure.reason}`, 2600);
+        }
+      } catch (error) {
+        console.error("[ui] Asset import failed", error);
+        showToast("Asset import failed", 2000);
+      } finally {
+        const selected = selectedAssetId ? deps.getAssetById?.(selectedAssetId) : undefined;
+        setLibraryStatus(
+          libraryStatus,
+          selected ? `Placement mode: ${selected.label}` : "No asset selected"
+        );
+      }
+    });
+    libraryHeader.title = "Drop .spz/.ply files (with optional .asset.json) to import";
+  }
 
   if (deps.onSplatClick) {
     deps.onSplatClick((point) => {
       if (!selectedAssetId) {
         return;
       }
-      if (!deps.getAssetById || !deps.createPlacedAssetMesh || !deps.getPlacementParent) {
+      if (!deps.getAssetById || !deps.placeAsset) {
         showToast("Placement APIs unavailable", 1800);
         selectedAssetId = null;
         setLibraryStatus(libraryStatus, "No asset selected");
@@ -205,8 +703,7 @@ export function initUI(deps: UIDependencies): void {
       }
 
       try {
-        const mesh = deps.createPlacedAssetMesh(asset, point.clone());
-        deps.getPlacementParent().add(mesh);
+        deps.placeAsset(asset, point.clone());
         appendMessage(messages, "assistant", `Placed asset: ${asset.label}`);
         showToast(`Placed: ${asset.label}`);
       } catch (error) {
@@ -225,12 +722,20 @@ export function initUI(deps: UIDependencies): void {
     input.disabled = busy;
     sendButton.disabled = busy;
     undoButton.disabled = busy;
+    redoButton.disabled = busy;
+    saveSessionButton.disabled = busy;
+    loadSessionButton.disabled = busy;
+    exportPlyButton.disabled = busy;
+    exportSpzButton.disabled = busy;
+    scenePicker.disabled = busy;
     providerButton.disabled = false;
     if (!busy) {
       input.focus();
     }
   };
 
+  let refinementHintShown = false;
+
   const handleSend = async () => {
     const command = input.value.trim();
     if (!command) {
@@ -240,54 +745,104 @@ export function initUI(deps: UIDependencies): void {
 
     const startedAt = typeof performance !== "undefined" ? performance.now() : Date.now();
     const assetsBefore = deps.listAssets?.().length ?? 0;
-    appendMessage(messages, "user", command);
+    const userMessage = appendMessage(messages, "user", command);
     setBusy(true);
     setStatus(status, "Thinking...");
     console.log(`[ui] Processing command="${command}"`);
 
     try {
-      const clickPoint = deps.getLastClickPoint();
+      const regionSelection = deps.regionSelection?.getSelection() ?? null;
+      const members = regionSelection ? [] : (deps.selectionSet?.getMembers() ?? []);
+      const selectedPoints: SelectedPoint[] =
+        members.length > 1
+          ? members.map((member) => ({
+              position: member.point,
+              hint: formatClusterHint(member.cluster),
+            }))
+          : [];
+      const clickPoint =
+        regionSelection || selectedPoints.length > 0
+          ? null
+          : (members[0]?.point ?? deps.getLastClickPoint());
+      const focusPoint = regionSelection?.center ?? clickPoint;
       const grid = deps.getGrid();
       const manifest = deps.getManifest();
       const splatMesh = deps.getSplatMesh();
       const screenshot = normalizeScreenshotDataUrl(deps.getScreenshot());
       const screenshotCrop =
-        clickPoint && deps.getScreenshotCropAroundPoint
+        focusPoint && deps.getScreenshotCropAroundPoint
           ? normalizeScreenshotDataUrl(
-              deps.getScreenshotCropAroundPoint(clickPoint, CROP_SIZE_PX) ?? ""
+              deps.getScreenshotCropAroundPoint(focusPoint, CROP_SIZE_PX) ?? ""
             )
           : "";
       const apiKey = readGeminiApiKey();
 
       console.log(
-        `[ui] Context: click=${formatVec3OrNull(clickPoint)} grid=${grid ? "ready" : "null"} manifest=${manifest ? "ready" : "null"} screenshotBytes=${screenshot.length} cropBytes=${screenshotCrop.length} apiKeyPresent=${apiKey.length > 0}`
+        `[ui] Context: click=${formatVec3OrNull(clickPoint)} selectionCells=${regionSelection?.cellKeys.length ?? 0} selectedPoints=${selectedPoints.length} grid=${grid ? "ready" : "null"} manifest=${manifest ? "ready" : "null"} screenshotBytes=${screenshot.length} cropBytes=${screenshotCrop.length} apiKeyPresent=${apiKey.length > 0}`
       );
 
-      const voxelContext = buildVoxelContext(grid, clickPoint);
+      const voxelContext = buildVoxelContext(
+        grid,
+        deps.getSpatialIndex?.() ?? grid,
+        clickPoint,
+        deps.getSplatSource?.() ?? null
+      );
+      const selectedRegion = regionSelection ? formatRegionSelection(regionSelection) : null;
       const manifestSummary = manifest ? getManifestJSON(manifest) : null;
       setSecondaryScreenshotForNextCommand(screenshotCrop || null);
       console.log(
         `[ui] Prompt payload: voxelContextChars=${voxelContext?.length ?? 0} manifestChars=${manifestSummary?.length ?? 0}`
       );
 
+      const conversation = deps.getConversationTurns?.() ?? [];
       const operations = await deps.processCommand(
         command,
         clickPoint,
         voxelContext,
         manifestSummary,
         screenshot,
-        apiKey
+        apiKey,
+        conversation,
+        deps.listAssets?.() ?? [],
+        { region: selectedRegion, points: selectedPoints }
       );
+      const refines = getLastRefinementTarget();
       console.log(`[ui] Agent returned ${operations.length} operation(s)`);
       console.log(`[ui] Operation summary: ${summarizeOperations(operations)}`);
 
-      deps.executeOperations(operations, splatMesh);
-      console.log("[ui] Executor applied operations");
-      appendMessage(
+      const lastEntryBefore = deps.getHistoryEntries?.().at(-1);
+      deps.executeOperations(operations, splatMesh, {
+        command,
+        provider: getLastResolvedProvider() ?? provider,
+        replaces: refines ?? undefined,
+      });
+      console.log(`[ui] Executor applied operations${refines ? ` (refining ${refines})` : ""}`);
+      // A refinement swaps its entry out, so the entry count can stay the same;
+      // a new last entry is what tells that this command recorded one.
+      const lastEntryAfter = deps.getHistoryEntries?.().at(-1);
+      const recorded =
+        lastEntryAfter && lastEntryAfter !== lastEntryBefore ? lastEntryAfter : null;
+      const reply = appendMessage(
         messages,
         "assistant",
-        `Applied ${operations.length} operation${operations.length === 1 ? "" : "s"}.`
+        describeCommandResult(
+          operations,
+          recorded,
+          conversation.find((turn) => turn.entryId === refines)?.command
+        )
       );
+      if (recorded) {
+        userMessage.dataset.entryId = recorded.id;
+        reply.dataset.entryId = recorded.id;
+      }
+      if (!refinementHintShown) {
+        refinementHintShown = true;
+        appendMessage(
+          messages,
+          "system",
+          "How does that look? You can say 'a bit bigger' or 'shift it left'."
+        );
+      }
 
       for (const op of operations) {
         const summary = op.assetLabel ?? `${op.shapes.length} shape${op.shapes.length === 1 ? "" : "s"}`;
@@ -332,8 +887,7 @@ export function initUI(deps: UIDependencies): void {
     }
   });
 
-  undoButton.addEventListener("click", () => {
-    console.log("[ui] Undo button clicked");
+  const handleUndo = () => {
     const undone = deps.undoLastEdit();
     if (undone) {
       appendMessage(messages, "system", "Undid last edit.");
@@ -341,12 +895,157 @@ export function initUI(deps: UIDependencies): void {
     } else {
       showToast("No edits to undo", 1800);
     }
+  };
+
+  const handleRedo = () => {
+    const redone = deps.redoEdit();
+    if (redone) {
+      appendMessage(messages, "system", "Redid edit.");
+      showToast("↪ Redid edit");
+    } else {
+      showToast("No edits to redo", 1800);
+    }
+  };
+
+  undoButton.addEventListener("click", () => {
+    console.log("[ui] Undo button clicked");
+    handleUndo();
+  });
+
+  redoButton.addEventListener("click", () => {
+    console.log("[ui] Redo button clicked");
+    handleRedo();
+  });
+
+  saveSessionButton.addEventListener("click", () => {
+    if (!deps.exportSession) {
+      return;
+    }
+    console.log("[ui] Save session clicked");
+    try {
+      const json = deps.exportSession();
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      downloadBlob(`muse-session-${stamp}.json`, json, "application/json");
+      appendMessage(messages, "system", "Saved edit session.");
+      showToast("Session saved", 1800);
+    } catch (error) {
+      console.error("[ui] Failed to save session", error);
+      showToast("Session save failed", 2500);
+    }
+  });
+
+  loadSessionButton.addEventListener("click", () => {
+    console.log("[ui] Load session clicked");
+    sessionFileInput.value = "";
+    sessionFileInput.click();
+  });
+
+  sessionFileInput.addEventListener("change", () => {
+    const file = sessionFileInput.files?.[0];
+    if (!file || !deps.importSession) {
+      return;
+    }
+    const importSession = deps.importSession;
+    setBusy(true);
+    setStatus(status, "Loading session...");
+    void file
+      .text()
+      .then((json) => {
+        const result = importSession(json);
+        appendMessage(
+          messages,
+          "system",
+          `Loaded session: ${result.replayedEntries} command${result.replayedEntries === 1 ? "" : "s"}, ${result.placedAssets} placed asset${result.placedAssets === 1 ? "" : "s"}.`
+        );
+        if (result.missingAssets.length > 0) {
+          appendMessage(
+            messages,
+            "error",
+            `Missing library assets: ${result.missingAssets.join(", ")}`
+          );
+        }
+        showToast("Session loaded", 1800);
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error("[ui] Failed to load session", error);
+        appendMessage(messages, "error", `Session load failed: ${message}`);
+        showToast("Session load failed", 2500);
+      })
+      .finally(() => {
+        setStatus(status, "Ready");
+        setBusy(false);
+      });
+  });
+
+  const handleExport = async (format: BakeExportFormat) => {
+    if (!deps.exportBakedScene) {
+      return;
+    }
+    console.log(`[ui] Export ${format} clicked`);
+    setBusy(true);
+    setStatus(status, `Baking edits to .${format}...`);
+    try {
+      const file = await deps.exportBakedScene(format);
+      downloadBlob(file.fileName, file.bytes, "application/octet-stream");
+      appendMessage(
+        messages,
+        "system",
+        `Exported ${file.fileName} (${file.bakedSplats.toLocaleString()} splats, ${file.droppedSplats.toLocaleString()} removed).`
+      );
+      showToast(`Exported .${format}`, 1800);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("[ui] Export failed", error);
+      appendMessage(messages, "error", `Export failed: ${message}`);
+      showToast("Export failed", 2500);
+    } finally {
+      setStatus(status, "Ready");
+      setBusy(false);
+    }
+  };
+
+  exportPlyButton.addEventListener("click", () => {
+    void handleExport("ply");
+  });
+
+  exportSpzButton.addEventListener("click", () => {
+    void handleExport("spz");
+  });
+
+  // Each scene keeps its own edit history; the history bar follows the
+  // switch through the history change callback.
+  scenePicker.addEventListener("change", async () => {
+    const file = scenePicker.value;
+    const entry = scenes.find((candidate) => candidate.file === file);
+    const previous = deps.getActiveSceneFile?.() ?? null;
+    if (!deps.switchScene || !entry || file === previous) {
+      return;
+    }
+    console.log(`[ui] Scene switch requested: ${file}`);
+    setBusy(true);
+    setStatus(status, `Loading ${entry.label}...`);
+    try {
+      await deps.switchScene(file);
+      appendMessage(messages, "system", `Switched to ${entry.label}.`);
+      showToast(`Scene: ${entry.label}`, 1800);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("[ui] Scene switch failed", error);
+      appendMessage(messages, "error", `Could not load ${entry.label}: ${message}`);
+      showToast("Scene switch failed", 2500);
+      scenePicker.value = deps.getActiveSceneFile?.() ?? previous ?? "";
+    } finally {
+      setStatus(status, "Ready");
+      setBusy(false);
+    }
   });
 
   providerButton.addEventListener("click", () => {
-    provider = provider === "gemini" ? "openai" : "gemini";
+    const names = listLLMProviders().map((definition) => definition.name);
+    provider = names[(names.indexOf(provider) + 1) % names.length] ?? provider;
     setProviderPreference(provider);
-    providerButton.textContent = provider === "gemini" ? "Gemini" : "OpenAI";
+    providerButton.textContent = providerLabel(provider);
     showToast(`Provider: ${providerButton.textContent}`, 1400);
     appendMessage(messages, "system", `LLM provider set to ${providerButton.textContent}.`);
   });
@@ -360,18 +1059,46 @@ export function initUI(deps: UIDependencies): void {
       return;
     }
 
-    if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") {
+    if (!(event.ctrlKey || event.metaKey)) {
+      return;
+    }
+    const key = event.key.toLowerCase();
+    if (key === "e" && event.shiftKey && deps.exportRecordedFixtures) {
+      event.preventDefault();
+      const file = deps.exportRecordedFixtures();
+      if (!file || file.count === 0) {
+        showToast("No recorded LLM fixtures yet", 1800);
+        return;
+      }
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      downloadBlob(`muse-fixtures-${stamp}.json`, file.json, "application/json");
+      showToast(`Saved ${file.count} LLM fixtures`, 1800);
+      return;
+    }
+    if (key === "m" && event.shiftKey && deps.exportManifestSidecar) {
+      event.preventDefault();
+      const file = deps.exportManifestSidecar();
+      if (!file) {
+        showToast("No scene manifest yet", 1800);
+        return;
+      }
+      downloadBlob(file.fileName, file.json, "application/json");
+      showToast(`Saved ${file.source} manifest; copy it next to the scene in public/scenes`, 2600);
+      return;
+    }
+    const isRedo = key === "y" || (key === "z" && event.shiftKey);
+    if (isRedo) {
+      console.log("[ui] Redo shortcut triggered");
+      event.preventDefault();
+      handleRedo();
+      return;
+    }
+    if (key !== "z") {
       return;
     }
     console.log("[ui] Undo shortcut triggered");
     event.preventDefault();
-    const undone = deps.undoLastEdit();
-    if (undone) {
-      appendMessage(messages, "system", "Undid last edit.");
-      showToast("↩ Undid last edit");
-    } else {
-      showToast("No edits to undo", 1800);
-    }
+    handleUndo();
   });
 
   input.focus();
@@ -403,7 +1130,7 @@ function appendMessage(
   container: HTMLDivElement,
   kind: "user" | "assistant" | "system" | "error",
   text: string
-): void {
+): HTMLDivElement {
   const el = document.createElement("div");
   el.className = `muse-msg muse-msg-${kind}`;
   el.textContent = text;
@@ -414,6 +1141,44 @@ function appendMessage(
   while (container.children.length > maxMessages) {
     container.firstElementChild?.remove();
   }
+  return el;
+}
+
+function downloadBlob(fileName: string, data: string | Uint8Array, type: string): void {
+  // Copy binary payloads so the Blob never aliases a shared/wasm-backed buffer.
+  const blob = new Blob([typeof data === "string" ? data : new Uint8Array(data)], { type });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.append(anchor);
+  anchor.click();
+  anchor.remove();
+  URL.revokeObjectURL(url);
+}
+
+function describeRegionPaste(state: RegionPasteState): string {
+  const remaining = state.needed - state.picked;
+  switch (state.mode) {
+    case "source-points":
+      return `Click ${remaining} more anchor point${remaining === 1 ? "" : "s"} around the copied region.`;
+    case "surface":
+      return state.previewing
+        ? "Enter pastes, [ ] turns, click to move, Esc cancels."
+        : "Click the surface the region should stand on.";
+    case "points":
+      return state.previewing
+        ? "Enter pastes, click to pick again, Esc cancels."
+        : `Click the point matching anchor ${state.picked + 1} of ${state.needed}.`;
+    default:
+      return state.sourceAnchors >= 3
+        ? "Anchors set. Switch scenes if needed, then paste."
+        : "Switch scenes if needed, then paste. Set anchors first to paste by points.";
+  }
+}
+
+function providerLabel(name: string): string {
+  return getLLMProviderDefinition(name)?.label ?? name;
 }
 
 function setStatus(statusEl: HTMLDivElement, text: string): void {
@@ -426,17 +1191,19 @@ function setLibraryStatus(statusEl: HTMLDivElement, text: string): void {
 
 function buildVoxelContext(
   grid: SpatialGrid | null,
-  clickPoint: THREE.Vector3 | null
+  index: SpatialIndex | null,
+  clickPoint: THREE.Vector3 | null,
+  splats: SplatSource | null
 ): string | null {
-  if (!grid || !clickPoint) {
+  if (!grid || !index || !clickPoint) {
     console.log(
       `[ui] buildVoxelContext skipped: grid=${Boolean(grid)} clickPoint=${Boolean(clickPoint)}`
     );
     return null;
   }
 
-  const cell = getCellAtWorldPos(grid, clickPoint);
-  const neighbors = cell ? getNeighborCells(grid, cell, 1) : [];
+  const cell = getCellAtWorldPos(index, clickPoint);
+  const neighbors = cell ? getNeighborCells(index, cell, 1) : [];
   console.log(
     `[ui] buildVoxelContext: cell=${cell ? cell.gridPos.join(",") : "none"} neighbors=${neighbors.length}`
   );
@@ -447,7 +1214,7 @@ function buildVoxelContext(
     return baseContext;
   }
 
-  const selection = buildLocalSelection(grid, clickPoint);
+  const selection = buildLocalSelection(grid, clickPoint, { splats: splats ?? undefined });
   if (!selection) {
     console.log("[ui] Deterministic selection unavailable; using base context");
     return baseContext;
@@ -466,6 +1233,14 @@ function buildVoxelContext(
   return `${baseContext}\n\n${hint}`;
 }
 
+// Same gating as the single-click hint in `buildVoxelContext`.
+function formatClusterHint(cluster: SelectionResult | null): string | null {
+  if (!ENABLE_CLICK_SELECTION_HINTS || !cluster || cluster.confidence < MIN_SELECTION_CONFIDENCE) {
+    return null;
+  }
+  return formatSelectionHint(cluster);
+}
+
 function normalizeScreenshotDataUrl(dataUrl: string): string {
   const trimmed = dataUrl.trim();
   if (!trimmed) {
@@ -475,7 +1250,8 @@ function normalizeScreenshotDataUrl(dataUrl: string): string {
   return match ? match[1] : trimmed;
 }
 
-function readGeminiApiKey(): string {
+/** The Gemini key commands are sent with; the vision manifest uses it too. */
+export function readGeminiApiKey(): string {
   const googleKey = String(import.meta.env.VITE_GOOGLE_API_KEY ?? "").trim();
   if (googleKey) {
     return googleKey;
@@ -484,6 +1260,28 @@ function readGeminiApiKey(): string {
   return String(import.meta.env.VITE_GEMINI_API_KEY ?? "").trim();
 }
 
+// Worded from the history entry the command recorded, not from what the agent
+// returned: ops that copied nothing or only filled the clipboard add no entry.
+function describeCommandResult(
+  operations: readonly EditOperation[],
+  recorded: EditHistoryEntry | null,
+  refinedCommand: string | undefined
+): string {
+  if (!recorded) {
+    const copies = operations.filter((op) => op.action === "copy").length;
+    return copies > 0 && copies === operations.length
+      ? `Ran ${copies} copy operation${copies === 1 ? "" : "s"}; the scene is unchanged.`
+      : "No edits were applied; the scene is unchanged.";
+  }
+  const count = new Set(
+    [...recorded.applied, ...recorded.placed].map((item) => item.opIndex)
+  ).size;
+  const noun = `${count} operation${count === 1 ? "" : "s"}`;
+  return refinedCommand !== undefined && recorded.replacesEntryId !== null
+    ? `Refined "${refinedCommand}" with ${noun}.`
+    : `Applied ${noun}.`;
+}
+
 function formatVec3OrNull(vec: THREE.Vector3 | null): string {
   if (!vec) {
     return "null";
@@ -1,6 +1,8 @@
 import { SparkRenderer, SplatMesh } from "@sparkjsdev/spark";
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
+import type { EditHistoryEntry } from "./executor";
+import type { EditOperation, SDFShapeConfig } from "./types";
 
 export let scene: THREE.Scene;
 export let camera: THREE.PerspectiveCamera;
@@ -18,13 +20,37 @@ export interface ViewerContext {
   splatMesh: SplatMesh;
   controls: OrbitControls;
   canvas: HTMLCanvasElement;
+  /** Root of the scene loaded at init; see `LoadedSplatScene`. */
+  sceneRoot: THREE.Scene;
   bounds: THREE.Box3;
   boundsCenter: THREE.Vector3;
   boundsSize: THREE.Vector3;
 }
 
-type ClickCallback = (point: THREE.Vector3) => void;
+/**
+ * A splat scene under its own root. Roots are nested `THREE.Scene`s so global
+ * edits and placements resolve to the scene they belong to, and hiding an
+ * inactive root drops its meshes and edits from Spark's visible traversal.
+ */
+export interface LoadedSplatScene {
+  root: THREE.Scene;
+  splatMesh: SplatMesh;
+  bounds: THREE.Box3;
+  boundsCenter: THREE.Vector3;
+  boundsSize: THREE.Vector3;
+}
+
+export interface CameraState {
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number;
+}
+
+// `event` carries the modifier keys (Ctrl/Alt build selection sets in main).
+type ClickCallback = (point: THREE.Vector3, event: MouseEvent) => void;
+type OverlayHoverCallback = (entryId: string | null) => void;
 const clickCallbacks: ClickCallback[] = [];
+const overlayHoverCallbacks: OverlayHoverCallback[] = [];
 let indicator: THREE.Mesh | null = null;
 let resizeAttached = false;
 let keyboardAttached = false;
@@ -37,6 +63,13 @@ let freeLookPitch = 0;
 let freeLookDistance = 5;
 let freeLookLastX = 0;
 let freeLookLastY = 0;
+let editOverlay: THREE.Group | null = null;
+let editOverlayVisible = false;
+let editOverlayAttached = false;
+let editOverlayEntries: readonly EditHistoryEntry[] = [];
+let editOverlayExtent = 10;
+let hoveredOverlayEntryId: string | null = null;
+const sceneRoots = new Set<THREE.Scene>();
 
 const MOVE_SPEED = 3.0;
 const MOVE_SPEED_FAST = 8.0;
@@ -47,6 +80,25 @@ const tmpRight = new THREE.Vector3();
 const tmpMove = new THREE.Vector3();
 const tmpLookDir = new THREE.Vector3();
 
+const EDIT_OVERLAY_COLORS: Record<EditOperation["action"], number> = {
+  delete: 0xff4d4d,
+  recolor: 0x4da6ff,
+  light: 0xffd24d,
+  darken: 0xa070ff,
+  atmosphere: 0x4dffc3,
+  // Never drawn: place ops carry no shapes.
+  place: 0x9dff4d,
+  move: 0xff9d4d,
+  duplicate: 0xff9d4d,
+  // Never drawn: copy ops add no edit.
+  copy: 0xff9d4d,
+};
+const OVERLAY_VOLUME_OPACITY = 0.5;
+const OVERLAY_SHELL_OPACITY = 0.08;
+const OVERLAY_HIGHLIGHT_VOLUME_OPACITY = 0.95;
+const OVERLAY_HIGHLIGHT_SHELL_OPACITY = 0.22;
+const MIN_OVERLAY_SIZE = 1e-3;
+
 export function onSplatClick(callback: ClickCallback): () => void {
   clickCallbacks.push(callback);
   return () => {
@@ -57,6 +109,16 @@ export function onSplatClick(callback: ClickCallback): () => void {
   };
 }
 
+export function onEditOverlayHover(callback: OverlayHoverCallback): () => void {
+  overlayHoverCallbacks.push(callback);
+  return () => {
+    const index = overlayHoverCallbacks.indexOf(callback);
+    if (index >= 0) {
+      overlayHoverCallbacks.splice(index, 1);
+    }
+  };
+}
+
 export async function initViewer(
   canvasEl: HTMLCanvasElement,
   sceneUrl: string
@@ -93,26 +155,10 @@ export async function initViewer(
   };
   canvas.addEventListener("contextmenu", (event) => event.preventDefault());
 
-  console.log("[viewer] Loading scene:", sceneUrl);
-  splatMesh = new SplatMesh({ url: sceneUrl });
-  splatMesh.quaternion.set(1, 0, 0, 0); // OpenCV → OpenGL coordinate fix
-  scene.add(splatMesh);
-
-  await splatMesh.initialized;
-  console.log("[viewer] Scene loaded and initialized");
-
-  const bounds = splatMesh.getBoundingBox();
-  const boundsCenter = new THREE.Vector3();
-  const boundsSize = new THREE.Vector3();
-  bounds.getCenter(boundsCenter);
-  bounds.getSize(boundsSize);
-  console.log("[viewer] Bounding box min:", bounds.min.toArray());
-  console.log("[viewer] Bounding box max:", bounds.max.toArray());
-  console.log("[viewer] Bounding box center:", boundsCenter.toArray());
-  console.log("[viewer] Bounding box size:", boundsSize.toArray());
-
-  fitCameraToBounds(bounds, boundsCenter, boundsSize);
+  const loaded = await loadSplatScene(sceneUrl);
+  showSplatScene(loaded, { fitCamera: true });
   setupRaycasting();
+  setupEditOverlay();
   setupKeyboardMovement();
   setupFreeLook();
 
@@ -140,12 +186,62 @@ export async function initViewer(
     splatMesh,
     controls,
     canvas,
-    bounds,
-    boundsCenter,
-    boundsSize,
+    sceneRoot: loaded.root,
+    bounds: loaded.bounds,
+    boundsCenter: loaded.boundsCenter,
+    boundsSize: loaded.boundsSize,
   };
 }
 
+/** Loads `sceneUrl` under a new, hidden root; `showSplatScene` makes it active. */
+export async function loadSplatScene(sceneUrl: string): Promise<LoadedSplatScene> {
+  console.log("[viewer] Loading scene:", sceneUrl);
+  const root = new THREE.Scene();
+  root.name = sceneUrl;
+  root.visible = false;
+  const mesh = new SplatMesh({ url: sceneUrl });
+  mesh.quaternion.set(1, 0, 0, 0); // OpenCV → OpenGL coordinate fix
+  root.add(mesh);
+  scene.add(root);
+  sceneRoots.add(root);
+
+  await mesh.initialized;
+  console.log("[viewer] Scene loaded and initialized");
+
+  const bounds = mesh.getBoundingBox();
+  const boundsCenter = new THREE.Vector3();
+  const boundsSize = new THREE.Vector3();
+  bounds.getCenter(boundsCenter);
+  bounds.getSize(boundsSize);
+  console.log("[viewer] Bounding box min:", bounds.min.toArray());
+  console.log("[viewer] Bounding box max:", bounds.max.toArray());
+  console.log("[viewer] Bounding box center:", boundsCenter.toArray());
+  console.log("[viewer] Bounding box size:", boundsSize.toArray());
+
+  return { root, splatMesh: mesh, bounds, boundsCenter, boundsSize };
+}
+
+/**
+ * Shows `loaded` and hides every other scene root. Clicks only hit the shown
+ * scene's mesh. `fitCamera` frames its bounds (first visit); otherwise the
+ * caller restores a saved camera.
+ */
+export function showSplatScene(
+  loaded: LoadedSplatScene,
+  options: { fitCamera?: boolean } = {}
+): void {
+  for (const root of sceneRoots) {
+    root.visible = root === loaded.root;
+  }
+  splatMesh = loaded.splatMesh;
+  editOverlayExtent = Math.max(loaded.boundsSize.x, loaded.boundsSize.y, loaded.boundsSize.z, 1);
+  clearClickIndicator();
+  if (options.fitCamera) {
+    fitCameraToBounds(loaded.bounds, loaded.boundsCenter, loaded.boundsSize);
+  }
+  console.log(`[viewer] Showing scene ${loaded.root.name}`);
+}
+
 function setupKeyboardMovement() {
   if (keyboardAttached) {
     return;
@@ -237,7 +333,8 @@ function setupRaycasting() {
     pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
     raycaster.setFromCamera(pointer, camera);
-    const intersects = raycaster.intersectObjects(scene.children, true);
+    // Only the shown scene's mesh: hidden roots still answer raycasts.
+    const intersects = raycaster.intersectObject(splatMesh, true);
     const hit = intersects.find((intersection) =>
       isObjectWithinSplatMesh(intersection.object)
     );
@@ -250,7 +347,7 @@ function setupRaycasting() {
 
       showClickIndicator(point);
       for (const cb of clickCallbacks) {
-        cb(point);
+        cb(point, event);
       }
     } else {
       console.log("[viewer] Click missed — no splat intersection");
@@ -259,6 +356,231 @@ function setupRaycasting() {
   });
 }
 
+// Debug overlay of active edit volumes. Sizes follow Spark's SDF semantics
+// (see scene-export evaluateSdfDistance), not the prompt's descriptions, so
+// the overlay shows what the shader actually evaluates.
+export function setEditOverlayEntries(entries: readonly EditHistoryEntry[]): void {
+  editOverlayEntries = entries;
+  if (editOverlayVisible) {
+    rebuildEditOverlay();
+  }
+}
+
+export function setEditOverlayVisible(visible: boolean): void {
+  if (editOverlayVisible === visible) {
+    return;
+  }
+  editOverlayVisible = visible;
+  if (visible) {
+    rebuildEditOverlay();
+  } else {
+    disposeEditOverlay();
+    setHoveredOverlayEntry(null);
+  }
+  console.log(`[viewer] Edit overlay ${visible ? "shown" : "hidden"}`);
+}
+
+export function isEditOverlayVisible(): boolean {
+  return editOverlayVisible;
+}
+
+// Builds the helper for one shape: a wireframe volume plus a translucent
+// outer shell where the softEdge falloff reaches zero (distance softEdge/2).
+export function buildEditVolumeHelper(
+  entryId: string,
+  op: EditOperation,
+  shape: SDFShapeConfig,
+  extent: number
+): THREE.Group | null {
+  const color = EDIT_OVERLAY_COLORS[op.action];
+  const volumeGeometry = createEditVolumeGeometry(shape, 0, extent);
+  if (!volumeGeometry) {
+    return null;
+  }
+
+  const group = new THREE.Group();
+  group.name = `edit-overlay-${entryId}-${shape.type}`;
+  group.position.fromArray(shape.position);
+  if (shape.rotation) {
+    group.quaternion.fromArray(shape.rotation);
+  }
+
+  const volume = new THREE.Mesh(
+    volumeGeometry,
+    new THREE.MeshBasicMaterial({
+      color,
+      wireframe: true,
+      transparent: true,
+      opacity: OVERLAY_VOLUME_OPACITY,
+      depthWrite: false,
+    })
+  );
+  volume.userData = { entryId, role: "volume" };
+  group.add(volume);
+
+  const softEdge = op.softEdge ?? 0;
+  const grow = (op.invert ? -0.5 : 0.5) * softEdge;
+  const shellGeometry = softEdge > 0 ? createEditVolumeGeometry(shape, grow, extent) : null;
+  if (shellGeometry) {
+    const shell = new THREE.Mesh(
+      shellGeometry,
+      new THREE.MeshBasicMaterial({
+        color,
+        transparent: true,
+        opacity: OVERLAY_SHELL_OPACITY,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+      })
+    );
+    shell.userData = { entryId, role: "shell" };
+    group.add(shell);
+  }
+
+  group.userData = { entryId };
+  return group;
+}
+
+function createEditVolumeGeometry(
+  shape: SDFShapeConfig,
+  grow: number,
+  extent: number
+): THREE.BufferGeometry | null {
+  const [sx, sy, sz] = shape.scale ?? [1, 1, 1];
+  const radius = shape.radius ?? 0;
+  const size = (value: number) => Math.max(value + grow, MIN_OVERLAY_SIZE);
+
+  switch (shape.type) {
+    case "SPHERE":
+      return new THREE.SphereGeometry(size(radius), 20, 14);
+    case "BOX":
+      return new THREE.BoxGeometry(2 * size(sx), 2 * size(sy), 2 * size(sz));
+    case "ELLIPSOID":
+      return new THREE.SphereGeometry(1, 20, 14).scale(size(sx), size(sy), size(sz));
+    case "CYLINDER":
+      return new THREE.CylinderGeometry(size(radius), size(radius), 2 * size(sy), 24, 1);
+    case "CAPSULE":
+      return new THREE.CapsuleGeometry(size(radius), Math.max(sy, 0), 6, 16);
+    case "PLANE":
+      // Inside is local z < 0; draw a finite patch around the anchor.
+      return new THREE.PlaneGeometry(extent, extent, 8, 8).translate(0, 0, grow);
+    case "INFINITE_CONE": {
+      // Apex at the origin, opening along local -Z with half-angle radius·π/4.
+      const angle = THREE.MathUtils.clamp(0.25 * Math.PI * radius, 0.01, 0.49 * Math.PI);
+      const length = extent * 0.5;
+      return new THREE.ConeGeometry(length * Math.tan(angle), length, 24, 1, true)
+        .translate(0, -length / 2, 0)
+        .rotateX(Math.PI / 2)
+        .translate(0, 0, grow / Math.sin(angle));
+    }
+    case "ALL":
+    default:
+      return null;
+  }
+}
+
+function rebuildEditOverlay(): void {
+  disposeEditOverlay();
+  editOverlay = new THREE.Group();
+  editOverlay.name = "edit-overlay";
+  editOverlay.renderOrder = 900;
+
+  let helperCount = 0;
+  for (const entry of editOverlayEntries) {
+    for (const op of entry.operations) {
+      for (const shape of op.shapes) {
+        const helper = buildEditVolumeHelper(entry.id, op, shape, editOverlayExtent);
+        if (helper) {
+          editOverlay.add(helper);
+          helperCount += 1;
+        }
+      }
+    }
+  }
+  scene.add(editOverlay);
+  applyOverlayHighlight();
+  console.log(
+    `[viewer] Edit overlay rebuilt entries=${editOverlayEntries.length} helpers=${helperCount}`
+  );
+}
+
+function disposeEditOverlay(): void {
+  if (!editOverlay) {
+    return;
+  }
+  scene.remove(editOverlay);
+  editOverlay.traverse((node) => {
+    if (node instanceof THREE.Mesh) {
+      node.geometry.dispose();
+      (node.material as THREE.Material).dispose();
+    }
+  });
+  editOverlay = null;
+}
+
+function setupEditOverlay() {
+  if (editOverlayAttached) {
+    return;
+  }
+
+  const raycaster = new THREE.Raycaster();
+  const pointer = new THREE.Vector2();
+
+  window.addEventListener("keydown", (event) => {
+    if (isTextEntryTarget(event.target) || event.ctrlKey || event.metaKey || event.altKey) {
+      return;
+    }
+    if (event.key.toLowerCase() === "o") {
+      setEditOverlayVisible(!editOverlayVisible);
+    }
+  });
+
+  canvas.addEventListener("pointermove", (event) => {
+    if (!editOverlayVisible || !editOverlay || event.buttons !== 0) {
+      return;
+    }
+    const rect = canvas.getBoundingClientRect();
+    pointer.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+    pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+    raycaster.setFromCamera(pointer, camera);
+    const hit = raycaster.intersectObject(editOverlay, true)[0];
+    const entryId = hit ? (hit.object.userData.entryId as string | undefined) ?? null : null;
+    setHoveredOverlayEntry(entryId);
+  });
+
+  canvas.addEventListener("pointerleave", () => {
+    setHoveredOverlayEntry(null);
+  });
+
+  editOverlayAttached = true;
+  console.log("[viewer] Edit overlay available: press O to toggle");
+}
+
+function setHoveredOverlayEntry(entryId: string | null) {
+  if (hoveredOverlayEntryId === entryId) {
+    return;
+  }
+  hoveredOverlayEntryId = entryId;
+  applyOverlayHighlight();
+  for (const cb of overlayHoverCallbacks) {
+    cb(entryId);
+  }
+}
+
+function applyOverlayHighlight() {
+  editOverlay?.traverse((node) => {
+    if (!(node instanceof THREE.Mesh)) {
+      return;
+    }
+    const highlighted = node.userData.entryId === hoveredOverlayEntryId;
+    const material = node.material as THREE.MeshBasicMaterial;
+    if (node.userData.role === "shell") {
+      material.opacity = highlighted ? OVERLAY_HIGHLIGHT_SHELL_OPACITY : OVERLAY_SHELL_OPACITY;
+    } else {
+      material.opacity = highlighted ? OVERLAY_HIGHLIGHT_VOLUME_OPACITY : OVERLAY_VOLUME_OPACITY;
+    }
+  });
+}
+
 function fitCameraToBounds(
   bounds: THREE.Box3,
   center: THREE.Vector3,
@@ -442,11 +764,42 @@ function isTextEntryTarget(target: EventTarget | null): boolean {
   );
 }
 
+export function getCameraState(): CameraState {
+  return {
+    position: [camera.position.x, camera.position.y, camera.position.z],
+    target: [controls.target.x, controls.target.y, controls.target.z],
+    fov: camera.fov,
+  };
+}
+
+export function setCameraState(state: CameraState): void {
+  camera.position.set(state.position[0], state.position[1], state.position[2]);
+  controls.target.set(state.target[0], state.target[1], state.target[2]);
+  if (Number.isFinite(state.fov) && state.fov > 0) {
+    camera.fov = state.fov;
+    camera.updateProjectionMatrix();
+  }
+  camera.lookAt(controls.target);
+  controls.update();
+  console.log(
+    `[viewer] Camera restored position=${camera.position.toArray()} target=${controls.target.toArray()}`
+  );
+}
+
 export function getScreenshot(): string {
   renderer.render(scene, camera);
   return renderer.domElement.toDataURL("image/png");
 }
 
+// Waits a few animation frames after a camera move so Spark re-sorts splats for
+// the new view before the capture.
+export async function captureSettledScreenshot(frames: number = 2): Promise<string> {
+  for (let i = 0; i < frames; i += 1) {
+    await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+  }
+  return getScreenshot();
+}
+
 export function getScreenshotCropAroundPoint(
   point: THREE.Vector3,
   sizePx: number = 320
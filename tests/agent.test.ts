@@ -1,6 +1,6 @@
 import * as THREE from "three";
 import { afterEach, describe, expect, it, vi } from "vitest";
-import type { VoxelCell } from "../src/types";
+import type { AssetEntry, VoxelCell } from "../src/types";
 
 const { mockGenerateContent, mockGoogleGenAI } = vi.hoisted(() => {
   const generateContent = vi.fn();
@@ -18,7 +18,12 @@ vi.mock("@google/genai", () => ({
   GoogleGenAI: mockGoogleGenAI,
 }));
 
-import { buildClickContext, processCommand, SYSTEM_PROMPT } from "../src/agent";
+import {
+  buildClickContext,
+  getLastRefinementTarget,
+  processCommand,
+  SYSTEM_PROMPT,
+} from "../src/agent";
 
 const API_KEY = "test-api-key";
 
@@ -163,6 +168,68 @@ describe("processCommand", () => {
     expect(mockGenerateContent).toHaveBeenCalledTimes(2);
   });
 
+  it("lists the asset library and rejects places of unknown assets", async () => {
+    const vase = {
+      id: "asset-3",
+      label: "Blue vase",
+      bounds: new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0.2, 0.4, 0.2)),
+      splatCount: 900,
+    } as AssetEntry;
+    const unknownPlace =
+      '[{"action":"place","asset":"butterfly","position":[0,1,0]}]';
+    mockGenerateContent
+      .mockResolvedValueOnce(geminiResponse(unknownPlace))
+      .mockResolvedValueOnce(geminiResponse(unknownPlace))
+      .mockResolvedValueOnce(
+        geminiResponse('[{"action":"place","asset":"blue VASE","position":[1,0.8,-2],"scale":50}]')
+      );
+
+    await expect(
+      processCommand("put a butterfly on the desk", null, null, null, null, API_KEY, [], [vase])
+    ).rejects.toThrow('unknown asset "butterfly"');
+    const text = getGenerateContentRequest(0).contents[0].parts[0].text as string;
+    expect(text).toContain('- id=asset-3 label="Blue vase" size=[0.200, 0.400, 0.200] splats=900');
+
+    const ops = await processCommand("put the vase on the desk", null, null, null, null, API_KEY, [], [vase]);
+    expect(ops[0]?.placement).toEqual({ assetId: "asset-3", position: [1, 0.8, -2], yaw: 0, scale: 20 });
+    expect(ops[0]?.shapes).toEqual([]);
+  });
+
+  it("requires moves to go somewhere and hides the moved originals", async () => {
+    const shapes = '"shapes":[{"type":"SPHERE","position":[0,0,0],"radius":0.5,"opacity":1}]';
+    mockGenerateContent
+      .mockResolvedValueOnce(geminiResponse(`[{"action":"move","blendMode":"SET_RGB",${shapes}}]`))
+      .mockResolvedValueOnce(geminiResponse(`[{"action":"move","blendMode":"SET_RGB",${shapes}}]`))
+      .mockResolvedValueOnce(
+        geminiResponse(`[{"action":"move","blendMode":"SET_RGB","translate":[0,0,2],"rotate":450,${shapes}}]`)
+      );
+
+    await expect(processCommand("move the lamp", null, null, null, null, API_KEY)).rejects.toThrow(
+      "non-zero translate or rotate"
+    );
+    const [op] = await processCommand("move the lamp back", null, null, null, null, API_KEY);
+    expect(op?.blendMode).toBe("MULTIPLY");
+    expect(op?.shapes[0]?.opacity).toBe(0);
+    expect(op?.translate).toEqual([0, 0, 2]);
+    expect(op?.rotate).toBe(90);
+    expect(op?.assetLabel).toBe("move the lamp back");
+  });
+
+  it("keeps copies as invisible region selections", async () => {
+    mockGenerateContent.mockResolvedValueOnce(
+      geminiResponse(
+        '[{"action":"copy","blendMode":"SET_RGB","invert":true,"shapes":[{"type":"CYLINDER","position":[0,0.3,0],"scale":[0.2,0.6,0.2],"opacity":1}]}]'
+      )
+    );
+
+    const [op] = await processCommand("copy this lamp", null, null, null, null, API_KEY);
+    expect(op?.action).toBe("copy");
+    expect(op?.blendMode).toBe("MULTIPLY");
+    expect(op?.invert).toBe(false);
+    expect(op?.shapes[0]?.opacity).toBe(0);
+    expect(op?.assetLabel).toBe("copy this lamp");
+  });
+
   it("falls back to candidate text extraction when response.text is missing", async () => {
     mockGenerateContent.mockResolvedValueOnce({
       candidates: [
@@ -184,6 +251,89 @@ describe("processCommand", () => {
     expect(ops[0]?.action).toBe("atmosphere");
   });
 
+  it("sends recent edits and returns a refinement target for follow-ups", async () => {
+    mockGenerateContent.mockResolvedValueOnce(
+      geminiResponse(
+        '{"refines":"edit-2","operations":[{"action":"delete","blendMode":"MULTIPLY","assetLabel":"tree","shapes":[{"type":"SPHERE","position":[3.2,2.6,-2.1],"radius":2.1}]}]}'
+      )
+    );
+
+    const ops = await processCommand("missed the top branches", null, null, null, null, API_KEY, [
+      { entryId: "edit-1", command: "make it foggy", operations: [], active: false },
+      {
+        entryId: "edit-2",
+        command: "remove this tree",
+        operations: [
+          {
+            action: "delete",
+            blendMode: "MULTIPLY",
+            shapes: [{ type: "SPHERE", position: [3.2, 2.1, -2.1], radius: 1.5 }],
+          },
+        ],
+        active: true,
+      },
+    ]);
+
+    expect(ops).toHaveLength(1);
+    expect(ops[0]?.shapes[0]?.radius).toBe(2.1);
+    expect(getLastRefinementTarget()).toBe("edit-2");
+    const text = getGenerateContentRequest(0).contents[0].parts[0].text as string;
+    expect(text).toContain('id=edit-2 status=active command="remove this tree"');
+    expect(text).toContain("id=edit-1 status=inactive");
+  });
+
+  it("sends a drawn selection in place of the click point", async () => {
+    mockGenerateContent.mockResolvedValueOnce(
+      geminiResponse(
+        '[{"action":"delete","blendMode":"MULTIPLY","shapes":[{"type":"BOX","position":[1,0.5,2],"scale":[0.4,0.5,0.4]}]}]'
+      )
+    );
+    const region = 'Selected region (drawn by the user with a lasso; replaces the click point):\n- shapes=[{"type":"BOX","position":[1,0.5,2],"scale":[0.4,0.5,0.4]}]';
+
+    await processCommand("remove this", null, null, null, null, API_KEY, [], [], { region });
+
+    const text = getGenerateContentRequest(0).contents[0].parts[0].text as string;
+    expect(text).toContain(region);
+    expect(text).not.toContain("Click world position");
+  });
+
+  it("lists every point of a selection set with its cluster hint", async () => {
+    mockGenerateContent.mockResolvedValueOnce(
+      geminiResponse(
+        '[{"action":"delete","blendMode":"MULTIPLY","shapes":[{"type":"SPHERE","position":[1,1,1],"radius":0.3}]},{"action":"delete","blendMode":"MULTIPLY","shapes":[{"type":"SPHERE","position":[4,1,1],"radius":0.3}]}]'
+      )
+    );
+
+    const ops = await processCommand("remove these lamps", null, null, null, null, API_KEY, [], [], {
+      points: [
+        {
+          position: new THREE.Vector3(1, 1, 1),
+          hint: "Selection hints (deterministic click-seeded cluster):\n- seedCell=1,1,1",
+        },
+        { position: new THREE.Vector3(4, 1, 1), hint: null },
+      ],
+    });
+
+    expect(ops).toHaveLength(2);
+    const text = getGenerateContentRequest(0).contents[0].parts[0].text as string;
+    expect(text).toContain("Selected points (2;");
+    expect(text).toContain("Point 1 world position: [1.000, 1.000, 1.000]\nSelection hints (deterministic");
+    expect(text).toContain("Point 2 world position: [4.000, 1.000, 1.000]\nSelection hints: none");
+  });
+
+  it("ignores refinement targets that are not active recent edits", async () => {
+    mockGenerateContent.mockResolvedValueOnce(
+      geminiResponse(
+        '{"refines":"edit-9","operations":[{"action":"atmosphere","blendMode":"ADD_RGBA","shapes":[{"type":"ALL","position":[0,0,0]}]}]}'
+      )
+    );
+
+    const ops = await processCommand("more fog", null, null, null, null, API_KEY);
+
+    expect(ops[0]?.action).toBe("atmosphere");
+    expect(getLastRefinementTarget()).toBeNull();
+  });
+
   it("instantiates Gemini client with provided API key", async () => {
     mockGenerateContent.mockResolvedValueOnce(
       geminiResponse(
@@ -0,0 +1,76 @@
+import * as THREE from "three";
+import { describe, expect, it, vi } from "vitest";
+import type { PlacedAssetInstance } from "../src/types";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D } = await import("three");
+
+  class SplatMesh extends Object3D {}
+  class PackedSplats {}
+  class SplatEdit extends Object3D {}
+  class SplatEditSdf extends Object3D {}
+
+  return {
+    SplatMesh,
+    PackedSplats,
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {},
+    SplatEditRgbaBlendMode: {},
+  };
+});
+
+const { pickPlacedAsset, uniformScaleFrom } = await import("../src/asset-gizmo");
+
+function makeInstance(id: string, position: [number, number, number], scale = 1): PlacedAssetInstance {
+  const mesh = new THREE.Object3D();
+  mesh.position.fromArray(position);
+  mesh.scale.setScalar(scale);
+  return {
+    id,
+    assetId: "asset",
+    label: id,
+    mesh: mesh as unknown as PlacedAssetInstance["mesh"],
+    placedAt: new Date(0),
+    localBounds: new THREE.Box3(new THREE.Vector3(-0.5, -0.5, -0.5), new THREE.Vector3(0.5, 0.5, 0.5)),
+  };
+}
+
+describe("pickPlacedAsset", () => {
+  it("returns the nearest instance whose transformed bounds the ray crosses", () => {
+    const near = makeInstance("near", [0, 0, -3]);
+    const far = makeInstance("far", [0, 0, -8]);
+    const ray = new THREE.Ray(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0, 0, -1));
+
+    expect(pickPlacedAsset(ray, [far, near])?.id).toBe("near");
+  });
+
+  it("respects each mesh's rotation and scale", () => {
+    const offset = new THREE.Ray(new THREE.Vector3(1.2, 0, 0), new THREE.Vector3(0, 0, -1));
+    const small = makeInstance("small", [0, 0, -3]);
+    expect(pickPlacedAsset(offset, [small])).toBeNull();
+
+    const scaled = makeInstance("scaled", [0, 0, -3], 3);
+    expect(pickPlacedAsset(offset, [scaled])?.id).toBe("scaled");
+
+    // A unit box turned 45° reaches ~0.707 off its axis.
+    const turned = makeInstance("turned", [0, 0, -3]);
+    turned.mesh.rotation.y = Math.PI / 4;
+    const edge = new THREE.Ray(new THREE.Vector3(0.65, 0, 0), new THREE.Vector3(0, 0, -1));
+    expect(pickPlacedAsset(edge, [small])).toBeNull();
+    expect(pickPlacedAsset(edge, [turned])?.id).toBe("turned");
+  });
+});
+
+describe("uniformScaleFrom", () => {
+  it("follows the axis dragged furthest from the starting scale", () => {
+    expect(uniformScaleFrom(1, new THREE.Vector3(1, 2.5, 1))).toBe(2.5);
+    expect(uniformScaleFrom(2, new THREE.Vector3(1.5, 1.8, 2))).toBe(1.5);
+    expect(uniformScaleFrom(1, new THREE.Vector3(1.4, 1.4, 1.4))).toBeCloseTo(1.4);
+  });
+
+  it("never collapses or mirrors the mesh", () => {
+    expect(uniformScaleFrom(1, new THREE.Vector3(1, -3, 1))).toBe(3);
+    expect(uniformScaleFrom(1, new THREE.Vector3(1, 0, 1))).toBeGreaterThan(0);
+  });
+});
@@ -1,6 +1,7 @@
 import * as THREE from "three";
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import type { SplatMesh } from "@sparkjsdev/spark";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SplatEdit, SplatMesh } from "@sparkjsdev/spark";
+import type { AssetLibraryStore, StoredAssetRecord } from "../src/asset-library";
 import type { EditOperation } from "../src/types";
 
 type MockStoredSplat = {
@@ -11,10 +12,62 @@ type MockStoredSplat = {
   color: THREE.Color;
 };
 
-const { MockPackedSplats, MockSplatMesh } = vi.hoisted(() => {
+const { MockPackedSplats, MockSplatMesh, mockFileSplats } = vi.hoisted(() => {
+  // Splats "decoded" from file bytes, keyed by file name.
+  const fileSplats = new Map<string, MockStoredSplat[]>();
+
   class PackedSplats {
     public splats: MockStoredSplat[] = [];
     public needsUpdate = false;
+    public numSplats = 0;
+    public splatEncoding?: Record<string, number>;
+    private restoredArray: Uint32Array | null = null;
+
+    public initialized: Promise<PackedSplats> = Promise.resolve(this);
+
+    constructor(options?: {
+      packedArray?: Uint32Array;
+      numSplats?: number;
+      splatEncoding?: Record<string, number>;
+      fileBytes?: Uint8Array;
+      fileName?: string;
+    }) {
+      if (options?.fileBytes) {
+        this.splats = (fileSplats.get(options.fileName ?? "") ?? []).map((splat) => ({
+          ...splat,
+        }));
+        this.numSplats = this.splats.length;
+      }
+      if (options?.packedArray) {
+        this.restoredArray = options.packedArray;
+        this.numSplats = options.numSplats ?? options.packedArray.length / 4;
+        this.splatEncoding = options.splatEncoding;
+      }
+    }
+
+    // 4 words per splat like Spark: center xyz float bits + opacity byte.
+    get packedArray(): Uint32Array {
+      if (this.restoredArray) {
+        return this.restoredArray;
+      }
+      const words = new Uint32Array(this.splats.length * 4 + 4);
+      const floats = new Float32Array(words.buffer);
+      this.splats.forEach((splat, i) => {
+        floats[i * 4] = splat.center.x;
+        floats[i * 4 + 1] = splat.center.y;
+        floats[i * 4 + 2] = splat.center.z;
+        words[i * 4 + 3] = Math.round(splat.opacity * 255);
+      });
+      return words;
+    }
+
+    dispose() {}
+
+    forEachSplat(callback: (index: number, ...rest: unknown[]) => void) {
+      this.splats.forEach((splat, i) =>
+        callback(i, splat.center, splat.scales, splat.quaternion, splat.opacity, splat.color)
+      );
+    }
 
     pushSplat(
       center: THREE.Vector3,
@@ -30,6 +83,7 @@ const { MockPackedSplats, MockSplatMesh } = vi.hoisted(() => {
         opacity,
         color: color.clone(),
       });
+      this.numSplats = this.splats.length;
     }
   }
 
@@ -47,16 +101,20 @@ const { MockPackedSplats, MockSplatMesh } = vi.hoisted(() => {
   return {
     MockPackedSplats: PackedSplats,
     MockSplatMesh: SplatMesh,
+    mockFileSplats: fileSplats,
   };
 });
 
 vi.mock("@sparkjsdev/spark", () => ({
   PackedSplats: MockPackedSplats,
   SplatMesh: MockSplatMesh,
+  SplatEditSdfType: { SPHERE: "sphere" },
+  SplatEditRgbaBlendMode: { MULTIPLY: "multiply", SET_RGB: "set_rgb", ADD_RGBA: "add_rgba" },
 }));
 
 beforeEach(() => {
   vi.resetModules();
+  mockFileSplats.clear();
 });
 
 describe("asset-library extraction", () => {
@@ -170,6 +228,44 @@ describe("asset-library extraction", () => {
     expect(entry?.splatCount).toBeGreaterThan(1);
   });
 
+  it("returns null from a strict capture instead of falling back", async () => {
+    const { captureRegionSplats } = await import("../src/asset-library");
+
+    const mesh = makeMesh([
+      ...repeatPoint(new THREE.Vector3(0.25, 0, 0), 14),
+      ...repeatPoint(new THREE.Vector3(2.5, 2.5, 2.5), 6),
+    ]);
+    const near = deleteOp({ type: "SPHERE", position: [0, 0, 0], radius: 0.01 });
+    const far = deleteOp({ type: "BOX", position: [100, 100, 100], scale: [0.1, 0.1, 0.1] });
+
+    expect(captureRegionSplats(near, mesh, "scene-strict", { strict: true })).toBeNull();
+    expect(captureRegionSplats(far, mesh, "scene-strict", { strict: true })).toBeNull();
+  });
+
+  it("captures the region as edits already in effect leave it", async () => {
+    const { captureRegionSplats } = await import("../src/asset-library");
+
+    const mesh = makeMesh([
+      ...repeatPoint(new THREE.Vector3(0, 0, 0), 10),
+      ...repeatPoint(new THREE.Vector3(0.5, 0, 0), 10),
+    ]);
+    const deleted = makeEdit("multiply", makeSphereSdf([0, 0, 0], 0.1, [1, 1, 1], 0));
+    const recolored = makeEdit("set_rgb", makeSphereSdf([0.5, 0, 0], 0.1, [0.9, 0.1, 0.1], 1));
+    const op = deleteOp({ type: "SPHERE", position: [0, 0, 0], radius: 1 });
+
+    const entry = captureRegionSplats(op, mesh, "scene-edits", {
+      strict: true,
+      edits: [deleted, recolored],
+    });
+    expect(entry?.splatCount).toBe(10);
+    const [first] = (entry?.splats as unknown as { splats: MockStoredSplat[] }).splats;
+    expect(first.color.r).toBeCloseTo(0.9);
+    expect(first.color.g).toBeCloseTo(0.1);
+
+    const hidden = makeEdit("multiply", makeSphereSdf([0, 0, 0], 2, [1, 1, 1], 0));
+    expect(captureRegionSplats(op, mesh, "scene-edits", { strict: true, edits: [hidden] })).toBeNull();
+  });
+
   it("normalizes extracted positions around centroid and keeps world bounds", async () => {
     const { extractAssetFromDeleteOperation } = await import("../src/asset-library");
 
@@ -219,6 +315,287 @@ describe("asset-library storage and placement", () => {
   });
 });
 
+describe("asset-library persistence", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("rehydrates extracted assets from the store after a reload", async () => {
+    const store = makeMemoryStore();
+    vi.stubGlobal("fetch", async () => new Response("[]"));
+
+    const first = await import("../src/asset-library");
+    first.setAssetLibraryStore(store);
+    await first.ensureDefaultLibraryAsset();
+    const entry = first.extractAssetFromDeleteOperation(
+      deleteOp({ type: "SPHERE", position: [1, 0, 0], radius: 1.0 }),
+      makeMesh([
+        ...repeatPoint(new THREE.Vector3(1.2, 0, 0), 10),
+        ...repeatPoint(new THREE.Vector3(0.8, 0.4, 0), 10),
+      ]),
+      "scene-e"
+    )!;
+    first.addAsset(entry);
+    await vi.waitFor(() => expect(store.records.size).toBe(1));
+
+    vi.resetModules();
+    const second = await import("../src/asset-library");
+    second.setAssetLibraryStore(store);
+    await second.ensureDefaultLibraryAsset();
+
+    const restored = second.getAssetById(entry.id);
+    expect(second.listAssets()).toHaveLength(1);
+    expect(restored).toMatchObject({
+      label: "pillow",
+      sourceScene: "scene-e",
+      splatCount: 20,
+      thumbnailDataUrl: entry.thumbnailDataUrl,
+    });
+    expect(restored!.extractedAt.getTime()).toBe(entry.extractedAt.getTime());
+    expect(restored!.originalPosition.toArray()).toEqual(entry.originalPosition.toArray());
+    expect(restored!.bounds.equals(entry.bounds)).toBe(true);
+    expect(restored!.splats.numSplats).toBe(20);
+    expect(Array.from(restored!.splats.packedArray!)).toEqual(
+      Array.from(entry.splats.packedArray!.subarray(0, 80))
+    );
+  });
+
+  it("persists renames and deletes but leaves builtins alone", async () => {
+    const store = makeMemoryStore();
+    const {
+      addAsset,
+      deleteAsset,
+      extractAssetFromDeleteOperation,
+      getAssetById,
+      renameAsset,
+      setAssetLibraryStore,
+    } = await import("../src/asset-library");
+    setAssetLibraryStore(store);
+
+    const entry = extractAssetFromDeleteOperation(
+      deleteOp({ type: "SPHERE", position: [0, 0, 0], radius: 1.0 }),
+      makeMesh(repeatPoint(new THREE.Vector3(0, 0, 0), 12)),
+      "scene-f"
+    )!;
+    addAsset(entry);
+    const builtin = { ...entry, id: "builtin_chair", label: "chair", sourceScene: "builtin" };
+    addAsset(builtin);
+
+    expect(renameAsset(entry.id, "  reading lamp ")?.label).toBe("reading lamp");
+    await vi.waitFor(() => expect(store.records.get(entry.id)?.label).toBe("reading lamp"));
+    expect(renameAsset(entry.id, "   ")).toBeNull();
+    expect(renameAsset(builtin.id, "stool")).toBeNull();
+    expect(store.records.has(builtin.id)).toBe(false);
+
+    expect(deleteAsset(builtin.id)).toBe(false);
+    expect(deleteAsset(entry.id)).toBe(true);
+    expect(getAssetById(entry.id)).toBeUndefined();
+    await vi.waitFor(() => expect(store.records.size).toBe(0));
+    expect(deleteAsset(entry.id)).toBe(false);
+  });
+});
+
+describe("asset-library thumbnails", () => {
+  it("renders placeholder thumbnails in the background and notifies listeners", async () => {
+    const store = makeMemoryStore();
+    const {
+      addAsset,
+      extractAssetFromDeleteOperation,
+      onAssetLibraryChange,
+      setAssetLibraryStore,
+      setAssetThumbnailRenderer,
+    } = await import("../src/asset-library");
+    setAssetLibraryStore(store);
+    const entry = extractAssetFromDeleteOperation(
+      deleteOp({ type: "SPHERE", position: [0, 0, 0], radius: 1.0 }),
+      makeMesh(repeatPoint(new THREE.Vector3(0, 0, 0), 8)),
+      "scene-g"
+    )!;
+    const rendered = {
+      ...entry,
+      id: "asset_rendered",
+      thumbnailDataUrl: "data:image/png;base64,QQ==",
+    };
+    addAsset(rendered);
+    addAsset(entry);
+
+    const render = vi.fn(
+      async (asset: { label: string }) => `data:image/png;base64,${btoa(asset.label)}`
+    );
+    const changed = vi.fn();
+    onAssetLibraryChange(changed);
+    setAssetThumbnailRenderer(render);
+
+    await vi.waitFor(() => expect(changed).toHaveBeenCalledTimes(1));
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(render).toHaveBeenCalledWith(entry);
+    expect(entry.thumbnailDataUrl).toBe(`data:image/png;base64,${btoa("pillow")}`);
+    await vi.waitFor(() =>
+      expect(store.records.get(entry.id)?.thumbnailDataUrl).toBe(entry.thumbnailDataUrl)
+    );
+  });
+
+  it("keeps the placeholder when rendering fails", async () => {
+    const { addAsset, extractAssetFromDeleteOperation, setAssetThumbnailRenderer } = await import(
+      "../src/asset-library"
+    );
+    const render = vi.fn(async () => {
+      throw new Error("context lost");
+    });
+    setAssetThumbnailRenderer(render);
+    const entry = extractAssetFromDeleteOperation(
+      deleteOp({ type: "SPHERE", position: [0, 0, 0], radius: 1.0 }),
+      makeMesh(repeatPoint(new THREE.Vector3(0, 0, 0), 8)),
+      "scene-h"
+    )!;
+    const placeholder = entry.thumbnailDataUrl;
+
+    addAsset(entry);
+
+    await vi.waitFor(() => expect(render).toHaveBeenCalledTimes(1));
+    await Promise.resolve();
+    expect(entry.thumbnailDataUrl).toBe(placeholder);
+    expect(placeholder.startsWith("data:image/svg+xml")).toBe(true);
+  });
+});
+
+describe("asset-library file import and export", () => {
+  it("imports dropped files centered on their centroid", async () => {
+    const { importAssetFiles, listAssets } = await import("../src/asset-library");
+    mockFileSplats.set("Brass_Lamp.spz", [
+      ...repeatPoint(new THREE.Vector3(2, 1, 0), 4),
+      ...repeatPoint(new THREE.Vector3(4, 1, 0), 4),
+    ].map(toStoredSplat));
+
+    const result = await importAssetFiles([
+      { name: "Brass_Lamp.spz", bytes: new Uint8Array([1, 2, 3]) },
+      { name: "notes.txt", bytes: new Uint8Array() },
+    ]);
+
+    expect(result.failed).toEqual([
+      { name: "notes.txt", reason: "unsupported file type (expected .spz or .ply)" },
+    ]);
+    expect(result.imported).toHaveLength(1);
+    const [asset] = result.imported;
+    expect(listAssets()).toEqual([asset]);
+    expect(asset).toMatchObject({
+      label: "Brass Lamp",
+      sourceScene: "import:Brass_Lamp.spz",
+      splatCount: 8,
+    });
+    expect(asset.originalPosition.toArray()).toEqual([3, 1, 0]);
+    const stored = asset.splats as unknown as InstanceType<typeof MockPackedSplats>;
+    expect(stored.splats.map((splat) => splat.center.x)).toEqual([-1, -1, -1, -1, 1, 1, 1, 1]);
+  });
+
+  it("round-trips label, source scene and placement through the metadata sidecar", async () => {
+    const {
+      extractAssetFromDeleteOperation,
+      getAssetExportFileNames,
+      importAssetFiles,
+      serializeAssetMetadata,
+    } = await import("../src/asset-library");
+    const entry = extractAssetFromDeleteOperation(
+      deleteOp({ type: "SPHERE", position: [5, 0, 0], radius: 1.0 }),
+      makeMesh(repeatPoint(new THREE.Vector3(5.2, 0.5, 0), 6)),
+      "library.spz"
+    )!;
+
+    const names = getAssetExportFileNames(entry, "ply");
+    expect(names).toEqual({ fileName: "pillow.ply", metadataFileName: "pillow.asset.json" });
+    // The exported file holds the already-centered splats.
+    mockFileSplats.set(
+      names.fileName,
+      (entry.splats as unknown as InstanceType<typeof MockPackedSplats>).splats
+    );
+
+    const { imported, failed } = await importAssetFiles([
+      {
+        name: names.metadataFileName,
+        bytes: new TextEncoder().encode(serializeAssetMetadata(entry, names.fileName)),
+      },
+      { name: names.fileName, bytes: new Uint8Array([0]) },
+    ]);
+
+    expect(failed).toEqual([]);
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({
+      label: "pillow",
+      sourceScene: "library.spz",
+      splatCount: 6,
+    });
+    expect(imported[0].id).not.toBe(entry.id);
+    expect(imported[0].extractedAt.toISOString()).toBe(entry.extractedAt.toISOString());
+    expect(imported[0].originalPosition.distanceTo(entry.originalPosition)).toBeLessThan(1e-9);
+    expect(imported[0].bounds.equals(entry.bounds)).toBe(true);
+  });
+
+  it("treats a re-imported builtin export as an ordinary, deletable asset", async () => {
+    const {
+      deleteAsset,
+      extractAssetFromDeleteOperation,
+      importAssetFiles,
+      isBuiltinAsset,
+      serializeAssetMetadata,
+    } = await import("../src/asset-library");
+    const entry = extractAssetFromDeleteOperation(
+      deleteOp({ type: "SPHERE", position: [0, 0, 0], radius: 1.0 }),
+      makeMesh(repeatPoint(new THREE.Vector3(0.2, 0, 0), 4)),
+      "builtin"
+    )!;
+    mockFileSplats.set(
+      "butterfly.spz",
+      (entry.splats as unknown as InstanceType<typeof MockPackedSplats>).splats
+    );
+
+    const { imported } = await importAssetFiles([
+      {
+        name: "butterfly.asset.json",
+        bytes: new TextEncoder().encode(serializeAssetMetadata(entry, "butterfly.spz")),
+      },
+      { name: "butterfly.spz", bytes: new Uint8Array([0]) },
+    ]);
+
+    expect(imported[0].sourceScene).toBe("builtin");
+    expect(isBuiltinAsset(imported[0])).toBe(false);
+    expect(deleteAsset(imported[0].id)).toBe(true);
+  });
+
+  it("reports files without splats as failures", async () => {
+    const { importAssetFiles, listAssets } = await import("../src/asset-library");
+
+    const result = await importAssetFiles([{ name: "empty.ply", bytes: new Uint8Array([0]) }]);
+
+    expect(result.imported).toEqual([]);
+    expect(result.failed).toEqual([{ name: "empty.ply", reason: "file contains no splats" }]);
+    expect(listAssets()).toHaveLength(0);
+  });
+});
+
+function toStoredSplat(center: THREE.Vector3): MockStoredSplat {
+  return {
+    center,
+    scales: new THREE.Vector3(0.03, 0.03, 0.03),
+    quaternion: new THREE.Quaternion(0, 0, 0, 1),
+    opacity: 1,
+    color: new THREE.Color(0.55, 0.5, 0.45),
+  };
+}
+
+function makeMemoryStore(): AssetLibraryStore & { records: Map<string, StoredAssetRecord> } {
+  const records = new Map<string, StoredAssetRecord>();
+  return {
+    records,
+    list: async () => Array.from(records.values(), (record) => structuredClone(record)),
+    put: async (record) => {
+      records.set(record.id, structuredClone(record));
+    },
+    delete: async (id) => {
+      records.delete(id);
+    },
+  };
+}
+
 function deleteOp(shape: EditOperation["shapes"][number]): EditOperation {
   return {
     action: "delete",
@@ -229,6 +606,40 @@ function deleteOp(shape: EditOperation["shapes"][number]): EditOperation {
   };
 }
 
+// Just the SplatEdit/SplatEditSdf fields the bake compiler reads.
+function makeSphereSdf(
+  position: [number, number, number],
+  radius: number,
+  color: [number, number, number],
+  opacity: number
+): THREE.Object3D {
+  const sdf = new THREE.Object3D();
+  sdf.type = "sphere";
+  sdf.position.set(...position);
+  Object.assign(sdf, {
+    radius,
+    invert: false,
+    opacity,
+    color: new THREE.Color(...color),
+    displace: new THREE.Vector3(),
+  });
+  return sdf;
+}
+
+let nextEditOrdering = 0;
+function makeEdit(blendMode: string, sdf: THREE.Object3D): SplatEdit {
+  const edit = new THREE.Object3D();
+  Object.assign(edit, {
+    ordering: nextEditOrdering++,
+    rgbaBlendMode: blendMode,
+    softEdge: 0,
+    sdfSmooth: 0,
+    invert: false,
+    sdfs: [sdf],
+  });
+  return edit as unknown as SplatEdit;
+}
+
 function repeatPoint(point: THREE.Vector3, count: number): THREE.Vector3[] {
   return Array.from({ length: count }, () => point.clone());
 }
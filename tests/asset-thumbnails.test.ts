@@ -0,0 +1,72 @@
+import * as THREE from "three";
+import { describe, expect, it, vi } from "vitest";
+import {
+  computeThumbnailCamera,
+  getAssetLocalBounds,
+  THUMBNAIL_HEIGHT,
+  THUMBNAIL_WIDTH,
+} from "../src/asset-thumbnails";
+import type { AssetEntry } from "../src/types";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D } = await import("three");
+
+  class SparkRenderer extends Object3D {}
+
+  return { SparkRenderer };
+});
+
+describe("computeThumbnailCamera", () => {
+  it.each([
+    ["tall", new THREE.Vector3(0.4, 2.5, 0.4)],
+    ["wide", new THREE.Vector3(3, 0.3, 1)],
+    ["tiny", new THREE.Vector3(0.01, 0.01, 0.01)],
+  ])("keeps every corner of a %s asset inside the frame", (_, size) => {
+    const bounds = new THREE.Box3().setFromCenterAndSize(new THREE.Vector3(1, -2, 0.5), size);
+    const aspect = THUMBNAIL_WIDTH / THUMBNAIL_HEIGHT;
+
+    for (const azimuth of [0, Math.PI / 3, Math.PI, 5]) {
+      const fit = computeThumbnailCamera(bounds, azimuth, 35, aspect);
+      const camera = new THREE.PerspectiveCamera(35, aspect, fit.near, fit.far);
+      camera.position.copy(fit.position);
+      camera.lookAt(fit.target);
+      camera.updateMatrixWorld(true);
+
+      expect(fit.target.toArray()).toEqual(bounds.getCenter(new THREE.Vector3()).toArray());
+      expect(fit.position.y).toBeGreaterThan(fit.target.y);
+      for (const corner of boxCorners(bounds)) {
+        const ndc = corner.project(camera);
+        expect(Math.abs(ndc.x)).toBeLessThanOrEqual(1);
+        expect(Math.abs(ndc.y)).toBeLessThanOrEqual(1);
+        expect(Math.abs(ndc.z)).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+});
+
+describe("getAssetLocalBounds", () => {
+  it("re-centers world extraction bounds on the asset centroid", () => {
+    const asset = {
+      originalPosition: new THREE.Vector3(4, 1, -2),
+      bounds: new THREE.Box3(new THREE.Vector3(3, 0, -3), new THREE.Vector3(6, 3, -1)),
+    } as AssetEntry;
+
+    const local = getAssetLocalBounds(asset);
+
+    expect(local.min.toArray()).toEqual([-1, -1, -1]);
+    expect(local.max.toArray()).toEqual([2, 2, 1]);
+    expect(asset.bounds.min.toArray()).toEqual([3, 0, -3]);
+  });
+});
+
+function boxCorners(box: THREE.Box3): THREE.Vector3[] {
+  const corners: THREE.Vector3[] = [];
+  for (const x of [box.min.x, box.max.x]) {
+    for (const y of [box.min.y, box.max.y]) {
+      for (const z of [box.min.z, box.max.z]) {
+        corners.push(new THREE.Vector3(x, y, z));
+      }
+    }
+  }
+  return corners;
+}
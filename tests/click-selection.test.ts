@@ -1,6 +1,7 @@
 import * as THREE from "three";
 import { describe, expect, it } from "vitest";
 import { buildLocalSelection, formatSelectionHint } from "../src/click-selection";
+import type { SplatSource } from "../src/surface";
 import type { SpatialGrid, VoxelCell } from "../src/types";
 
 describe("click-selection", () => {
@@ -47,6 +48,136 @@ describe("click-selection", () => {
     expect(hint).toContain("Selection hints");
     expect(hint).toContain("recommendedShape=BOX");
   });
+
+  it("refines the cluster to the splats connected to the click by position and color", () => {
+    // A red bar tilted 30 degrees in XZ, touching a grey wall inside the same cells.
+    const axis = new THREE.Vector3(Math.cos(Math.PI / 6), 0, Math.sin(Math.PI / 6));
+    const side = new THREE.Vector3(-axis.z, 0, axis.x);
+    const splats: Array<{ position: THREE.Vector3; color: [number, number, number] }> = [];
+    for (let t = -0.6; t <= 0.601; t += 0.05) {
+      for (let u = -0.08; u <= 0.081; u += 0.04) {
+        for (let v = -0.08; v <= 0.081; v += 0.04) {
+          const position = new THREE.Vector3(1.5, 1, 1)
+            .addScaledVector(axis, t)
+            .addScaledVector(side, u)
+            .add(new THREE.Vector3(0, v, 0));
+          splats.push({ position, color: [0.8, 0.1, 0.1] });
+        }
+      }
+    }
+    const barCount = splats.length;
+    for (let x = 1; x <= 2.001; x += 0.05) {
+      for (let y = 0.6; y <= 1.401; y += 0.05) {
+        splats.push({ position: new THREE.Vector3(x, y, 1.42), color: [0.6, 0.6, 0.6] });
+      }
+    }
+
+    const left = makeCell([1, 1, 1], [1, 1, 1], [0.7, 0.35, 0.35], 100);
+    const right = makeCell([2, 1, 1], [2, 1, 1], [0.7, 0.35, 0.35], 100);
+    splats.forEach((splat, index) => {
+      (splat.position.x < 1.5 ? left : right).splatIndices.push(index);
+    });
+    const source: SplatSource = {
+      read(index, center, color) {
+        const splat = splats[index];
+        if (!splat) return false;
+        center.copy(splat.position);
+        color?.setRGB(...splat.color);
+        return true;
+      },
+    };
+
+    const grid = makeGrid([6, 6, 6], [left, right]);
+    const click = new THREE.Vector3(1.4, 1, 1 - 0.1 * Math.tan(Math.PI / 6));
+    const result = buildLocalSelection(grid, click, { splats: source });
+
+    expect(result?.refinement).toMatchObject({
+      candidateSplats: splats.length,
+      componentSplats: barCount,
+    });
+    expect(result?.diagnostics.reason).toContain("splatRefined");
+    expect(result?.clusterBounds.max.z).toBeLessThan(1.4);
+
+    const shape = result!.suggestedShape;
+    expect(shape.type).toBe("ELLIPSOID");
+    expect(shape.rotation).toBeDefined();
+    const long = new THREE.Vector3(1, 0, 0).applyQuaternion(
+      new THREE.Quaternion().fromArray(shape.rotation!)
+    );
+    expect(Math.abs(long.dot(axis))).toBeGreaterThan(0.99);
+    expect(shape.scale![0]).toBeGreaterThan(0.6);
+    expect(shape.scale![1]).toBeLessThan(0.15);
+    expect(new THREE.Vector3(...shape.position).distanceTo(new THREE.Vector3(1.5, 1, 1))).toBeLessThan(
+      0.05
+    );
+    expect(formatSelectionHint(result!)).toContain("rotation=[");
+  });
+
+  it("fits a rotated BOX when the longest splat extent is under 1.8x the next", () => {
+    // A flat red plate, 1.0 x 0.7, turned 30 degrees in XZ.
+    const axis = new THREE.Vector3(Math.cos(Math.PI / 6), 0, Math.sin(Math.PI / 6));
+    const side = new THREE.Vector3(-axis.z, 0, axis.x);
+    const positions: THREE.Vector3[] = [];
+    for (let t = -0.5; t <= 0.501; t += 0.05) {
+      for (let u = -0.35; u <= 0.351; u += 0.05) {
+        for (let v = -0.04; v <= 0.041; v += 0.04) {
+          positions.push(
+            new THREE.Vector3(1.5, 1, 1).addScaledVector(axis, t).addScaledVector(side, u).setY(1 + v)
+          );
+        }
+      }
+    }
+
+    const left = makeCell([1, 1, 1], [1, 1, 1], [0.8, 0.1, 0.1], 100);
+    const right = makeCell([2, 1, 1], [2, 1, 1], [0.8, 0.1, 0.1], 100);
+    positions.forEach((position, index) => {
+      (position.x < 1.5 ? left : right).splatIndices.push(index);
+    });
+    const source: SplatSource = {
+      read(index, center, color) {
+        const position = positions[index];
+        if (!position) return false;
+        center.copy(position);
+        color?.setRGB(0.8, 0.1, 0.1);
+        return true;
+      },
+    };
+
+    const grid = makeGrid([6, 6, 6], [left, right]);
+    const result = buildLocalSelection(grid, new THREE.Vector3(1.5, 1, 1), { splats: source });
+
+    expect(result?.refinement?.componentSplats).toBe(positions.length);
+    const shape = result?.suggestedShape;
+    expect(shape?.type).toBe("BOX");
+    expect(shape?.rotation).toBeDefined();
+    const long = new THREE.Vector3(1, 0, 0).applyQuaternion(
+      new THREE.Quaternion().fromArray(shape?.rotation ?? [0, 0, 0, 1])
+    );
+    expect(Math.abs(long.dot(axis))).toBeGreaterThan(0.99);
+  });
+
+  it("keeps the cell-level result when too few splats connect to the click", () => {
+    const cells = [
+      makeCell([4, 4, 4], [4, 4, 4], [0.5, 0.4, 0.3], 50),
+      makeCell([5, 4, 4], [5, 4, 4], [0.52, 0.42, 0.28], 50),
+    ];
+    cells[0].splatIndices.push(0, 1, 2);
+    const grid = makeGrid([10, 10, 10], cells);
+    const source: SplatSource = {
+      read(index, center) {
+        center.set(4 + index * 0.1, 4, 4);
+        return true;
+      },
+    };
+    const result = buildLocalSelection(grid, new THREE.Vector3(4, 4, 4), {
+      colorDistanceThreshold: 0.08,
+      splats: source,
+    });
+
+    expect(result?.refinement).toBeNull();
+    expect(result?.diagnostics.reason).toContain("splatsTooFew");
+    expect(result?.suggestedShape.rotation).toBeUndefined();
+  });
 });
 
 function makeGrid(
@@ -0,0 +1,151 @@
+import * as THREE from "three";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SimilarityTransform } from "../src/compositing";
+import type { AssetEntry } from "../src/types";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D } = await import("three");
+
+  class SplatMesh extends Object3D {}
+  class PackedSplats {}
+  class SplatEdit extends Object3D {}
+  class SplatEditSdf extends Object3D {}
+
+  return {
+    SplatMesh,
+    PackedSplats,
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {},
+    SplatEditRgbaBlendMode: {},
+  };
+});
+
+beforeEach(() => {
+  vi.resetModules();
+});
+
+async function loadModules() {
+  const executor = await import("../src/executor");
+  const compositing = await import("../src/compositing");
+  return { executor, compositing };
+}
+
+describe("solveSimilarityTransform", () => {
+  it("recovers a known scale, rotation and translation from three anchors", async () => {
+    const { compositing } = await loadModules();
+    const known: SimilarityTransform = {
+      scale: 1.75,
+      quaternion: new THREE.Quaternion().setFromAxisAngle(
+        new THREE.Vector3(1, 2, -0.5).normalize(),
+        2.2
+      ),
+      translation: new THREE.Vector3(4, -1, 0.5),
+    };
+    const source = [
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(1.2, 0.1, -0.4),
+      new THREE.Vector3(-0.3, 0.9, 0.8),
+    ];
+    const target = source.map((point) => compositing.applySimilarityTransform(known, point));
+
+    const solved = compositing.solveSimilarityTransform(source, target);
+
+    expect(solved).not.toBeNull();
+    expect(solved!.scale).toBeCloseTo(1.75, 6);
+    expect(Math.abs(solved!.quaternion.dot(known.quaternion))).toBeCloseTo(1, 6);
+    expect(solved!.translation.distanceTo(known.translation)).toBeLessThan(1e-6);
+    const probe = new THREE.Vector3(2, -3, 1);
+    expect(
+      compositing
+        .applySimilarityTransform(solved!, probe)
+        .distanceTo(compositing.applySimilarityTransform(known, probe))
+    ).toBeLessThan(1e-6);
+  });
+
+  it("rejects collinear or too few anchors", async () => {
+    const { compositing } = await loadModules();
+    const line = [0, 1, 2].map((t) => new THREE.Vector3(t, t * 2, 0));
+    const plane = [
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Vector3(0, 0, 1),
+    ];
+
+    expect(compositing.solveSimilarityTransform(line, plane)).toBeNull();
+    expect(compositing.solveSimilarityTransform(plane, line)).toBeNull();
+    expect(compositing.solveSimilarityTransform(plane.slice(0, 2), plane.slice(0, 2))).toBeNull();
+  });
+});
+
+describe("alignGroundPlanes", () => {
+  it("stands a region from a flipped scene upright on the target floor", async () => {
+    const { compositing } = await loadModules();
+    // Source scene kept its OpenCV frame: the floor normal points down -Y.
+    const sourcePoint = new THREE.Vector3(1, 2, 3);
+    const sourceNormal = new THREE.Vector3(0, -1, 0);
+    const targetPoint = new THREE.Vector3(-2, 0, 5);
+    const targetNormal = new THREE.Vector3(0, 1, 0);
+
+    const transform = compositing.alignGroundPlanes(
+      sourcePoint,
+      sourceNormal,
+      targetPoint,
+      targetNormal,
+      { yaw: Math.PI / 2 }
+    );
+
+    expect(
+      compositing.applySimilarityTransform(transform, sourcePoint).distanceTo(targetPoint)
+    ).toBeLessThan(1e-9);
+    const above = sourcePoint.clone().addScaledVector(sourceNormal, 1);
+    const mapped = compositing.applySimilarityTransform(transform, above).sub(targetPoint);
+    expect(mapped.distanceTo(targetNormal)).toBeLessThan(1e-9);
+  });
+});
+
+describe("pasteRegion", () => {
+  it("adds the region as one step that undo and redo toggle", async () => {
+    const { executor, compositing } = await loadModules();
+    const target = new THREE.Scene();
+    const clipboard = compositing.createRegionClipboard(makeAsset(), "library.spz");
+    expect(clipboard.groundPoint.toArray()).toEqual([0, 0, 0]);
+    expect(clipboard.groundNormal.toArray()).toEqual([0, 1, 0]);
+
+    const transform = compositing.alignGroundPlanes(
+      clipboard.groundPoint,
+      clipboard.groundNormal,
+      new THREE.Vector3(3, 1, -2),
+      new THREE.Vector3(0, 1, 0),
+      { scale: 2 }
+    );
+    const mesh = compositing.pasteRegion(clipboard, transform, target);
+
+    expect(mesh.parent).toBe(target);
+    // The asset center sits 0.5 above its ground point, doubled by the scale.
+    expect(mesh.position.toArray()).toEqual([3, 2, -2]);
+    expect(mesh.scale.x).toBe(2);
+    expect(executor.getHistoryEntries().map((entry) => entry.command)).toEqual([
+      "Paste lamp from library.spz",
+    ]);
+
+    executor.undoLastEdit();
+    expect(mesh.parent).toBeNull();
+    executor.redoEdit();
+    expect(mesh.parent).toBe(target);
+  });
+});
+
+function makeAsset(): AssetEntry {
+  return {
+    id: "asset-lamp",
+    label: "lamp",
+    sourceScene: "library.spz",
+    extractedAt: new Date(0),
+    splats: {} as AssetEntry["splats"],
+    thumbnailDataUrl: "",
+    originalPosition: new THREE.Vector3(0, 0.5, 0),
+    bounds: new THREE.Box3(new THREE.Vector3(-0.5, 0, -0.5), new THREE.Vector3(0.5, 1, 0.5)),
+    splatCount: 10,
+  };
+}
@@ -0,0 +1,380 @@
+import * as THREE from "three";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { EditOperation } from "../src/types";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D, Color, Vector3 } = await import("three");
+
+  class SplatEditSdf extends Object3D {
+    public radius = 0;
+    public opacity = 1;
+    public color = new Color(1, 1, 1);
+    public displace = new Vector3();
+    public sdfType: string;
+
+    constructor(options: { type?: string } = {}) {
+      super();
+      this.sdfType = options.type ?? "sphere";
+    }
+  }
+
+  class SplatEdit extends Object3D {
+    public sdfs: SplatEditSdf[] = [];
+    public options: Record<string, unknown>;
+
+    constructor(options: Record<string, unknown> = {}) {
+      super();
+      this.options = options;
+    }
+
+    addSdf(sdf: SplatEditSdf) {
+      this.sdfs.push(sdf);
+    }
+  }
+
+  return {
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {
+      ALL: "all",
+      PLANE: "plane",
+      SPHERE: "sphere",
+      BOX: "box",
+      ELLIPSOID: "ellipsoid",
+      CYLINDER: "cylinder",
+      CAPSULE: "capsule",
+      INFINITE_CONE: "infinite_cone",
+    },
+    SplatEditRgbaBlendMode: {
+      MULTIPLY: "multiply",
+      SET_RGB: "set_rgb",
+      ADD_RGBA: "add_rgba",
+    },
+  };
+});
+
+beforeEach(() => {
+  vi.resetModules();
+});
+
+describe("executor history", () => {
+  it("records one history entry per command with its operations and metadata", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+
+    const ops = [recolorOp(0), recolorOp(1)];
+    const edits = executor.executeOperations(ops, mesh, {
+      command: "paint it red",
+      provider: "gemini",
+    });
+
+    expect(edits).toHaveLength(2);
+    expect(mesh.children).toHaveLength(2);
+
+    const entries = executor.getHistoryEntries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.command).toBe("paint it red");
+    expect(entries[0]?.provider).toBe("gemini");
+    expect(entries[0]?.operations).toBe(ops);
+    expect(executor.getEditHistory()).toHaveLength(2);
+  });
+
+  it("undoes and redoes an entry without recreating its edits", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+
+    const [edit] = executor.executeOperations([recolorOp(0)], mesh, { command: "a" });
+    expect(executor.undoLastEdit()).toBe(true);
+    expect(mesh.children).toHaveLength(0);
+    expect(executor.getEditHistory()).toHaveLength(0);
+
+    expect(executor.redoEdit()).toBe(true);
+    expect(mesh.children).toEqual([edit]);
+    expect(executor.getEditHistory()).toEqual([edit]);
+    expect(executor.redoEdit()).toBe(false);
+  });
+
+  it("forks a branch when applying after undo and keeps the old future redoable", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+
+    executor.executeOperations([recolorOp(0)], mesh, { command: "first" });
+    executor.executeOperations([recolorOp(1)], mesh, { command: "second" });
+    executor.undoLastEdit();
+    executor.executeOperations([recolorOp(2)], mesh, { command: "third" });
+
+    expect(executor.getHistoryEntries().map((entry) => entry.command)).toEqual([
+      "first",
+      "third",
+    ]);
+
+    executor.undoLastEdit();
+    const branches = executor.getRedoBranches();
+    expect(branches.map((entry) => entry.command)).toEqual(["second", "third"]);
+
+    // Default redo follows the most recently visited branch.
+    executor.redoEdit();
+    expect(executor.getHistoryEntries().map((entry) => entry.command)).toEqual([
+      "first",
+      "third",
+    ]);
+
+    executor.undoLastEdit();
+    executor.redoEdit(branches[0]!.id);
+    expect(executor.getHistoryEntries().map((entry) => entry.command)).toEqual([
+      "first",
+      "second",
+    ]);
+    expect(mesh.children).toHaveLength(2);
+  });
+
+  it("routes atmosphere edits to the scene and restores them there on redo", async () => {
+    const executor = await import("../src/executor");
+    const { scene, mesh } = makeSceneWithMesh();
+
+    const [edit] = executor.executeOperations([atmosphereOp()], mesh);
+    expect(edit?.parent).toBe(scene);
+
+    executor.undoLastEdit();
+    expect(scene.children).not.toContain(edit);
+    executor.redoEdit();
+    expect(edit?.parent).toBe(scene);
+  });
+
+  it("swaps a refined entry's edits in one undoable step", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+
+    const [first] = executor.executeOperations([recolorOp(0)], mesh, { command: "remove tree" });
+    const [wider] = executor.executeOperations([recolorOp(3)], mesh, {
+      command: "missed the top branches",
+      replaces: executor.getCurrentHistoryEntryId() ?? undefined,
+    });
+
+    expect(mesh.children).toEqual([wider]);
+    expect(executor.getEditHistory()).toEqual([wider]);
+    expect(executor.getHistoryEntries().map((entry) => entry.command)).toEqual([
+      "missed the top branches",
+    ]);
+    expect(executor.getConversationTurns().map((turn) => [turn.command, turn.active])).toEqual([
+      ["remove tree", false],
+      ["missed the top branches", true],
+    ]);
+
+    expect(executor.undoLastEdit()).toBe(true);
+    expect(mesh.children).toEqual([first]);
+    expect(executor.getEditHistory()).toEqual([first]);
+
+    expect(executor.redoEdit()).toBe(true);
+    expect(mesh.children).toEqual([wider]);
+
+    executor.undoAllEdits();
+    expect(mesh.children).toHaveLength(0);
+  });
+
+  it("applies a refinement of an inactive entry as a new edit", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+
+    executor.executeOperations([recolorOp(0)], mesh, { command: "a" });
+    const staleId = executor.getCurrentHistoryEntryId() ?? undefined;
+    executor.undoLastEdit();
+    executor.executeOperations([recolorOp(1)], mesh, { command: "b", replaces: staleId });
+
+    expect(executor.getHistoryEntries()[0]?.replacesEntryId).toBeNull();
+    expect(mesh.children).toHaveLength(1);
+  });
+
+  it("rewrites an entry's operations without re-running asset extraction", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+    const extract = vi.fn();
+    executor.setAssetExtractionHandler(extract);
+    const changes = vi.fn();
+    const unsubscribe = executor.onEditHistoryChange(changes);
+
+    const deleteOp: EditOperation = {
+      action: "delete",
+      blendMode: "MULTIPLY",
+      extractAsset: true,
+      assetLabel: "tree",
+      shapes: [{ type: "SPHERE", position: [0, 1, 0], radius: 1, opacity: 0 }],
+    };
+    const [original] = executor.executeOperations([deleteOp], mesh, { command: "remove tree" });
+    const originalId = executor.getCurrentHistoryEntryId()!;
+    const moved = { ...deleteOp, shapes: [{ ...deleteOp.shapes[0]!, position: [0, 2, 0] }] };
+
+    const rewritten = executor.rewriteEntryOperations(originalId, [moved as EditOperation], {
+      provider: "gizmo",
+    });
+
+    expect(extract).toHaveBeenCalledTimes(1);
+    expect(changes).toHaveBeenCalledTimes(2);
+    expect(rewritten?.replacesEntryId).toBe(originalId);
+    expect(rewritten?.command).toBe("remove tree");
+    expect(rewritten?.provider).toBe("gizmo");
+    expect(executor.getHistoryEntries()[0]?.operations[0]?.shapes[0]?.position).toEqual([0, 2, 0]);
+    expect(mesh.children).toHaveLength(1);
+    expect(mesh.children[0]).not.toBe(original);
+
+    executor.undoLastEdit();
+    expect(mesh.children).toEqual([original]);
+    expect(changes).toHaveBeenCalledTimes(3);
+    expect(executor.rewriteEntryOperations("edit-404", [moved as EditOperation])).toBeNull();
+
+    unsubscribe();
+    executor.setAssetExtractionHandler(null);
+  });
+
+  it("leaves the originals visible when a move produces no copy", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+    executor.setRegionCopyHandler(() => null);
+
+    const move: EditOperation = {
+      action: "move",
+      blendMode: "MULTIPLY",
+      translate: [1, 0, 0],
+      shapes: [{ type: "SPHERE", position: [0, 0, 0], radius: 0.5, opacity: 0 }],
+    };
+    expect(executor.executeOperations([move], mesh)).toEqual([]);
+    expect(mesh.children).toHaveLength(0);
+    expect(executor.getHistoryEntries()).toHaveLength(0);
+    executor.setRegionCopyHandler(null);
+  });
+
+  it("hands region copies the edits in effect, without the entry being refined", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+    const copy = vi.fn(() => ({ apply: () => {}, revert: () => {} }));
+    executor.setRegionCopyHandler(copy);
+
+    const [recolor] = executor.executeOperations([recolorOp(0)], mesh);
+    const move: EditOperation = {
+      action: "move",
+      blendMode: "MULTIPLY",
+      translate: [1, 0, 0],
+      shapes: [{ type: "SPHERE", position: [0, 0, 0], radius: 0.5, opacity: 0 }],
+    };
+    const [hidden] = executor.executeOperations([move], mesh);
+    expect(copy).toHaveBeenLastCalledWith(move, mesh, [recolor]);
+
+    executor.rewriteEntryOperations(executor.getCurrentHistoryEntryId()!, [
+      { ...move, translate: [2, 0, 0] },
+    ]);
+    expect(copy).toHaveBeenCalledTimes(2);
+    expect(copy.mock.calls[1]?.[2]).toEqual([recolor]);
+    expect(copy.mock.calls[1]?.[2]).not.toContain(hidden);
+    executor.setRegionCopyHandler(null);
+  });
+
+  it("keeps an unchanged region copy when another op of the entry is rewritten", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+    let shown = false;
+    const copy = vi.fn(() => {
+      shown = true;
+      return {
+        apply: () => {
+          shown = true;
+        },
+        revert: () => {
+          shown = false;
+        },
+      };
+    });
+    executor.setRegionCopyHandler(copy);
+
+    const move: EditOperation = {
+      action: "move",
+      blendMode: "MULTIPLY",
+      translate: [1, 0, 0],
+      shapes: [{ type: "SPHERE", position: [0, 0, 0], radius: 0.5, opacity: 0 }],
+    };
+    executor.executeOperations([move, recolorOp(1)], mesh, { command: "move it, paint that" });
+    const rewritten = executor.rewriteEntryOperations(executor.getCurrentHistoryEntryId() ?? "", [
+      move,
+      recolorOp(2),
+    ]);
+
+    expect(copy).toHaveBeenCalledTimes(1);
+    expect(shown).toBe(true);
+    expect(rewritten?.applied.map((item) => item.opIndex)).toEqual([0, 1]);
+    expect(rewritten?.placed.map((item) => item.opIndex)).toEqual([0]);
+
+    executor.undoLastEdit();
+    expect(shown).toBe(true);
+    executor.redoEdit();
+    expect(shown).toBe(true);
+
+    executor.rewriteEntryOperations(executor.getCurrentHistoryEntryId() ?? "", [
+      { ...move, translate: [2, 0, 0] },
+      recolorOp(2),
+    ]);
+    expect(copy).toHaveBeenCalledTimes(2);
+    executor.setRegionCopyHandler(null);
+  });
+
+  it("captures copy regions without adding an edit or re-capturing on replay", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+    const capture = vi.fn();
+    executor.setRegionCaptureHandler(capture);
+
+    const copy: EditOperation = {
+      action: "copy",
+      blendMode: "MULTIPLY",
+      assetLabel: "lamp",
+      shapes: [{ type: "SPHERE", position: [0, 0, 0], radius: 0.5, opacity: 0 }],
+    };
+    expect(executor.executeOperations([copy], mesh, { command: "copy the lamp" })).toEqual([]);
+    executor.executeOperations([copy], mesh, { replay: true });
+
+    expect(capture).toHaveBeenCalledTimes(1);
+    expect(capture).toHaveBeenCalledWith(copy, mesh, []);
+    expect(mesh.children).toHaveLength(0);
+    expect(executor.getHistoryEntries()).toHaveLength(0);
+    executor.setRegionCaptureHandler(null);
+  });
+
+  it("clears the full history tree with undoAllEdits", async () => {
+    const executor = await import("../src/executor");
+    const { mesh } = makeSceneWithMesh();
+
+    executor.executeOperations([recolorOp(0)], mesh);
+    executor.executeOperations([recolorOp(1)], mesh);
+    executor.undoLastEdit();
+    executor.undoAllEdits();
+
+    expect(mesh.children).toHaveLength(0);
+    expect(executor.getHistoryEntries()).toHaveLength(0);
+    expect(executor.getRedoBranches()).toHaveLength(0);
+    expect(executor.undoLastEdit()).toBe(false);
+    expect(executor.redoEdit()).toBe(false);
+  });
+});
+
+function makeSceneWithMesh(): { scene: THREE.Scene; mesh: THREE.Object3D } {
+  const scene = new THREE.Scene();
+  const mesh = new THREE.Object3D();
+  scene.add(mesh);
+  return { scene, mesh };
+}
+
+function recolorOp(x: number): EditOperation {
+  return {
+    action: "recolor",
+    blendMode: "SET_RGB",
+    softEdge: 0.1,
+    shapes: [{ type: "SPHERE", position: [x, 0, 0], radius: 0.5, color: [1, 0, 0] }],
+  };
+}
+
+function atmosphereOp(): EditOperation {
+  return {
+    action: "atmosphere",
+    blendMode: "ADD_RGBA",
+    softEdge: 0.3,
+    shapes: [{ type: "ALL", position: [0, 0, 0], color: [0.1, 0.1, 0.1] }],
+  };
+}
@@ -0,0 +1,337 @@
+import * as THREE from "three";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D, Color, Vector3, Quaternion } = await import("three");
+
+  type StoredSplat = {
+    center: InstanceType<typeof Vector3>;
+    scales: InstanceType<typeof Vector3>;
+    quaternion: InstanceType<typeof Quaternion>;
+    opacity: number;
+    color: InstanceType<typeof Color>;
+  };
+
+  class PackedSplats {
+    public splats: StoredSplat[] = [];
+    public needsUpdate = false;
+
+    get numSplats() {
+      return this.splats.length;
+    }
+
+    pushSplat(
+      center: InstanceType<typeof Vector3>,
+      scales: InstanceType<typeof Vector3>,
+      quaternion: InstanceType<typeof Quaternion>,
+      opacity: number,
+      color: InstanceType<typeof Color>
+    ) {
+      this.splats.push({
+        center: center.clone(),
+        scales: scales.clone(),
+        quaternion: quaternion.clone(),
+        opacity,
+        color: color.clone(),
+      });
+    }
+
+    forEachSplat(
+      callback: (
+        index: number,
+        center: InstanceType<typeof Vector3>,
+        scales: InstanceType<typeof Vector3>,
+        quaternion: InstanceType<typeof Quaternion>,
+        opacity: number,
+        color: InstanceType<typeof Color>
+      ) => void
+    ) {
+      this.splats.forEach((splat, index) =>
+        callback(index, splat.center, splat.scales, splat.quaternion, splat.opacity, splat.color)
+      );
+    }
+
+    dispose() {}
+  }
+
+  class SplatMesh extends Object3D {
+    public packedSplats: PackedSplats;
+
+    constructor({ packedSplats }: { packedSplats: PackedSplats }) {
+      super();
+      this.packedSplats = packedSplats;
+    }
+
+    forEachSplat(callback: Parameters<PackedSplats["forEachSplat"]>[0]) {
+      this.packedSplats.forEachSplat(callback);
+    }
+  }
+
+  class SplatEditSdf extends Object3D {
+    public invert = false;
+    public radius = 0;
+    public opacity = 1;
+    public color = new Color(1, 1, 1);
+    public displace = new Vector3();
+
+    constructor(options: { type?: string } = {}) {
+      super();
+      this.type = options.type ?? "sphere";
+    }
+  }
+
+  let nextOrdering = 0;
+  class SplatEdit extends Object3D {
+    public ordering = nextOrdering++;
+    public rgbaBlendMode: string;
+    public softEdge: number;
+    public sdfSmooth: number;
+    public invert: boolean;
+    public sdfs: SplatEditSdf[] = [];
+
+    constructor(options: Record<string, unknown> = {}) {
+      super();
+      this.rgbaBlendMode = (options.rgbaBlendMode as string) ?? "multiply";
+      this.softEdge = (options.softEdge as number) ?? 0;
+      this.sdfSmooth = (options.sdfSmooth as number) ?? 0;
+      this.invert = (options.invert as boolean) ?? false;
+    }
+
+    addSdf(sdf: SplatEditSdf) {
+      this.sdfs.push(sdf);
+    }
+  }
+
+  return {
+    PackedSplats,
+    SplatMesh,
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {
+      ALL: "all",
+      PLANE: "plane",
+      SPHERE: "sphere",
+      BOX: "box",
+      ELLIPSOID: "ellipsoid",
+      CYLINDER: "cylinder",
+      CAPSULE: "capsule",
+      INFINITE_CONE: "infinite_cone",
+    },
+    SplatEditRgbaBlendMode: {
+      MULTIPLY: "multiply",
+      SET_RGB: "set_rgb",
+      ADD_RGBA: "add_rgba",
+    },
+  };
+});
+import {
+  PackedSplats,
+  SplatEdit,
+  SplatEditRgbaBlendMode,
+  SplatEditSdf,
+  SplatEditSdfType,
+  SplatMesh,
+} from "@sparkjsdev/spark";
+import { computeEditBounds, createGridTracker } from "../src/grid-tracker";
+import { compileBakeEdits } from "../src/scene-export";
+import { buildSpatialGridFromArrays, extractSplatArrays } from "../src/spatial-index";
+import type { SpatialGrid, VoxelCell } from "../src/types";
+
+type TestSplat = { pos: [number, number, number]; color?: [number, number, number]; opacity?: number };
+
+describe("createGridTracker", () => {
+  it("drops deleted splats from covered cells and restores them when the edit goes away", () => {
+    const { base, grid, tracker } = setup();
+    const original = sortedCells(grid.cells);
+    const totalBefore = countSplats(grid);
+
+    // Covers lattice coordinates 0..1 on every axis: all of cell 0,0,0 plus the
+    // 1.0 faces that fall into the neighboring cells.
+    const edit = makeEdit(SplatEditRgbaBlendMode.MULTIPLY, {}, [
+      makeSdf(SplatEditSdfType.BOX, [0.5, 0.5, 0.5], { scale: [0.6, 0.6, 0.6], opacity: 0 }),
+    ]);
+    base.add(edit);
+
+    const updated = tracker.syncEdits([edit]);
+    expect(updated).toBeLessThanOrEqual(8);
+    expect(grid.cells.has("0,0,0")).toBe(false);
+    expect(grid.cells.get("1,0,0")?.splatCount).toBe(8 - 4);
+    expect(countSplats(grid)).toBe(totalBefore - 27);
+
+    base.remove(edit);
+    tracker.syncEdits([]);
+    expect(sortedCells(grid.cells)).toStrictEqual(original);
+  });
+
+  it("updates avgColor for recolored splats", () => {
+    const { base, grid, tracker } = setup();
+    const edit = makeEdit(SplatEditRgbaBlendMode.SET_RGB, {}, [
+      makeSdf(SplatEditSdfType.BOX, [3.25, 3.25, 3.25], { scale: [0.4, 0.4, 0.4], color: [1, 0, 0] }),
+    ]);
+    base.add(edit);
+
+    tracker.syncEdits([edit]);
+
+    const cell = grid.cells.get("3,3,3")!;
+    expect(cell.avgColor.r).toBeCloseTo(1, 6);
+    expect(cell.avgColor.g).toBeCloseTo(0, 6);
+    expect(cell.splatCount).toBe(8);
+    expect(grid.cells.get("0,0,0")?.avgColor.r).toBeCloseTo(0.5, 6);
+  });
+
+  it("adds placed mesh splats and applies only scene-level edits to them", () => {
+    const { base, grid, tracker } = setup();
+    const scene = new THREE.Scene();
+    scene.add(base);
+    const before = grid.cells.get("2,2,2")!.splatCount;
+    const indicesBefore = grid.cells.get("2,2,2")!.splatIndices.length;
+
+    const placed = makeMesh([{ pos: [0, 0, 0] }, { pos: [0.1, 0, 0] }, { pos: [0, 0.1, 0] }]);
+    placed.position.set(2.2, 2.2, 2.2);
+    scene.add(placed);
+    tracker.syncPlacedMeshes([placed]);
+    expect(grid.cells.get("2,2,2")?.splatCount).toBe(before + 3);
+    expect(grid.cells.get("2,2,2")?.splatIndices).toHaveLength(indicesBefore);
+
+    // Base-mesh splats sit on the 0.5 lattice, so this sphere only reaches the placed ones.
+    const scoped = makeEdit(SplatEditRgbaBlendMode.MULTIPLY, {}, [
+      makeSdf(SplatEditSdfType.SPHERE, [2.22, 2.22, 2.2], { radius: 0.15, opacity: 0 }),
+    ]);
+    base.add(scoped);
+    tracker.syncEdits([scoped]);
+    expect(grid.cells.get("2,2,2")?.splatCount).toBe(before + 3);
+
+    const global = makeEdit(SplatEditRgbaBlendMode.MULTIPLY, {}, [
+      makeSdf(SplatEditSdfType.SPHERE, [2.22, 2.22, 2.2], { radius: 0.15, opacity: 0 }),
+    ]);
+    scene.add(global);
+    tracker.syncEdits([scoped, global]);
+    expect(grid.cells.get("2,2,2")?.splatCount).toBe(before);
+
+    placed.position.set(0.2, 0.2, 0.2);
+    tracker.refreshPlacedMesh(placed);
+    expect(grid.cells.get("2,2,2")?.splatCount).toBe(before);
+    expect(grid.cells.get("0,0,0")?.splatCount).toBe(8 + 3);
+
+    // A sync notices moves it was not told about (e.g. undoing a gizmo drag).
+    placed.position.set(2.2, 2.2, 2.2);
+    expect(tracker.syncPlacedMeshes([placed])).toBeGreaterThan(0);
+    expect(grid.cells.get("0,0,0")?.splatCount).toBe(8);
+    expect(tracker.syncPlacedMeshes([placed])).toBe(0);
+
+    placed.position.set(0.2, 0.2, 0.2);
+    tracker.refreshPlacedMesh(placed);
+    tracker.syncPlacedMeshes([]);
+    expect(grid.cells.get("0,0,0")?.splatCount).toBe(8);
+  });
+});
+
+describe("computeEditBounds", () => {
+  it("bounds finite shapes including the soft edge and leaves unbounded ones open", () => {
+    const [sphere] = compileBakeEdits([
+      makeEdit(SplatEditRgbaBlendMode.MULTIPLY, { softEdge: 0.2 }, [
+        makeSdf(SplatEditSdfType.SPHERE, [1, 2, 3], { radius: 0.5 }),
+      ]),
+    ]);
+    const bounds = computeEditBounds(sphere)!;
+    expect(bounds.min.toArray().map((v) => +v.toFixed(6))).toEqual([0.4, 1.4, 2.4]);
+    expect(bounds.max.toArray().map((v) => +v.toFixed(6))).toEqual([1.6, 2.6, 3.6]);
+
+    const [plane] = compileBakeEdits([
+      makeEdit(SplatEditRgbaBlendMode.MULTIPLY, {}, [makeSdf(SplatEditSdfType.PLANE, [0, 0, 0], {})]),
+    ]);
+    expect(computeEditBounds(plane)).toBeNull();
+
+    const [inverted] = compileBakeEdits([
+      makeEdit(SplatEditRgbaBlendMode.MULTIPLY, { invert: true }, [
+        makeSdf(SplatEditSdfType.SPHERE, [0, 0, 0], { radius: 1 }),
+      ]),
+    ]);
+    expect(computeEditBounds(inverted)).toBeNull();
+  });
+});
+
+/** 8x8x8 gray lattice at 0.5 spacing over [0, 3.5], binned into a 4x4x4 grid. */
+function setup() {
+  const splats: TestSplat[] = [];
+  for (let x = 0; x < 8; x += 1) {
+    for (let y = 0; y < 8; y += 1) {
+      for (let z = 0; z < 8; z += 1) {
+        splats.push({ pos: [x * 0.5, y * 0.5, z * 0.5], color: [0.5, 0.5, 0.5] });
+      }
+    }
+  }
+  const base = makeMesh(splats);
+  const arrays = extractSplatArrays(base);
+  const grid = buildSpatialGridFromArrays(
+    arrays,
+    new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(4, 4, 4)),
+    new THREE.Matrix4(),
+    { resolution: [4, 4, 4], cropYFraction: [0, 0] }
+  );
+  const tracker = createGridTracker(grid, base, arrays);
+  return { base, grid, tracker };
+}
+
+// Cells that empty out are re-inserted at the end of the map, so compare by key.
+function sortedCells(cells: Map<string, VoxelCell>): Array<[string, VoxelCell]> {
+  return Array.from(cells.entries()).sort(([a], [b]) => a.localeCompare(b));
+}
+
+function countSplats(grid: SpatialGrid): number {
+  return Array.from(grid.cells.values()).reduce((sum, cell) => sum + cell.splatCount, 0);
+}
+
+function makeMesh(splats: TestSplat[]): SplatMesh {
+  const packed = new PackedSplats();
+  for (const splat of splats) {
+    const color = splat.color ?? [1, 1, 1];
+    packed.pushSplat(
+      new THREE.Vector3(...splat.pos),
+      new THREE.Vector3(0.01, 0.01, 0.01),
+      new THREE.Quaternion(),
+      splat.opacity ?? 1,
+      new THREE.Color(color[0], color[1], color[2])
+    );
+  }
+  return new SplatMesh({ packedSplats: packed });
+}
+
+function makeEdit(
+  blendMode: SplatEditRgbaBlendMode,
+  options: { softEdge?: number; sdfSmooth?: number; invert?: boolean },
+  sdfs: SplatEditSdf[]
+): SplatEdit {
+  const edit = new SplatEdit({ rgbaBlendMode: blendMode, ...options });
+  for (const sdf of sdfs) {
+    edit.addSdf(sdf);
+  }
+  return edit;
+}
+
+function makeSdf(
+  type: SplatEditSdfType,
+  position: [number, number, number],
+  options: {
+    radius?: number;
+    scale?: [number, number, number];
+    color?: [number, number, number];
+    opacity?: number;
+    displace?: [number, number, number];
+  }
+): SplatEditSdf {
+  const sdf = new SplatEditSdf({ type });
+  sdf.position.set(...position);
+  sdf.radius = options.radius ?? 0;
+  if (options.scale) {
+    sdf.scale.set(...options.scale);
+  }
+  if (options.color) {
+    sdf.color.setRGB(...options.color);
+  }
+  sdf.opacity = options.opacity ?? 1;
+  if (options.displace) {
+    sdf.displace.set(...options.displace);
+  }
+  return sdf;
+}
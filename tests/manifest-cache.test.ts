@@ -0,0 +1,208 @@
+import * as THREE from "three";
+import { describe, expect, it, vi } from "vitest";
+import { hashBytes } from "../src/hash";
+import {
+  computeManifestCacheKey,
+  computeSplatContentHash,
+  createCachedManifestDocument,
+  getManifestSidecarUrl,
+  loadCachedManifest,
+  parseCachedManifestDocument,
+  restoreCachedManifest,
+  type CachedManifestDocument,
+  type ManifestCacheStore,
+} from "../src/manifest-cache";
+import { generateManifest } from "../src/scene-manifest";
+import { gridKey, resolveSpatialIndexOptions, type SplatArrays } from "../src/spatial-index";
+import type { SceneManifest, SpatialGrid, VoxelCell } from "../src/types";
+
+const SCENE_URL = "/scenes/room.spz";
+
+describe("manifest cache keys", () => {
+  it("hashes splat content and the grid-shaping options", () => {
+    const arrays = makeArrays();
+    const hash = computeSplatContentHash(arrays);
+    expect(computeSplatContentHash(makeArrays())).toBe(hash);
+
+    const recolored = makeArrays();
+    recolored.colors[4] += 0.01;
+    expect(computeSplatContentHash(recolored)).not.toBe(hash);
+
+    const options = resolveSpatialIndexOptions({});
+    const key = computeManifestCacheKey(hash, options);
+    expect(computeManifestCacheKey(hash, { ...options, logPrefix: "[other]" })).toBe(key);
+    expect(computeManifestCacheKey(hash, { ...options, resolution: [32, 32, 32] })).not.toBe(key);
+    expect(computeManifestCacheKey(computeSplatContentHash(recolored), options)).not.toBe(key);
+  });
+
+  it("hashes unaligned views the same as aligned copies", () => {
+    const bytes = new Uint8Array(11).map((_, i) => i * 7);
+    const unaligned = new Uint8Array(bytes.buffer, 1, 10);
+    expect(hashBytes(unaligned)).toBe(hashBytes(new Uint8Array(unaligned)));
+    expect(hashBytes(bytes)).not.toBe(hashBytes(unaligned));
+  });
+
+  it("places the sidecar next to the scene", () => {
+    expect(getManifestSidecarUrl("/scenes/room.spz")).toBe("/scenes/room.manifest.json");
+    expect(getManifestSidecarUrl("room.v2.ply?x=1")).toBe("room.v2.manifest.json?x=1");
+  });
+});
+
+describe("cached manifest documents", () => {
+  it("round-trips regions, labels and screenshots through JSON", () => {
+    const grid = makeGrid();
+    const manifest = makeVisionManifest(grid);
+    const doc = makeDocument(manifest);
+
+    const restored = restoreCachedManifest(parseCachedManifestDocument(JSON.stringify(doc)), grid);
+
+    expect(restored).not.toBeNull();
+    expect(restored!.grid).toBe(grid);
+    expect(restored).toEqual(manifest);
+  });
+
+  it("rejects documents whose cells the grid does not have", () => {
+    const grid = makeGrid();
+    const doc = makeDocument(makeVisionManifest(grid));
+    grid.cells.delete(gridKey(1, 1, 1));
+
+    expect(restoreCachedManifest(doc, grid)).toBeNull();
+  });
+});
+
+describe("loadCachedManifest", () => {
+  it("prefers the store and skips the sidecar", async () => {
+    const grid = makeGrid();
+    const doc = makeDocument(makeVisionManifest(grid));
+    const store = makeMemoryStore([doc]);
+    const fetchImpl = vi.fn<typeof fetch>();
+
+    const manifest = await loadCachedManifest(doc.key, grid, {
+      store,
+      sidecarUrl: getManifestSidecarUrl(SCENE_URL),
+      fetchImpl,
+    });
+
+    expect(manifest?.source).toBe("vision");
+    expect(manifest?.regions.map((region) => region.label)).toContain("reading_lamp");
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it("loads a matching sidecar and copies it into the store", async () => {
+    const grid = makeGrid();
+    const doc = makeDocument(makeVisionManifest(grid));
+    const store = makeMemoryStore();
+    const fetchImpl = vi.fn<typeof fetch>(async () => new Response(JSON.stringify(doc)));
+
+    const manifest = await loadCachedManifest(doc.key, grid, {
+      store,
+      sidecarUrl: "/scenes/room.manifest.json",
+      fetchImpl,
+    });
+
+    expect(fetchImpl).toHaveBeenCalledWith("/scenes/room.manifest.json");
+    expect(manifest?.description).toBe(doc.description);
+    expect(await store.get(doc.key)).toEqual(doc);
+  });
+
+  it("misses when the sidecar belongs to another scene or is absent", async () => {
+    const grid = makeGrid();
+    const doc = makeDocument(makeVisionManifest(grid));
+    const stale = vi.fn<typeof fetch>(async () => new Response(JSON.stringify(doc)));
+    const missing = vi.fn<typeof fetch>(async () => new Response("<html></html>", { status: 404 }));
+    const html = vi.fn<typeof fetch>(async () => new Response("<!doctype html>"));
+
+    for (const fetchImpl of [stale, missing, html]) {
+      expect(
+        await loadCachedManifest("other-key", grid, {
+          store: makeMemoryStore(),
+          sidecarUrl: "/scenes/room.manifest.json",
+          fetchImpl,
+        })
+      ).toBeNull();
+      expect(fetchImpl).toHaveBeenCalledTimes(1);
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeDocument(manifest: SceneManifest): CachedManifestDocument {
+  const contentHash = computeSplatContentHash(makeArrays());
+  const indexOptions = resolveSpatialIndexOptions({});
+  return createCachedManifestDocument(manifest, {
+    key: computeManifestCacheKey(contentHash, indexOptions),
+    contentHash,
+    indexOptions,
+    sceneUrl: SCENE_URL,
+  });
+}
+
+function makeVisionManifest(grid: SpatialGrid): SceneManifest {
+  const heuristic = generateManifest(grid);
+  return {
+    ...heuristic,
+    description: "A reading corner with a lamp.",
+    regions: heuristic.regions.map((region, index) => ({
+      ...region,
+      label: index === 0 ? "reading_lamp" : `object_${index}`,
+      confidence: 0.85,
+    })),
+    screenshots: ["data:image/png;base64,AAAA", "data:image/png;base64,BBBB"],
+    source: "vision",
+  };
+}
+
+function makeMemoryStore(initial: CachedManifestDocument[] = []): ManifestCacheStore {
+  const docs = new Map(initial.map((doc) => [doc.key, structuredClone(doc)]));
+  return {
+    get: async (key) => structuredClone(docs.get(key) ?? null),
+    put: async (doc) => {
+      docs.set(doc.key, structuredClone(doc));
+    },
+  };
+}
+
+function makeArrays(): SplatArrays {
+  const count = 4;
+  return {
+    count,
+    indices: Uint32Array.from({ length: count }, (_, i) => i),
+    centers: Float32Array.from({ length: count * 3 }, (_, i) => i * 0.5),
+    colors: Float32Array.from({ length: count * 3 }, (_, i) => (i % 3) / 3),
+  };
+}
+
+function makeGrid(): SpatialGrid {
+  const cells = new Map<string, VoxelCell>();
+  cells.set(gridKey(1, 1, 1), makeCell([1, 1, 1], 120, [0.8, 0.7, 0.3]));
+  cells.set(gridKey(1, 2, 1), makeCell([1, 2, 1], 60, [0.75, 0.65, 0.3]));
+  cells.set(gridKey(3, 0, 3), makeCell([3, 0, 3], 200, [0.4, 0.4, 0.4]));
+  return {
+    resolution: [4, 4, 4],
+    worldBounds: new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(4, 4, 4)),
+    cellSize: new THREE.Vector3(1, 1, 1),
+    cells,
+  };
+}
+
+function makeCell(
+  gridPos: [number, number, number],
+  splatCount: number,
+  avgColor: [number, number, number]
+): VoxelCell {
+  const min = new THREE.Vector3(...gridPos);
+  const bounds = new THREE.Box3(min, min.clone().addScalar(1));
+  return {
+    gridPos,
+    worldCenter: bounds.getCenter(new THREE.Vector3()),
+    worldBounds: bounds,
+    splatCount,
+    avgColor: new THREE.Color(...avgColor),
+    colorVariance: 0.01,
+    density: splatCount,
+    splatIndices: Array.from({ length: splatCount }, (_, i) => i),
+  };
+}
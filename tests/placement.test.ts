@@ -0,0 +1,216 @@
+import * as THREE from "three";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SplatMesh } from "@sparkjsdev/spark";
+import type { PlacedAssetTransform } from "../src/placement";
+import type { AssetEntry } from "../src/types";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D } = await import("three");
+
+  class SplatMesh extends Object3D {}
+  class PackedSplats {}
+  class SplatEdit extends Object3D {}
+  class SplatEditSdf extends Object3D {}
+
+  return {
+    SplatMesh,
+    PackedSplats,
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {},
+    SplatEditRgbaBlendMode: {},
+  };
+});
+
+beforeEach(() => {
+  vi.resetModules();
+});
+
+async function loadModules() {
+  const executor = await import("../src/executor");
+  const library = await import("../src/asset-library");
+  const placement = await import("../src/placement");
+  return { executor, library, placement };
+}
+
+describe("placement history", () => {
+  it("undoes and redoes a placement without changing its id", async () => {
+    const { executor, library, placement } = await loadModules();
+    const scene = new THREE.Scene();
+    const mesh = makeMesh();
+
+    const instance = placement.placeAsset(makeAsset(), mesh, scene);
+    expect(instance.id).toBe("placed-1");
+    expect(mesh.parent).toBe(scene);
+    expect(executor.getHistoryEntries().map((entry) => entry.command)).toEqual(["Place lamp"]);
+
+    executor.undoLastEdit();
+    expect(mesh.parent).toBeNull();
+    expect(library.listPlacedAssets()).toHaveLength(0);
+
+    executor.redoEdit();
+    expect(mesh.parent).toBe(scene);
+    expect(library.getPlacedAsset("placed-1")).toBe(instance);
+  });
+
+  it("records each transform as a step that undo rolls back", async () => {
+    const { executor, placement } = await loadModules();
+    const scene = new THREE.Scene();
+    const mesh = makeMesh();
+    mesh.position.set(1, 0, 0);
+    const { id } = placement.placeAsset(makeAsset(), mesh, scene);
+
+    const moved: PlacedAssetTransform = { position: [2, 1, 0], quaternion: [0, 0, 0, 1], scale: 2 };
+    expect(placement.transformPlacedAsset(id, moved)).toBe(true);
+    expect(placement.transformPlacedAsset(id, placement.readPlacedAssetTransform(mesh))).toBe(false);
+    expect(mesh.position.toArray()).toEqual([2, 1, 0]);
+    expect(mesh.scale.toArray()).toEqual([2, 2, 2]);
+    expect(executor.getHistoryEntries()).toHaveLength(2);
+
+    executor.undoLastEdit();
+    expect(mesh.position.toArray()).toEqual([1, 0, 0]);
+    expect(mesh.scale.toArray()).toEqual([1, 1, 1]);
+    expect(mesh.parent).toBe(scene);
+
+    executor.redoEdit();
+    expect(mesh.position.toArray()).toEqual([2, 1, 0]);
+  });
+
+  it("removes an instance and restores it under the same id on undo", async () => {
+    const { executor, library, placement } = await loadModules();
+    const scene = new THREE.Scene();
+    const mesh = makeMesh();
+    const { id } = placement.placeAsset(makeAsset(), mesh, scene);
+
+    expect(placement.removePlacedAsset(id)).toBe(true);
+    expect(mesh.parent).toBeNull();
+    expect(library.getPlacedAsset(id)).toBeUndefined();
+    expect(placement.removePlacedAsset(id)).toBe(false);
+
+    executor.undoLastEdit();
+    expect(mesh.parent).toBe(scene);
+    expect(library.getPlacedAsset(id)?.mesh).toBe(mesh);
+  });
+
+  it("keeps placement steps out of agent turns and session history", async () => {
+    const { executor, library, placement } = await loadModules();
+    const session = await import("../src/session");
+    const scene = new THREE.Scene();
+    placement.placeAsset(makeAsset(), makeMesh(), scene, { id: "placed-7" });
+
+    expect(executor.getConversationTurns()).toEqual([]);
+    const doc = session.buildSessionDocument({
+      sceneUrl: "/scenes/room.spz",
+      history: executor.getHistoryEntries(),
+      placedAssets: library.listPlacedAssets(),
+      camera: null,
+    });
+    expect(doc.history).toEqual([]);
+    expect(doc.placedAssets.map((item) => item.id)).toEqual(["placed-7"]);
+
+    // Fresh ids continue after restored ones instead of colliding with them.
+    expect(library.registerPlacedAsset(makeAsset(), makeMesh()).id).toBe("placed-8");
+  });
+});
+
+describe("computeSurfacePlacement", () => {
+  it("rests the flipped asset's lowest point on the hit", async () => {
+    const { placement } = await loadModules();
+    // Flipped about X, local y=1.8 becomes the bottom of the placed mesh.
+    const bounds = new THREE.Box3(new THREE.Vector3(-0.5, -0.2, -0.5), new THREE.Vector3(0.5, 1.8, 0.5));
+    const pose = placement.computeSurfacePlacement(bounds, new THREE.Vector3(2, 1, 3));
+
+    expect(pose.position[0]).toBeCloseTo(2);
+    expect(pose.position[1]).toBeCloseTo(2.8);
+    expect(pose.position[2]).toBeCloseTo(3);
+    expect(pose.quaternion).toEqual([1, 0, 0, 0]);
+
+    const scaled = placement.computeSurfacePlacement(bounds, new THREE.Vector3(0, 0, 0), { scale: 2 });
+    expect(scaled.position[1]).toBeCloseTo(3.6);
+    expect(scaled.scale).toBe(2);
+  });
+
+  it("turns the up axis onto the surface normal", async () => {
+    const { placement } = await loadModules();
+    const bounds = new THREE.Box3(new THREE.Vector3(-0.5, -0.2, -0.5), new THREE.Vector3(0.5, 1.8, 0.5));
+    const pose = placement.computeSurfacePlacement(bounds, new THREE.Vector3(0, 1, 0), {
+      normal: new THREE.Vector3(2, 0, 0),
+      baseQuaternion: new THREE.Quaternion(),
+    });
+
+    expect(pose.position[0]).toBeCloseTo(0.2);
+    expect(pose.position[1]).toBeCloseTo(1);
+    const up = new THREE.Vector3(0, 1, 0).applyQuaternion(new THREE.Quaternion().fromArray(pose.quaternion));
+    expect(up.x).toBeCloseTo(1);
+  });
+});
+
+describe("computeRegionCopyTransform", () => {
+  it("offsets the copy and turns it about its own center", async () => {
+    const { placement } = await loadModules();
+    const pose = placement.computeRegionCopyTransform(new THREE.Vector3(1, 2, 3), {
+      translate: [-1, 0, 0.5],
+      rotate: 90,
+    });
+
+    expect(pose.position).toEqual([0, 2, 3.5]);
+    expect(pose.scale).toBe(1);
+    const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(new THREE.Quaternion().fromArray(pose.quaternion));
+    expect(forward.x).toBeCloseTo(1);
+  });
+});
+
+describe("placeAssetFromOperation", () => {
+  it("rests the named asset at the operation's pose and takes it back out on undo", async () => {
+    const { executor, library, placement } = await loadModules();
+    const asset = makeAsset();
+    library.addAsset(asset);
+    executor.setAssetPlacementHandler(placement.placeAssetFromOperation);
+    const scene = new THREE.Scene();
+    const editParent = new THREE.Object3D();
+    scene.add(editParent);
+
+    executor.executeOperations(
+      [
+        {
+          action: "place",
+          blendMode: "MULTIPLY",
+          shapes: [],
+          placement: { assetId: asset.id, position: [2, 1, 0], yaw: 90, scale: 1 },
+        },
+      ],
+      editParent,
+      { command: "put the lamp on the table" }
+    );
+
+    const [instance] = library.listPlacedAssets();
+    expect(instance?.mesh.parent).toBe(scene);
+    // Bounds are 2 tall around the centroid, so the base sits 1 below the origin.
+    expect(instance?.mesh.position.y).toBeCloseTo(2);
+    const forward = new THREE.Vector3(0, 0, 1).applyQuaternion(instance!.mesh.quaternion);
+    expect(forward.x).toBeCloseTo(-1);
+
+    executor.undoLastEdit();
+    expect(library.listPlacedAssets()).toHaveLength(0);
+    executor.redoEdit();
+    expect(library.getPlacedAsset(instance!.id)).toBe(instance);
+  });
+});
+
+function makeMesh(): SplatMesh {
+  return new THREE.Object3D() as unknown as SplatMesh;
+}
+
+function makeAsset(): AssetEntry {
+  return {
+    id: "asset-lamp",
+    label: "lamp",
+    sourceScene: "room.spz",
+    extractedAt: new Date(0),
+    splats: {} as AssetEntry["splats"],
+    thumbnailDataUrl: "",
+    originalPosition: new THREE.Vector3(1, 1, 1),
+    bounds: new THREE.Box3(new THREE.Vector3(0.5, 0, 0.5), new THREE.Vector3(1.5, 2, 1.5)),
+    splatCount: 10,
+  };
+}
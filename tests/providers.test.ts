@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { classifyProviderError, LLMProviderError } from "../src/providers/errors";
+import type { LLMProvider, LLMProviderDefinition } from "../src/providers/types";
+
+vi.mock("@google/genai", () => ({
+  GoogleGenAI: vi.fn(() => ({ models: { generateContent: vi.fn() } })),
+}));
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.unstubAllEnvs();
+});
+
+describe("classifyProviderError", () => {
+  it("uses the HTTP status carried on SDK errors", () => {
+    const error = Object.assign(new Error("quota"), { status: 429 });
+    const classified = classifyProviderError("gemini", error);
+    expect(classified.kind).toBe("rate_limit");
+    expect(classified.status).toBe(429);
+  });
+
+  it("reads status codes from JSON error bodies", () => {
+    const busy = new Error('{"error":{"code":503,"message":"high demand","status":"UNAVAILABLE"}}');
+    expect(classifyProviderError("gemini", busy).kind).toBe("unavailable");
+
+    const denied = new Error('got error: {"error":{"status":"PERMISSION_DENIED"}}');
+    const classified = classifyProviderError("gemini", denied);
+    expect(classified.kind).toBe("auth");
+    expect(classified.status).toBe(403);
+  });
+
+  it("maps fetch and abort failures by error name", () => {
+    expect(classifyProviderError("openai", new TypeError("Failed to fetch")).kind).toBe("network");
+    const abort = new Error("aborted");
+    abort.name = "AbortError";
+    expect(classifyProviderError("openai", abort).kind).toBe("timeout");
+  });
+
+  it("does not sniff free-form messages", () => {
+    expect(classifyProviderError("openai", new Error("network 503 rate limit")).kind).toBe(
+      "unknown"
+    );
+  });
+
+  it("passes provider errors through unchanged", () => {
+    const error = new LLMProviderError("openai", "bad_request", "nope", 400);
+    expect(classifyProviderError("gemini", error)).toBe(error);
+  });
+});
+
+describe("provider registry", () => {
+  it("registers built-in providers with a default gemini → openai chain", async () => {
+    const registry = await import("../src/providers/registry");
+    expect(registry.listLLMProviders().map((definition) => definition.name)).toEqual([
+      "gemini",
+      "openai",
+    ]);
+    expect(registry.getFallbackChain()).toEqual(["gemini", "openai"]);
+  });
+
+  it("orders the preferred provider first and skips unconfigured ones", async () => {
+    const registry = await import("../src/providers/registry");
+    registry.registerLLMProvider(fakeDefinition("local"));
+    registry.registerLLMProvider(fakeDefinition("offline", false));
+    registry.setFallbackChain(["gemini", "offline", "local", "missing"]);
+    registry.setPreferredProvider("local");
+
+    const chain = registry.resolveProviderChain({ apiKeys: { gemini: "key" } });
+
+    expect(registry.getFallbackChain()).toEqual(["gemini", "offline", "local"]);
+    expect(chain.map((provider) => provider.name)).toEqual(["local", "gemini"]);
+  });
+
+  it("rejects unknown preferred providers", async () => {
+    const registry = await import("../src/providers/registry");
+    expect(() => registry.setPreferredProvider("nope")).toThrow('unknown provider "nope"');
+  });
+});
+
+describe("processCommand with registered providers", () => {
+  it("falls back along the configured chain on transient errors only", async () => {
+    const registry = await import("../src/providers/registry");
+    const { processCommand, getLastResolvedProvider } = await import("../src/agent");
+
+    const flaky = fakeDefinition("flaky", true, async () => {
+      throw new LLMProviderError("flaky", "unavailable", "down", 503);
+    });
+    const local = fakeDefinition("local", true, async () => ({
+      text: '[{"action":"recolor","blendMode":"SET_RGB","shapes":[{"type":"SPHERE","position":[0,0,0],"radius":1,"color":[1,0,0]}]}]',
+      provider: "local",
+      model: "fake",
+    }));
+    registry.registerLLMProvider(flaky);
+    registry.registerLLMProvider(local);
+    registry.setFallbackChain(["flaky", "local"]);
+
+    const ops = await processCommand("paint red", null, null, null, null, "");
+
+    expect(ops[0]?.action).toBe("recolor");
+    expect(getLastResolvedProvider()).toBe("local");
+  });
+
+  it("stops at a non-transient failure", async () => {
+    const registry = await import("../src/providers/registry");
+    const { processCommand } = await import("../src/agent");
+
+    const generateLocal = vi.fn();
+    registry.registerLLMProvider(
+      fakeDefinition("denied", true, async () => {
+        throw new LLMProviderError("denied", "auth", "bad key", 401);
+      })
+    );
+    registry.registerLLMProvider(fakeDefinition("local", true, generateLocal));
+    registry.setFallbackChain(["denied", "local"]);
+
+    await expect(processCommand("paint red", null, null, null, null, "")).rejects.toThrow(
+      "bad key"
+    );
+    expect(generateLocal).not.toHaveBeenCalled();
+  });
+});
+
+function fakeDefinition(
+  name: string,
+  configured = true,
+  generate: LLMProvider["generate"] = vi.fn()
+): LLMProviderDefinition {
+  return {
+    name,
+    label: name,
+    create: () =>
+      configured
+        ? {
+            name,
+            label: name,
+            model: "fake",
+            capabilities: { vision: false, jsonMode: false, maxImages: 0 },
+            generate,
+          }
+        : null,
+  };
+}
@@ -0,0 +1,309 @@
+import { readFileSync } from "node:fs";
+import * as THREE from "three";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { LLMFixture } from "../src/providers/fixtures";
+import type { AssetEntry, EditOperation } from "../src/types";
+
+vi.mock("@google/genai", () => ({
+  GoogleGenAI: vi.fn(() => ({ models: { generateContent: vi.fn() } })),
+}));
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D, Color, Vector3 } = await import("three");
+
+  class SplatEditSdf extends Object3D {
+    public radius = 0;
+    public opacity = 1;
+    public color = new Color(1, 1, 1);
+    public displace = new Vector3();
+    public sdfType: string;
+
+    constructor(options: { type?: string } = {}) {
+      super();
+      this.sdfType = options.type ?? "sphere";
+    }
+  }
+
+  class SplatEdit extends Object3D {
+    public sdfs: SplatEditSdf[] = [];
+    public options: Record<string, unknown>;
+
+    constructor(options: Record<string, unknown> = {}) {
+      super();
+      this.options = options;
+    }
+
+    addSdf(sdf: SplatEditSdf) {
+      this.sdfs.push(sdf);
+    }
+  }
+
+  return {
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {
+      ALL: "all",
+      PLANE: "plane",
+      SPHERE: "sphere",
+      BOX: "box",
+      ELLIPSOID: "ellipsoid",
+      CYLINDER: "cylinder",
+      CAPSULE: "capsule",
+      INFINITE_CONE: "infinite_cone",
+    },
+    SplatEditRgbaBlendMode: {
+      MULTIPLY: "multiply",
+      SET_RGB: "set_rgb",
+      ADD_RGBA: "add_rgba",
+    },
+  };
+});
+
+const CORPUS_JSON = readFileSync(new URL("./fixtures/agent-replay.json", import.meta.url), "utf8");
+const CLICK_SCREENSHOT =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.unstubAllEnvs();
+});
+
+async function loadReplayPipeline(fixtures?: LLMFixture[]) {
+  const { parseFixtureFile } = await import("../src/providers/fixtures");
+  const { createReplayProviderDefinition } = await import("../src/providers/replay");
+  const registry = await import("../src/providers/registry");
+  const agent = await import("../src/agent");
+  const executor = await import("../src/executor");
+
+  registry.registerLLMProvider(
+    createReplayProviderDefinition(fixtures ?? parseFixtureFile(CORPUS_JSON))
+  );
+  registry.setFallbackChain(["replay"]);
+  return { agent, executor, registry };
+}
+
+async function runCommand(
+  agent: typeof import("../src/agent"),
+  command: string,
+  withClickContext = false,
+  assets: readonly AssetEntry[] = []
+): Promise<EditOperation[]> {
+  return agent.processCommand(
+    command,
+    withClickContext ? new THREE.Vector3(1.2, 0.9, -2.05) : null,
+    withClickContext ? "Primary cell: key=4,3,-7 splats=812 density=0.640" : null,
+    withClickContext
+      ? "Cozy library with a fireplace, armchair, desk and a vase on a side table."
+      : null,
+    withClickContext ? CLICK_SCREENSHOT : null,
+    "",
+    [],
+    assets
+  );
+}
+
+describe("replay fixture corpus", () => {
+  it("covers every action and shape type", async () => {
+    const { parseFixtureFile } = await import("../src/providers/fixtures");
+    const { ACTIONS, SHAPE_TYPES } = await import("../src/agent");
+    const fixtures = parseFixtureFile(CORPUS_JSON);
+
+    const actions = new Set<string>();
+    const shapes = new Set<string>();
+    for (const fixture of fixtures) {
+      const match = fixture.responseText.match(/```json?\s*([\s\S]*?)```/i);
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(match?.[1] ?? fixture.responseText);
+      } catch {
+        continue;
+      }
+      for (const op of parsed as EditOperation[]) {
+        actions.add(op.action);
+        // `place` operations name a library asset instead of SDF shapes.
+        for (const shape of op.shapes ?? []) {
+          shapes.add(shape.type);
+        }
+      }
+    }
+
+    expect([...ACTIONS].filter((action) => !actions.has(action))).toEqual([]);
+    expect([...SHAPE_TYPES].filter((type) => !shapes.has(type))).toEqual([]);
+    expect(fixtures.some((fixture) => fixture.responseText.trimStart().startsWith("```"))).toBe(
+      true
+    );
+    expect(fixtures.filter((fixture) => fixture.label?.startsWith("malformed")).length).toBe(4);
+  });
+
+  it("runs command → operations → executor end to end without network", async () => {
+    const fetchSpy = vi.fn();
+    vi.stubGlobal("fetch", fetchSpy);
+    const { agent, executor } = await loadReplayPipeline();
+    const scene = new THREE.Scene();
+    const mesh = new THREE.Object3D();
+    scene.add(mesh);
+
+    const cases: Array<[string, boolean, EditOperation["action"][]]> = [
+      ["remove the armchair", false, ["delete"]],
+      ["delete the vase I clicked", true, ["delete"]],
+      ["paint the bookshelf and the lamp post blue", false, ["recolor"]],
+      ["add a warm spotlight over the desk", false, ["light"]],
+      ["darken the floor and the rug", false, ["darken"]],
+      ["add a light fog to the room", false, ["atmosphere"]],
+      ["dim the fireplace", false, ["darken"]],
+    ];
+    for (const [command, withClick, expectedActions] of cases) {
+      const ops = await runCommand(agent, command, withClick);
+      expect(ops.map((op) => op.action)).toEqual(expectedActions);
+      expect(agent.getLastResolvedProvider()).toBe("replay");
+      executor.executeOperations(ops, mesh, { command, provider: "replay" });
+    }
+
+    const entries = executor.getHistoryEntries();
+    expect(entries.map((entry) => entry.command)).toEqual(cases.map(([command]) => command));
+    expect(entries[1]?.operations[0]?.assetLabel).toBe("vase");
+    expect(entries[5]?.operations[0]?.shapes[0]?.type).toBe("ALL");
+    expect(executor.getEditHistory()).toHaveLength(cases.length);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    vi.unstubAllGlobals();
+  });
+
+  it("resolves place actions against the asset catalog and undoes them", async () => {
+    const { agent, executor } = await loadReplayPipeline();
+    const butterfly = {
+      id: "asset-butterfly",
+      label: "butterfly",
+      bounds: new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(0.3, 0.12, 0.25)),
+      splatCount: 1840,
+    } as AssetEntry;
+    const scene = new THREE.Scene();
+    const mesh = new THREE.Object3D();
+    scene.add(mesh);
+    const placed = new THREE.Object3D();
+    const handler = vi.fn((_op: EditOperation, parent: THREE.Object3D) => {
+      parent.add(placed);
+      return { apply: () => parent.add(placed), revert: () => parent.remove(placed) };
+    });
+    executor.setAssetPlacementHandler(handler);
+
+    const ops = await runCommand(agent, "put the butterfly on the fireplace mantel", false, [
+      butterfly,
+    ]);
+    expect(ops).toEqual([
+      {
+        action: "place",
+        blendMode: "MULTIPLY",
+        shapes: [],
+        assetLabel: "butterfly",
+        placement: { assetId: "asset-butterfly", position: [0.4, 1.35, -3.1], yaw: 30, scale: 1 },
+      },
+    ]);
+
+    executor.executeOperations(ops, mesh, { command: "place butterfly", provider: "replay" });
+    expect(handler).toHaveBeenCalledWith(ops[0], scene, []);
+    expect(placed.parent).toBe(scene);
+    expect(executor.getEditHistory()).toHaveLength(0);
+    expect(executor.getConversationTurns().map((turn) => turn.command)).toEqual([
+      "place butterfly",
+    ]);
+
+    executor.undoLastEdit();
+    expect(placed.parent).toBeNull();
+    executor.redoEdit();
+    expect(placed.parent).toBe(scene);
+  });
+
+  it("moves and duplicates regions as one undoable entry", async () => {
+    const { agent, executor } = await loadReplayPipeline();
+    const scene = new THREE.Scene();
+    const mesh = new THREE.Object3D();
+    scene.add(mesh);
+    const copies: THREE.Object3D[] = [];
+    executor.setRegionCopyHandler((_op, parent) => {
+      const copy = new THREE.Object3D();
+      copies.push(copy);
+      scene.add(copy);
+      expect(parent).toBe(mesh);
+      return { apply: () => scene.add(copy), revert: () => scene.remove(copy) };
+    });
+
+    const command = "move the armchair toward the fireplace and put a copy of the vase on the desk";
+    const ops = await runCommand(agent, command);
+    expect(ops.map((op) => [op.action, op.translate, op.rotate])).toEqual([
+      ["move", [-0.6, 0, -0.9], 25],
+      ["duplicate", [1.1, 0.05, 0.3], 0],
+    ]);
+
+    executor.executeOperations(ops, mesh, { command, provider: "replay" });
+    // Only the move hides its originals; both copies join the same entry.
+    expect(executor.getEditHistory()).toHaveLength(1);
+    expect(executor.getHistoryEntries()).toHaveLength(1);
+    expect(copies.every((copy) => copy.parent === scene)).toBe(true);
+
+    executor.undoLastEdit();
+    expect(mesh.children).toHaveLength(0);
+    expect(copies.every((copy) => copy.parent === null)).toBe(true);
+  });
+
+  it("surfaces malformed responses after the retry is exhausted", async () => {
+    const { agent } = await loadReplayPipeline();
+    await expect(runCommand(agent, "make it look nicer")).rejects.toMatchObject({
+      provider: "replay",
+      kind: "invalid_response",
+    });
+  });
+
+  it("treats a missing fixture as a non-transient failure", async () => {
+    const { agent } = await loadReplayPipeline();
+    await expect(runCommand(agent, "turn the ceiling gold")).rejects.toMatchObject({
+      provider: "replay",
+      kind: "bad_request",
+    });
+  });
+});
+
+describe("recording provider", () => {
+  it("records raw responses that replay to the same operations", async () => {
+    const registry = await import("../src/providers/registry");
+    const { createFixtureRecorder } = await import("../src/providers/recording");
+    const { parseFixtureFile, serializeFixtureFile } = await import("../src/providers/fixtures");
+    const agent = await import("../src/agent");
+
+    const responseText = JSON.stringify([
+      {
+        action: "recolor",
+        blendMode: "SET_RGB",
+        shapes: [{ type: "SPHERE", position: [0, 1, 0], radius: 0.4, color: [1, 0, 0] }],
+      },
+    ]);
+    const generate = vi.fn(async () => ({ text: responseText, provider: "live", model: "m1" }));
+    registry.registerLLMProvider({
+      name: "live",
+      label: "Live",
+      create: () => ({
+        name: "live",
+        label: "Live",
+        model: "m1",
+        capabilities: { vision: true, jsonMode: true, maxImages: 1 },
+        generate,
+      }),
+    });
+    registry.setFallbackChain(["live"]);
+    const recorder = createFixtureRecorder({ includeImageData: true });
+    registry.setProviderRecorder(recorder);
+
+    const recorded = await runCommand(agent, "delete the vase I clicked", true);
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(recorder.fixtures).toHaveLength(1);
+    expect(recorder.fixtures[0]?.responseText).toBe(responseText);
+    expect(recorder.fixtures[0]?.images[0]?.base64).toBeTruthy();
+
+    const json = serializeFixtureFile(recorder.fixtures);
+    registry.setProviderRecorder(null);
+    vi.resetModules();
+
+    const { agent: replayAgent } = await loadReplayPipeline(parseFixtureFile(json));
+    const replayed = await runCommand(replayAgent, "delete the vase I clicked", true);
+    expect(replayed).toEqual(recorded);
+  });
+});
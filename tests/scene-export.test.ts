@@ -0,0 +1,352 @@
+import * as THREE from "three";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D, Color, Vector3, Quaternion } = await import("three");
+
+  type StoredSplat = {
+    center: InstanceType<typeof Vector3>;
+    scales: InstanceType<typeof Vector3>;
+    quaternion: InstanceType<typeof Quaternion>;
+    opacity: number;
+    color: InstanceType<typeof Color>;
+  };
+
+  class PackedSplats {
+    public splats: StoredSplat[] = [];
+    public needsUpdate = false;
+
+    get numSplats() {
+      return this.splats.length;
+    }
+
+    pushSplat(
+      center: InstanceType<typeof Vector3>,
+      scales: InstanceType<typeof Vector3>,
+      quaternion: InstanceType<typeof Quaternion>,
+      opacity: number,
+      color: InstanceType<typeof Color>
+    ) {
+      this.splats.push({
+        center: center.clone(),
+        scales: scales.clone(),
+        quaternion: quaternion.clone(),
+        opacity,
+        color: color.clone(),
+      });
+    }
+
+    forEachSplat(
+      callback: (
+        index: number,
+        center: InstanceType<typeof Vector3>,
+        scales: InstanceType<typeof Vector3>,
+        quaternion: InstanceType<typeof Quaternion>,
+        opacity: number,
+        color: InstanceType<typeof Color>
+      ) => void
+    ) {
+      this.splats.forEach((splat, index) =>
+        callback(index, splat.center, splat.scales, splat.quaternion, splat.opacity, splat.color)
+      );
+    }
+
+    dispose() {}
+  }
+
+  class SplatMesh extends Object3D {
+    public packedSplats: PackedSplats;
+
+    constructor({ packedSplats }: { packedSplats: PackedSplats }) {
+      super();
+      this.packedSplats = packedSplats;
+    }
+
+    forEachSplat(callback: Parameters<PackedSplats["forEachSplat"]>[0]) {
+      this.packedSplats.forEachSplat(callback);
+    }
+  }
+
+  class SplatEditSdf extends Object3D {
+    public invert = false;
+    public radius = 0;
+    public opacity = 1;
+    public color = new Color(1, 1, 1);
+    public displace = new Vector3();
+
+    constructor(options: { type?: string } = {}) {
+      super();
+      this.type = options.type ?? "sphere";
+    }
+  }
+
+  let nextOrdering = 0;
+  class SplatEdit extends Object3D {
+    public ordering = nextOrdering++;
+    public rgbaBlendMode: string;
+    public softEdge: number;
+    public sdfSmooth: number;
+    public invert: boolean;
+    public sdfs: SplatEditSdf[] = [];
+
+    constructor(options: Record<string, unknown> = {}) {
+      super();
+      this.rgbaBlendMode = (options.rgbaBlendMode as string) ?? "multiply";
+      this.softEdge = (options.softEdge as number) ?? 0;
+      this.sdfSmooth = (options.sdfSmooth as number) ?? 0;
+      this.invert = (options.invert as boolean) ?? false;
+    }
+
+    addSdf(sdf: SplatEditSdf) {
+      this.sdfs.push(sdf);
+    }
+  }
+
+  return {
+    PackedSplats,
+    SplatMesh,
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {
+      ALL: "all",
+      PLANE: "plane",
+      SPHERE: "sphere",
+      BOX: "box",
+      ELLIPSOID: "ellipsoid",
+      CYLINDER: "cylinder",
+      CAPSULE: "capsule",
+      INFINITE_CONE: "infinite_cone",
+    },
+    SplatEditRgbaBlendMode: {
+      MULTIPLY: "multiply",
+      SET_RGB: "set_rgb",
+      ADD_RGBA: "add_rgba",
+    },
+  };
+});
+
+import {
+  PackedSplats,
+  SplatEdit,
+  SplatEditRgbaBlendMode,
+  SplatEditSdf,
+  SplatEditSdfType,
+  SplatMesh,
+} from "@sparkjsdev/spark";
+import { bakeScene, compileBakeEdits, encodeBakedPly, evaluateEditModulation } from "../src/scene-export";
+
+type TestSplat = { pos: [number, number, number]; color?: [number, number, number]; opacity?: number };
+
+describe("bakeScene", () => {
+  it("MULTIPLY with zero opacity deletes splats inside the shape", () => {
+    const mesh = makeMesh([{ pos: [0, 0, 0] }, { pos: [2, 0, 0] }]);
+    const edit = makeEdit(SplatEditRgbaBlendMode.MULTIPLY, {}, [
+      makeSdf(SplatEditSdfType.SPHERE, [0, 0, 0], { radius: 1, opacity: 0 }),
+    ]);
+    mesh.add(edit);
+
+    const result = bakeScene(mesh, { edits: [edit] });
+
+    expect(result.bakedSplats).toBe(1);
+    expect(result.droppedSplats).toBe(1);
+    expect(splatsOf(result.splats)[0]?.center.toArray()).toEqual([2, 0, 0]);
+  });
+
+  it("MULTIPLY tints with a linear softEdge falloff", () => {
+    const mesh = makeMesh([
+      { pos: [0.5, 0, 0], color: [0.8, 0.8, 0.8] },
+      { pos: [1, 0, 0], color: [0.8, 0.8, 0.8] },
+    ]);
+    const edit = makeEdit(SplatEditRgbaBlendMode.MULTIPLY, { softEdge: 1 }, [
+      makeSdf(SplatEditSdfType.SPHERE, [0, 0, 0], { radius: 1, color: [0.5, 1, 1] }),
+    ]);
+    mesh.add(edit);
+
+    const [inner, edge] = splatsOf(bakeScene(mesh, { edits: [edit] }).splats);
+
+    // d=-0.5 -> modulate 1: 0.8 * 0.5
+    expect(inner?.color.r).toBeCloseTo(0.4, 6);
+    // d=0 -> modulate 0.5: mix(0.8, 0.4, 0.5)
+    expect(edge?.color.r).toBeCloseTo(0.6, 6);
+    expect(edge?.color.g).toBeCloseTo(0.8, 6);
+  });
+
+  it("SET_RGB replaces color and scales opacity", () => {
+    const mesh = makeMesh([{ pos: [0.2, 0.2, 0.2], color: [0.2, 0.4, 0.6], opacity: 0.8 }]);
+    const edit = makeEdit(SplatEditRgbaBlendMode.SET_RGB, {}, [
+      makeSdf(SplatEditSdfType.BOX, [0, 0, 0], { scale: [1, 1, 1], color: [0, 0, 1], opacity: 0.5 }),
+    ]);
+    mesh.add(edit);
+
+    const [splat] = splatsOf(bakeScene(mesh, { edits: [edit] }).splats);
+
+    expect(splat?.color.toArray()).toEqual([0, 0, 1]);
+    expect(splat?.opacity).toBeCloseTo(0.4, 6);
+  });
+
+  it("ADD_RGBA with an ALL shape lights every splat and clamps to 1", () => {
+    const mesh = makeMesh([
+      { pos: [5, 5, 5], color: [0.5, 0.5, 0.5] },
+      { pos: [-5, 0, 0], color: [0.95, 0.5, 0.5] },
+    ]);
+    const edit = makeEdit(SplatEditRgbaBlendMode.ADD_RGBA, { softEdge: 0.3 }, [
+      makeSdf(SplatEditSdfType.ALL, [0, 0, 0], { color: [0.1, 0.2, 0.3], opacity: 0 }),
+    ]);
+    mesh.add(edit);
+
+    const [first, second] = splatsOf(bakeScene(mesh, { edits: [edit] }).splats);
+
+    expect(first?.color.r).toBeCloseTo(0.6, 6);
+    expect(first?.color.g).toBeCloseTo(0.7, 6);
+    expect(first?.color.b).toBeCloseTo(0.8, 6);
+    expect(second?.color.r).toBe(1);
+  });
+
+  it("edit invert flips the affected region", () => {
+    const mesh = makeMesh([{ pos: [0, 0, 0] }, { pos: [3, 0, 0] }]);
+    const edit = makeEdit(SplatEditRgbaBlendMode.MULTIPLY, { invert: true }, [
+      makeSdf(SplatEditSdfType.SPHERE, [0, 0, 0], { radius: 1, opacity: 0 }),
+    ]);
+    mesh.add(edit);
+
+    const splats = splatsOf(bakeScene(mesh, { edits: [edit] }).splats);
+
+    expect(splats.map((splat) => splat.center.toArray())).toEqual([[0, 0, 0]]);
+  });
+
+  it("sdfSmooth blends touching shapes and averages their colors", () => {
+    const sdfs = [
+      makeSdf(SplatEditSdfType.SPHERE, [-0.5, 0, 0], { radius: 0.5, color: [1, 0, 0] }),
+      makeSdf(SplatEditSdfType.SPHERE, [0.5, 0, 0], { radius: 0.5, color: [0, 0, 1] }),
+    ];
+    const hard = compileBakeEdits([makeEdit(SplatEditRgbaBlendMode.SET_RGB, {}, sdfs)])[0]!;
+    const smooth = compileBakeEdits([
+      makeEdit(SplatEditRgbaBlendMode.SET_RGB, { sdfSmooth: 0.1 }, sdfs),
+    ])[0]!;
+    const values = { rgba: new THREE.Vector4(), displace: new THREE.Vector3() };
+    const origin = new THREE.Vector3();
+
+    // Both spheres touch the origin: hard min gives d=0 (outside), softmin gives -k*ln2.
+    expect(evaluateEditModulation(hard, origin, values)).toBe(0);
+    expect(evaluateEditModulation(smooth, origin, values)).toBe(1);
+    expect(values.rgba.x).toBeCloseTo(0.5, 6);
+    expect(values.rgba.z).toBeCloseTo(0.5, 6);
+  });
+
+  it("evaluates world-space edits and writes results back in the base mesh frame", () => {
+    const scene = new THREE.Scene();
+    const base = makeMesh([{ pos: [0, 1, 0], color: [0.5, 0.5, 0.5] }]);
+    base.quaternion.set(1, 0, 0, 0);
+    scene.add(base);
+
+    const placed = makeMesh([{ pos: [0, 0, 0], color: [0.5, 0.5, 0.5] }]);
+    placed.position.set(10, 0, 0);
+    scene.add(placed);
+
+    // Mesh-scoped recolor at the base splat's world position (0,-1,0).
+    const local = makeEdit(SplatEditRgbaBlendMode.SET_RGB, {}, [
+      makeSdf(SplatEditSdfType.SPHERE, [0, -1, 0], { radius: 0.25, color: [1, 0, 0] }),
+    ]);
+    base.add(local);
+    // Scene-level displacement around the placed asset.
+    const lift = makeEdit(SplatEditRgbaBlendMode.ADD_RGBA, {}, [
+      makeSdf(SplatEditSdfType.SPHERE, [10, 0, 0], { radius: 1, opacity: 0, color: [0, 0, 0], displace: [0, 1, 0] }),
+    ]);
+    scene.add(lift);
+
+    const result = bakeScene(base, { edits: [local, lift], placedMeshes: [placed] });
+    const [baseSplat, placedSplat] = splatsOf(result.splats);
+
+    expect(result.meshCount).toBe(2);
+    expect(baseSplat?.color.toArray()).toEqual([1, 0, 0]);
+    expectVec(baseSplat!.center, [0, 1, 0]);
+    // World (10,1,0) expressed in the flipped base frame.
+    expectVec(placedSplat!.center, [10, -1, 0]);
+    expect(placedSplat?.color.toArray()).toEqual([0.5, 0.5, 0.5]);
+  });
+});
+
+describe("encodeBakedPly", () => {
+  it("writes a binary little-endian 3DGS PLY", () => {
+    const mesh = makeMesh([{ pos: [1, 2, 3], color: [0.5, 0.5, 0.5], opacity: 0.5 }]);
+    const bytes = encodeBakedPly(mesh.packedSplats);
+
+    const text = new TextDecoder().decode(bytes);
+    const headerEnd = text.indexOf("end_header\n") + "end_header\n".length;
+    expect(text).toContain("format binary_little_endian 1.0");
+    expect(text).toContain("element vertex 1");
+    expect(bytes.length).toBe(headerEnd + 17 * 4);
+
+    const view = new DataView(bytes.buffer, headerEnd);
+    expect([0, 1, 2].map((i) => view.getFloat32(i * 4, true))).toEqual([1, 2, 3]);
+    // f_dc for 0.5 and logit(0.5) are both zero; rot_0 is w.
+    expect(view.getFloat32(6 * 4, true)).toBeCloseTo(0, 6);
+    expect(view.getFloat32(9 * 4, true)).toBeCloseTo(0, 6);
+    expect(view.getFloat32(13 * 4, true)).toBe(1);
+  });
+});
+
+function makeMesh(splats: TestSplat[]): SplatMesh {
+  const packed = new PackedSplats();
+  for (const splat of splats) {
+    const color = splat.color ?? [1, 1, 1];
+    packed.pushSplat(
+      new THREE.Vector3(...splat.pos),
+      new THREE.Vector3(0.01, 0.01, 0.01),
+      new THREE.Quaternion(),
+      splat.opacity ?? 1,
+      new THREE.Color(color[0], color[1], color[2])
+    );
+  }
+  return new SplatMesh({ packedSplats: packed });
+}
+
+function makeEdit(
+  blendMode: SplatEditRgbaBlendMode,
+  options: { softEdge?: number; sdfSmooth?: number; invert?: boolean },
+  sdfs: SplatEditSdf[]
+): SplatEdit {
+  const edit = new SplatEdit({ rgbaBlendMode: blendMode, ...options });
+  for (const sdf of sdfs) {
+    edit.addSdf(sdf);
+  }
+  return edit;
+}
+
+function makeSdf(
+  type: SplatEditSdfType,
+  position: [number, number, number],
+  options: {
+    radius?: number;
+    scale?: [number, number, number];
+    color?: [number, number, number];
+    opacity?: number;
+    displace?: [number, number, number];
+  }
+): SplatEditSdf {
+  const sdf = new SplatEditSdf({ type });
+  sdf.position.set(...position);
+  sdf.radius = options.radius ?? 0;
+  if (options.scale) {
+    sdf.scale.set(...options.scale);
+  }
+  if (options.color) {
+    sdf.color.setRGB(...options.color);
+  }
+  sdf.opacity = options.opacity ?? 1;
+  if (options.displace) {
+    sdf.displace.set(...options.displace);
+  }
+  return sdf;
+}
+
+function splatsOf(packed: PackedSplats) {
+  return (packed as unknown as { splats: Array<{ center: THREE.Vector3; color: THREE.Color; opacity: number }> })
+    .splats;
+}
+
+function expectVec(vec: THREE.Vector3, expected: [number, number, number]) {
+  expect(vec.x).toBeCloseTo(expected[0], 6);
+  expect(vec.y).toBeCloseTo(expected[1], 6);
+  expect(vec.z).toBeCloseTo(expected[2], 6);
+}
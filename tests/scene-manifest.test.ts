@@ -1,8 +1,17 @@
 import * as THREE from "three";
-import { describe, expect, it } from "vitest";
-import { generateManifest, getManifestJSON } from "../src/scene-manifest";
+import { describe, expect, it, vi } from "vitest";
+import type { LLMProvider } from "../src/providers/types";
+import {
+  computeManifestViewpoints,
+  generateManifest,
+  generateVisionManifest,
+  getManifestJSON,
+  parseVisionManifestResponse,
+  type ManifestCaptureTarget,
+} from "../src/scene-manifest";
 import { gridKey } from "../src/spatial-index";
 import type { SpatialGrid, VoxelCell } from "../src/types";
+import type { CameraState } from "../src/viewer";
 
 // ---------------------------------------------------------------------------
 // generateManifest
@@ -284,6 +293,142 @@ describe("description generation", () => {
   });
 });
 
+describe("computeManifestViewpoints", () => {
+  it("places 4-6 cameras inside the bounds looking at the center", () => {
+    const bounds = new THREE.Box3(new THREE.Vector3(-10, 0, -4), new THREE.Vector3(10, 6, 4));
+    const center = bounds.getCenter(new THREE.Vector3());
+
+    expect(computeManifestViewpoints(bounds, 2)).toHaveLength(4);
+    expect(computeManifestViewpoints(bounds, 9)).toHaveLength(6);
+
+    const views = computeManifestViewpoints(bounds);
+    expect(views).toHaveLength(5);
+    for (const view of views) {
+      expect(bounds.containsPoint(view.position)).toBe(true);
+      expect(view.target.equals(center)).toBe(true);
+      expect(view.position.y).toBeGreaterThan(center.y);
+    }
+    const labels = new Set(views.map((view) => view.label));
+    expect(labels.size).toBe(5);
+  });
+});
+
+describe("parseVisionManifestResponse", () => {
+  it("maps cells and bounds back to occupied grid cells", () => {
+    const grid = makeSceneGrid();
+    const parsed = parseVisionManifestResponse(
+      "```json\n" +
+        JSON.stringify({
+          description: "A garden with a potted fern.",
+          regions: [
+            { label: "Potted Fern", cells: ["5,10,5", [5, 11, 5], "0,0,0"], confidence: 0.9 },
+            { label: "stone path", bounds: { min: [9, 1, 9], max: [12, 4, 12] } },
+            { label: "ghost", cells: ["1,1,1"] },
+          ],
+        }) +
+        "\n```",
+      grid
+    );
+
+    expect(parsed.description).toBe("A garden with a potted fern.");
+    expect(parsed.regions.map((region) => region.label)).toEqual(["stone_path", "potted_fern"]);
+    const fern = parsed.regions.find((region) => region.label === "potted_fern")!;
+    expect(fern.gridCells.sort()).toEqual(["5,10,5", "5,11,5"]);
+    expect(fern.confidence).toBeCloseTo(0.9);
+    expect(fern.estimatedBounds.min.toArray()).toEqual([5, 10, 5]);
+    expect(fern.estimatedBounds.max.toArray()).toEqual([6, 12, 6]);
+    const path = parsed.regions.find((region) => region.label === "stone_path")!;
+    expect(path.gridCells).toEqual(["10,2,10"]);
+    expect(path.confidence).toBeCloseTo(0.6);
+  });
+
+  it("rejects non-JSON responses", () => {
+    expect(() => parseVisionManifestResponse("I see a garden.", makeSceneGrid())).toThrow(
+      /not valid JSON/
+    );
+  });
+});
+
+describe("generateVisionManifest", () => {
+  it("captures each viewpoint, restores the camera and uses the provider labels", async () => {
+    const grid = makeSceneGrid();
+    const capture = makeCaptureTarget();
+    const provider = makeVisionProvider(
+      JSON.stringify({
+        description: "A living room with a sofa.",
+        regions: [{ label: "sofa", cells: ["8,8,8"], confidence: 0.8 }],
+      })
+    );
+
+    const manifest = await generateVisionManifest(grid, capture, {
+      viewCount: 4,
+      providers: [provider],
+    });
+
+    expect(manifest.source).toBe("vision");
+    expect(manifest.description).toBe("A living room with a sofa.");
+    expect(manifest.regions.map((region) => region.label)).toEqual(["sofa"]);
+    expect(manifest.screenshots).toHaveLength(4);
+    expect(capture.captureScreenshot).toHaveBeenCalledTimes(4);
+    expect(capture.getCameraState()).toEqual(INITIAL_CAMERA);
+
+    const request = vi.mocked(provider.generate).mock.calls[0][0];
+    expect(request.images).toHaveLength(4);
+    expect(request.images[0]).toEqual({ mimeType: "image/png", base64: "c2hvdDA=" });
+    expect(request.userText).toContain('"cellSize"');
+  });
+
+  it("reports the capture done, camera restored, before the provider request", async () => {
+    const capture = makeCaptureTarget();
+    const provider = makeVisionProvider(
+      JSON.stringify({ description: "A room.", regions: [{ label: "sofa", cells: ["8,8,8"] }] })
+    );
+    const seen: Array<{ camera: CameraState; requested: number }> = [];
+    capture.onCaptured = () => {
+      seen.push({
+        camera: capture.getCameraState(),
+        requested: vi.mocked(provider.generate).mock.calls.length,
+      });
+    };
+
+    await generateVisionManifest(makeSceneGrid(), capture, { providers: [provider] });
+
+    expect(seen).toEqual([{ camera: INITIAL_CAMERA, requested: 0 }]);
+    expect(provider.generate).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the heuristic manifest without a vision provider", async () => {
+    const capture = makeCaptureTarget();
+    const textOnly = makeVisionProvider("{}");
+    textOnly.capabilities.vision = false;
+
+    const manifest = await generateVisionManifest(makeSceneGrid(), capture, {
+      providers: [textOnly],
+    });
+
+    expect(manifest.source).toBe("heuristic");
+    expect(manifest).toEqual(generateManifest(makeSceneGrid()));
+    expect(capture.captureScreenshot).not.toHaveBeenCalled();
+    expect(textOnly.generate).not.toHaveBeenCalled();
+  });
+
+  it("tries the next provider and finally falls back when labeling fails", async () => {
+    const failing = makeVisionProvider("");
+    vi.mocked(failing.generate).mockRejectedValue(new Error("quota exceeded"));
+    const useless = makeVisionProvider(JSON.stringify({ regions: [{ label: "x", cells: ["1,1,1"] }] }));
+    const capture = makeCaptureTarget();
+
+    const manifest = await generateVisionManifest(makeSceneGrid(), capture, {
+      providers: [failing, useless],
+    });
+
+    expect(failing.generate).toHaveBeenCalledTimes(1);
+    expect(useless.generate).toHaveBeenCalledTimes(1);
+    expect(manifest.source).toBe("heuristic");
+    expect(capture.getCameraState()).toEqual(INITIAL_CAMERA);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -431,3 +576,28 @@ function makeCell(
     splatIndices: Array.from({ length: splatCount }, (_, i) => i),
   };
 }
+
+const INITIAL_CAMERA: CameraState = { position: [1, 2, 3], target: [0, 0, 0], fov: 60 };
+
+function makeCaptureTarget(): ManifestCaptureTarget {
+  let state: CameraState = structuredClone(INITIAL_CAMERA);
+  let shots = 0;
+  return {
+    getCameraState: () => structuredClone(state),
+    setCameraState: (next) => {
+      state = structuredClone(next);
+    },
+    captureScreenshot: vi.fn(async () => `data:image/png;base64,${btoa(`shot${shots++}`)}`),
+  };
+}
+
+function makeVisionProvider(text: string): LLMProvider {
+  const provider: LLMProvider = {
+    name: "fake-vision",
+    label: "Fake vision",
+    model: "fake-1",
+    capabilities: { vision: true, jsonMode: true, maxImages: 8 },
+    generate: vi.fn(async () => ({ text, provider: provider.name, model: provider.model })),
+  };
+  return provider;
+}
@@ -0,0 +1,139 @@
+import * as THREE from "three";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SplatMesh } from "@sparkjsdev/spark";
+import type { LoadedScene, SceneIndexEntry } from "../src/scene-registry";
+import type { AssetEntry, EditOperation } from "../src/types";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D } = await import("three");
+
+  class SplatMesh extends Object3D {}
+  class PackedSplats {}
+  class SplatEdit extends Object3D {
+    addSdf() {}
+  }
+  class SplatEditSdf extends Object3D {}
+
+  return {
+    SplatMesh,
+    PackedSplats,
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {},
+    SplatEditRgbaBlendMode: {},
+  };
+});
+
+beforeEach(() => {
+  vi.resetModules();
+});
+
+async function loadModules() {
+  const executor = await import("../src/executor");
+  const library = await import("../src/asset-library");
+  const registry = await import("../src/scene-registry");
+  return { executor, library, registry };
+}
+
+describe("parseSceneIndex", () => {
+  it("accepts file names and records, keeping only distinct .spz files", async () => {
+    const { registry } = await loadModules();
+    const entries = registry.parseSceneIndex([
+      "elegant_library_with_fireplace_500k.spz",
+      { file: "/rooms/attic-loft.spz", label: "  Attic  " },
+      { file: "elegant_library_with_fireplace_500k.spz", label: "duplicate" },
+      "throne.glb",
+      { label: "no file" },
+      42,
+    ]);
+
+    expect(entries).toEqual([
+      {
+        file: "elegant_library_with_fireplace_500k.spz",
+        label: "elegant library with fireplace 500k",
+        url: "/scenes/elegant_library_with_fireplace_500k.spz",
+      },
+      { file: "rooms/attic-loft.spz", label: "Attic", url: "/scenes/rooms/attic-loft.spz" },
+    ]);
+    expect(registry.parseSceneIndex({ scenes: [] })).toEqual([]);
+  });
+});
+
+describe("createSceneRegistry", () => {
+  it("gives each scene its own edit history and placed assets", async () => {
+    const { executor, library, registry } = await loadModules();
+    const scenes = registry.createSceneRegistry<LoadedScene>();
+    const libraryScene = makeScene(registry.createSceneIndexEntry("library.spz"), executor);
+    const attic = makeScene(registry.createSceneIndexEntry("attic.spz"), executor);
+    scenes.add(libraryScene);
+    scenes.add(attic);
+
+    expect(scenes.activate("library.spz")).toBe(libraryScene);
+    executor.executeOperations([deleteOp()], libraryScene.splatMesh, {
+      command: "remove the vase",
+    });
+    library.registerPlacedAsset(makeAsset(), new THREE.Object3D() as unknown as SplatMesh);
+
+    scenes.activate("attic.spz");
+    expect(scenes.getActive()).toBe(attic);
+    expect(executor.getHistoryEntries()).toEqual([]);
+    expect(library.listPlacedAssets()).toEqual([]);
+    expect(libraryScene.placedAssets).toHaveLength(1);
+    // Edits stay on the inactive scene's mesh; the viewer hides its root.
+    expect(libraryScene.splatMesh.children).toHaveLength(1);
+    expect(executor.undoLastEdit()).toBe(false);
+
+    scenes.activate("library.spz");
+    expect(executor.getHistoryEntries().map((entry) => entry.command)).toEqual([
+      "remove the vase",
+    ]);
+    expect(library.listPlacedAssets()).toHaveLength(1);
+    expect(executor.undoLastEdit()).toBe(true);
+    expect(libraryScene.splatMesh.children).toHaveLength(0);
+
+    expect(scenes.activate("missing.spz")).toBeNull();
+    expect(scenes.getActive()).toBe(libraryScene);
+  });
+});
+
+function makeScene(
+  entry: SceneIndexEntry,
+  executor: typeof import("../src/executor")
+): LoadedScene {
+  const root = new THREE.Scene();
+  const splatMesh = new THREE.Object3D() as unknown as SplatMesh;
+  root.add(splatMesh);
+  return {
+    entry,
+    root,
+    splatMesh,
+    grid: {} as LoadedScene["grid"],
+    arrays: {} as LoadedScene["arrays"],
+    spatialIndex: null,
+    manifest: {} as LoadedScene["manifest"],
+    history: executor.createEditHistoryState(),
+    placedAssets: [],
+  };
+}
+
+function deleteOp(): EditOperation {
+  return {
+    action: "delete",
+    blendMode: "MULTIPLY",
+    shapes: [{ type: "SPHERE", position: [0, 0, 0], radius: 0.5, opacity: 0 }],
+  };
+}
+
+function makeAsset(): AssetEntry {
+  return {
+    id: "asset-lamp",
+    label: "lamp",
+    sourceScene: "library.spz",
+    extractedAt: new Date(0),
+    splats: {} as AssetEntry["splats"],
+    thumbnailDataUrl: "",
+    originalPosition: new THREE.Vector3(),
+    bounds: new THREE.Box3(new THREE.Vector3(-0.5, 0, -0.5), new THREE.Vector3(0.5, 1, 0.5)),
+    splatCount: 10,
+  };
+}
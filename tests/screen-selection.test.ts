@@ -0,0 +1,107 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import {
+  buildCompoundSelectionShapes,
+  buildRegionSelection,
+  formatRegionSelection,
+  isPointInPolygon,
+  rectangleToPolygon,
+  selectCellsInScreenPolygon,
+} from "../src/screen-selection";
+import type { SpatialGrid, VoxelCell } from "../src/types";
+
+const VIEWPORT = { width: 200, height: 200 };
+
+describe("selectCellsInScreenPolygon", () => {
+  it("keeps projected cells inside the polygon and drops ones hidden behind them", () => {
+    const grid = makeGrid([makeCell([5, 5, 9]), makeCell([5, 5, 2]), makeCell([9, 5, 9])]);
+    const camera = new THREE.PerspectiveCamera(60, 1, 0.1, 100);
+    camera.position.set(5.5, 5.5, 20);
+    camera.lookAt(5.5, 5.5, 0);
+    const box = rectangleToPolygon([60, 60], [140, 140]);
+
+    expect(selectCellsInScreenPolygon(grid, camera, box, VIEWPORT)).toEqual(["5,5,9"]);
+    expect(
+      selectCellsInScreenPolygon(grid, camera, box, VIEWPORT, { visibleOnly: false }).sort()
+    ).toEqual(["5,5,2", "5,5,9"]);
+    expect(selectCellsInScreenPolygon(grid, camera, box.slice(0, 2), VIEWPORT)).toEqual([]);
+  });
+
+  it("tests lasso points with the even-odd rule", () => {
+    const triangle: Array<[number, number]> = [
+      [0, 0],
+      [10, 0],
+      [0, 10],
+    ];
+    expect(isPointInPolygon(2, 2, triangle)).toBe(true);
+    expect(isPointInPolygon(8, 8, triangle)).toBe(false);
+  });
+});
+
+describe("buildCompoundSelectionShapes", () => {
+  const lShape = () =>
+    makeGrid([
+      makeCell([0, 0, 0]),
+      makeCell([1, 0, 0]),
+      makeCell([2, 0, 0]),
+      makeCell([0, 1, 0]),
+      makeCell([0, 2, 0]),
+    ]);
+
+  it("covers an L of cells with one tight box per solid block", () => {
+    const grid = lShape();
+    const shapes = buildCompoundSelectionShapes(grid, [...grid.cells.keys()]);
+
+    expect(shapes).toEqual([
+      { type: "BOX", position: [1.5, 0.5, 0.5], scale: [1.62, 0.54, 0.54] },
+      { type: "BOX", position: [0.5, 2, 0.5], scale: [0.54, 1.08, 0.54] },
+    ]);
+  });
+
+  it("merges blocks past maxShapes and rounds sparse merges to ellipsoids", () => {
+    const grid = lShape();
+    const shapes = buildCompoundSelectionShapes(grid, [...grid.cells.keys()], { maxShapes: 1 });
+
+    expect(shapes).toEqual([
+      { type: "ELLIPSOID", position: [1.5, 1.5, 0.5], scale: [1.62, 1.62, 0.54] },
+    ]);
+  });
+});
+
+describe("buildRegionSelection", () => {
+  it("summarizes the selected cells for the agent", () => {
+    const grid = makeGrid([makeCell([3, 1, 2]), makeCell([4, 1, 2])]);
+    const selection = buildRegionSelection(grid, ["3,1,2", "4,1,2", "9,9,9"], "lasso");
+
+    expect(selection?.cellKeys).toEqual(["3,1,2", "4,1,2"]);
+    expect(selection?.splatCount).toBe(40);
+    expect(selection?.center.toArray()).toEqual([4, 1.5, 2.5]);
+    const text = formatRegionSelection(selection!);
+    expect(text).toContain("Selected region (drawn by the user with a lasso");
+    expect(text).toContain('shapes=[{"type":"BOX","position":[4,1.5,2.5]');
+    expect(buildRegionSelection(grid, ["9,9,9"], "box")).toBeNull();
+  });
+});
+
+function makeGrid(cells: VoxelCell[]): SpatialGrid {
+  return {
+    resolution: [10, 10, 10],
+    worldBounds: new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(10, 10, 10)),
+    cellSize: new THREE.Vector3(1, 1, 1),
+    cells: new Map(cells.map((cell) => [cell.gridPos.join(","), cell])),
+  };
+}
+
+function makeCell(gridPos: [number, number, number]): VoxelCell {
+  const min = new THREE.Vector3(...gridPos);
+  return {
+    gridPos,
+    worldCenter: min.clone().addScalar(0.5),
+    worldBounds: new THREE.Box3(min, min.clone().addScalar(1)),
+    splatCount: 20,
+    avgColor: new THREE.Color(0.5, 0.5, 0.5),
+    colorVariance: 0.01,
+    density: 20,
+    splatIndices: [],
+  };
+}
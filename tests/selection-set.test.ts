@@ -0,0 +1,60 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import { createSelectionSet } from "../src/selection-set";
+import type { SpatialGrid, VoxelCell } from "../src/types";
+import type { ViewerContext } from "../src/viewer";
+
+describe("createSelectionSet", () => {
+  it("adds clusters with their own markers and removes the one Alt-clicked", () => {
+    const grid = makeGrid([
+      makeCell([1, 1, 1], [0.8, 0.2, 0.2]),
+      makeCell([2, 1, 1], [0.8, 0.2, 0.2]),
+      makeCell([6, 1, 1], [0.2, 0.2, 0.8]),
+      makeCell([7, 1, 1], [0.2, 0.2, 0.8]),
+    ]);
+    const scene = new THREE.Scene();
+    const set = createSelectionSet({ scene } as ViewerContext, { getGrid: () => grid });
+    const changes: number[] = [];
+    set.onChange((members) => changes.push(members.length));
+
+    const red = set.add(new THREE.Vector3(1.5, 1.5, 1.5));
+    const blue = set.add(new THREE.Vector3(6.5, 1.5, 1.5));
+
+    expect(red.cluster?.clusterCellKeys.sort()).toEqual(["1,1,1", "2,1,1"]);
+    expect(blue.cluster?.clusterCellKeys.sort()).toEqual(["6,1,1", "7,1,1"]);
+    expect(scene.children).toHaveLength(2);
+
+    // Anywhere on the red cluster removes the red point.
+    expect(set.subtract(new THREE.Vector3(2.5, 1.5, 1.5))).toBe(true);
+    expect(set.getMembers()).toEqual([blue]);
+    expect(scene.children.map((child) => child.name)).toEqual([`selection-set-${blue.id}`]);
+    expect(set.subtract(new THREE.Vector3(4, 8, 8))).toBe(false);
+
+    set.clear();
+    expect(scene.children).toHaveLength(0);
+    expect(changes).toEqual([1, 2, 1, 0]);
+  });
+});
+
+function makeGrid(cells: VoxelCell[]): SpatialGrid {
+  return {
+    resolution: [10, 10, 10],
+    worldBounds: new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(10, 10, 10)),
+    cellSize: new THREE.Vector3(1, 1, 1),
+    cells: new Map(cells.map((cell) => [cell.gridPos.join(","), cell])),
+  };
+}
+
+function makeCell(gridPos: [number, number, number], color: [number, number, number]): VoxelCell {
+  const min = new THREE.Vector3(...gridPos);
+  return {
+    gridPos,
+    worldCenter: min.clone().addScalar(0.5),
+    worldBounds: new THREE.Box3(min, min.clone().addScalar(1)),
+    splatCount: 30,
+    avgColor: new THREE.Color(...color),
+    colorVariance: 0.01,
+    density: 30,
+    splatIndices: [],
+  };
+}
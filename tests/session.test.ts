@@ -0,0 +1,313 @@
+import * as THREE from "three";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AssetEntry, EditOperation, PlacedAssetInstance } from "../src/types";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D, Color, Vector3 } = await import("three");
+
+  class SplatEditSdf extends Object3D {
+    public radius = 0;
+    public opacity = 1;
+    public color = new Color(1, 1, 1);
+    public displace = new Vector3();
+    public sdfType: string;
+
+    constructor(options: { type?: string } = {}) {
+      super();
+      this.sdfType = options.type ?? "sphere";
+    }
+  }
+
+  class SplatEdit extends Object3D {
+    public sdfs: SplatEditSdf[] = [];
+
+    addSdf(sdf: SplatEditSdf) {
+      this.sdfs.push(sdf);
+    }
+  }
+
+  return {
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {
+      ALL: "all",
+      PLANE: "plane",
+      SPHERE: "sphere",
+      BOX: "box",
+      ELLIPSOID: "ellipsoid",
+      CYLINDER: "cylinder",
+      CAPSULE: "capsule",
+      INFINITE_CONE: "infinite_cone",
+    },
+    SplatEditRgbaBlendMode: {
+      MULTIPLY: "multiply",
+      SET_RGB: "set_rgb",
+      ADD_RGBA: "add_rgba",
+    },
+  };
+});
+
+beforeEach(() => {
+  vi.resetModules();
+});
+
+describe("session save/load", () => {
+  it("round-trips history, placed assets and camera through JSON", async () => {
+    const executor = await import("../src/executor");
+    const session = await import("../src/session");
+    const { scene, mesh } = makeSceneWithMesh();
+
+    const createdAt = new Date("2026-01-02T03:04:05.000Z");
+    executor.executeOperations([recolorOp(0), atmosphereOp()], mesh, {
+      command: "warm it up",
+      provider: "openai",
+      createdAt,
+    });
+    executor.executeOperations([recolorOp(1)], mesh, { command: "paint", provider: "gemini" });
+
+    const asset = makeAsset();
+    const placedMesh = new THREE.Object3D();
+    placedMesh.position.set(1, 2, 3);
+    placedMesh.scale.setScalar(0.5);
+    const placed = [
+      { id: "placed-1", assetId: asset.id, label: asset.label, mesh: placedMesh, placedAt: new Date() },
+    ] as unknown as PlacedAssetInstance[];
+
+    const camera = { position: [0, 1, 5] as [number, number, number], target: [0, 0, 0] as [number, number, number], fov: 50 };
+    const json = session.serializeSession(
+      session.captureSession("/scenes/room.spz", placed, camera)
+    );
+
+    const doc = session.parseSessionDocument(json);
+    expect(doc.version).toBe(session.SESSION_VERSION);
+    expect(doc.history).toHaveLength(2);
+    expect(doc.history[0]?.timestamp).toBe(createdAt.toISOString());
+    expect(doc.history[0]?.operations.map((item) => item.target)).toEqual(["mesh", "scene"]);
+
+    const fresh = makeSceneWithMesh();
+    const placements: THREE.Vector3[] = [];
+    const setCameraState = vi.fn();
+    const result = session.applySessionDocument(doc, {
+      editParent: fresh.mesh,
+      sceneParent: fresh.scene,
+      placementParent: fresh.scene,
+      clearPlacedAssets: vi.fn(),
+      resolveAsset: (assetId) => (assetId === asset.id ? asset : undefined),
+      placeAsset: (_asset, placement) => {
+        const replaced = new THREE.Object3D();
+        replaced.position.fromArray(placement.position);
+        placements.push(replaced.position);
+        return replaced as never;
+      },
+      setCameraState,
+    });
+
+    expect(result).toEqual({
+      replayedEntries: 2,
+      replayedOperations: 3,
+      placedAssets: 1,
+      missingAssets: [],
+    });
+    expect(mesh.children).toHaveLength(0);
+    expect(fresh.mesh.children).toHaveLength(2);
+    expect(fresh.scene.children).toContain(executor.getHistoryEntries()[0]?.applied[1]?.edit);
+    expect(placements[0]?.toArray()).toEqual([1, 2, 3]);
+    expect(setCameraState).toHaveBeenCalledWith(camera);
+
+    const entries = executor.getHistoryEntries();
+    expect(entries.map((entry) => [entry.command, entry.provider])).toEqual([
+      ["warm it up", "openai"],
+      ["paint", "gemini"],
+    ]);
+    expect(entries[0]?.createdAt.toISOString()).toBe(createdAt.toISOString());
+
+    // Replayed entries are ordinary history and stay undoable.
+    expect(executor.undoLastEdit()).toBe(true);
+    expect(fresh.mesh.children).toHaveLength(1);
+  });
+
+  it("replays each operation under the parent its target names", async () => {
+    const executor = await import("../src/executor");
+    const session = await import("../src/session");
+    const { mesh } = makeSceneWithMesh();
+    executor.executeOperations([recolorOp(0), atmosphereOp()], mesh, { command: "warm it up" });
+
+    const doc = session.parseSessionDocument(
+      session.serializeSession(session.captureSession("/scenes/room.spz", [], null))
+    );
+    // Hand-edited: the recolor becomes global, the atmosphere mesh-scoped.
+    const [recolorItem, atmosphereItem] = doc.history[0].operations;
+    recolorItem.target = "scene";
+    atmosphereItem.target = "mesh";
+
+    const fresh = makeSceneWithMesh();
+    session.applySessionDocument(doc, {
+      editParent: fresh.mesh,
+      sceneParent: fresh.scene,
+      placementParent: fresh.scene,
+      clearPlacedAssets: vi.fn(),
+      resolveAsset: () => undefined,
+      placeAsset: vi.fn(),
+    });
+
+    const [recolor, atmosphere] = executor.getHistoryEntries()[0]?.applied ?? [];
+    expect(recolor?.addedParent).toBe(fresh.scene);
+    expect(atmosphere?.addedParent).toBe(fresh.mesh);
+    const resaved = session.buildSessionDocument({
+      sceneUrl: "/scenes/room.spz",
+      history: executor.getHistoryEntries(),
+      placedAssets: [],
+      camera: null,
+    });
+    expect(resaved.history[0]?.operations.map((item) => item.target)).toEqual(["scene", "mesh"]);
+  });
+
+  it("replays duplicates but leaves agent placements to placedAssets", async () => {
+    const executor = await import("../src/executor");
+    const session = await import("../src/session");
+    const { scene, mesh } = makeSceneWithMesh();
+    const copyHandler = vi.fn((_op: EditOperation, _parent: THREE.Object3D) => {
+      const copy = new THREE.Object3D();
+      scene.add(copy);
+      return { apply: () => scene.add(copy), revert: () => scene.remove(copy) };
+    });
+    executor.setRegionCopyHandler(copyHandler);
+    executor.setAssetPlacementHandler(() => ({ apply: vi.fn(), revert: vi.fn() }));
+
+    const duplicate: EditOperation = {
+      action: "duplicate",
+      blendMode: "MULTIPLY",
+      softEdge: 0.1,
+      assetLabel: "chair",
+      translate: [1, 0, 0],
+      rotate: 0,
+      shapes: [{ type: "SPHERE", position: [0, 0, 0], radius: 0.5, opacity: 0 }],
+    };
+    executor.executeOperations([duplicate], mesh, { command: "copy the chair" });
+    executor.executeOperations(
+      [
+        {
+          action: "place",
+          blendMode: "MULTIPLY",
+          shapes: [],
+          placement: { assetId: "asset-1", position: [0, 0, 0], yaw: 0, scale: 1 },
+        },
+      ],
+      mesh,
+      { command: "put a lamp here" }
+    );
+
+    const doc = session.parseSessionDocument(
+      session.serializeSession(session.captureSession("/scenes/room.spz", [], null))
+    );
+    expect(doc.history.map((entry) => entry.command)).toEqual(["copy the chair"]);
+    expect(doc.history[0]?.operations[0]).toMatchObject({ target: "mesh", operation: duplicate });
+
+    const fresh = makeSceneWithMesh();
+    session.applySessionDocument(doc, {
+      editParent: fresh.mesh,
+      sceneParent: fresh.scene,
+      placementParent: fresh.scene,
+      clearPlacedAssets: vi.fn(),
+      resolveAsset: () => undefined,
+      placeAsset: vi.fn(),
+    });
+    expect(copyHandler).toHaveBeenCalledTimes(2);
+    expect(copyHandler.mock.calls[0]?.[1]).toBe(mesh);
+    expect(copyHandler.mock.calls[1]?.[1]).toBe(fresh.mesh);
+    expect(executor.getHistoryEntries().map((entry) => entry.command)).toEqual(["copy the chair"]);
+    executor.setRegionCopyHandler(null);
+    executor.setAssetPlacementHandler(null);
+  });
+
+  it("reports placed assets missing from the library", async () => {
+    const session = await import("../src/session");
+    const { scene, mesh } = makeSceneWithMesh();
+
+    const result = session.applySessionDocument(
+      session.parseSessionDocument(
+        JSON.stringify({
+          version: 1,
+          sceneUrl: "/scenes/room.spz",
+          history: [],
+          placedAssets: [
+            { assetId: "gone", label: "Lamp", position: [0, 0, 0], quaternion: [0, 0, 0, 1], scale: 1 },
+          ],
+        })
+      ),
+      {
+        editParent: mesh,
+        sceneParent: scene,
+        placementParent: scene,
+        clearPlacedAssets: vi.fn(),
+        resolveAsset: () => undefined,
+        placeAsset: vi.fn(),
+      }
+    );
+
+    expect(result.missingAssets).toEqual(["Lamp"]);
+    expect(result.placedAssets).toBe(0);
+  });
+
+  it("rejects unsupported versions and invalid operations", async () => {
+    const session = await import("../src/session");
+
+    expect(() =>
+      session.parseSessionDocument(JSON.stringify({ version: 99, sceneUrl: "/a", history: [] }))
+    ).toThrow("newer than supported");
+    expect(() => session.parseSessionDocument("{not json")).toThrow("not valid JSON");
+
+    const badShape = {
+      version: 1,
+      sceneUrl: "/a",
+      history: [
+        {
+          command: "x",
+          provider: "gemini",
+          timestamp: "2026-01-01T00:00:00.000Z",
+          operations: [
+            {
+              target: "mesh",
+              operation: { action: "recolor", blendMode: "SET_RGB", softEdge: 0, shapes: [{ type: "BLOB", position: [0, 0, 0] }] },
+            },
+          ],
+        },
+      ],
+    };
+    expect(() => session.parseSessionDocument(JSON.stringify(badShape))).toThrow(
+      /Session history entry 0:/
+    );
+  });
+});
+
+function makeSceneWithMesh(): { scene: THREE.Scene; mesh: THREE.Object3D } {
+  const scene = new THREE.Scene();
+  const mesh = new THREE.Object3D();
+  scene.add(mesh);
+  return { scene, mesh };
+}
+
+function makeAsset(): AssetEntry {
+  return {
+    id: "asset-1",
+    label: "Chair",
+  } as unknown as AssetEntry;
+}
+
+function recolorOp(x: number): EditOperation {
+  return {
+    action: "recolor",
+    blendMode: "SET_RGB",
+    softEdge: 0.1,
+    shapes: [{ type: "SPHERE", position: [x, 0, 0], radius: 0.5, color: [1, 0, 0] }],
+  };
+}
+
+function atmosphereOp(): EditOperation {
+  return {
+    action: "atmosphere",
+    blendMode: "ADD_RGBA",
+    softEdge: 0.3,
+    shapes: [{ type: "ALL", position: [0, 0, 0], color: [0.1, 0.1, 0.1] }],
+  };
+}
@@ -0,0 +1,126 @@
+import * as THREE from "three";
+import { describe, expect, it, vi } from "vitest";
+import type { SdfTransformTarget } from "../src/shape-gizmo";
+import type { EditOperation, SDFShapeConfig } from "../src/types";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D } = await import("three");
+
+  class SplatEditSdf extends Object3D {
+    public radius = 0;
+  }
+  class SplatEdit extends Object3D {
+    public sdfs: SplatEditSdf[] = [];
+
+    addSdf(sdf: SplatEditSdf) {
+      this.sdfs.push(sdf);
+    }
+  }
+
+  return {
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: {},
+    SplatEditRgbaBlendMode: {},
+  };
+});
+
+const { collectHandles, radiusFromHandlePoint, radiusHandlePosition, shapeConfigFromSdf } =
+  await import("../src/shape-gizmo");
+const executor = await import("../src/executor");
+
+function makeSdf(shape: SDFShapeConfig): SdfTransformTarget {
+  const sdf = Object.assign(new THREE.Object3D(), { radius: shape.radius ?? 0 });
+  sdf.position.fromArray(shape.position);
+  if (shape.rotation) {
+    sdf.quaternion.fromArray(shape.rotation);
+  }
+  if (shape.scale) {
+    sdf.scale.fromArray(shape.scale);
+  }
+  return sdf;
+}
+
+describe("shapeConfigFromSdf", () => {
+  it("round-trips an untouched shape unchanged", () => {
+    const shape: SDFShapeConfig = {
+      type: "BOX",
+      position: [1, 2, 3],
+      scale: [0.5, 1, 0.25],
+      color: [1, 0, 0],
+      opacity: 1,
+    };
+    expect(shapeConfigFromSdf(shape, makeSdf(shape))).toEqual(shape);
+  });
+
+  it("writes back moved, rotated and scaled transforms", () => {
+    const shape: SDFShapeConfig = { type: "ELLIPSOID", position: [0, 0, 0], color: [0, 1, 0] };
+    const sdf = makeSdf(shape);
+    sdf.position.set(0.123456, -1, 2);
+    sdf.quaternion.setFromAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI / 2);
+    sdf.scale.set(2, 1, 1);
+
+    const next = shapeConfigFromSdf(shape, sdf);
+    expect(next.position).toEqual([0.1235, -1, 2]);
+    expect(next.rotation).toEqual([0, 0.7071, 0, 0.7071]);
+    expect(next.scale).toEqual([2, 1, 1]);
+    expect(next.color).toEqual([0, 1, 0]);
+    expect(next.radius).toBeUndefined();
+  });
+});
+
+describe("radius handles", () => {
+  it("places the sphere handle on the surface and reads radius back", () => {
+    const sdf = makeSdf({ type: "SPHERE", position: [1, 0, 0], radius: 0.5 });
+    const handle = radiusHandlePosition("SPHERE", sdf, 1);
+    expect(handle.toArray()).toEqual([1.5, 0, 0]);
+    expect(radiusFromHandlePoint("SPHERE", sdf, new THREE.Vector3(1, 2, 0))).toBeCloseTo(2);
+  });
+
+  it("maps cone handle angle to Spark's radius (half-angle = radius·π/4)", () => {
+    const sdf = makeSdf({
+      type: "INFINITE_CONE",
+      position: [0, 3, 0],
+      rotation: [0.7071068, 0, 0, 0.7071068],
+      radius: 0.5,
+    });
+    const handle = radiusHandlePosition("INFINITE_CONE", sdf, 2);
+    expect(radiusFromHandlePoint("INFINITE_CONE", sdf, handle)).toBeCloseTo(0.5, 5);
+
+    // Rotated +90° about X, the cone axis (local -Z) points up; a point 45°
+    // off the axis is a quarter-turn cone, i.e. radius 1.
+    const offAxis = new THREE.Vector3(1, 4, 0);
+    expect(radiusFromHandlePoint("INFINITE_CONE", sdf, offAxis)).toBeCloseTo(1, 4);
+  });
+});
+
+describe("collectHandles", () => {
+  it("keys handles by operation index when earlier ops add no edit", () => {
+    const scene = new THREE.Scene();
+    const mesh = new THREE.Object3D();
+    scene.add(mesh);
+    executor.setAssetPlacementHandler(() => ({ apply: () => {}, revert: () => {} }));
+
+    const place: EditOperation = {
+      action: "place",
+      blendMode: "MULTIPLY",
+      shapes: [],
+      placement: { assetId: "lamp", position: [0, 0, 0], yaw: 0, scale: 1 },
+    };
+    const recolor: EditOperation = {
+      action: "recolor",
+      blendMode: "SET_RGB",
+      shapes: [{ type: "BOX", position: [1, 0, 0], scale: [0.5, 0.5, 0.5], color: [1, 0, 0] }],
+    };
+    executor.executeOperations([place, recolor], mesh, { command: "lamp, red box" });
+
+    const entry = executor.getHistoryEntries()[0];
+    const handles = collectHandles(executor.getHistoryEntries());
+    expect(handles).toHaveLength(1);
+    expect(handles[0]?.opIndex).toBe(1);
+    expect(entry?.operations[handles[0]?.opIndex ?? -1]).toBe(recolor);
+
+    executor.undoAllEdits();
+    executor.setAssetPlacementHandler(null);
+  });
+});
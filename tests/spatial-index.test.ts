@@ -1,13 +1,26 @@
 import * as THREE from "three";
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { SplatMesh } from "@sparkjsdev/spark";
 import type { SpatialGrid, VoxelCell } from "../src/types";
 import {
+  buildSpatialGrid,
+  buildSpatialGridInWorker,
+  buildSpatialIndex,
   computeCroppedBounds,
   computeNominalCellSize,
   getCellAtWorldPos,
   getNeighborCells,
   gridKey,
+  handleSpatialGridWorkerRequest,
+  isOctreeIndex,
+  octreeKey,
+  raycastSpatialGrid,
+  serializeSpatialGrid,
   serializeSpatialGridForLLM,
+  type SpatialGridWorkerMessage,
+  type SpatialGridWorkerRequest,
+  type SpatialIndexOptions,
+  type SpatialIndexProgress,
   transformBoundsToWorld,
   worldPosToGridCoord,
 } from "../src/spatial-index";
@@ -298,6 +311,36 @@ describe("getNeighborCells", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// raycastSpatialGrid
+// ---------------------------------------------------------------------------
+
+describe("raycastSpatialGrid", () => {
+  it("returns the first occupied cell along the ray", () => {
+    const grid = makeTestGrid();
+    const ray = new THREE.Ray(new THREE.Vector3(1.2, 1.2, -5), new THREE.Vector3(0, 0, 1));
+    const hit = raycastSpatialGrid(grid, ray);
+    expect(hit?.cell.gridPos).toEqual([0, 0, 0]);
+    expect(hit?.point.z).toBeCloseTo(0.9);
+    expect(hit?.distance).toBeCloseTo(5.9);
+  });
+
+  it("walks past empty cells to reach an occupied one", () => {
+    const grid = makeTestGrid();
+    const ray = new THREE.Ray(new THREE.Vector3(3.2, 3.2, 12), new THREE.Vector3(0, 0, -1));
+    expect(raycastSpatialGrid(grid, ray)?.cell.gridPos).toEqual([1, 1, 1]);
+  });
+
+  it("returns null for misses and hits beyond maxDistance", () => {
+    const grid = makeTestGrid();
+    const miss = new THREE.Ray(new THREE.Vector3(9, 9, -5), new THREE.Vector3(0, 0, 1));
+    expect(raycastSpatialGrid(grid, miss)).toBeNull();
+
+    const ray = new THREE.Ray(new THREE.Vector3(1.2, 1.2, -5), new THREE.Vector3(0, 0, 1));
+    expect(raycastSpatialGrid(grid, ray, 5)).toBeNull();
+  });
+});
+
 // ---------------------------------------------------------------------------
 // serializeSpatialGridForLLM
 // ---------------------------------------------------------------------------
@@ -397,6 +440,181 @@ describe("serializeSpatialGridForLLM", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Octree index
+// ---------------------------------------------------------------------------
+
+describe("buildSpatialIndex (octree)", () => {
+  const OCTREE_OPTIONS = {
+    type: "octree" as const,
+    cropYFraction: [0, 0] as [number, number],
+    octree: { maxDepth: 4, maxSplatsPerNode: 50, maxColorVariance: 0.02, minSplatsToSplit: 8 },
+  };
+
+  it("defaults to the uniform grid", () => {
+    const index = buildSpatialIndex(makeFakeSplatMesh(makeClusterSplats()), {
+      cropYFraction: [0, 0],
+    });
+    expect(isOctreeIndex(index)).toBe(false);
+  });
+
+  it("subdivides dense regions deeper than sparse ones and keeps every splat", () => {
+    const index = buildSpatialIndex(makeFakeSplatMesh(makeClusterSplats()), OCTREE_OPTIONS);
+    if (!isOctreeIndex(index)) throw new Error("expected octree");
+
+    const leaves = Array.from(index.cells.values());
+    const total = leaves.reduce((sum, cell) => sum + cell.splatCount, 0);
+    expect(total).toBe(236);
+    expect(new Set(leaves.flatMap((cell) => cell.splatIndices)).size).toBe(236);
+
+    const dense = getCellAtWorldPos(index, new THREE.Vector3(1, 1, 1))!;
+    const sparse = getCellAtWorldPos(index, new THREE.Vector3(6.5, 6.5, 6.5))!;
+    expect(dense.depth!).toBeGreaterThan(sparse.depth!);
+    expect(index.cells.get(octreeKey(dense.depth!, ...dense.gridPos))).toBe(dense);
+  });
+
+  it("subdivides small nodes when their color variance is high", () => {
+    const splats = makeClusterSplats().filter((splat) => splat.position[0] > 4);
+    const uniform = buildSpatialIndex(makeFakeSplatMesh(splats), OCTREE_OPTIONS);
+    const mixed = buildSpatialIndex(
+      makeFakeSplatMesh(
+        splats.map((splat, i) => ({ ...splat, color: i % 2 ? [1, 1, 1] : [0, 0, 0] }))
+      ),
+      OCTREE_OPTIONS
+    );
+    expect(mixed.cells.size).toBeGreaterThan(uniform.cells.size);
+  });
+
+  it("answers point and neighbor queries", () => {
+    const index = buildSpatialIndex(makeFakeSplatMesh(makeClusterSplats()), OCTREE_OPTIONS);
+
+    const outside = getCellAtWorldPos(index, new THREE.Vector3(-5, -5, -5));
+    expect(outside).not.toBeNull();
+    expect(outside!.worldBounds.min.x).toBeLessThan(2);
+
+    const empty = getCellAtWorldPos(index, new THREE.Vector3(6, 1, 1));
+    expect(empty).not.toBeNull();
+
+    const cell = getCellAtWorldPos(index, new THREE.Vector3(1, 1, 1))!;
+    expect(getNeighborCells(index, cell, 0)).toEqual([cell]);
+    const neighbors = getNeighborCells(index, cell, 1);
+    expect(neighbors).toContain(cell);
+    expect(neighbors.length).toBeGreaterThan(1);
+  });
+
+  it("serializes under the byte budget by summarizing coarse nodes", () => {
+    const index = buildSpatialIndex(makeFakeSplatMesh(makeClusterSplats()), OCTREE_OPTIONS);
+
+    const full = JSON.parse(serializeSpatialGridForLLM(index, { minSplats: 1, maxBytes: 1e6 }));
+    expect(full.type).toBe("octree");
+    expect(full.nodes).toHaveLength(index.cells.size);
+    expect(full.nodes.some((node: { sum?: number }) => node.sum)).toBe(false);
+
+    const json = serializeSpatialGridForLLM(index, { minSplats: 1, maxBytes: 900 });
+    expect(json.length).toBeLessThanOrEqual(900);
+    const parsed = JSON.parse(json);
+    expect(parsed.nodes.some((node: { sum?: number }) => node.sum === 1)).toBe(true);
+    const covered = parsed.nodes.reduce((sum: number, node: { n: number }) => sum + node.n, 0);
+    expect(covered).toBe(236);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Grid builders (main thread and worker)
+// ---------------------------------------------------------------------------
+
+type GridBuilder = (
+  mesh: SplatMesh,
+  options: Partial<SpatialIndexOptions>,
+  onProgress?: SpatialIndexProgress
+) => Promise<SpatialGrid>;
+
+const GRID_BUILDERS: Array<[string, GridBuilder]> = [
+  ["sync", async (mesh, options) => buildSpatialGrid(mesh, options)],
+  [
+    "worker",
+    (mesh, options, onProgress) => {
+      vi.stubGlobal("Worker", InProcessWorker);
+      return buildSpatialGridInWorker(mesh, options, onProgress).then((result) => result.grid);
+    },
+  ],
+];
+
+const GRID_OPTIONS: Partial<SpatialIndexOptions> = {
+  resolution: [4, 4, 4],
+  cropYFraction: [0, 0],
+};
+
+describe.each(GRID_BUILDERS)("grid builder (%s)", (_name, build) => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("indexes every splat into occupied cells", async () => {
+    const grid = await build(makeFakeSplatMesh(makeClusterSplats()), GRID_OPTIONS);
+    const total = Array.from(grid.cells.values()).reduce((sum, cell) => sum + cell.splatCount, 0);
+    expect(total).toBe(236);
+    expect(grid.cells.get(gridKey(0, 0, 0))?.splatCount).toBe(216);
+    expect(getCellAtWorldPos(grid, new THREE.Vector3(1, 1, 1))?.gridPos).toEqual([0, 0, 0]);
+  });
+
+  it("finds neighbors and serializes for the LLM", async () => {
+    const grid = await build(makeFakeSplatMesh(makeClusterSplats()), GRID_OPTIONS);
+    const cell = getCellAtWorldPos(grid, new THREE.Vector3(6, 6, 6))!;
+    expect(getNeighborCells(grid, cell, 1).map((c) => gridKey(...c.gridPos)).sort()).toEqual(
+      Array.from(grid.cells.keys()).filter((key) => key !== "0,0,0").sort()
+    );
+    const parsed = JSON.parse(serializeSpatialGridForLLM(grid, { minSplats: 1 }));
+    expect(parsed.cells).toHaveLength(grid.cells.size);
+  });
+});
+
+describe("buildSpatialGridInWorker", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("matches the synchronous builder bit for bit", async () => {
+    const matrixWorld = new THREE.Matrix4().compose(
+      new THREE.Vector3(0.3, -1.7, 2.1),
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(Math.PI, 0.4, 0.1)),
+      new THREE.Vector3(1.3, 1.3, 1.3)
+    );
+    const splats = makeClusterSplats();
+    const sync = buildSpatialGrid(makeFakeSplatMesh(splats, matrixWorld));
+    vi.stubGlobal("Worker", InProcessWorker);
+    const { grid: viaWorker, arrays } = await buildSpatialGridInWorker(
+      makeFakeSplatMesh(splats, matrixWorld)
+    );
+    expect(arrays.count).toBe(splats.length);
+    expect(arrays.centers.length).toBe(splats.length * 3);
+
+    expect(serializeSpatialGrid(viaWorker)).toStrictEqual(serializeSpatialGrid(sync));
+    expect(serializeSpatialGridForLLM(viaWorker, { minSplats: 1 })).toBe(
+      serializeSpatialGridForLLM(sync, { minSplats: 1 })
+    );
+  });
+
+  it("reports progress through to completion", async () => {
+    vi.stubGlobal("Worker", InProcessWorker);
+    const progress: Array<[number, number]> = [];
+    await buildSpatialGridInWorker(makeFakeSplatMesh(makeClusterSplats()), GRID_OPTIONS, (p, t) =>
+      progress.push([p, t])
+    );
+    expect(progress[0]).toEqual([0, 236]);
+    expect(progress[progress.length - 1]).toEqual([236, 236]);
+  });
+
+  it("falls back to the main thread without Worker support", async () => {
+    const { grid, arrays } = await buildSpatialGridInWorker(
+      makeFakeSplatMesh(makeClusterSplats()),
+      GRID_OPTIONS
+    );
+    expect(grid.cells.size).toBeGreaterThan(0);
+    expect(arrays.count).toBe(236);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -449,3 +667,73 @@ function makeCell(
     splatIndices: Array.from({ length: splatCount }, (_, i) => i),
   };
 }
+
+type FakeSplat = { position: [number, number, number]; color: [number, number, number] };
+
+/** Dense 6x6x6 red cluster near the origin plus a sparse 20-splat blue patch. */
+function makeClusterSplats(): FakeSplat[] {
+  const splats: FakeSplat[] = [];
+  for (let x = 0; x < 6; x += 1) {
+    for (let y = 0; y < 6; y += 1) {
+      for (let z = 0; z < 6; z += 1) {
+        splats.push({
+          position: [0.5 + x * 0.25, 0.5 + y * 0.25, 0.5 + z * 0.25],
+          color: [0.8, 0.1, 0.1],
+        });
+      }
+    }
+  }
+  for (let i = 0; i < 20; i += 1) {
+    splats.push({
+      position: [5 + (i % 5) * 0.6, 5 + Math.floor(i / 5) * 0.6, 6 + (i % 2) * 0.5],
+      color: [0.1, 0.2, 0.9],
+    });
+  }
+  return splats;
+}
+
+/** Runs the worker entry point in-process, cloning and transferring like postMessage. */
+class InProcessWorker {
+  onmessage: ((event: { data: SpatialGridWorkerMessage }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+
+  postMessage(request: SpatialGridWorkerRequest, transfer: Transferable[] = []) {
+    const cloned = structuredClone(request, { transfer });
+    queueMicrotask(() =>
+      handleSpatialGridWorkerRequest(cloned, (message, replyTransfer = []) => {
+        this.onmessage?.({ data: structuredClone(message, { transfer: replyTransfer }) });
+      })
+    );
+  }
+
+  terminate() {}
+}
+
+function makeFakeSplatMesh(splats: FakeSplat[], matrixWorld?: THREE.Matrix4): SplatMesh {
+  return {
+    matrixWorld,
+    getBoundingBox: () =>
+      new THREE.Box3(new THREE.Vector3(0, 0, 0), new THREE.Vector3(8, 8, 8)),
+    forEachSplat: (
+      callback: (
+        index: number,
+        center: THREE.Vector3,
+        scales: THREE.Vector3,
+        quaternion: THREE.Quaternion,
+        opacity: number,
+        color: THREE.Color
+      ) => void
+    ) => {
+      splats.forEach((splat, index) => {
+        callback(
+          index,
+          new THREE.Vector3(...splat.position),
+          new THREE.Vector3(0.01, 0.01, 0.01),
+          new THREE.Quaternion(),
+          1,
+          new THREE.Color(...splat.color)
+        );
+      });
+    },
+  } as unknown as SplatMesh;
+}
@@ -0,0 +1,143 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import type { SplatArrays } from "../src/spatial-index";
+import { gridKey } from "../src/spatial-index";
+import {
+  computePrincipalAxes,
+  createSurfaceSampler,
+  estimateSurfaceNormal,
+} from "../src/surface";
+import type { SpatialGrid, VoxelCell } from "../src/types";
+
+describe("estimateSurfaceNormal", () => {
+  it("returns the normal of a tilted plane", () => {
+    const normal = new THREE.Vector3(1, 2, 0).normalize();
+    const points = makePlane(normal, new THREE.Vector3(0, 3, 0));
+
+    const estimate = estimateSurfaceNormal(points, new THREE.Vector3(0, 1, 0));
+    expect(estimate).not.toBeNull();
+    expect(estimate!.dot(normal)).toBeCloseTo(1, 5);
+  });
+
+  it("flips the normal to face the given direction", () => {
+    const normal = new THREE.Vector3(0, 1, 0);
+    const points = makePlane(normal, new THREE.Vector3());
+
+    expect(estimateSurfaceNormal(points, new THREE.Vector3(0, -1, 0))!.y).toBeCloseTo(-1, 5);
+    expect(estimateSurfaceNormal(points, new THREE.Vector3(0, 1, 0))!.y).toBeCloseTo(1, 5);
+  });
+
+  it("returns null for too few, collinear or blob-like points", () => {
+    const line = Array.from({ length: 10 }, (_, i) => new THREE.Vector3(i, i, 0));
+    expect(estimateSurfaceNormal(line)).toBeNull();
+
+    const few = makePlane(new THREE.Vector3(0, 1, 0), new THREE.Vector3()).slice(0, 5);
+    expect(estimateSurfaceNormal(few)).toBeNull();
+
+    const cube: THREE.Vector3[] = [];
+    for (let i = 0; i < 27; i += 1) {
+      cube.push(new THREE.Vector3(i % 3, Math.floor(i / 3) % 3, Math.floor(i / 9)));
+    }
+    expect(estimateSurfaceNormal(cube)).toBeNull();
+  });
+});
+
+describe("computePrincipalAxes", () => {
+  it("orders axes by variance around the centroid", () => {
+    const points = [
+      new THREE.Vector3(-4, 0, 0),
+      new THREE.Vector3(4, 0, 0),
+      new THREE.Vector3(0, -1, 0),
+      new THREE.Vector3(0, 1, 0),
+      new THREE.Vector3(0, 0, 0),
+    ];
+    const { centroid, axes, variances } = computePrincipalAxes(points);
+
+    expect(centroid.length()).toBeCloseTo(0);
+    expect(Math.abs(axes[0].x)).toBeCloseTo(1);
+    expect(Math.abs(axes[1].y)).toBeCloseTo(1);
+    expect(variances[0]).toBeGreaterThan(variances[1]);
+    expect(variances[2]).toBeCloseTo(0);
+  });
+});
+
+describe("createSurfaceSampler", () => {
+  it("gathers world-space centers near a point and fits their plane", () => {
+    // A 5x5 floor at local y=0, lifted to y=2 by the mesh transform.
+    const locals: number[] = [];
+    for (let x = 0; x < 5; x += 1) {
+      for (let z = 0; z < 5; z += 1) {
+        locals.push(x * 0.25, 0, z * 0.25);
+      }
+    }
+    const arrays = makeArrays(locals);
+    const grid = makeGrid([...arrays.indices]);
+    const matrixWorld = new THREE.Matrix4().makeTranslation(0, 2, 0);
+    const sampler = createSurfaceSampler(grid, arrays, matrixWorld);
+
+    const point = new THREE.Vector3(0.5, 2, 0.5);
+    const near = sampler.centersNear(point, 0.3);
+    expect(near.length).toBeGreaterThan(0);
+    expect(near.every((center) => center.y === 2 && center.distanceTo(point) <= 0.3)).toBe(true);
+    expect(sampler.centersNear(point, 10, 4)).toHaveLength(4);
+
+    const normal = sampler.normalAt(point, new THREE.Vector3(0.5, 5, 0.5));
+    expect(normal?.y).toBeCloseTo(1, 5);
+    expect(sampler.centersNear(new THREE.Vector3(50, 50, 50))).toEqual([]);
+  });
+
+  it("skips grid indices with no matching splat slot", () => {
+    const arrays = makeArrays([0, 0, 0, 0.1, 0, 0]);
+    const grid = makeGrid([0, 1, 99]);
+    const sampler = createSurfaceSampler(grid, arrays, new THREE.Matrix4());
+
+    expect(sampler.centersNear(new THREE.Vector3(0, 0, 0), 1)).toHaveLength(2);
+  });
+});
+
+function makePlane(normal: THREE.Vector3, origin: THREE.Vector3): THREE.Vector3[] {
+  const tangent = new THREE.Vector3(0, 0, 1).cross(normal);
+  if (tangent.lengthSq() < 1e-6) tangent.set(1, 0, 0);
+  tangent.normalize();
+  const bitangent = normal.clone().cross(tangent).normalize();
+  const points: THREE.Vector3[] = [];
+  for (let u = -2; u <= 2; u += 1) {
+    for (let v = -2; v <= 2; v += 1) {
+      points.push(
+        origin.clone().addScaledVector(tangent, u * 0.3).addScaledVector(bitangent, v * 0.2)
+      );
+    }
+  }
+  return points;
+}
+
+function makeArrays(centers: number[]): SplatArrays {
+  const count = centers.length / 3;
+  return {
+    count,
+    indices: Uint32Array.from({ length: count }, (_, i) => i),
+    centers: Float32Array.from(centers),
+    colors: new Float32Array(count * 3),
+  };
+}
+
+/** Single-cell grid over [-1, 3]^3 whose cell lists `splatIndices`. */
+function makeGrid(splatIndices: number[]): SpatialGrid {
+  const worldBounds = new THREE.Box3(new THREE.Vector3(-1, -1, -1), new THREE.Vector3(3, 3, 3));
+  const cell: VoxelCell = {
+    gridPos: [0, 0, 0],
+    worldCenter: new THREE.Vector3(1, 1, 1),
+    worldBounds: worldBounds.clone(),
+    splatCount: splatIndices.length,
+    avgColor: new THREE.Color(0.5, 0.5, 0.5),
+    colorVariance: 0,
+    density: splatIndices.length,
+    splatIndices,
+  };
+  return {
+    resolution: [1, 1, 1],
+    worldBounds,
+    cellSize: new THREE.Vector3(4, 4, 4),
+    cells: new Map([[gridKey(0, 0, 0), cell]]),
+  };
+}
@@ -0,0 +1,82 @@
+import * as THREE from "three";
+import { describe, expect, it, vi } from "vitest";
+import type { EditOperation, SDFShapeConfig } from "../src/types";
+
+vi.mock("@sparkjsdev/spark", async () => {
+  const { Object3D } = await import("three");
+
+  class SparkRenderer extends Object3D {}
+  class SplatMesh extends Object3D {}
+
+  return { SparkRenderer, SplatMesh };
+});
+
+const { buildEditVolumeHelper } = await import("../src/viewer");
+
+function op(action: EditOperation["action"], shapes: EditOperation["shapes"], softEdge = 0.2) {
+  return { action, blendMode: "MULTIPLY", softEdge, shapes } as EditOperation;
+}
+
+function meshes(group: THREE.Group | null): THREE.Mesh[] {
+  return (group?.children ?? []) as THREE.Mesh[];
+}
+
+function boundingSize(mesh: THREE.Mesh): THREE.Vector3 {
+  mesh.geometry.computeBoundingBox();
+  return mesh.geometry.boundingBox!.getSize(new THREE.Vector3());
+}
+
+function volumeSize(shape: SDFShapeConfig): THREE.Vector3 {
+  return boundingSize(meshes(buildEditVolumeHelper("e", op("recolor", [shape], 0), shape, 10))[0]!);
+}
+
+describe("buildEditVolumeHelper", () => {
+  it("draws a volume and a softEdge shell grown by softEdge/2, colored by action", () => {
+    const sphere: SDFShapeConfig = { type: "SPHERE", position: [1, 2, 3], radius: 0.5 };
+    const group = buildEditVolumeHelper("edit-1", op("delete", [sphere], 0.2), sphere, 10);
+
+    const [volume, shell] = meshes(group);
+    expect(group?.position.toArray()).toEqual([1, 2, 3]);
+    expect(boundingSize(volume!).x).toBeCloseTo(1);
+    expect(boundingSize(shell!).x).toBeCloseTo(1.2);
+    expect(volume!.userData).toEqual({ entryId: "edit-1", role: "volume" });
+    expect((volume!.material as THREE.MeshBasicMaterial).color.getHex()).toBe(0xff4d4d);
+    expect((shell!.material as THREE.MeshBasicMaterial).color.getHex()).toBe(0xff4d4d);
+  });
+
+  it("uses Spark's size semantics for boxes, cylinders and capsules", () => {
+    const box: SDFShapeConfig = { type: "BOX", position: [0, 0, 0], scale: [1, 2, 3] };
+    expect(volumeSize(box).toArray()).toEqual([2, 4, 6]);
+
+    // Cylinder radius comes from `radius`, not scale.x/z.
+    const cylinder: SDFShapeConfig = {
+      type: "CYLINDER",
+      position: [0, 0, 0],
+      scale: [5, 1.5, 5],
+      radius: 0.25,
+    };
+    expect(volumeSize(cylinder).x).toBeCloseTo(0.5);
+    expect(volumeSize(cylinder).y).toBeCloseTo(3);
+
+    const capsule: SDFShapeConfig = {
+      type: "CAPSULE",
+      position: [0, 0, 0],
+      scale: [1, 2, 1],
+      radius: 0.5,
+    };
+    expect(volumeSize(capsule).y).toBeCloseTo(3);
+  });
+
+  it("points the cone along local -Z and skips global ALL shapes", () => {
+    const cone: SDFShapeConfig = { type: "INFINITE_CONE", position: [0, 0, 0], radius: 1 };
+    const [volume] = meshes(buildEditVolumeHelper("e", op("light", [cone]), cone, 4));
+    volume!.geometry.computeBoundingBox();
+    const box = volume!.geometry.boundingBox!;
+    expect(box.max.z).toBeCloseTo(0);
+    expect(box.min.z).toBeCloseTo(-2);
+    expect(box.max.x).toBeCloseTo(2);
+
+    const all: SDFShapeConfig = { type: "ALL", position: [0, 0, 0] };
+    expect(buildEditVolumeHelper("e", op("atmosphere", [all]), all, 4)).toBeNull();
+  });
+});